@@ -0,0 +1,165 @@
+// Builds the bundled spell-check dictionaries served from public/dictionaries.
+//
+// The word list is sorted and front-coded: each line starts with one base-36
+// digit giving how many leading characters it shares with the previous word,
+// followed by the remaining suffix. The first line is a header of the form
+// `WWDICT <format> <version> <count>` so the client can verify what it loaded.
+//
+// Each locale also publishes its Hunspell affix and stem files (from the
+// dictionary-* packages), so inflections missing from the flat list are still
+// recognised. Only English has a flat list; other locales rely on Hunspell alone.
+//
+// English also gets a unigram frequency table (SUBTLEX-US) used to rank
+// spelling suggestions: a `WWFREQ <format> <count>` header, then one
+// `<word> <count>` line per word, most frequent first.
+//
+// Run with `npm run build:dictionary` (also runs before `dev` and `build`).
+
+import { createHash } from 'node:crypto'
+import { createRequire } from 'node:module'
+import { mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import wordListPath from 'word-list'
+import englishHunspell from 'dictionary-en'
+import spanishHunspell from 'dictionary-es'
+import frenchHunspell from 'dictionary-fr'
+import germanHunspell from 'dictionary-de'
+
+const FORMAT_VERSION = 1
+const MAX_WORD_LENGTH = 25
+const MAX_FREQUENCY_WORDS = 30000
+
+const require = createRequire(import.meta.url)
+
+const rootDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..')
+const outDir = path.join(rootDir, 'public', 'dictionaries')
+
+// Contractions and modern vocabulary the upstream list does not include
+const SUPPLEMENTARY_WORDS = [
+  "don't", "won't", "can't", "isn't", "aren't", "wasn't", "weren't", "haven't", "hasn't", "hadn't",
+  "shouldn't", "wouldn't", "couldn't", "mustn't", "needn't", "daren't", "shan't",
+  "i'm", "you're", "he's", "she's", "it's", "we're", "they're", "you'll", "he'll", "she'll",
+  'covid', 'coronavirus', 'pandemic', 'blockchain', 'cryptocurrency', 'bitcoin', 'ethereum',
+  'tiktok', 'instagram', 'facebook', 'twitter', 'youtube', 'google', 'amazon', 'netflix',
+  'smartphone', 'iphone', 'android', 'wifi', 'bluetooth', 'ai', 'ml', 'iot', 'vr', 'ar',
+  'a', 'i'
+]
+
+function readEnglishWords() {
+  const source = readFileSync(wordListPath, 'utf8')
+  const words = new Set()
+
+  for (const line of [...source.split('\n'), ...SUPPLEMENTARY_WORDS]) {
+    const word = line.trim().toLowerCase()
+    if (word.length > 0 && word.length <= MAX_WORD_LENGTH) {
+      words.add(word)
+    }
+  }
+
+  return Array.from(words).sort()
+}
+
+function readEnglishFrequencies() {
+  const counts = new Map()
+
+  for (const { word, count } of require('subtlex-word-frequencies')) {
+    const lower = word.toLowerCase()
+    if (/^[a-z']+$/.test(lower)) {
+      counts.set(lower, (counts.get(lower) ?? 0) + count)
+    }
+  }
+
+  return Array.from(counts).sort((a, b) => b[1] - a[1]).slice(0, MAX_FREQUENCY_WORDS)
+}
+
+function encodeFrequencies(frequencies) {
+  const lines = [`WWFREQ ${FORMAT_VERSION} ${frequencies.length}`]
+  for (const [word, count] of frequencies) {
+    lines.push(`${word} ${count}`)
+  }
+  return lines.join('\n') + '\n'
+}
+
+function encode(words, version) {
+  const lines = [`WWDICT ${FORMAT_VERSION} ${version} ${words.length}`]
+  let previous = ''
+
+  for (const word of words) {
+    let shared = 0
+    const limit = Math.min(previous.length, word.length, 35)
+    while (shared < limit && previous[shared] === word[shared]) {
+      shared++
+    }
+    lines.push(shared.toString(36) + word.slice(shared))
+    previous = word
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+const LOCALES = {
+  'en-US': { hunspell: englishHunspell, readWords: readEnglishWords, readFrequencies: readEnglishFrequencies },
+  'es-ES': { hunspell: spanishHunspell, readWords: () => [] },
+  'fr-FR': { hunspell: frenchHunspell, readWords: () => [] },
+  'de-DE': { hunspell: germanHunspell, readWords: () => [] }
+}
+
+function buildLocale(locale, { hunspell, readWords, readFrequencies }) {
+  const words = readWords()
+  const frequencies = readFrequencies ? encodeFrequencies(readFrequencies()) : null
+  const digest = createHash('sha256')
+    .update(words.join('\n'))
+    .update(hunspell.aff)
+    .update(hunspell.dic)
+    .update(frequencies ?? '')
+    .digest('hex')
+    .slice(0, 10)
+  const version = `${FORMAT_VERSION}.${digest}`
+  const data = encode(words, version)
+  const file = `${locale}.${digest}.dict`
+  const affFile = `${locale}.${digest}.aff`
+  const dicFile = `${locale}.${digest}.dic`
+
+  writeFileSync(path.join(outDir, file), data)
+  writeFileSync(path.join(outDir, affFile), hunspell.aff)
+  writeFileSync(path.join(outDir, dicFile), hunspell.dic)
+
+  const frequencyFile = frequencies ? `${locale}.${digest}.freq` : undefined
+  if (frequencyFile) {
+    writeFileSync(path.join(outDir, frequencyFile), frequencies)
+  }
+
+  console.log(`Built ${locale} dictionary ${version}: ${words.length} words, ${Buffer.byteLength(data)} bytes`)
+
+  return {
+    version,
+    file,
+    words: words.length,
+    bytes: Buffer.byteLength(data),
+    hunspell: { aff: affFile, dic: dicFile },
+    frequencies: frequencyFile
+  }
+}
+
+mkdirSync(outDir, { recursive: true })
+
+const dictionaries = {}
+for (const [locale, source] of Object.entries(LOCALES)) {
+  dictionaries[locale] = buildLocale(locale, source)
+}
+
+// Drop assets from previous builds
+const current = new Set(
+  Object.values(dictionaries).flatMap(entry => [entry.file, entry.hunspell.aff, entry.hunspell.dic, entry.frequencies])
+)
+for (const existing of readdirSync(outDir)) {
+  if (existing !== 'manifest.json' && !current.has(existing)) {
+    rmSync(path.join(outDir, existing))
+  }
+}
+
+writeFileSync(
+  path.join(outDir, 'manifest.json'),
+  JSON.stringify({ formatVersion: FORMAT_VERSION, dictionaries }, null, 2) + '\n'
+)
@@ -42,6 +42,8 @@ describe('App', () => {
       clearUserData: vi.fn(),
       loadDrafts: vi.fn().mockResolvedValue(undefined),
       loadSentMessages: vi.fn().mockResolvedValue(undefined),
+      loadUserDictionary: vi.fn().mockResolvedValue(undefined),
+      loadMutedRules: vi.fn().mockResolvedValue(undefined),
       createNewDraft: vi.fn().mockResolvedValue('new-draft-id'),
       setActiveDraft: vi.fn(),
       setActiveSent: vi.fn(),
@@ -131,6 +133,8 @@ describe('App', () => {
         clearAllData: vi.fn(),
         loadDrafts: mockLoadDrafts,
         loadSentMessages: mockLoadSentMessages,
+        loadUserDictionary: vi.fn().mockResolvedValue(undefined),
+        loadMutedRules: vi.fn().mockResolvedValue(undefined),
         createNewDraft: mockCreateNewDraft,
         setActiveDraft: vi.fn(),
         setActiveSent: vi.fn(),
@@ -172,6 +176,8 @@ describe('App', () => {
         clearUserData: mockClearUserData,
         loadDrafts: vi.fn().mockResolvedValue(undefined),
         loadSentMessages: vi.fn().mockResolvedValue(undefined),
+        loadUserDictionary: vi.fn().mockResolvedValue(undefined),
+        loadMutedRules: vi.fn().mockResolvedValue(undefined),
         createNewDraft: vi.fn().mockResolvedValue('new-draft-id'),
         setActiveDraft: vi.fn(),
         setActiveSent: vi.fn(),
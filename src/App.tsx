@@ -5,10 +5,13 @@ import SidebarDraftList from "./components/SidebarDraftList"
 import SidebarSentList from "./components/SidebarSentList"
 import GrammarSidebar from "./components/GrammarSidebar"
 import AppLayout from "./components/AppLayout"
+import DictionarySettings from "./components/DictionarySettings"
 
 
 
 import { useStore } from "./store/useStore"
+import type { LanguageCode } from "./services/languages"
+import type { RichDocument } from "./services/richDocument"
 import { useAuth, authHelpers } from "./hooks/useAuth"
 import { supabase } from "./lib/supabase"
 import { EmailInput } from './components/EmailInput'
@@ -19,10 +22,12 @@ function App() {
   
   const [isLoading, setIsLoading] = useState(false)
   const [editorContent, setEditorContent] = useState("")
+  const [editorRichContent, setEditorRichContent] = useState<RichDocument | undefined>()
   const [editorTitle, setEditorTitle] = useState("Untitled document")
   const [sidebarTab, setSidebarTab] = useState<"drafts" | "sent">("drafts")
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false)
   const [showEmailDialog, setShowEmailDialog] = useState(false)
+  const [showDictionarySettings, setShowDictionarySettings] = useState(false)
   
   // Update state to handle arrays of emails for chips
   const [toRecipients, setToRecipients] = useState<string[]>([])
@@ -50,11 +55,14 @@ function App() {
     getSentById,
     saveDraft,
     updateDraft,
+    setDraftLanguage,
     createNewDraft,
     deleteDraft,
     sendDraft,
     loadDrafts,
     loadSentMessages,
+    loadUserDictionary,
+    loadMutedRules,
     // deleteSentMessage,
     clearUserData,
   } = useStore()
@@ -64,10 +72,12 @@ function App() {
   useEffect(() => {
     if (activeDraft) {
       setEditorContent(activeDraft.content)
+      setEditorRichContent(activeDraft.document)
       setEditorTitle(activeDraft.title)
     } else {
       // Clear editor if no draft is active
       setEditorContent("")
+      setEditorRichContent(undefined)
       setEditorTitle("Untitled document")
     }
   }, [activeDraft])
@@ -241,7 +251,7 @@ function App() {
           if (currentDraft.isLocal) {
             console.log('Persisting local draft with content:', activeDraftId)
             try {
-              await saveDraft(editorTitle, editorContent, activeDraftId)
+              await saveDraft(editorTitle, editorContent, activeDraftId, editorRichContent)
               setHasUnsavedChanges(false)
             } catch (error) {
               console.error('Failed to persist local draft:', error)
@@ -249,13 +259,13 @@ function App() {
             }
           } else {
             console.log('Auto-saving persisted draft with changes:', activeDraftId)
-            await updateDraft(activeDraftId, editorTitle, editorContent)
+            await updateDraft(activeDraftId, editorTitle, editorContent, editorRichContent)
             setHasUnsavedChanges(false)
           }
         }
       }
     }
-  }, [activeDraftId, getDraftById, editorTitle, editorContent, hasUnsavedChanges, deleteDraft, updateDraft, saveDraft])
+  }, [activeDraftId, getDraftById, editorTitle, editorContent, editorRichContent, hasUnsavedChanges, deleteDraft, updateDraft, saveDraft])
 
   const handleNewDraft = useCallback(async () => {
     try {
@@ -282,6 +292,7 @@ function App() {
       const newId = createNewDraft() // Now synchronous - creates local draft
       setEditorTitle("Untitled document")
       setEditorContent("")
+      setEditorRichContent(undefined)
       setActiveDraft(newId)
       setActiveSent("")
       setHasUnsavedChanges(false)
@@ -307,6 +318,10 @@ function App() {
           console.log('Step 2: Loading sent messages only...')
           await loadSentMessages()
           console.log('Step 2: Sent messages loaded successfully')
+
+          // Personal dictionary and muted rule failures are logged inside the store and never block the editor
+          await loadUserDictionary()
+          await loadMutedRules()
           
           console.log('All data loaded successfully')
           
@@ -327,7 +342,7 @@ function App() {
       }
       loadData()
     }
-  }, [user, authLoading, activeDraftId, handleNewDraft, loadDrafts, loadSentMessages])
+  }, [user, authLoading, activeDraftId, handleNewDraft, loadDrafts, loadSentMessages, loadUserDictionary, loadMutedRules])
 
   // Handle browser beforeunload to persist local drafts
   useEffect(() => {
@@ -353,6 +368,7 @@ function App() {
       }
       // Reset local state
       setEditorContent("")
+      setEditorRichContent(undefined)
       setEditorTitle("Untitled document")
       setSidebarTab("drafts")
       setHasUnsavedChanges(false)
@@ -387,6 +403,7 @@ function App() {
     if (draft) {
       setEditorTitle(draft.title)
       setEditorContent(draft.content)
+      setEditorRichContent(draft.document)
       setActiveDraft(id)
       setActiveSent("")
       setHasUnsavedChanges(false)
@@ -406,6 +423,7 @@ function App() {
     if (sent) {
       setEditorTitle(sent.title)
       setEditorContent(sent.content)
+      setEditorRichContent(sent.document)
       setActiveSent(id)
       setActiveDraft("")
       setHasUnsavedChanges(false)
@@ -418,6 +436,7 @@ function App() {
       if (activeDraftId === id) {
         setEditorTitle("Untitled document")
         setEditorContent("")
+        setEditorRichContent(undefined)
         setActiveDraft("")
         setHasUnsavedChanges(false)
       }
@@ -429,13 +448,13 @@ function App() {
   const autoSave = useCallback(async () => {
     if (activeDraftId && hasUnsavedChanges) {
       try {
-        await updateDraft(activeDraftId, editorTitle, editorContent)
+        await updateDraft(activeDraftId, editorTitle, editorContent, editorRichContent)
         setHasUnsavedChanges(false)
       } catch (error) {
         console.error('Error auto-saving draft:', error)
       }
     }
-  }, [activeDraftId, hasUnsavedChanges, editorTitle, editorContent, updateDraft])
+  }, [activeDraftId, hasUnsavedChanges, editorTitle, editorContent, editorRichContent, updateDraft])
 
   useEffect(() => {
     if (hasUnsavedChanges && activeDraftId) {
@@ -454,8 +473,9 @@ function App() {
     }
   }, [autoSave, hasUnsavedChanges, activeDraftId])
 
-  const handleContentChange = (content: string) => {
+  const handleContentChange = (content: string, richContent: RichDocument) => {
     setEditorContent(content)
+    setEditorRichContent(richContent)
     setHasUnsavedChanges(true)
   }
 
@@ -464,6 +484,21 @@ function App() {
     setHasUnsavedChanges(true)
   }
 
+  const handleLanguageChange = async (language: LanguageCode) => {
+    if (!activeDraftId) return
+
+    try {
+      // Save pending edits first: updating the draft reloads the editor from the store
+      if (hasUnsavedChanges) {
+        await updateDraft(activeDraftId, editorTitle, editorContent, editorRichContent)
+        setHasUnsavedChanges(false)
+      }
+      await setDraftLanguage(activeDraftId, language)
+    } catch (error) {
+      console.error('Failed to change draft language:', error)
+    }
+  }
+
   const handleSend = async (recipientEmail?: string, ccRecipients?: string, bccRecipients?: string, subject?: string) => {
     if (!activeDraft || !activeDraftId) return
 
@@ -479,6 +514,7 @@ function App() {
       await sendDraft(activeDraftId, recipientEmail, ccRecipients, bccRecipients)
       setEditorTitle("Untitled document")
       setEditorContent("")
+      setEditorRichContent(undefined)
       setActiveDraft("")
       setHasUnsavedChanges(false)
       setShowEmailDialog(false)
@@ -536,7 +572,7 @@ function App() {
 
   const handleSave = async () => {
     try {
-      const draftId = await saveDraft(editorTitle, editorContent, activeDraftId || undefined)
+      const draftId = await saveDraft(editorTitle, editorContent, activeDraftId || undefined, editorRichContent)
       if (!activeDraftId) {
         setActiveDraft(draftId)
       }
@@ -633,6 +669,7 @@ function App() {
       <AppLayout
         user={user}
         onLogout={handleLogout}
+        onOpenSettings={() => setShowDictionarySettings(true)}
         sidebar={
           <>
             {/* Drafts/Sent tabs */}
@@ -680,11 +717,14 @@ function App() {
         editor={
           <RichTextEditor
             text={editorContent}
+            richContent={editorRichContent}
             title={editorTitle}
             onChange={handleContentChange}
             onTitleChange={handleTitleChange}
             onSave={handleSave}
             onSendEmail={handleSendEmail}
+            language={activeDraft?.language}
+            onLanguageChange={handleLanguageChange}
             readOnly={!!activeSentId}
             metaInfo={activeSentId ? (() => {
               const sentMessage = getSentById(activeSentId)
@@ -706,6 +746,11 @@ function App() {
         rightSidebar={<GrammarSidebar content={editorContent} />}
       />
 
+      {/* Personal Dictionary Settings */}
+      {showDictionarySettings && (
+        <DictionarySettings onClose={() => setShowDictionarySettings(false)} />
+      )}
+
       {/* Email Dialog Modal */}
       {showEmailDialog && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
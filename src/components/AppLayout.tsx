@@ -1,6 +1,6 @@
 "use client"
 import type { ReactNode } from "react"
-import { LogOut } from "lucide-react"
+import { BookOpen, LogOut } from "lucide-react"
 
 
 interface AppLayoutProps {
@@ -11,6 +11,7 @@ interface AppLayoutProps {
     email: string
   }
   onLogout?: () => void
+  onOpenSettings?: () => void
   _editorContent?: string
   className?: string
 }
@@ -21,6 +22,7 @@ export function AppLayout({
   rightSidebar,
   user,
   onLogout,
+  onOpenSettings,
   _editorContent = "",
   className = "",
 }: AppLayoutProps) {
@@ -39,16 +41,27 @@ export function AppLayout({
           {/* Sidebar Content - Flexible area */}
           <div className="flex-1 overflow-y-auto">{sidebar}</div>
 
-          {/* Sidebar Footer with Logout */}
-          {onLogout && (
-            <div className="p-6 border-t border-gray-100 dark:border-gray-700">
-              <button
-                onClick={onLogout}
-                className="w-full flex items-center justify-center space-x-2 px-4 py-2 text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors duration-200"
-              >
-                <LogOut className="w-4 h-4" />
-                <span>Logout</span>
-              </button>
+          {/* Sidebar Footer with Settings and Logout */}
+          {(onLogout || onOpenSettings) && (
+            <div className="p-6 border-t border-gray-100 dark:border-gray-700 space-y-2">
+              {onOpenSettings && (
+                <button
+                  onClick={onOpenSettings}
+                  className="w-full flex items-center justify-center space-x-2 px-4 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-lg transition-colors duration-200"
+                >
+                  <BookOpen className="w-4 h-4" />
+                  <span>Personal dictionary</span>
+                </button>
+              )}
+              {onLogout && (
+                <button
+                  onClick={onLogout}
+                  className="w-full flex items-center justify-center space-x-2 px-4 py-2 text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors duration-200"
+                >
+                  <LogOut className="w-4 h-4" />
+                  <span>Logout</span>
+                </button>
+              )}
             </div>
           )}
         </aside>
@@ -0,0 +1,105 @@
+"use client"
+import { useState } from "react"
+import { X } from "lucide-react"
+import { diffRows, type BulkFixPlan, type DiffPart } from "../services/bulkFix"
+
+interface BulkFixPreviewProps {
+  plan: BulkFixPlan
+  onApply: (plan: BulkFixPlan) => Promise<void>
+  onClose: () => void
+}
+
+const renderParts = (parts: DiffPart[], changedClassName: string) =>
+  parts.map(({ text, changed }, index) => changed ? (
+    <mark key={index} className={`${changedClassName} rounded px-0.5`}>{text}</mark>
+  ) : (
+    <span key={index}>{text}</span>
+  ))
+
+export function BulkFixPreview({ plan, onApply, onClose }: BulkFixPreviewProps) {
+  const [isApplying, setIsApplying] = useState(false)
+  const [error, setError] = useState("")
+  const rows = diffRows(plan)
+  const count = plan.edits.length
+
+  const handleApply = async () => {
+    try {
+      setError("")
+      setIsApplying(true)
+      await onApply(plan)
+      onClose()
+    } catch {
+      setError("Could not apply the fixes. Your draft was not changed.")
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div role="dialog" aria-label="Fix all preview" className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Fix all</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {count} {count === 1 ? "fix" : "fixes"}
+              {plan.conflicts.length > 0 && `, ${plan.conflicts.length} skipped because they overlap another fix`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-white transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Side-by-side diff */}
+        <div className="p-6 overflow-y-auto">
+          <table className="w-full table-fixed text-sm text-gray-800 dark:text-gray-200">
+            <thead>
+              <tr className="text-left text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                <th className="pb-2 pr-3 font-medium">Before</th>
+                <th className="pb-2 pl-3 font-medium">After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, index) => (
+                <tr key={index} className="align-top border-t border-gray-100 dark:border-gray-700">
+                  <td className="py-2 pr-3 whitespace-pre-wrap break-words">
+                    {renderParts(row.before, "bg-red-100 text-red-800 line-through dark:bg-red-900/40 dark:text-red-200")}
+                  </td>
+                  <td className="py-2 pl-3 whitespace-pre-wrap break-words">
+                    {renderParts(row.after, "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200")}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 border-t border-gray-200 dark:border-gray-700 flex items-center justify-end space-x-3">
+          {error && <p role="alert" className="mr-auto text-sm text-red-600 dark:text-red-400">{error}</p>}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium rounded-lg border border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={isApplying || count === 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 dark:disabled:bg-gray-600 rounded-lg transition-colors"
+          >
+            {isApplying ? "Applying..." : `Apply ${count} ${count === 1 ? "fix" : "fixes"}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default BulkFixPreview
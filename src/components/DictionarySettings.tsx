@@ -0,0 +1,155 @@
+"use client"
+import { useState } from "react"
+import { BookOpen, Download, EyeOff, Plus, X } from "lucide-react"
+import { useStore } from "../store/useStore"
+import type { DictionaryEntryKind } from "../lib/supabase"
+
+interface DictionarySettingsProps {
+  onClose: () => void
+}
+
+export function DictionarySettings({ onClose }: DictionarySettingsProps) {
+  const { customDictionary, ignoredWords, addToDictionary, removeDictionaryEntry, exportUserDictionary } = useStore()
+  const [newWord, setNewWord] = useState("")
+  const [error, setError] = useState("")
+
+  const handleAdd = async () => {
+    const word = newWord.trim()
+    if (!word) return
+
+    if (/\s/.test(word)) {
+      setError("Add one word at a time")
+      return
+    }
+
+    try {
+      setError("")
+      await addToDictionary(word)
+      setNewWord("")
+    } catch {
+      setError("Could not save the word. Please try again.")
+    }
+  }
+
+  const handleRemove = async (word: string, kind: DictionaryEntryKind) => {
+    try {
+      setError("")
+      await removeDictionaryEntry(word, kind)
+    } catch {
+      setError("Could not remove the word. Please try again.")
+    }
+  }
+
+  const handleExport = () => {
+    const blob = new Blob([exportUserDictionary()], { type: "text/plain" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = "wordwise-dictionary.txt"
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const renderWordList = (words: string[], kind: DictionaryEntryKind, emptyText: string) => (
+    words.length === 0 ? (
+      <p className="text-xs text-gray-500 dark:text-gray-400">{emptyText}</p>
+    ) : (
+      <ul className="flex flex-wrap gap-2">
+        {words.map((word) => (
+          <li
+            key={word}
+            className="inline-flex items-center px-2 py-1 text-sm text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-700 rounded-md"
+          >
+            {word}
+            <button
+              onClick={() => handleRemove(word, kind)}
+              aria-label={`Remove ${word}`}
+              className="ml-1 text-gray-400 hover:text-red-500 transition-colors"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    )
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Personal Dictionary</h3>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-white transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Add word */}
+          <div>
+            <label htmlFor="dictionary-word" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Add a word
+            </label>
+            <div className="flex space-x-2">
+              <input
+                id="dictionary-word"
+                type="text"
+                value={newWord}
+                onChange={(e) => setNewWord(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+                placeholder="Product names, surnames..."
+                className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400"
+              />
+              <button
+                onClick={handleAdd}
+                disabled={!newWord.trim()}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 dark:disabled:bg-gray-600 rounded-lg transition-colors"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add
+              </button>
+            </div>
+            {error && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+          </div>
+
+          {/* Dictionary words */}
+          <div>
+            <div className="flex items-center space-x-2 mb-2">
+              <BookOpen className="w-4 h-4 text-blue-500" />
+              <h4 className="text-sm font-medium text-gray-900 dark:text-white">Dictionary ({customDictionary.length})</h4>
+            </div>
+            {renderWordList(customDictionary, "dictionary", "Words you add will never be flagged as misspelled.")}
+          </div>
+
+          {/* Ignored words */}
+          <div>
+            <div className="flex items-center space-x-2 mb-2">
+              <EyeOff className="w-4 h-4 text-gray-500" />
+              <h4 className="text-sm font-medium text-gray-900 dark:text-white">Ignored ({ignoredWords.length})</h4>
+            </div>
+            {renderWordList(ignoredWords, "ignore", "Ignored words are not flagged, but are never suggested either.")}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 border-t border-gray-200 dark:border-gray-700 flex justify-end">
+          <button
+            onClick={handleExport}
+            disabled={customDictionary.length === 0}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg border border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export word list
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default DictionarySettings
@@ -0,0 +1,51 @@
+"use client"
+import { Bold, Code, Heading1, Heading2, Italic, Link, List, ListOrdered } from "lucide-react"
+import type { BlockType, Mark } from "../services/richDocument"
+
+interface FormattingToolbarProps {
+  onToggleMark: (mark: Mark) => void
+  onSetBlockType: (type: BlockType) => void
+  onLink: () => void
+  disabled?: boolean
+}
+
+const MARK_BUTTONS: { mark: Mark; label: string; icon: typeof Bold }[] = [
+  { mark: "bold", label: "Bold", icon: Bold },
+  { mark: "italic", label: "Italic", icon: Italic },
+  { mark: "code", label: "Inline code", icon: Code },
+]
+
+const BLOCK_BUTTONS: { type: BlockType; label: string; icon: typeof Bold }[] = [
+  { type: "heading1", label: "Heading", icon: Heading1 },
+  { type: "heading2", label: "Subheading", icon: Heading2 },
+  { type: "bulletItem", label: "Bulleted list", icon: List },
+  { type: "orderedItem", label: "Numbered list", icon: ListOrdered },
+]
+
+const buttonClassName = "p-1.5 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+
+export function FormattingToolbar({ onToggleMark, onSetBlockType, onLink, disabled = false }: FormattingToolbarProps) {
+  // Buttons must not take the focus, or the editor's selection would be lost before the click
+  const keepSelection = (e: React.MouseEvent) => e.preventDefault()
+
+  return (
+    <div role="toolbar" aria-label="Formatting" className="flex items-center space-x-1 px-4 py-2 border-b border-gray-100 dark:border-gray-700">
+      {MARK_BUTTONS.map(({ mark, label, icon: Icon }) => (
+        <button key={mark} type="button" aria-label={label} title={label} disabled={disabled} onMouseDown={keepSelection} onClick={() => onToggleMark(mark)} className={buttonClassName}>
+          <Icon className="w-4 h-4" />
+        </button>
+      ))}
+      <button type="button" aria-label="Link" title="Link" disabled={disabled} onMouseDown={keepSelection} onClick={onLink} className={buttonClassName}>
+        <Link className="w-4 h-4" />
+      </button>
+      <span className="w-px h-5 mx-1 bg-gray-200 dark:bg-gray-600" aria-hidden="true" />
+      {BLOCK_BUTTONS.map(({ type, label, icon: Icon }) => (
+        <button key={type} type="button" aria-label={label} title={label} disabled={disabled} onMouseDown={keepSelection} onClick={() => onSetBlockType(type)} className={buttonClassName}>
+          <Icon className="w-4 h-4" />
+        </button>
+      ))}
+    </div>
+  )
+}
+
+export default FormattingToolbar
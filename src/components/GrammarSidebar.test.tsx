@@ -1,14 +1,53 @@
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, within, waitFor } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { GrammarSidebar } from './GrammarSidebar';
 import { useStore } from '../store/useStore';
 import type { Suggestion } from '../store/useStore';
+import { planBulkFix } from '../services/bulkFix';
+import type { BulkFixFilter } from '../services/bulkFix';
 
 // Mock the useStore hook
 vi.mock('../store/useStore');
 
 const mockApplySuggestion = vi.fn();
 const mockClearGrammarSuggestions = vi.fn();
+const mockAddToDictionary = vi.fn().mockResolvedValue(undefined);
+const mockIgnoreWord = vi.fn().mockResolvedValue(undefined);
+const mockCheckClarityAndTone = vi.fn();
+const mockRewriteTone = vi.fn();
+
+const toneState = {
+  toneAnalysis: null,
+  isCheckingTone: false,
+  toneError: null,
+  selection: null,
+  checkClarityAndTone: mockCheckClarityAndTone,
+  rewriteTone: mockRewriteTone,
+};
+
+const mockDismissSuggestion = vi.fn().mockResolvedValue(undefined);
+const mockSnoozeSuggestion = vi.fn().mockResolvedValue(undefined);
+const mockRestoreSuggestion = vi.fn().mockResolvedValue(undefined);
+const mockMuteRule = vi.fn().mockResolvedValue(undefined);
+const mockUnmuteRule = vi.fn().mockResolvedValue(undefined);
+const mockSetShowDismissed = vi.fn();
+
+const ignoreState = {
+  activeDraftId: null,
+  getDraftById: vi.fn(),
+  mutedRules: [],
+  showDismissed: false,
+  setShowDismissed: mockSetShowDismissed,
+  dismissSuggestion: mockDismissSuggestion,
+  snoozeSuggestion: mockSnoozeSuggestion,
+  restoreSuggestion: mockRestoreSuggestion,
+  muteRule: mockMuteRule,
+  unmuteRule: mockUnmuteRule,
+};
+
+const mockApplyBulkFix = vi.fn().mockResolvedValue(undefined);
+
+const FIX_ALL_TEXT = 'Acme bad text';
 
 const mockSuggestions: Suggestion[] = [
   { 
@@ -22,8 +61,24 @@ const mockSuggestions: Suggestion[] = [
     priority: 2,
     confidence: 0.8
   },
+  {
+    id: '2',
+    type: 'spelling',
+    original: 'Acme',
+    suggestion: 'acne',
+    explanation: 'Misspelled word: "Acme"',
+    position: { start: 0, end: 4 },
+    source: 'local',
+    priority: 1,
+    confidence: 0.9
+  },
 ];
 
+const bulkFixState = {
+  planBulkFix: (filter: BulkFixFilter) => planBulkFix(FIX_ALL_TEXT, mockSuggestions, filter),
+  applyBulkFix: mockApplyBulkFix,
+};
+
 describe('GrammarSidebar', () => {
   beforeEach(() => {
     vi.mocked(useStore).mockReturnValue({
@@ -31,6 +86,11 @@ describe('GrammarSidebar', () => {
       isCheckingGrammar: false,
       applySuggestion: mockApplySuggestion,
       clearGrammarSuggestions: mockClearGrammarSuggestions,
+      addToDictionary: mockAddToDictionary,
+      ignoreWord: mockIgnoreWord,
+      ...toneState,
+      ...ignoreState,
+      ...bulkFixState,
     });
   });
 
@@ -42,10 +102,248 @@ describe('GrammarSidebar', () => {
     expect(screen.getByText('Original: "bad"')).toBeInTheDocument();
 
     // Click the apply button
-    const applyButton = screen.getByText('Apply Suggestion');
+    const applyButton = screen.getAllByText('Apply Suggestion')[0];
     fireEvent.click(applyButton);
 
     // Check that the applySuggestion function was called
-    expect(mockApplySuggestion).toHaveBeenCalledWith('1');
+    expect(mockApplySuggestion).toHaveBeenCalledWith('1', 0);
+  });
+
+  it('should let the user pick one of several alternatives', () => {
+    vi.mocked(useStore).mockReturnValue({
+      grammarSuggestions: [{
+        ...mockSuggestions[1],
+        alternatives: [
+          { text: 'acne', confidence: 0.5 },
+          { text: 'acre', confidence: 0.3 },
+          { text: 'Acme', confidence: 0.1 }
+        ]
+      }],
+      isCheckingGrammar: false,
+      applySuggestion: mockApplySuggestion,
+      clearGrammarSuggestions: mockClearGrammarSuggestions,
+      addToDictionary: mockAddToDictionary,
+      ignoreWord: mockIgnoreWord,
+      ...toneState,
+      ...ignoreState,
+      ...bulkFixState,
+    });
+
+    render(<GrammarSidebar content="Acme has some bad text" />);
+
+    const picker = screen.getByRole('group', { name: 'Alternatives' });
+    // The original word is not offered as its own replacement
+    expect(within(picker).getAllByRole('button').map(button => button.textContent)).toEqual(['acne50%', 'acre30%']);
+    expect(screen.queryByText('Apply Suggestion')).not.toBeInTheDocument();
+
+    fireEvent.click(within(picker).getByText('acre'));
+    expect(mockApplySuggestion).toHaveBeenCalledWith('2', 1);
+  });
+
+  it('should offer dictionary actions on spelling suggestions only', () => {
+    render(<GrammarSidebar content="Acme has some bad text" />);
+
+    expect(screen.getAllByText('Add to dictionary')).toHaveLength(1);
+
+    fireEvent.click(screen.getByText('Add to dictionary'));
+    expect(mockAddToDictionary).toHaveBeenCalledWith('Acme');
+
+    fireEvent.click(screen.getByText('Ignore'));
+    expect(mockIgnoreWord).toHaveBeenCalledWith('Acme');
+  });
+
+  it('should show advisory suggestions without an apply button', () => {
+    vi.mocked(useStore).mockReturnValue({
+      grammarSuggestions: [{
+        ...mockSuggestions[0],
+        id: '3',
+        original: 'was thrown',
+        suggestion: 'was thrown',
+        explanation: 'Passive voice hides who acts.',
+        advisory: true
+      }],
+      isCheckingGrammar: false,
+      applySuggestion: mockApplySuggestion,
+      clearGrammarSuggestions: mockClearGrammarSuggestions,
+      addToDictionary: mockAddToDictionary,
+      ignoreWord: mockIgnoreWord,
+      ...toneState,
+      ...ignoreState,
+      ...bulkFixState,
+    });
+
+    render(<GrammarSidebar content="The ball was thrown." />);
+
+    expect(screen.getByText('Passive voice hides who acts.')).toBeInTheDocument();
+    expect(screen.getByText('Advice')).toBeInTheDocument();
+    expect(screen.queryByText('Apply Suggestion')).not.toBeInTheDocument();
+    expect(screen.queryByText(/Suggested:/)).not.toBeInTheDocument();
+  });
+
+  it('should show the detected tone with its evidence', () => {
+    vi.mocked(useStore).mockReturnValue({
+      grammarSuggestions: [],
+      isCheckingGrammar: false,
+      applySuggestion: mockApplySuggestion,
+      clearGrammarSuggestions: mockClearGrammarSuggestions,
+      addToDictionary: mockAddToDictionary,
+      ignoreWord: mockIgnoreWord,
+      ...toneState,
+      ...ignoreState,
+      ...bulkFixState,
+      toneAnalysis: {
+        overall: 'apologetic',
+        confidence: 0.9,
+        sentences: [{ sentence: 'Sorry again.', tone: 'apologetic', evidence: 'Repeated apology' }]
+      },
+    });
+
+    render(<GrammarSidebar content="Sorry again." />);
+
+    expect(screen.getByText('Tone: Apologetic')).toBeInTheDocument();
+    expect(screen.getByText('Repeated apology')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Detect tone'));
+    expect(mockCheckClarityAndTone).toHaveBeenCalledWith('Sorry again.', 'tone');
+  });
+
+  it('should rewrite the selection in the chosen tone', () => {
+    vi.mocked(useStore).mockReturnValue({
+      grammarSuggestions: [],
+      isCheckingGrammar: false,
+      applySuggestion: mockApplySuggestion,
+      clearGrammarSuggestions: mockClearGrammarSuggestions,
+      addToDictionary: mockAddToDictionary,
+      ignoreWord: mockIgnoreWord,
+      ...toneState,
+      ...ignoreState,
+      ...bulkFixState,
+      selection: { start: 0, end: 5 },
+    });
+
+    render(<GrammarSidebar content="Send it now." />);
+
+    fireEvent.change(screen.getByLabelText('Target tone'), { target: { value: 'formal' } });
+    fireEvent.click(screen.getByText('Rewrite selection'));
+
+    expect(mockRewriteTone).toHaveBeenCalledWith('Send it now.', 'formal');
+  });
+
+  it('should say when clarity checks are rate limited', () => {
+    vi.mocked(useStore).mockReturnValue({
+      grammarSuggestions: [],
+      isCheckingGrammar: false,
+      clarityError: { message: 'Too many checks in a short time', code: 'RATE_LIMITED', retryAfter: 42 },
+      applySuggestion: mockApplySuggestion,
+      clearGrammarSuggestions: mockClearGrammarSuggestions,
+      addToDictionary: mockAddToDictionary,
+      ignoreWord: mockIgnoreWord,
+      ...toneState,
+      ...ignoreState,
+      ...bulkFixState,
+    });
+
+    render(<GrammarSidebar content="Some text." />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Too many checks in a short time. Try again in 42 s.');
+  });
+
+  it('should dismiss, snooze and mute individual suggestions', () => {
+    render(<GrammarSidebar content="Acme has some bad text" />);
+
+    fireEvent.click(screen.getAllByText('Dismiss')[0]);
+    expect(mockDismissSuggestion).toHaveBeenCalledWith('1');
+
+    fireEvent.click(screen.getAllByText('Snooze')[1]);
+    expect(mockSnoozeSuggestion).toHaveBeenCalledWith('2');
+
+    fireEvent.click(screen.getAllByText('Never show this rule')[1]);
+    expect(mockMuteRule).toHaveBeenCalledWith('spelling');
+  });
+
+  describe('fix all', () => {
+    it('should preview the fixes of the chosen type side by side before applying them', async () => {
+      render(<GrammarSidebar content={FIX_ALL_TEXT} />);
+
+      expect(screen.getByText('Fix all (2)')).toBeInTheDocument();
+      fireEvent.change(screen.getByLabelText('Fix all type'), { target: { value: 'grammar' } });
+      fireEvent.click(screen.getByText('Fix all (1)'));
+
+      const preview = screen.getByRole('dialog', { name: 'Fix all preview' });
+      const [, row] = within(preview).getAllByRole('row');
+      const [before, after] = within(row).getAllByRole('cell');
+      expect(before.textContent).toBe('Acme bad text');
+      expect(within(before).getByText('bad').tagName).toBe('MARK');
+      expect(after.textContent).toBe('Acme good text');
+
+      fireEvent.click(within(preview).getByText('Apply 1 fix'));
+      expect(mockApplyBulkFix).toHaveBeenCalledWith(expect.objectContaining({ after: 'Acme good text' }));
+      await waitFor(() => expect(screen.queryByRole('dialog')).not.toBeInTheDocument());
+    });
+
+    it('should only count fixes above the confidence threshold', () => {
+      render(<GrammarSidebar content={FIX_ALL_TEXT} />);
+
+      fireEvent.change(screen.getByLabelText('Minimum confidence'), { target: { value: '0.9' } });
+
+      expect(screen.getByText('Fix all (1)')).toBeInTheDocument();
+    });
+
+    it('should keep the preview open when the fixes could not be saved', async () => {
+      mockApplyBulkFix.mockRejectedValueOnce(new Error('offline'));
+      render(<GrammarSidebar content={FIX_ALL_TEXT} />);
+
+      fireEvent.click(screen.getByText('Fix all (2)'));
+      fireEvent.click(screen.getByText('Apply 2 fixes'));
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('Your draft was not changed.');
+      expect(screen.getByRole('dialog')).toBeInTheDocument();
+    });
+  });
+
+  describe('with dismissed suggestions', () => {
+    const withDismissed = (showDismissed: boolean) => {
+      vi.mocked(useStore).mockReturnValue({
+        grammarSuggestions: [{ ...mockSuggestions[0], rule: 'article-agreement' }, mockSuggestions[1]],
+        isCheckingGrammar: false,
+        applySuggestion: mockApplySuggestion,
+        clearGrammarSuggestions: mockClearGrammarSuggestions,
+        addToDictionary: mockAddToDictionary,
+        ignoreWord: mockIgnoreWord,
+        ...toneState,
+        ...ignoreState,
+        ...bulkFixState,
+        activeDraftId: 'd1',
+        getDraftById: () => ({ id: 'd1', ignoredIssues: [{ rule: 'article-agreement', text: 'bad' }] }),
+        mutedRules: ['spelling'],
+        showDismissed,
+      });
+    };
+
+    it('should hide them behind a toggle', () => {
+      withDismissed(false);
+      render(<GrammarSidebar content="Acme has some bad text" />);
+
+      expect(screen.queryByText('An explanation.')).not.toBeInTheDocument();
+      expect(screen.getByText('No suggestions yet')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Show dismissed (2)'));
+      expect(mockSetShowDismissed).toHaveBeenCalledWith(true);
+    });
+
+    it('should offer to restore them when shown', () => {
+      withDismissed(true);
+      render(<GrammarSidebar content="Acme has some bad text" />);
+
+      expect(screen.getByText('Dismissed')).toBeInTheDocument();
+      expect(screen.getByText('Rule muted')).toBeInTheDocument();
+      expect(screen.queryByText('Apply Suggestion')).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Restore'));
+      expect(mockRestoreSuggestion).toHaveBeenCalledWith('1');
+
+      fireEvent.click(screen.getByText('Unmute rule'));
+      expect(mockUnmuteRule).toHaveBeenCalledWith('spelling');
+    });
   });
-}); 
+});
@@ -1,16 +1,52 @@
 "use client"
-import { useEffect } from "react"
+import { useEffect, useState } from "react"
 import { useStore } from "../store/useStore"
-import { AlertTriangle, CheckCircle, BookOpen, Lightbulb, X } from "lucide-react"
+import { AlertTriangle, BellOff, CheckCircle, BookOpen, Clock, Eye, EyeOff, Lightbulb, MessageCircle, Wand2, X } from "lucide-react"
+import { TonePanel } from "./TonePanel"
+import { BulkFixPreview } from "./BulkFixPreview"
 import type { Suggestion } from "../store/useStore"
+import type { ClarityCheckError } from "../services/clarityChecker"
+import { ruleOf, visibilityOf, type SuggestionVisibility } from "../services/ignoredIssues"
+import { applicableAlternatives } from "../services/suggestionBuilders"
+import type { BulkFixPlan } from "../services/bulkFix"
 
 interface GrammarSidebarProps {
   content: string
   className?: string
 }
 
+// "45 s", "3 min", "2 h"
+const formatWait = (seconds: number) =>
+  seconds < 60 ? `${seconds} s` : seconds < 3600 ? `${Math.ceil(seconds / 60)} min` : `${Math.ceil(seconds / 3600)} h`
+
+const FIX_ALL_TYPES: Suggestion["type"][] = ['spelling', 'grammar', 'clarity', 'tone']
+
+const FIX_ALL_CONFIDENCES = [0, 0.5, 0.7, 0.9]
+
 export function GrammarSidebar({ content, className = "" }: GrammarSidebarProps) {
-  const { grammarSuggestions, isCheckingGrammar, clearGrammarSuggestions, applySuggestion, setHoveredSuggestion } = useStore()
+  const {
+    grammarSuggestions, isCheckingGrammar, clarityError, clearGrammarSuggestions, applySuggestion, setHoveredSuggestion, addToDictionary, ignoreWord,
+    activeDraftId, getDraftById, mutedRules, showDismissed, setShowDismissed, dismissSuggestion, snoozeSuggestion, restoreSuggestion, muteRule, unmuteRule,
+    planBulkFix, applyBulkFix
+  } = useStore()
+  const [fixAllType, setFixAllType] = useState<Suggestion["type"] | ''>('')
+  const [fixAllConfidence, setFixAllConfidence] = useState(0)
+  const [fixAllPreview, setFixAllPreview] = useState<BulkFixPlan | null>(null)
+
+  // Dismissed, snoozed and muted suggestions stay in the store and are only hidden here
+  const ignoredIssues = (activeDraftId ? getDraftById(activeDraftId)?.ignoredIssues : undefined) ?? []
+  const now = Date.now()
+  const entries = grammarSuggestions.map(issue => ({
+    issue,
+    visibility: visibilityOf(issue, ignoredIssues, mutedRules, now),
+    alternatives: applicableAlternatives(issue)
+  }))
+  const hiddenCount = entries.filter(entry => entry.visibility !== 'visible').length
+  const shownEntries = showDismissed ? entries : entries.filter(entry => entry.visibility === 'visible')
+  const fixAllPlan = planBulkFix({ type: fixAllType || undefined, minConfidence: fixAllConfidence })
+  const canFixAny = entries.some(entry => entry.visibility === 'visible' && entry.alternatives.length > 0)
+
+  const logFailure = (action: string) => (error: unknown) => console.error(`Failed to ${action}:`, error)
   
   useEffect(() => {
     // Only clear grammar/clarity suggestions when content changes significantly
@@ -26,6 +62,8 @@ export function GrammarSidebar({ content, className = "" }: GrammarSidebarProps)
         return <AlertTriangle className="w-4 h-4 text-yellow-500" />
       case 'clarity':
         return <Lightbulb className="w-4 h-4 text-blue-500" />
+      case 'tone':
+        return <MessageCircle className="w-4 h-4 text-purple-500" />
       default:
         return <BookOpen className="w-4 h-4 text-gray-500" />
     }
@@ -39,11 +77,33 @@ export function GrammarSidebar({ content, className = "" }: GrammarSidebarProps)
         return 'border-yellow-200 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-900/20'
       case 'clarity':
         return 'border-blue-200 bg-blue-50 dark:border-blue-800 dark:bg-blue-900/20'
+      case 'tone':
+        return 'border-purple-200 bg-purple-50 dark:border-purple-800 dark:bg-purple-900/20'
       default:
         return 'border-gray-200 bg-gray-50 dark:border-gray-700 dark:bg-gray-800'
     }
   }
 
+  const hiddenLabels: Record<Exclude<SuggestionVisibility, 'visible'>, string> = {
+    dismissed: 'Dismissed',
+    snoozed: 'Snoozed for a day',
+    muted: 'Rule muted',
+  }
+
+  const describeClarityError = (error: ClarityCheckError) => {
+    const wait = error.retryAfter !== undefined ? ` Try again in ${formatWait(error.retryAfter)}.` : ""
+    switch (error.code) {
+      case 'RATE_LIMITED':
+        return `Too many checks in a short time.${wait}`
+      case 'QUOTA_EXCEEDED':
+        return `You've used today's writing checks.${wait}`
+      case 'UNAUTHORIZED':
+        return 'Sign in again to get clarity and tone suggestions.'
+      default:
+        return `Clarity check failed: ${error.message}`
+    }
+  }
+
   return (
     <div className={`grammar-sidebar h-full flex flex-col ${className}`}>
       {/* Header */}
@@ -52,14 +112,26 @@ export function GrammarSidebar({ content, className = "" }: GrammarSidebarProps)
           <CheckCircle className="w-5 h-5 text-green-500" />
           <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Suggestions</h2>
         </div>
-        {grammarSuggestions.length > 0 && (
-          <button
-            onClick={clearGrammarSuggestions}
-            className="text-xs text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-white transition-colors"
-          >
-            <X className="w-4 h-4" />
-          </button>
-        )}
+        <div className="flex items-center space-x-3">
+          {hiddenCount > 0 && (
+            <button
+              onClick={() => setShowDismissed(!showDismissed)}
+              aria-pressed={showDismissed}
+              className="flex items-center space-x-1 text-xs text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-white transition-colors"
+            >
+              {showDismissed ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+              <span>{showDismissed ? 'Hide dismissed' : `Show dismissed (${hiddenCount})`}</span>
+            </button>
+          )}
+          {grammarSuggestions.length > 0 && (
+            <button
+              onClick={clearGrammarSuggestions}
+              className="text-xs text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-white transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Analysis Status */}
@@ -70,9 +142,56 @@ export function GrammarSidebar({ content, className = "" }: GrammarSidebarProps)
         </div>
       )}
 
+      {clarityError && (
+        <div role="alert" className="flex items-start space-x-2 mb-4 p-3 bg-amber-50 dark:bg-amber-900/20 rounded-lg border border-amber-200 dark:border-amber-800">
+          <AlertTriangle className="w-4 h-4 mt-0.5 text-amber-500 flex-shrink-0" />
+          <span className="text-sm text-amber-800 dark:text-amber-300">{describeClarityError(clarityError)}</span>
+        </div>
+      )}
+
+      {canFixAny && (
+        <div className="flex items-center space-x-2 mb-4">
+          <select
+            aria-label="Fix all type"
+            value={fixAllType}
+            onChange={(e) => setFixAllType(e.target.value as Suggestion["type"] | '')}
+            className="flex-1 min-w-0 px-2 py-1.5 text-xs border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            <option value="">All types</option>
+            {FIX_ALL_TYPES.map(type => (
+              <option key={type} value={type}>{type.charAt(0).toUpperCase() + type.slice(1)}</option>
+            ))}
+          </select>
+          <select
+            aria-label="Minimum confidence"
+            value={fixAllConfidence}
+            onChange={(e) => setFixAllConfidence(Number(e.target.value))}
+            className="flex-1 min-w-0 px-2 py-1.5 text-xs border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            {FIX_ALL_CONFIDENCES.map(confidence => (
+              <option key={confidence} value={confidence}>{confidence === 0 ? 'Any confidence' : `${Math.round(confidence * 100)}%+`}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setFixAllPreview(fixAllPlan)}
+            disabled={!fixAllPlan || fixAllPlan.edits.length === 0}
+            className="flex items-center space-x-1 px-3 py-1.5 text-xs font-semibold text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 dark:disabled:bg-gray-600 rounded-md transition-colors"
+          >
+            <Wand2 className="w-3.5 h-3.5" />
+            <span>Fix all ({fixAllPlan?.edits.length ?? 0})</span>
+          </button>
+        </div>
+      )}
+
+      {fixAllPreview && (
+        <BulkFixPreview plan={fixAllPreview} onApply={applyBulkFix} onClose={() => setFixAllPreview(null)} />
+      )}
+
+      <TonePanel content={content} />
+
       {/* Issues List */}
       <div className="space-y-3 overflow-y-auto flex-1">
-        {grammarSuggestions.length === 0 && !isCheckingGrammar ? (
+        {shownEntries.length === 0 && !isCheckingGrammar ? (
           <div className="text-center py-8">
             <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-3" />
             <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-1">
@@ -83,7 +202,39 @@ export function GrammarSidebar({ content, className = "" }: GrammarSidebarProps)
             </p>
           </div>
         ) : (
-          grammarSuggestions.map((issue) => (
+          shownEntries.map(({ issue, visibility, alternatives }) => visibility !== 'visible' ? (
+            <div
+              key={issue.id}
+              className="p-3 rounded-lg border border-gray-200 dark:border-gray-700 opacity-60"
+            >
+              <div className="flex items-start space-x-2">
+                {getIssueIcon(issue.type)}
+                <div className="flex-1 min-w-0">
+                  <span className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                    {hiddenLabels[visibility]}
+                  </span>
+                  <h4 className="text-sm text-gray-700 dark:text-gray-300 mb-1">
+                    {issue.explanation}
+                  </h4>
+                  {visibility === 'muted' ? (
+                    <button
+                      onClick={() => unmuteRule(ruleOf(issue)).catch(logFailure('unmute rule'))}
+                      className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      Unmute rule
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => restoreSuggestion(issue.id).catch(logFailure('restore suggestion'))}
+                      className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      Restore
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ) : (
             <div
               key={issue.id}
               className={`p-3 rounded-lg border ${getIssueColor(issue.type)} transition-all duration-200 hover:shadow-sm cursor-pointer`}
@@ -97,27 +248,86 @@ export function GrammarSidebar({ content, className = "" }: GrammarSidebarProps)
                     <span className="text-xs font-medium text-gray-600 dark:text-gray-300 uppercase tracking-wide">
                       {issue.type}
                     </span>
+                    {issue.advisory && (
+                      <span className="text-xs text-gray-500 dark:text-gray-400">Advice</span>
+                    )}
                   </div>
                   <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-1">
                     {issue.explanation}
                   </h4>
-                  <p className="text-xs text-gray-600 dark:text-gray-400 mb-2">
-                    Suggested: <strong className="font-semibold">{issue.suggestion}</strong>
-                  </p>
+                  {!issue.advisory && alternatives.length <= 1 && (
+                    <p className="text-xs text-gray-600 dark:text-gray-400 mb-2">
+                      Suggested: <strong className="font-semibold">{issue.suggestion}</strong>
+                    </p>
+                  )}
                   {issue.original && (
                     <div className="text-xs text-gray-500 dark:text-gray-500 font-mono bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded">
                       Original: "{issue.original}"
                     </div>
                   )}
-                  {/* Only show Apply button if there's actually a different suggestion */}
-                  {issue.original !== issue.suggestion && (
+                  {/* Only show Apply buttons for alternatives that actually change the text */}
+                  {alternatives.length === 1 && (
                     <button
-                      onClick={() => applySuggestion(issue.id)}
+                      onClick={() => applySuggestion(issue.id, alternatives[0].index)}
                       className="mt-3 w-full text-left px-3 py-1.5 text-xs font-semibold text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/30 rounded-md transition-all"
                     >
                       Apply Suggestion
                     </button>
                   )}
+                  {alternatives.length > 1 && (
+                    <div role="group" aria-label="Alternatives" className="mt-3 space-y-1">
+                      <p className="text-xs text-gray-600 dark:text-gray-400">Pick a replacement:</p>
+                      {alternatives.map(({ text, confidence, index }) => (
+                        <button
+                          key={index}
+                          onClick={() => applySuggestion(issue.id, index)}
+                          className="w-full flex items-center justify-between px-3 py-1.5 text-xs font-semibold text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/30 rounded-md transition-all"
+                        >
+                          <span className="truncate">{text}</span>
+                          <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">{Math.round(confidence * 100)}%</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {issue.type === 'spelling' && (
+                    <div className="mt-2 flex space-x-2">
+                      <button
+                        onClick={() => addToDictionary(issue.original).catch(error => console.error('Failed to add word to dictionary:', error))}
+                        className="flex-1 px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-all"
+                      >
+                        Add to dictionary
+                      </button>
+                      <button
+                        onClick={() => ignoreWord(issue.original).catch(error => console.error('Failed to ignore word:', error))}
+                        className="flex-1 px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-all"
+                      >
+                        Ignore
+                      </button>
+                    </div>
+                  )}
+                  <div className="mt-2 flex items-center space-x-3 text-xs text-gray-500 dark:text-gray-400">
+                    <button
+                      onClick={() => dismissSuggestion(issue.id).catch(logFailure('dismiss suggestion'))}
+                      className="flex items-center space-x-1 hover:text-gray-800 dark:hover:text-white"
+                    >
+                      <X className="w-3 h-3" />
+                      <span>Dismiss</span>
+                    </button>
+                    <button
+                      onClick={() => snoozeSuggestion(issue.id).catch(logFailure('snooze suggestion'))}
+                      className="flex items-center space-x-1 hover:text-gray-800 dark:hover:text-white"
+                    >
+                      <Clock className="w-3 h-3" />
+                      <span>Snooze</span>
+                    </button>
+                    <button
+                      onClick={() => muteRule(ruleOf(issue)).catch(logFailure('mute rule'))}
+                      className="flex items-center space-x-1 hover:text-gray-800 dark:hover:text-white"
+                    >
+                      <BellOff className="w-3 h-3" />
+                      <span>Never show this rule</span>
+                    </button>
+                  </div>
                 </div>
               </div>
             </div>
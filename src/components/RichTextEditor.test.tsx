@@ -1,14 +1,58 @@
 import { render, screen, fireEvent } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { RichTextEditor } from './RichTextEditor';
-import { useStore } from '../store/useStore';
+import { useStore, type Suggestion } from '../store/useStore';
+import type { RichDocument } from '../services/richDocument';
+import { offsetToDomPosition, readDocument } from '../services/richDocumentDom';
 
 // Mock the useStore hook
 vi.mock('../store/useStore');
 
-const mockCheckGrammar = vi.fn();
+const mockCheckGrammar = vi.fn().mockResolvedValue(undefined);
+const mockCancelGrammarCheck = vi.fn();
 const mockCheckSpelling = vi.fn().mockResolvedValue(undefined);
 const mockCheckClarity = vi.fn().mockResolvedValue(undefined);
+const mockApplySuggestion = vi.fn();
+const mockDismissSuggestion = vi.fn().mockResolvedValue(undefined);
+const mockRecordEdit = vi.fn();
+const mockUndo = vi.fn();
+const mockRedo = vi.fn();
+
+// Per-test additions to the mocked store state
+let storeOverrides: Record<string, unknown> = {};
+
+const suggestion = (overrides: Partial<Suggestion>): Suggestion => ({
+  id: 's1',
+  type: 'spelling',
+  original: 'mistak',
+  suggestion: 'mistake',
+  explanation: 'Possible misspelling',
+  source: 'local',
+  priority: 1,
+  position: { start: 11, end: 17 },
+  confidence: 0.9,
+  ...overrides
+});
+
+const getEditor = () => screen.getByRole('textbox', { name: 'Message body' });
+
+// What the browser does when the user types: edit the DOM, then fire input
+const typeText = (editor: HTMLElement, value: string) => {
+  editor.textContent = value;
+  fireEvent.input(editor);
+};
+
+// Select the plain-text range [start, end) of the editor
+const select = (editor: HTMLElement, start: number, end = start) => {
+  const reading = readDocument(editor);
+  const from = offsetToDomPosition(reading, start);
+  const to = offsetToDomPosition(reading, end);
+  const range = document.createRange();
+  range.setStart(from.node, from.offset);
+  range.setEnd(to.node, to.offset);
+  window.getSelection()!.removeAllRanges();
+  window.getSelection()!.addRange(range);
+};
 
 describe('RichTextEditor', () => {
   beforeEach(() => {
@@ -18,6 +62,7 @@ describe('RichTextEditor', () => {
     vi.mocked(useStore).mockImplementation((selector: any) => {
       const mockState = {
         checkGrammar: mockCheckGrammar,
+        cancelGrammarCheck: mockCancelGrammarCheck,
         checkSpelling: mockCheckSpelling,
         checkClarity: mockCheckClarity,
         grammarSuggestions: [],
@@ -25,9 +70,18 @@ describe('RichTextEditor', () => {
         claritySuggestions: [],
         cursorPosition: null,
         setCursorPosition: vi.fn(),
-        canUndo: vi.fn(() => false),
-        undoLastSuggestion: vi.fn(),
-        invalidateSuggestionsOnEdit: vi.fn()
+        setSelection: vi.fn(),
+        recordEdit: mockRecordEdit,
+        undo: mockUndo,
+        redo: mockRedo,
+        invalidateSuggestionsOnEdit: vi.fn(),
+        applySuggestion: mockApplySuggestion,
+        dismissSuggestion: mockDismissSuggestion,
+        hoveredSuggestionId: null,
+        mutedRules: [],
+        activeDraftId: null,
+        getDraftById: vi.fn(),
+        ...storeOverrides
       };
       return selector(mockState);
     });
@@ -36,33 +90,36 @@ describe('RichTextEditor', () => {
   afterEach(() => {
     vi.useRealTimers();
     vi.clearAllMocks();
+    storeOverrides = {};
   });
 
   describe('Basic Functionality', () => {
     it('should render with placeholder text', () => {
       render(<RichTextEditor />);
-      expect(screen.getByPlaceholderText('Start writing...')).toBeInTheDocument();
+      expect(getEditor()).toHaveAttribute('aria-placeholder', 'Start writing...');
+      expect(screen.getByText('Start writing...')).toBeInTheDocument();
     });
 
     it('should render with custom placeholder', () => {
       render(<RichTextEditor placeholder="Custom placeholder" />);
-      expect(screen.getByPlaceholderText('Custom placeholder')).toBeInTheDocument();
+      expect(getEditor()).toHaveAttribute('aria-placeholder', 'Custom placeholder');
     });
 
     it('should display provided text', () => {
       render(<RichTextEditor text="Hello world" />);
-      const textarea = screen.getByDisplayValue('Hello world');
-      expect(textarea).toBeInTheDocument();
+      expect(getEditor()).toHaveTextContent('Hello world');
+      expect(screen.queryByText('Start writing...')).not.toBeInTheDocument();
     });
 
     it('should call onChange when text changes', () => {
       const handleChange = vi.fn();
       render(<RichTextEditor onChange={handleChange} />);
 
-      const textarea = screen.getByPlaceholderText('Start writing...');
-      fireEvent.change(textarea, { target: { value: 'New text' } });
+      typeText(getEditor(), 'New text');
 
-      expect(handleChange).toHaveBeenCalledWith('New text');
+      expect(handleChange).toHaveBeenCalledWith('New text', {
+        blocks: [{ type: 'paragraph', runs: [{ text: 'New text' }] }]
+      });
     });
   });
 
@@ -70,8 +127,8 @@ describe('RichTextEditor', () => {
     it('should call checkSpelling on every keystroke', () => {
       render(<RichTextEditor />);
 
-      const textarea = screen.getByPlaceholderText('Start writing...');
-      fireEvent.change(textarea, { target: { value: 'This is a test with a mistak.' } });
+      const editor = getEditor();
+      typeText(editor, 'This is a test with a mistak.');
 
       // Spell checking is immediate (no timer), so it should be called right away
       expect(mockCheckSpelling).toHaveBeenCalledWith('This is a test with a mistak.');
@@ -80,8 +137,8 @@ describe('RichTextEditor', () => {
     it('should not call spellcheck for empty text', () => {
       render(<RichTextEditor />);
 
-      const textarea = screen.getByPlaceholderText('Start writing...');
-      fireEvent.change(textarea, { target: { value: '' } });
+      const editor = getEditor();
+      typeText(editor, '');
 
       expect(mockCheckSpelling).not.toHaveBeenCalled();
     });
@@ -89,20 +146,56 @@ describe('RichTextEditor', () => {
     it('should not call spellcheck when readOnly', () => {
       render(<RichTextEditor readOnly />);
 
-      const textarea = screen.getByPlaceholderText('Start writing...');
-      fireEvent.change(textarea, { target: { value: 'Test text' } });
+      const editor = getEditor();
+      typeText(editor, 'Test text');
 
       expect(mockCheckSpelling).not.toHaveBeenCalled();
     });
   });
 
+  describe('Grammar Checking Integration', () => {
+    it('should call checkGrammar once typing pauses', () => {
+      render(<RichTextEditor />);
+
+      const editor = getEditor();
+      typeText(editor, 'He don\'t know');
+      typeText(editor, 'He don\'t know yet.');
+
+      vi.advanceTimersByTime(299);
+      expect(mockCheckGrammar).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1);
+      expect(mockCheckGrammar).toHaveBeenCalledTimes(1);
+      expect(mockCheckGrammar).toHaveBeenCalledWith('He don\'t know yet.');
+    });
+
+    it('should cancel the previous check when the text changes', () => {
+      render(<RichTextEditor />);
+
+      const editor = getEditor();
+      typeText(editor, 'First version of the text');
+      vi.advanceTimersByTime(300);
+      typeText(editor, 'Second version of the text');
+
+      expect(mockCancelGrammarCheck).toHaveBeenCalled();
+    });
+
+    it('should not check grammar in read-only mode', () => {
+      render(<RichTextEditor text="He don't know the answer." readOnly />);
+
+      vi.advanceTimersByTime(500);
+
+      expect(mockCheckGrammar).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Clarity Checking Integration', () => {
     it('should call checkClarity after debounce delay for longer text', () => {
       render(<RichTextEditor />);
 
-      const textarea = screen.getByPlaceholderText('Start writing...');
+      const editor = getEditor();
       const longText = 'This is a longer text that should trigger clarity checking when the user stops typing for a while.';
-      fireEvent.change(textarea, { target: { value: longText } });
+      typeText(editor, longText);
 
       // Fast-forward time by 500ms to trigger clarity check
       vi.advanceTimersByTime(500);
@@ -113,8 +206,8 @@ describe('RichTextEditor', () => {
     it('should not call clarity check for short text', () => {
       render(<RichTextEditor />);
 
-      const textarea = screen.getByPlaceholderText('Start writing...');
-      fireEvent.change(textarea, { target: { value: 'Short' } });
+      const editor = getEditor();
+      typeText(editor, 'Short');
 
       vi.advanceTimersByTime(500);
 
@@ -122,6 +215,207 @@ describe('RichTextEditor', () => {
     });
   });
 
+  describe('Inline Underlines', () => {
+    const text = 'There is a mistak in this sentence.';
+    const spelling = suggestion({});
+    const clarity = suggestion({
+      id: 's2',
+      type: 'clarity',
+      original: 'There is a mistak',
+      suggestion: 'A word is misspelled',
+      explanation: 'Wordy opening',
+      priority: 3,
+      position: { start: 0, end: 17 }
+    });
+
+    it('should underline every suggestion in the colour of its type', () => {
+      storeOverrides = { grammarSuggestions: [spelling, clarity] };
+      const { container } = render(<RichTextEditor text={text} />);
+
+      const underlines = Array.from(container.querySelectorAll('[data-segment-start]'));
+      expect(underlines.map(underline => underline.textContent)).toEqual(['There is a ', 'mistak']);
+      expect(underlines[0]).toHaveClass('decoration-blue-500');
+      // The spelling mistake inside the clarity suggestion takes the spelling colour
+      expect(underlines[1]).toHaveClass('decoration-red-500');
+    });
+
+    it('should not underline muted or outdated suggestions', () => {
+      storeOverrides = {
+        grammarSuggestions: [
+          suggestion({ id: 's3', type: 'grammar', rule: 'hedge', original: 'this', position: { start: 21, end: 25 } }),
+          suggestion({ id: 's4', original: 'gone', position: { start: 0, end: 4 } })
+        ],
+        mutedRules: ['hedge']
+      };
+      const { container } = render(<RichTextEditor text={text} />);
+
+      expect(container.querySelector('[data-segment-start]')).toBeNull();
+    });
+
+    it('should open a popover with Apply and Dismiss when underlined text is clicked', () => {
+      storeOverrides = { grammarSuggestions: [spelling] };
+      render(<RichTextEditor text={text} />);
+
+      const editor = getEditor();
+      select(editor, 2);
+      fireEvent.click(editor);
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+
+      select(editor, 13);
+      fireEvent.click(editor);
+      expect(screen.getByRole('dialog', { name: 'Suggestions' })).toHaveTextContent('Possible misspelling');
+
+      fireEvent.click(screen.getByRole('button', { name: /Apply/ }));
+      expect(mockApplySuggestion).toHaveBeenCalledWith('s1', 0);
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+
+      fireEvent.click(editor);
+      fireEvent.click(screen.getByRole('button', { name: 'Dismiss' }));
+      expect(mockDismissSuggestion).toHaveBeenCalledWith('s1');
+    });
+
+    it('should offer every alternative in the popover', () => {
+      storeOverrides = {
+        grammarSuggestions: [suggestion({
+          alternatives: [{ text: 'mistake', confidence: 0.6 }, { text: 'mistook', confidence: 0.3 }]
+        })]
+      };
+      render(<RichTextEditor text={text} />);
+
+      const editor = getEditor();
+      select(editor, 13);
+      fireEvent.click(editor);
+      fireEvent.click(screen.getByRole('button', { name: 'Apply: mistook' }));
+
+      expect(mockApplySuggestion).toHaveBeenCalledWith('s1', 1);
+    });
+
+    it('should close the popover on Escape', () => {
+      storeOverrides = { grammarSuggestions: [spelling] };
+      render(<RichTextEditor text={text} />);
+
+      const editor = getEditor();
+      select(editor, 16);
+      fireEvent.click(editor);
+      fireEvent.keyDown(document, { key: 'Escape' });
+
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Formatting', () => {
+    const formatted: RichDocument = {
+      blocks: [
+        { type: 'heading1', runs: [{ text: 'Agenda' }] },
+        { type: 'bulletItem', runs: [{ text: 'Budget', marks: { bold: true } }] }
+      ]
+    };
+
+    it('should render the formatted document', () => {
+      render(<RichTextEditor text={'Agenda\nBudget'} richContent={formatted} />);
+
+      expect(getEditor().innerHTML).toBe('<h1>Agenda</h1><ul><li><strong>Budget</strong></li></ul>');
+    });
+
+    it('should ignore a formatted document that does not match the text', () => {
+      render(<RichTextEditor text="Something else" richContent={formatted} />);
+
+      expect(getEditor().innerHTML).toBe('<p>Something else</p>');
+    });
+
+    it('should make the selection bold from the toolbar', () => {
+      const handleChange = vi.fn();
+      render(<RichTextEditor text="Hello world" onChange={handleChange} />);
+
+      const editor = getEditor();
+      select(editor, 0, 5);
+      fireEvent.click(screen.getByRole('button', { name: 'Bold' }));
+
+      expect(handleChange).toHaveBeenCalledWith('Hello world', {
+        blocks: [{ type: 'paragraph', runs: [{ text: 'Hello', marks: { bold: true } }, { text: ' world' }] }]
+      });
+      expect(editor.innerHTML).toBe('<p><strong>Hello</strong> world</p>');
+    });
+
+    it('should link the selection to the URL entered', () => {
+      vi.spyOn(window, 'prompt').mockReturnValue('example.com');
+      render(<RichTextEditor text="See the docs" />);
+
+      const editor = getEditor();
+      select(editor, 8, 12);
+      fireEvent.click(screen.getByRole('button', { name: 'Link' }));
+
+      expect(editor.querySelector('a')).toHaveAttribute('href', 'https://example.com');
+      expect(editor.querySelector('a')).toHaveTextContent('docs');
+    });
+
+    it('should turn the current line into a list item', () => {
+      render(<RichTextEditor text={'Intro\nFirst point'} />);
+
+      const editor = getEditor();
+      select(editor, 8);
+      fireEvent.click(screen.getByRole('button', { name: 'Bulleted list' }));
+
+      expect(editor.innerHTML).toBe('<p>Intro</p><ul><li>First point</li></ul>');
+    });
+
+    it('should read formatting typed in the editor back into the document', () => {
+      const handleChange = vi.fn();
+      render(<RichTextEditor onChange={handleChange} />);
+
+      const editor = getEditor();
+      editor.innerHTML = '<p>Hi <em>there</em></p><p>Bye</p>';
+      fireEvent.input(editor);
+
+      expect(handleChange).toHaveBeenCalledWith('Hi there\nBye', {
+        blocks: [
+          { type: 'paragraph', runs: [{ text: 'Hi ' }, { text: 'there', marks: { italic: true } }] },
+          { type: 'paragraph', runs: [{ text: 'Bye' }] }
+        ]
+      });
+    });
+  });
+
+  describe('Undo and Redo', () => {
+    it('should record every edit in the draft history', () => {
+      render(<RichTextEditor />);
+
+      typeText(getEditor(), 'Hello');
+
+      expect(mockRecordEdit).toHaveBeenCalledWith('Hello', { blocks: [{ type: 'paragraph', runs: [{ text: 'Hello' }] }] });
+    });
+
+    it('should undo with Ctrl+Z and redo with Ctrl+Shift+Z or Ctrl+Y', () => {
+      render(<RichTextEditor text="Hello" />);
+
+      const editor = getEditor();
+      fireEvent.keyDown(editor, { key: 'z', ctrlKey: true });
+      expect(mockUndo).toHaveBeenCalledTimes(1);
+
+      fireEvent.keyDown(editor, { key: 'Z', ctrlKey: true, shiftKey: true });
+      fireEvent.keyDown(editor, { key: 'y', metaKey: true });
+      expect(mockRedo).toHaveBeenCalledTimes(2);
+    });
+
+    it('should send the browser\'s own undo to the draft history', () => {
+      render(<RichTextEditor text="Hello" />);
+
+      const event = new InputEvent('beforeinput', { inputType: 'historyUndo', cancelable: true });
+      getEditor().dispatchEvent(event);
+
+      expect(mockUndo).toHaveBeenCalled();
+      expect(event.defaultPrevented).toBe(true);
+    });
+
+    it('should not undo in read-only mode', () => {
+      render(<RichTextEditor text="Hello" readOnly />);
+
+      fireEvent.keyDown(getEditor(), { key: 'z', ctrlKey: true });
+
+      expect(mockUndo).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Title Functionality', () => {
     it('should display document title', () => {
       render(<RichTextEditor title="My Document" />);
@@ -143,10 +437,10 @@ describe('RichTextEditor', () => {
     it('should disable editing in readOnly mode', () => {
       render(<RichTextEditor text="Read only text" readOnly />);
       
-      const textarea = screen.getByDisplayValue('Read only text');
       const titleInput = screen.getByDisplayValue('Untitled document');
       
-      expect(textarea).toBeDisabled();
+      expect(getEditor()).toHaveAttribute('contenteditable', 'false');
+      expect(screen.queryByRole('toolbar', { name: 'Formatting' })).not.toBeInTheDocument();
       expect(titleInput).toBeDisabled();
     });
 
@@ -1,17 +1,61 @@
 "use client"
-import { useState, useRef, useEffect, useCallback, useMemo } from "react"
-import { Save } from "lucide-react"
+import { useState, useRef, useEffect, useLayoutEffect, useCallback, useMemo } from "react"
+import { Languages, Save } from "lucide-react"
 import CopyButton from "./CopyButton"
 import { SendButton } from "./SendButton"
-import { useStore } from "../store/useStore"
+import { SuggestionPopover } from "./SuggestionPopover"
+import { FormattingToolbar } from "./FormattingToolbar"
+import { useStore, type Suggestion } from "../store/useStore"
+import { SUPPORTED_LANGUAGES, type LanguageCode } from "../services/languages"
+import { visibilityOf } from "../services/ignoredIssues"
+import { segmentAt, underlineSegments } from "../services/underlines"
+import {
+  fromPlainText,
+  setBlockType,
+  setLink,
+  toHtml,
+  toPlainText,
+  toggleMark,
+  withPlainText,
+  type BlockType,
+  type Mark,
+  type RichDocument,
+} from "../services/richDocument"
+import { domPositionToOffset, offsetToDomPosition, readDocument } from "../services/richDocumentDom"
+import type { TextRange } from "../services/paragraphTracker"
+
+// Underline colour of each kind of suggestion (a segment takes the colour of its most important one)
+const UNDERLINE_STYLES: Record<Suggestion["type"], string> = {
+  spelling: "decoration-red-500",
+  grammar: "decoration-amber-500",
+  clarity: "decoration-blue-500",
+  tone: "decoration-purple-500",
+}
+
+// Block and inline styles of the document, shared by the editor and the underline
+// overlay so both lay the text out identically
+const DOCUMENT_STYLES = "px-6 py-6 text-base leading-relaxed whitespace-pre-wrap break-words " +
+  "[&_h1]:text-2xl [&_h1]:font-bold [&_h2]:text-xl [&_h2]:font-semibold [&_h3]:text-lg [&_h3]:font-semibold " +
+  "[&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-6 [&_ol]:pl-6 [&_code]:font-mono [&_code]:text-sm [&_a]:underline"
+
+// The draft's formatted body if it matches the text, else the text as plain paragraphs
+const documentFor = (text: string, richContent?: RichDocument): RichDocument =>
+  richContent && toPlainText(richContent) === text ? richContent : fromPlainText(text)
+
+// Links typed without a scheme ("example.com") are web links
+const normalizeLink = (href: string) => (/^[a-z][a-z0-9+.-]*:/i.test(href) ? href : `https://${href}`)
 
 interface RichTextEditorProps {
   text?: string
+  // Formatted body; ignored unless its plain text is `text`
+  richContent?: RichDocument
   title?: string
-  onChange?: (text: string) => void
+  onChange?: (text: string, richContent: RichDocument) => void
   onTitleChange?: (title: string) => void
   onSave?: (title: string, content: string) => void
   onSendEmail?: () => void
+  language?: LanguageCode
+  onLanguageChange?: (language: LanguageCode) => void
   placeholder?: string
   disabled?: boolean
   readOnly?: boolean
@@ -29,43 +73,61 @@ interface RichTextEditorProps {
 
 export function RichTextEditor({
   text = "",
+  richContent,
   title = "Untitled document",
   onChange,
   onTitleChange,
   onSave,
   onSendEmail,
+  language,
+  onLanguageChange,
   placeholder = "Start writing...",
   disabled = false,
   readOnly = false,
   metaInfo,
   className = "",
 }: RichTextEditorProps) {
-  const [content, setContent] = useState(text)
+  const [richDocument, setRichDocument] = useState(() => documentFor(text, richContent))
+  const content = useMemo(() => toPlainText(richDocument), [richDocument])
   const [documentTitle, setDocumentTitle] = useState(title)
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false)
   const [hasInitialLoad, setHasInitialLoad] = useState(false)
   const [lastClarityCheckContent, setLastClarityCheckContent] = useState<string>("")
   const [previousContent, setPreviousContent] = useState<string>(text) // Track previous content for change detection
-  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [popover, setPopover] = useState<{ start: number; top: number; left: number } | null>(null)
+  const editorRef = useRef<HTMLDivElement>(null)
   const highlightRef = useRef<HTMLDivElement>(null)
-  const _checkGrammar = useStore((state) => state.checkGrammar)
+  const editorAreaRef = useRef<HTMLDivElement>(null)
+  const checkGrammar = useStore((state) => state.checkGrammar)
+  const cancelGrammarCheck = useStore((state) => state.cancelGrammarCheck)
   const checkSpelling = useStore((state) => state.checkSpelling)
   const checkClarity = useStore((state) => state.checkClarity)
   const _cleanupInvalidSuggestions = useStore((state) => state.cleanupInvalidSuggestions)
   const invalidateSuggestionsOnEdit = useStore((state) => state.invalidateSuggestionsOnEdit)
   const hoveredSuggestionId = useStore((state) => state.hoveredSuggestionId)
   const grammarSuggestions = useStore((state) => state.grammarSuggestions)
-  const canUndo = useStore((state) => state.canUndo)
-  const undoLastSuggestion = useStore((state) => state.undoLastSuggestion)
+  const applySuggestion = useStore((state) => state.applySuggestion)
+  const dismissSuggestion = useStore((state) => state.dismissSuggestion)
+  const mutedRules = useStore((state) => state.mutedRules)
+  const ignoredIssues = useStore((state) => state.activeDraftId ? state.getDraftById(state.activeDraftId)?.ignoredIssues : undefined)
+  const recordEdit = useStore((state) => state.recordEdit)
+  const undo = useStore((state) => state.undo)
+  const redo = useStore((state) => state.redo)
   const cursorPosition = useStore((state) => state.cursorPosition)
   const setCursorPosition = useStore((state) => state.setCursorPosition)
+  const setSelection = useStore((state) => state.setSelection)
+
+  // Underline every suggestion the sidebar shows; dismissed, snoozed and muted ones are left out
+  const segments = useMemo(() => {
+    if (readOnly) return []
+    const now = Date.now()
+    const visible = grammarSuggestions.filter(s => visibilityOf(s, ignoredIssues ?? [], mutedRules, now) === "visible")
+    return underlineSegments(content, visible)
+  }, [content, grammarSuggestions, ignoredIssues, mutedRules, readOnly])
 
-  // Check if we should show the highlight overlay
-  const shouldShowHighlight = useCallback(() => {
-    return hoveredSuggestionId && grammarSuggestions.some(s => s.id === hoveredSuggestionId)
-  }, [hoveredSuggestionId, grammarSuggestions])
+  const popoverSegment = popover ? segments.find(segment => segment.start === popover.start) : undefined
 
-  // Immediate spell checking on every keystroke (< 50ms target)
+  // Immediate spell checking on every keystroke (< 50ms target), and again when the language changes
   // Also invalidate suggestions when text is edited
   useEffect(() => {
     if (content.trim().length > 0 && !readOnly) {
@@ -79,7 +141,7 @@ export function RichTextEditor({
         console.error('Spell check failed:', error)
       })
     }
-  }, [content, checkSpelling, invalidateSuggestionsOnEdit, previousContent, readOnly])
+  }, [content, checkSpelling, invalidateSuggestionsOnEdit, previousContent, readOnly, language])
 
   // Debounced clarity checking (triggers after 400ms of no typing - optimal for UX)
   // Only triggers on initial load or after user edits, not continuously
@@ -105,17 +167,29 @@ export function RichTextEditor({
     }
   }, [content, checkClarity, readOnly, hasInitialLoad, lastClarityCheckContent])
 
-  // DISABLED: Grammar checking for now - focusing on spell checking only
-  // useEffect(() => {
-  //   if (content.trim().length > 5 && !readOnly) {
-  //     console.log('🔍 RichTextEditor: triggering grammar check for:', content.substring(0, 30) + '...')
-  //     checkGrammar(content)
-  //   }
-  // }, [content, checkGrammar, readOnly])
+  // Debounced grammar checking (triggers after 300ms of no typing), and again when the language changes
+  // Typing again cancels the pending check and any check still in flight for the old text
+  useEffect(() => {
+    if (content.trim().length > 5 && !readOnly) {
+      const grammarTimer = setTimeout(() => {
+        console.log('🔍 RichTextEditor: triggering grammar check for:', content.substring(0, 30) + '...')
+        checkGrammar(content).catch(error => {
+          console.error('Grammar check failed:', error)
+        })
+      }, 300)
+
+      return () => {
+        clearTimeout(grammarTimer)
+        cancelGrammarCheck()
+      }
+    }
+  }, [content, checkGrammar, cancelGrammarCheck, readOnly, language])
 
-  // Update local state when props change
+  // Update local state when props change. Text changed elsewhere (an applied
+  // suggestion) comes with a matching document; otherwise formatting is kept
+  // outside the changed part.
   useEffect(() => {
-    setContent(text)
+    setRichDocument(current => richContent && toPlainText(richContent) === text ? richContent : withPlainText(current, text))
     setPreviousContent(text) // Update previous content when props change
     setHasUnsavedChanges(false)
     // Mark as initial load when content is set from props (e.g., loading a draft/sent message)
@@ -123,76 +197,155 @@ export function RichTextEditor({
       setHasInitialLoad(true)
       setLastClarityCheckContent("") // Reset to trigger clarity check on load
     }
-  }, [text])
+  }, [text, richContent])
 
   useEffect(() => {
     setDocumentTitle(title)
     setHasUnsavedChanges(false)
   }, [title])
 
-  const adjustTextareaHeight = useCallback(() => {
-    const textarea = textareaRef.current
+  // Keep the overlay's text on top of the editor's: same height, same width
+  // (without the editor's scrollbar) and same scroll offset
+  const syncOverlay = useCallback(() => {
+    const editor = editorRef.current
     const highlight = highlightRef.current
-    if (textarea) {
-      // Reset height to auto to get the correct scrollHeight
-      textarea.style.height = "auto"
-
-      // Calculate the new height based on content
-      const scrollHeight = textarea.scrollHeight
-      const maxHeight = window.innerHeight * 0.7 // Max 70% of viewport height
-
-      if (scrollHeight <= maxHeight) {
-        // If content fits, expand to fit content
-        textarea.style.height = `${scrollHeight}px`
-        textarea.style.overflowY = "hidden"
-      } else {
-        // If content exceeds max height, set max height and enable scrolling
-        textarea.style.height = `${maxHeight}px`
-        textarea.style.overflowY = "auto"
-      }
-
-      // Sync highlight overlay dimensions (only when it's visible)
-      if (highlight && shouldShowHighlight()) {
-        highlight.style.height = textarea.style.height
-        highlight.style.overflowY = textarea.style.overflowY
-      }
+    if (!editor || !highlight) return
+
+    if (editor.clientHeight > 0) highlight.style.height = `${editor.clientHeight}px`
+    if (editor.clientWidth > 0) highlight.style.width = `${editor.clientWidth}px`
+    highlight.scrollTop = editor.scrollTop
+  }, [])
+
+  // Plain-text range of the selection, or null when it is outside the editor
+  const getSelectedRange = useCallback((): TextRange | null => {
+    const editor = editorRef.current
+    const selection = window.getSelection()
+    if (!editor || !selection || selection.rangeCount === 0) return null
+
+    const range = selection.getRangeAt(0)
+    if (!editor.contains(range.startContainer) || !editor.contains(range.endContainer)) return null
+
+    const reading = readDocument(editor)
+    const start = domPositionToOffset(reading, range.startContainer, range.startOffset)
+    const end = domPositionToOffset(reading, range.endContainer, range.endOffset)
+    return start === null || end === null ? null : { start: Math.min(start, end), end: Math.max(start, end) }
+  }, [])
+
+  const selectRange = useCallback(({ start, end }: TextRange) => {
+    const editor = editorRef.current
+    const selection = window.getSelection()
+    if (!editor || !selection) return
+
+    const reading = readDocument(editor)
+    const from = offsetToDomPosition(reading, start)
+    const to = offsetToDomPosition(reading, end)
+    const range = document.createRange()
+    range.setStart(from.node, from.offset)
+    range.setEnd(to.node, to.offset)
+    selection.removeAllRanges()
+    selection.addRange(range)
+  }, [])
+
+  // Render the document into the editor, unless the editor shows it already
+  // (as it does after the user's own typing), and put the selection back
+  useLayoutEffect(() => {
+    const editor = editorRef.current
+    if (!editor) return
+
+    const html = toHtml(richDocument)
+    if (editor.innerHTML === html) return
+
+    const selected = getSelectedRange()
+    editor.innerHTML = html
+    if (selected) selectRange(selected)
+  }, [richDocument, getSelectedRange, selectRange])
+
+  // Underlines for the overlay: transparent text with the underlined segments
+  // wrapped in spans. The suggestion hovered in the sidebar is also highlighted.
+  const overlayHtml = useMemo(() => toHtml(richDocument, segments.map(segment => {
+    const hovered = segment.suggestions.some(s => s.id === hoveredSuggestionId)
+    return {
+      start: segment.start,
+      end: segment.end,
+      attributes: {
+        class: `underline decoration-wavy decoration-2 underline-offset-4 ${UNDERLINE_STYLES[segment.suggestions[0].type]}${
+          hovered ? " bg-blue-200/30 dark:bg-blue-400/20" : ""
+        }`,
+        "data-segment-start": String(segment.start),
+      },
     }
-  }, [shouldShowHighlight])
-
-  // Generate highlighted text for the overlay
-  const getHighlightedText = useCallback(() => {
-    if (!shouldShowHighlight() || !content) {
-      return content
+  })), [richDocument, segments, hoveredSuggestionId])
+
+  // Clicking underlined text opens its suggestions below the underline
+  const handleClick = useCallback(() => {
+    const selected = getSelectedRange()
+    const segment = selected && selected.start === selected.end ? segmentAt(segments, selected.start) : undefined
+    const underline = segment && highlightRef.current?.querySelector(`[data-segment-start="${segment.start}"]`)
+    const editorArea = editorAreaRef.current
+    if (!segment || !underline || !editorArea) {
+      setPopover(null)
+      return
     }
 
-    const hoveredSuggestion = grammarSuggestions.find(s => s.id === hoveredSuggestionId)
-    if (!hoveredSuggestion) {
-      return content
-    }
-
-    const { start, end } = hoveredSuggestion.position
-    const before = content.substring(0, start)
-    const highlighted = content.substring(start, end)
-    const after = content.substring(end)
-
-    return (
-      <>
-        {before}
-        <span className="bg-blue-200/30 dark:bg-blue-400/20">
-          {highlighted}
-        </span>
-        {after}
-      </>
-    )
-  }, [content, hoveredSuggestionId, grammarSuggestions, shouldShowHighlight])
-
-  const handleTextChange = useCallback((newText: string) => {
-    setContent(newText)
+    const underlineRect = underline.getBoundingClientRect()
+    const areaRect = editorArea.getBoundingClientRect()
+    setPopover({ start: segment.start, top: underlineRect.bottom - areaRect.top, left: underlineRect.left - areaRect.left })
+  }, [segments, getSelectedRange])
+
+  const closePopover = useCallback(() => setPopover(null), [])
+
+  const handleScroll = useCallback(() => {
+    syncOverlay()
+    setPopover(null)
+  }, [syncOverlay])
+
+  const handlePopoverApply = useCallback((suggestionId: string, alternativeIndex: number) => {
+    applySuggestion(suggestionId, alternativeIndex)
+    setPopover(null)
+  }, [applySuggestion])
+
+  const handlePopoverDismiss = useCallback((suggestionId: string) => {
+    dismissSuggestion(suggestionId).catch(error => {
+      console.error('Failed to dismiss suggestion:', error)
+    })
+    setPopover(null)
+  }, [dismissSuggestion])
+
+  const handleDocumentChange = useCallback((next: RichDocument) => {
+    const nextText = toPlainText(next)
+    setRichDocument(next)
     setHasUnsavedChanges(true)
     setHasInitialLoad(true) // Mark that user has started editing
-    onChange?.(newText)
-    adjustTextareaHeight()
-  }, [onChange, adjustTextareaHeight])
+    recordEdit(nextText, next)
+    onChange?.(nextText, next)
+  }, [onChange, recordEdit])
+
+  // The browser edits the DOM; read it back into the document. While an IME is
+  // composing, wait for the composed text.
+  const handleInput = useCallback((e: React.SyntheticEvent<HTMLDivElement>) => {
+    if ((e.nativeEvent as InputEvent).isComposing) return
+    handleDocumentChange(readDocument(e.currentTarget).document)
+  }, [handleDocumentChange])
+
+  const handleToggleMark = useCallback((mark: Mark) => {
+    const selected = getSelectedRange()
+    if (selected) handleDocumentChange(toggleMark(richDocument, selected.start, selected.end, mark))
+  }, [richDocument, getSelectedRange, handleDocumentChange])
+
+  const handleSetBlockType = useCallback((type: BlockType) => {
+    const selected = getSelectedRange()
+    if (selected) handleDocumentChange(setBlockType(richDocument, selected.start, selected.end, type))
+  }, [richDocument, getSelectedRange, handleDocumentChange])
+
+  // Link the selected text; an empty URL removes the link
+  const handleLink = useCallback(() => {
+    const selected = getSelectedRange()
+    if (!selected || selected.start === selected.end) return
+
+    const href = window.prompt("Link URL")
+    if (href === null) return
+    handleDocumentChange(setLink(richDocument, selected.start, selected.end, href.trim() ? normalizeLink(href.trim()) : undefined))
+  }, [richDocument, getSelectedRange, handleDocumentChange])
 
   // Removed: Space bar handler - now using keystroke-based grammar checking
 
@@ -202,16 +355,46 @@ export function RichTextEditor({
     onTitleChange?.(newTitle)
   }, [onTitleChange])
 
-  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>) => {
-    // Handle Ctrl+Z (Windows/Linux) or Cmd+Z (Mac) for undo
-    if ((e.ctrlKey || e.metaKey) && e.key === 'z' && !e.shiftKey) {
-      if (canUndo()) {
-        e.preventDefault() // Prevent browser's default undo
-        undoLastSuggestion()
-        console.log("🔄 Triggered undo via keyboard shortcut")
-      }
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (readOnly || disabled) return
+
+    // Ctrl/Cmd+B and Ctrl/Cmd+I format the selection
+    if ((e.ctrlKey || e.metaKey) && (e.key === 'b' || e.key === 'i')) {
+      e.preventDefault()
+      handleToggleMark(e.key === 'b' ? 'bold' : 'italic')
+      return
     }
-  }, [canUndo, undoLastSuggestion])
+
+    // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes, from the draft's own history:
+    // the browser's history would not know about applied suggestions
+    const key = e.key.toLowerCase()
+    if ((e.ctrlKey || e.metaKey) && (key === 'z' || key === 'y')) {
+      e.preventDefault()
+      if (key === 'z' && !e.shiftKey) undo()
+      else redo()
+    }
+  }, [readOnly, disabled, undo, redo, handleToggleMark])
+
+  // Undo and redo from the browser's Edit menu go to the draft's history as well
+  useEffect(() => {
+    const editor = editorRef.current
+    if (!editor) return
+
+    const handleBeforeInput = (e: InputEvent) => {
+      if (e.inputType !== 'historyUndo' && e.inputType !== 'historyRedo') return
+      e.preventDefault()
+      if (e.inputType === 'historyUndo') undo()
+      else redo()
+    }
+    editor.addEventListener('beforeinput', handleBeforeInput)
+    return () => editor.removeEventListener('beforeinput', handleBeforeInput)
+  }, [undo, redo])
+
+  // Remember the selected passage so it can be rewritten (e.g. in another tone)
+  const handleSelect = useCallback(() => {
+    const selected = getSelectedRange()
+    if (selected) setSelection(selected)
+  }, [getSelectedRange, setSelection])
 
   const handleSave = useCallback(() => {
     onSave?.(documentTitle, content)
@@ -223,37 +406,52 @@ export function RichTextEditor({
     return content.trim() ? content.trim().split(/\s+/).length : 0
   }, [content])
 
-  // Adjust height on mount and when content changes
+  // The overlay mounts with the first underline, and the popover belongs to the old text
   useEffect(() => {
-    adjustTextareaHeight()
+    syncOverlay()
+  }, [segments, syncOverlay])
+
+  useEffect(() => {
+    setPopover(null)
   }, [content])
 
+  // The editor changes size as the text grows, and with its container
+  useEffect(() => {
+    const editor = editorRef.current
+    if (!editor || typeof ResizeObserver === "undefined") return
+
+    const observer = new ResizeObserver(syncOverlay)
+    observer.observe(editor)
+    return () => observer.disconnect()
+  }, [syncOverlay])
+
   // Handle cursor positioning after applying suggestions
   useEffect(() => {
-    if (cursorPosition !== null && textareaRef.current) {
-      const textarea = textareaRef.current
+    if (cursorPosition !== null && editorRef.current) {
+      const editor = editorRef.current
       
       // Small delay to ensure content is updated first
       setTimeout(() => {
-        // Focus the textarea and set cursor position
-        textarea.focus()
-        textarea.setSelectionRange(cursorPosition, cursorPosition)
+        // Focus the editor and set cursor position
+        editor.focus()
+        selectRange({ start: cursorPosition, end: cursorPosition })
         
-        console.log(`📍 Cursor positioned at ${cursorPosition} in text of length ${textarea.value.length}`)
-        console.log(`📍 Text around cursor: "${textarea.value.substring(Math.max(0, cursorPosition - 10), cursorPosition + 10)}"`)
+        const text = toPlainText(readDocument(editor).document)
+        console.log(`📍 Cursor positioned at ${cursorPosition} in text of length ${text.length}`)
+        console.log(`📍 Text around cursor: "${text.substring(Math.max(0, cursorPosition - 10), cursorPosition + 10)}"`)
       }, 10)
       
       // Clear the cursor position from store
       setCursorPosition(null)
     }
-  }, [cursorPosition, setCursorPosition])
+  }, [cursorPosition, setCursorPosition, selectRange])
 
-  // Adjust height on window resize (throttled for performance)
+  // Re-align the overlay on window resize (throttled for performance)
   useEffect(() => {
     let resizeTimeout: NodeJS.Timeout
     const handleResize = () => {
       clearTimeout(resizeTimeout)
-      resizeTimeout = setTimeout(adjustTextareaHeight, 100)
+      resizeTimeout = setTimeout(syncOverlay, 100)
     }
 
     window.addEventListener("resize", handleResize)
@@ -261,7 +459,7 @@ export function RichTextEditor({
       window.removeEventListener("resize", handleResize)
       clearTimeout(resizeTimeout)
     }
-  }, [adjustTextareaHeight])
+  }, [syncOverlay])
 
 
 
@@ -290,39 +488,65 @@ export function RichTextEditor({
         <div className={`bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm hover:shadow-md transition-all duration-200 focus-within:shadow-lg focus-within:border-blue-300 dark:focus-within:border-blue-600 flex flex-col min-h-[300px] ${
           readOnly ? 'bg-gray-50 dark:bg-gray-700/50' : ''
         }`}>
+          {!readOnly && (
+            <FormattingToolbar
+              onToggleMark={handleToggleMark}
+              onSetBlockType={handleSetBlockType}
+              onLink={handleLink}
+              disabled={disabled}
+            />
+          )}
+
           {/* Text editor with highlight overlay */}
-          <div className="relative flex-1 flex flex-col">
-            {/* Highlight overlay - only visible when highlighting */}
-            {shouldShowHighlight() && (
+          <div ref={editorAreaRef} className="relative flex-1 flex flex-col">
+            {/* Underline overlay - only rendered when something is underlined */}
+            {segments.length > 0 && (
               <div
                 ref={highlightRef}
-                className="absolute inset-0 px-6 py-6 text-base leading-relaxed text-transparent pointer-events-none rounded-t-xl min-h-[200px] whitespace-pre-wrap break-words overflow-hidden z-10"
-                style={{ 
-                  fontFamily: 'inherit',
-                  fontSize: 'inherit',
-                  lineHeight: 'inherit',
-                  wordSpacing: 'inherit',
-                  letterSpacing: 'inherit'
-                }}
-              >
-                {getHighlightedText()}
+                aria-hidden="true"
+                className={`absolute inset-0 ${DOCUMENT_STYLES} text-transparent pointer-events-none rounded-t-xl min-h-[200px] overflow-hidden z-10`}
+                dangerouslySetInnerHTML={{ __html: overlayHtml }}
+              />
+            )}
+
+            {!content && (
+              <div className={`absolute inset-0 ${DOCUMENT_STYLES} text-gray-400 dark:text-gray-500 pointer-events-none`} aria-hidden="true">
+                {placeholder}
               </div>
             )}
             
-            {/* Auto-expanding TextBox */}
-            <textarea
-              ref={textareaRef}
-              value={content}
-              onChange={(e) => handleTextChange(e.target.value)}
+            {/* Editable document, rendered from richDocument (see the layout effect above) */}
+            <div
+              ref={editorRef}
+              role="textbox"
+              aria-multiline="true"
+              aria-label="Message body"
+              aria-placeholder={placeholder}
+              aria-readonly={readOnly}
+              aria-disabled={disabled}
+              contentEditable={!disabled && !readOnly}
+              suppressContentEditableWarning
+              onInput={handleInput}
+              onCompositionEnd={handleInput}
               onKeyDown={handleKeyDown}
-              placeholder={placeholder}
-              disabled={disabled || readOnly}
+              onSelect={handleSelect}
+              onClick={handleClick}
+              onScroll={handleScroll}
               spellCheck={true}
-              className={`relative w-full px-6 py-6 text-base leading-relaxed text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500 bg-transparent border-none outline-none resize-none rounded-t-xl min-h-[200px] ${
+              className={`relative w-full ${DOCUMENT_STYLES} text-gray-900 dark:text-white bg-transparent border-none outline-none rounded-t-xl min-h-[200px] max-h-[70vh] overflow-y-auto ${
                 readOnly ? 'text-gray-500 dark:text-gray-400 cursor-not-allowed' : ''
               }`}
-              style={{ height: "auto" }}
             />
+
+            {popoverSegment && popover && (
+              <SuggestionPopover
+                suggestions={popoverSegment.suggestions}
+                position={popover}
+                onApply={handlePopoverApply}
+                onDismiss={handlePopoverDismiss}
+                onClose={closePopover}
+              />
+            )}
           </div>
 
           {/* Fixed bottom toolbar */}
@@ -333,6 +557,21 @@ export function RichTextEditor({
               <span>{wordCount} words</span>
               {hasUnsavedChanges && !readOnly && <span className="text-orange-500 dark:text-orange-400">• Unsaved changes</span>}
               {readOnly && <span className="text-blue-500 dark:text-blue-400">• Read only</span>}
+              {language && onLanguageChange && !readOnly && (
+                <label className="inline-flex items-center space-x-1">
+                  <Languages className="w-3 h-3" aria-hidden="true" />
+                  <select
+                    value={language}
+                    onChange={(e) => onLanguageChange(e.target.value as LanguageCode)}
+                    aria-label="Spell-check language"
+                    className="bg-transparent border-none outline-none text-xs text-gray-500 dark:text-gray-400 cursor-pointer hover:text-gray-700 dark:hover:text-gray-200"
+                  >
+                    {SUPPORTED_LANGUAGES.map(({ code, name }) => (
+                      <option key={code} value={code}>{name}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
             </div>
 
             {/* Action buttons - right side */}
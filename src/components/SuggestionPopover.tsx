@@ -0,0 +1,78 @@
+"use client"
+import { useEffect, useRef } from "react"
+import { X } from "lucide-react"
+import type { Suggestion } from "../store/useStore"
+import { applicableAlternatives } from "../services/suggestionBuilders"
+
+interface SuggestionPopoverProps {
+  // Suggestions under the clicked underline, most important first
+  suggestions: Suggestion[]
+  // Position of the underline's bottom-left corner in the editor
+  position: { top: number; left: number }
+  onApply: (suggestionId: string, alternativeIndex: number) => void
+  onDismiss: (suggestionId: string) => void
+  onClose: () => void
+}
+
+export function SuggestionPopover({ suggestions, position, onApply, onDismiss, onClose }: SuggestionPopoverProps) {
+  const popoverRef = useRef<HTMLDivElement>(null)
+
+  // Close on Escape and on clicks anywhere else
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose()
+    }
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!popoverRef.current?.contains(e.target as Node)) onClose()
+    }
+
+    document.addEventListener("keydown", handleKeyDown)
+    document.addEventListener("mousedown", handleMouseDown)
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown)
+      document.removeEventListener("mousedown", handleMouseDown)
+    }
+  }, [onClose])
+
+  return (
+    <div
+      ref={popoverRef}
+      role="dialog"
+      aria-label="Suggestions"
+      className="absolute z-20 mt-1 w-72 p-3 space-y-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 shadow-lg"
+      style={{ top: position.top, left: position.left }}
+    >
+      {suggestions.map(suggestion => (
+        <div key={suggestion.id}>
+          <span className="text-xs font-medium text-gray-600 dark:text-gray-300 uppercase tracking-wide">
+            {suggestion.type}
+          </span>
+          <p className="text-sm text-gray-900 dark:text-white mb-2">{suggestion.explanation}</p>
+          {/* One button per alternative, best first */}
+          <div className="space-y-1 mb-1">
+            {applicableAlternatives(suggestion).map(({ text, index }) => (
+              <button
+                key={index}
+                onClick={() => onApply(suggestion.id, index)}
+                className="w-full px-3 py-1.5 text-left text-xs font-semibold text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/30 rounded-md transition-all"
+              >
+                Apply: <strong>{text}</strong>
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => onDismiss(suggestion.id)}
+              className="flex items-center space-x-1 px-2 py-1.5 text-xs text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-white"
+            >
+              <X className="w-3 h-3" />
+              <span>Dismiss</span>
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default SuggestionPopover
@@ -0,0 +1,73 @@
+"use client"
+import { useState } from "react"
+import { MessageCircle, Wand2 } from "lucide-react"
+import { useStore } from "../store/useStore"
+import { TARGET_TONES, TONE_LABELS, type Tone } from "../services/toneChecker"
+
+interface TonePanelProps {
+  content: string
+}
+
+export function TonePanel({ content }: TonePanelProps) {
+  const { toneAnalysis, isCheckingTone, toneError, selection, checkClarityAndTone, rewriteTone } = useStore()
+  const [targetTone, setTargetTone] = useState<Tone>("friendly")
+
+  const hasText = content.trim().length > 0
+  const hasSelection = selection !== null && selection.end <= content.length
+
+  return (
+    <div className="mb-4 p-3 rounded-lg border border-purple-200 dark:border-purple-800 bg-purple-50 dark:bg-purple-900/20">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <MessageCircle className="w-4 h-4 text-purple-500" />
+          <h3 className="text-sm font-medium text-gray-900 dark:text-white">
+            Tone{toneAnalysis && `: ${TONE_LABELS[toneAnalysis.overall]}`}
+          </h3>
+        </div>
+        <button
+          onClick={() => checkClarityAndTone(content, "tone")}
+          disabled={!hasText || isCheckingTone}
+          className="text-xs font-medium text-purple-600 dark:text-purple-400 hover:text-purple-800 dark:hover:text-purple-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isCheckingTone ? "Analyzing tone..." : "Detect tone"}
+        </button>
+      </div>
+
+      {toneAnalysis && toneAnalysis.sentences.length > 0 && (
+        <ul className="mb-3 space-y-1">
+          {toneAnalysis.sentences.map((entry, index) => (
+            <li key={index} className="text-xs text-gray-600 dark:text-gray-400">
+              <span className="font-semibold">{TONE_LABELS[entry.tone]}:</span> "{entry.sentence}"
+              {entry.evidence && <span className="block text-gray-500 dark:text-gray-500">{entry.evidence}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <select
+          value={targetTone}
+          onChange={(e) => setTargetTone(e.target.value as Tone)}
+          aria-label="Target tone"
+          className="flex-1 px-2 py-1 text-xs border border-gray-200 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300"
+        >
+          {TARGET_TONES.map((tone) => (
+            <option key={tone} value={tone}>{TONE_LABELS[tone]}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => rewriteTone(content, targetTone)}
+          disabled={!hasText || isCheckingTone}
+          className="inline-flex items-center px-3 py-1 text-xs font-semibold text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-300 dark:disabled:bg-gray-600 rounded-md transition-colors"
+        >
+          <Wand2 className="w-3 h-3 mr-1" />
+          {hasSelection ? "Rewrite selection" : "Rewrite email"}
+        </button>
+      </div>
+
+      {toneError && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{toneError}</p>}
+    </div>
+  )
+}
+
+export default TonePanel
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
+import type { RichDocument } from '../services/richDocument'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
@@ -23,10 +24,21 @@ export interface Draft {
   user_id: string
   title: string
   content: string
+  language: string
+  ignored_issues: IgnoredIssue[]
+  // Formatted body; null for drafts saved as plain text only
+  rich_content: RichDocument | null
   created_at: string
   updated_at: string
 }
 
+// A suggestion dismissed (or snoozed) in one draft, see services/ignoredIssues
+export interface IgnoredIssue {
+  rule: string
+  text: string
+  until?: number
+}
+
 export interface SentMessage {
   id: string
   user_id: string
@@ -35,15 +47,37 @@ export interface SentMessage {
   recipient_email?: string
   cc_recipients?: string
   bcc_recipients?: string
+  content_html?: string | null
   sent_at: string
 }
 
+export type DictionaryEntryKind = 'dictionary' | 'ignore'
+
+export interface UserDictionaryEntry {
+  id: string
+  user_id: string
+  word: string
+  kind: DictionaryEntryKind
+  created_at: string
+}
+
+export interface MutedRule {
+  id: string
+  user_id: string
+  rule: string
+  created_at: string
+}
+
 export type Database = {
   public: {
     Tables: {
       drafts: {
         Row: Draft
-        Insert: Omit<Draft, 'id' | 'created_at' | 'updated_at' | 'user_id'>
+        Insert: Omit<Draft, 'id' | 'created_at' | 'updated_at' | 'user_id' | 'language' | 'ignored_issues' | 'rich_content'> & {
+          language?: string
+          ignored_issues?: IgnoredIssue[]
+          rich_content?: RichDocument | null
+        }
         Update: Partial<Omit<Draft, 'id' | 'created_at' | 'user_id'>>
       }
       sent_messages: {
@@ -51,6 +85,16 @@ export type Database = {
         Insert: Omit<SentMessage, 'id' | 'sent_at' | 'user_id'>
         Update: Partial<Omit<SentMessage, 'id' | 'sent_at' | 'user_id'>>
       }
+      user_dictionary_entries: {
+        Row: UserDictionaryEntry
+        Insert: Omit<UserDictionaryEntry, 'id' | 'created_at' | 'user_id'>
+        Update: never
+      }
+      muted_rules: {
+        Row: MutedRule
+        Insert: Omit<MutedRule, 'id' | 'created_at' | 'user_id'>
+        Update: never
+      }
     }
   }
 } 
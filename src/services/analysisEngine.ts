@@ -0,0 +1,75 @@
+import type { Suggestion } from "../store/useStore"
+import { getSpellChecker, setCustomWordsForAllLanguages } from "./spellChecker"
+import { grammarChecker } from "./grammarChecker"
+import { confusionChecker } from "./confusionChecker"
+import { buildSpellingSuggestions, buildGrammarSuggestions } from "./suggestionBuilders"
+import { splitParagraphs, type TextRange } from "./paragraphTracker"
+import { detectParagraphLanguage } from "./languageDetector"
+import { DEFAULT_LANGUAGE, type LanguageCode } from "./languages"
+import { maskSkipRegions } from "./textSegmenter"
+
+export type AnalysisKind = "spelling" | "grammar"
+
+// Messages exchanged with the analysis worker
+export type AnalysisRequest =
+  | { type: "analyze"; kind: AnalysisKind; revision: number; text: string; ranges?: TextRange[]; language?: LanguageCode }
+  | { type: "cancel"; kind: AnalysisKind; revision: number }
+  | { type: "customWords"; words: string[]; ignored: string[] }
+
+export interface AnalysisResponse {
+  kind: AnalysisKind
+  revision: number
+  status: "done" | "cancelled" | "error"
+  suggestions: Suggestion[]
+  error?: string
+}
+
+/**
+ * Run one analysis pass over the given ranges (the whole text by default).
+ * Executed inside the analysis worker, or on the main thread when workers are
+ * unavailable (tests, very old browsers). Positions are absolute in `text`.
+ *
+ * Each paragraph is checked in its detected language, falling back to
+ * `language` (the draft's language) when detection is inconclusive.
+ * Code, URLs, email addresses, quoted replies and the signature are blanked out
+ * first, so no checker reports anything inside them.
+ */
+export async function runAnalysis(
+  kind: AnalysisKind,
+  text: string,
+  ranges?: TextRange[],
+  language: LanguageCode = DEFAULT_LANGUAGE
+): Promise<Suggestion[]> {
+  const suggestions: Suggestion[] = []
+  // Skip regions are found in the whole text: a fenced code block can span paragraphs
+  const prose = maskSkipRegions(text)
+
+  for (const range of ranges ?? [{ start: 0, end: text.length }]) {
+    for (const paragraph of splitParagraphs(prose.slice(range.start, range.end))) {
+      const paragraphLanguage = detectParagraphLanguage(paragraph.text, language)
+      suggestions.push(...await analyzeParagraph(kind, paragraph.text, range.start + paragraph.start, paragraphLanguage))
+    }
+  }
+
+  return suggestions
+}
+
+/**
+ * Apply the user's personal dictionary and ignore list to the spell checkers
+ */
+export function applyCustomWords(words: string[], ignored: string[]): void {
+  setCustomWordsForAllLanguages(words, ignored)
+}
+
+async function analyzeParagraph(kind: AnalysisKind, text: string, offset: number, language: LanguageCode): Promise<Suggestion[]> {
+  if (kind === "spelling") {
+    const errors = await getSpellChecker(language).checkText(text)
+    return buildSpellingSuggestions(errors, offset)
+  }
+
+  // The grammar rules are written for English
+  if (!language.startsWith("en") || !grammarChecker.isReady()) {
+    return []
+  }
+  return buildGrammarSuggestions([...grammarChecker.checkText(text), ...confusionChecker.checkText(text)], offset)
+}
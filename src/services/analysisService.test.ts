@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { analysisService } from './analysisService'
+
+describe('AnalysisService', () => {
+  describe('Main-thread fallback', () => {
+    it('should return spelling suggestions for misspelled words', async () => {
+      const suggestions = await analysisService.analyze('spelling', 'This is teh test.')
+
+      expect(suggestions).not.toBeNull()
+      const typo = suggestions!.find(s => s.original === 'teh')
+      expect(typo).toBeDefined()
+      expect(typo!.type).toBe('spelling')
+      expect(typo!.suggestion).toBe('the')
+      expect(typo!.position).toEqual({ start: 8, end: 11 })
+    })
+
+    it('should check each paragraph in its detected language', async () => {
+      const text = 'This is teh test.\n\nHola, gracias por todo, también para la familia.'
+      const suggestions = await analysisService.analyze('spelling', text, undefined, 'en-US')
+
+      const flagged = suggestions!.map(s => s.original)
+      expect(flagged).toContain('teh')
+      expect(flagged).not.toContain('gracias')
+      expect(flagged).not.toContain('también')
+    })
+
+    it('should leave code, quoted replies and signatures alone', async () => {
+      const text = 'Run `npm instal` before teh demo.\n\n> their going to call\n\n-- \nJhon Smiht'
+      const spelling = await analysisService.analyze('spelling', text)
+      const grammar = await analysisService.analyze('grammar', text)
+
+      const flagged = spelling!.map(s => s.original)
+      expect(flagged).toContain('teh')
+      expect(flagged).not.toContain('instal')
+      expect(flagged).not.toContain('Smiht')
+      expect(grammar!.filter(s => s.original.toLowerCase() === 'their')).toEqual([])
+    })
+
+    it('should return grammar suggestions as Suggestion objects', async () => {
+      const suggestions = await analysisService.analyze('grammar', 'The ball was thrown by John.')
+
+      expect(Array.isArray(suggestions)).toBe(true)
+      suggestions!.forEach(suggestion => {
+        expect(suggestion.source).toBe('local')
+        expect(['grammar', 'clarity']).toContain(suggestion.type)
+      })
+    })
+  })
+
+  describe('Revision tracking', () => {
+    it('should resolve superseded jobs with null', async () => {
+      const stale = analysisService.analyze('spelling', 'First revison')
+      const latest = analysisService.analyze('spelling', 'Second revison')
+
+      await expect(stale).resolves.toBeNull()
+      await expect(latest).resolves.not.toBeNull()
+    })
+
+    it('should track revisions per checker kind', async () => {
+      const spelling = analysisService.analyze('spelling', 'Some text')
+      const grammar = analysisService.analyze('grammar', 'Some text')
+
+      await expect(spelling).resolves.not.toBeNull()
+      await expect(grammar).resolves.not.toBeNull()
+    })
+
+    it('should resolve cancelled jobs with null', async () => {
+      const job = analysisService.analyze('grammar', 'The report was written.')
+      analysisService.cancel('grammar')
+
+      await expect(job).resolves.toBeNull()
+    })
+  })
+
+  describe('Worker failure', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+      vi.resetModules()
+    })
+
+    it('should finish jobs in flight on the main thread when the worker fails', async () => {
+      const workers: FakeWorker[] = []
+      class FakeWorker {
+        onmessage: ((event: MessageEvent) => void) | null = null
+        onerror: ((event: { message: string }) => void) | null = null
+        postMessage = vi.fn()
+        terminate = vi.fn()
+        constructor() {
+          workers.push(this)
+        }
+      }
+      vi.stubGlobal('Worker', FakeWorker)
+      vi.resetModules()
+      const { analysisService: service } = await import('./analysisService')
+
+      const job = service.analyze('spelling', 'This is teh test.')
+      expect(workers[0].postMessage).toHaveBeenCalled()
+      workers[0].onerror?.({ message: 'Worker crashed' })
+
+      const suggestions = await job
+      expect(workers[0].terminate).toHaveBeenCalled()
+      expect(suggestions?.map(s => s.original)).toContain('teh')
+    })
+  })
+})
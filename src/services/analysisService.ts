@@ -0,0 +1,148 @@
+import type { Suggestion } from "../store/useStore"
+import type { AnalysisKind, AnalysisRequest, AnalysisResponse } from "./analysisEngine"
+import type { TextRange } from "./paragraphTracker"
+import type { LanguageCode } from "./languages"
+
+type PendingJob = {
+  revision: number
+  text: string
+  ranges?: TextRange[]
+  language?: LanguageCode
+  resolve: (suggestions: Suggestion[] | null) => void
+}
+
+/**
+ * Main-thread client for the analysis worker.
+ * Each checker kind has its own revision counter; starting a new job for a kind
+ * supersedes any job still in flight, which then resolves with `null`.
+ */
+class AnalysisService {
+  private worker: Worker | null = null
+  private revisions: Record<AnalysisKind, number> = { spelling: 0, grammar: 0 }
+  private pending: Record<AnalysisKind, PendingJob | null> = { spelling: null, grammar: null }
+  // Last sent to the worker, for the main thread to take over if the worker fails
+  private customWords: { words: string[]; ignored: string[] } | null = null
+
+  constructor() {
+    if (typeof Worker === 'undefined') {
+      return
+    }
+
+    try {
+      this.worker = new Worker(new URL('../workers/analysis.worker.ts', import.meta.url), { type: 'module' })
+      this.worker.onmessage = (event: MessageEvent<AnalysisResponse>) => this.handleResponse(event.data)
+      this.worker.onerror = (event) => {
+        console.error('Analysis worker failed, falling back to main thread:', event.message)
+        this.fallBackToMainThread()
+      }
+    } catch (error) {
+      console.warn('Analysis worker unavailable, running checks on the main thread:', error)
+      this.worker = null
+    }
+  }
+
+  /**
+   * Analyze text with the given checker, optionally limited to some ranges.
+   * `language` is used for paragraphs whose language cannot be detected.
+   * Resolves with the suggestions, or `null` if a newer job superseded this one.
+   */
+  analyze(kind: AnalysisKind, text: string, ranges?: TextRange[], language?: LanguageCode): Promise<Suggestion[] | null> {
+    const revision = ++this.revisions[kind]
+    this.settle(kind, null)
+
+    return new Promise((resolve) => {
+      this.pending[kind] = { revision, text, ranges, language, resolve }
+
+      if (this.worker) {
+        this.post({ type: 'analyze', kind, revision, text, ranges, language })
+      } else {
+        this.runOnMainThread(kind, revision, text, ranges, language)
+      }
+    })
+  }
+
+  /**
+   * Drop any in-flight job for a checker without starting a new one
+   */
+  cancel(kind: AnalysisKind): void {
+    const revision = ++this.revisions[kind]
+    this.settle(kind, null)
+    this.post({ type: 'cancel', kind, revision })
+  }
+
+  /**
+   * Send the user's personal dictionary and ignore list to the spell checker
+   */
+  async setCustomWords(words: string[], ignored: string[]): Promise<void> {
+    if (this.worker) {
+      this.customWords = { words, ignored }
+      this.post({ type: 'customWords', words, ignored })
+      return
+    }
+
+    const { applyCustomWords } = await import('./analysisEngine')
+    applyCustomWords(words, ignored)
+  }
+
+  // Stop using the worker, and run the jobs it left unfinished on the main thread
+  private fallBackToMainThread(): void {
+    this.worker?.terminate()
+    this.worker = null
+
+    if (this.customWords) {
+      const { words, ignored } = this.customWords
+      this.setCustomWords(words, ignored).catch(error => {
+        console.error('Failed to restore personal dictionary on the main thread:', error)
+      })
+    }
+    for (const kind of Object.keys(this.pending) as AnalysisKind[]) {
+      const job = this.pending[kind]
+      if (job) this.runOnMainThread(kind, job.revision, job.text, job.ranges, job.language)
+    }
+  }
+
+  private post(request: AnalysisRequest): void {
+    this.worker?.postMessage(request)
+  }
+
+  private settle(kind: AnalysisKind, suggestions: Suggestion[] | null): void {
+    const job = this.pending[kind]
+    if (job) {
+      this.pending[kind] = null
+      job.resolve(suggestions)
+    }
+  }
+
+  private handleResponse(response: AnalysisResponse): void {
+    const job = this.pending[response.kind]
+    if (!job || job.revision !== response.revision) {
+      return
+    }
+
+    if (response.status === 'error') {
+      console.error(`Analysis worker ${response.kind} check failed:`, response.error)
+    }
+    this.settle(response.kind, response.status === 'done' ? response.suggestions : null)
+  }
+
+  private async runOnMainThread(
+    kind: AnalysisKind,
+    revision: number,
+    text: string,
+    ranges?: TextRange[],
+    language?: LanguageCode
+  ): Promise<void> {
+    try {
+      const { runAnalysis } = await import('./analysisEngine')
+      const suggestions = await runAnalysis(kind, text, ranges, language)
+      this.handleResponse({ kind, revision, status: 'done', suggestions })
+    } catch (error) {
+      this.handleResponse({ kind, revision, status: 'error', suggestions: [], error: (error as Error).message })
+    }
+  }
+}
+
+// Export a singleton instance
+export const analysisService = new AnalysisService()
+
+export default analysisService
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { diffRows, planBulkFix } from './bulkFix'
+import type { Suggestion } from '../store/useStore'
+
+const suggestion = (id: string, start: number, original: string, replacement: string, overrides: Partial<Suggestion> = {}): Suggestion => ({
+  id,
+  type: 'spelling',
+  original,
+  suggestion: replacement,
+  explanation: `Replace "${original}"`,
+  source: 'local',
+  priority: 1,
+  position: { start, end: start + original.length },
+  confidence: 0.9,
+  ...overrides
+})
+
+describe('bulkFix', () => {
+  const text = 'Teh cat sat.\nIt was realy very tired.'
+
+  it('should fix every matching suggestion, last in the text first', () => {
+    const plan = planBulkFix(text, [
+      suggestion('s1', 0, 'Teh', 'The'),
+      suggestion('s2', 20, 'realy', 'really'),
+      suggestion('g1', 26, 'very tired', 'exhausted', { type: 'clarity', confidence: 0.6 })
+    ], { type: 'spelling' })
+
+    expect(plan.after).toBe('The cat sat.\nIt was really very tired.')
+    expect(plan.edits).toEqual([
+      { start: 20, removed: 'realy', inserted: 'really' },
+      { start: 0, removed: 'Teh', inserted: 'The' }
+    ])
+    expect(plan.suggestions.map(s => s.id)).toEqual(['s2', 's1'])
+  })
+
+  it('should filter by confidence and skip advice, no-ops and stale suggestions', () => {
+    const plan = planBulkFix(text, [
+      suggestion('s1', 0, 'Teh', 'The', { confidence: 0.4 }),
+      suggestion('s2', 20, 'realy', 'really'),
+      suggestion('a1', 4, 'cat', 'cat', { type: 'clarity' }),
+      suggestion('a2', 8, 'sat', 'sit', { advisory: true }),
+      suggestion('x1', 2, 'old', 'new')
+    ], { minConfidence: 0.5 })
+
+    expect(plan.suggestions.map(s => s.id)).toEqual(['s2'])
+  })
+
+  it('should apply the more important of two overlapping suggestions', () => {
+    const wordy = suggestion('c1', 20, 'realy very', 'very', { type: 'clarity', priority: 3 })
+    const plan = planBulkFix(text, [wordy, suggestion('s2', 20, 'realy', 'really')], {})
+
+    expect(plan.suggestions.map(s => s.id)).toEqual(['s2'])
+    expect(plan.conflicts).toEqual([wordy])
+  })
+
+  it('should diff the changed lines side by side', () => {
+    const plan = planBulkFix(text, [suggestion('s1', 0, 'Teh', 'The'), suggestion('s2', 20, 'realy', 'really'), suggestion('s3', 31, 'tired', 'tyred')], {})
+
+    expect(diffRows(plan)).toEqual([
+      {
+        before: [{ text: 'Teh', changed: true }, { text: ' cat sat.', changed: false }],
+        after: [{ text: 'The', changed: true }, { text: ' cat sat.', changed: false }]
+      },
+      {
+        before: [{ text: 'It was ', changed: false }, { text: 'realy', changed: true }, { text: ' very ', changed: false }, { text: 'tired', changed: true }, { text: '.', changed: false }],
+        after: [{ text: 'It was ', changed: false }, { text: 'really', changed: true }, { text: ' very ', changed: false }, { text: 'tyred', changed: true }, { text: '.', changed: false }]
+      }
+    ])
+  })
+})
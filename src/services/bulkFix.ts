@@ -0,0 +1,118 @@
+import type { Suggestion } from "../store/useStore"
+import type { TextEdit } from "./editHistory"
+
+// "Fix all": apply every suggestion of a type, or above a confidence, in one
+// go. Suggestions that overlap can't all be applied, so the most important of
+// them wins (by priority, then confidence) and the others are left for later.
+
+/**
+ * Which suggestions to fix: of `type`, with at least `minConfidence`, or both
+ */
+export interface BulkFixFilter {
+  type?: Suggestion["type"]
+  minConfidence?: number
+}
+
+export interface BulkFixPlan {
+  before: string
+  after: string
+  // Last in the text first, so each edit leaves the positions of the next one alone
+  edits: TextEdit[]
+  // The suggestion each edit applies, in the same order
+  suggestions: Suggestion[]
+  // Matching suggestions left out because they overlap one that is applied
+  conflicts: Suggestion[]
+}
+
+/**
+ * One side of a diff row: the row's text, cut where it changed
+ */
+export interface DiffPart {
+  text: string
+  changed: boolean
+}
+
+export interface DiffRow {
+  before: DiffPart[]
+  after: DiffPart[]
+}
+
+export const matchesFilter = (suggestion: Suggestion, { type, minConfidence = 0 }: BulkFixFilter): boolean =>
+  (!type || suggestion.type === type) && suggestion.confidence >= minConfidence
+
+// Whether the suggestion has a rewrite that still fits the text
+const isApplicable = (suggestion: Suggestion, text: string): boolean => {
+  const { start, end } = suggestion.position
+  return !suggestion.advisory && suggestion.suggestion !== suggestion.original && text.slice(start, end) === suggestion.original
+}
+
+const overlaps = (a: Suggestion, b: Suggestion) =>
+  a.position.start < b.position.end && b.position.start < a.position.end
+
+/**
+ * The fixes that `filter` selects among `suggestions`, as edits to `text`.
+ * Each suggestion is fixed with its best replacement.
+ */
+export function planBulkFix(text: string, suggestions: Suggestion[], filter: BulkFixFilter): BulkFixPlan {
+  const candidates = suggestions
+    .filter(suggestion => matchesFilter(suggestion, filter) && isApplicable(suggestion, text))
+    .sort((a, b) => a.priority - b.priority || b.confidence - a.confidence || a.position.start - b.position.start)
+
+  const chosen: Suggestion[] = []
+  const conflicts: Suggestion[] = []
+  for (const candidate of candidates) {
+    if (chosen.some(suggestion => overlaps(suggestion, candidate))) conflicts.push(candidate)
+    else chosen.push(candidate)
+  }
+
+  chosen.sort((a, b) => b.position.start - a.position.start)
+  const edits = chosen.map(({ position, original, suggestion }) => ({ start: position.start, removed: original, inserted: suggestion }))
+  const after = edits.reduce((result, { start, removed, inserted }) => result.slice(0, start) + inserted + result.slice(start + removed.length), text)
+
+  return { before: text, after, edits, suggestions: chosen, conflicts }
+}
+
+const pushPart = (parts: DiffPart[], text: string, changed: boolean) => {
+  if (text) parts.push({ text, changed })
+}
+
+// Where the line containing `position` ends
+const lineEnd = (text: string, position: number) => {
+  const end = text.indexOf("\n", position)
+  return end === -1 ? text.length : end
+}
+
+/**
+ * Side-by-side diff of a plan: one row per line with a fix on it (lines a fix
+ * spans are joined into one row), before and after
+ */
+export function diffRows({ before, edits }: BulkFixPlan): DiffRow[] {
+  const changes = [...edits].reverse()
+  const rows: DiffRow[] = []
+
+  let index = 0
+  while (index < changes.length) {
+    const first = changes[index]
+    const rowStart = Math.min(first.start, before.lastIndexOf("\n", first.start - 1) + 1)
+    let rowEnd = lineEnd(before, first.start + first.removed.length)
+    const row: DiffRow = { before: [], after: [] }
+    let cursor = rowStart
+    while (index < changes.length && changes[index].start <= rowEnd) {
+      const { start, removed, inserted } = changes[index]
+      const same = before.slice(cursor, start)
+      pushPart(row.before, same, false)
+      pushPart(row.after, same, false)
+      pushPart(row.before, removed, true)
+      pushPart(row.after, inserted, true)
+      cursor = start + removed.length
+      rowEnd = Math.max(rowEnd, lineEnd(before, cursor))
+      index++
+    }
+    const rest = before.slice(cursor, rowEnd)
+    pushPart(row.before, rest, false)
+    pushPart(row.after, rest, false)
+    rows.push(row)
+  }
+
+  return rows
+}
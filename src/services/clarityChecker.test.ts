@@ -1,5 +1,17 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
 import { clarityChecker, type ClarityCheckResult, type ClarityCheckError } from './clarityChecker'
+import { handleRequest } from '../../supabase/functions/check-grammar/handler.ts'
+import { MockProvider } from '../../supabase/functions/check-grammar/llm.ts'
+import { MOCK_FIXTURES } from '../../supabase/functions/check-grammar/fixtures.ts'
+import { supabase } from '../lib/supabase'
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {
+    auth: {
+      getSession: vi.fn(() => Promise.resolve({ data: { session: { access_token: 'user-token' } } })),
+    },
+  },
+}))
 
 // Mock fetch for API calls
 global.fetch = vi.fn()
@@ -7,6 +19,7 @@ global.fetch = vi.fn()
 describe('ClarityChecker', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    clarityChecker.clearCache()
   })
 
   afterEach(() => {
@@ -32,9 +45,13 @@ describe('ClarityChecker', () => {
           suggestions: [
             {
               type: "clarity",
+              segment: 1,
               original: "very important",
               suggestion: "important",
-              explanation: "Remove redundant qualifier"
+              explanation: "Remove redundant qualifier",
+              severity: "low",
+              start: 8,
+              end: 22
             }
           ]
         })
@@ -131,9 +148,8 @@ describe('ClarityChecker', () => {
       const text = 'This is a test sentence.'
       const result = await clarityChecker.checkText(text)
       
-      // Service should handle missing suggestions gracefully and return empty array
-      expect(Array.isArray(result)).toBe(true)
-      expect(result).toHaveLength(0)
+      // A response without a suggestions array does not match the schema
+      expect(result).toHaveProperty('code', 'INVALID_RESPONSE')
     })
 
     it('should handle invalid JSON in API response', async () => {
@@ -147,6 +163,20 @@ describe('ClarityChecker', () => {
       
       expect('message' in result).toBe(true)
       expect(result).toHaveProperty('message')
+      expect(result).toHaveProperty('code', 'INVALID_RESPONSE')
+    })
+
+    it('should pass on the error code sent by the function', async () => {
+      vi.mocked(fetch).mockResolvedValue({
+        ok: false,
+        status: 502,
+        statusText: 'Bad Gateway',
+        json: () => Promise.resolve({ error: 'The mock model did not return a usable answer', code: 'MODEL_OUTPUT_INVALID' })
+      } as Response)
+
+      const result = await clarityChecker.checkText('This is a test sentence.')
+
+      expect(result).toEqual({ message: 'The mock model did not return a usable answer', code: 'MODEL_OUTPUT_INVALID' })
     })
   })
 
@@ -214,7 +244,8 @@ describe('ClarityChecker', () => {
       expect(options?.method).toBe('POST')
       expect(options?.headers).toMatchObject({
         'Content-Type': 'application/json',
-        'Authorization': expect.stringContaining('Bearer')
+        'Authorization': 'Bearer user-token',
+        'apikey': expect.any(String)
       })
       
       const body = JSON.parse(options?.body as string)
@@ -222,7 +253,7 @@ describe('ClarityChecker', () => {
       expect(body.text).toContain(text)
     })
 
-    it('should include proper system prompt', async () => {
+    it('should send the text unchanged in clarity mode', async () => {
       const text = 'Test sentence.'
       
       await clarityChecker.checkText(text)
@@ -230,8 +261,8 @@ describe('ClarityChecker', () => {
       const [, options] = vi.mocked(fetch).mock.calls[0]
       const body = JSON.parse(options?.body as string)
       
-      expect(body.text).toContain('clarity')
-      expect(body.text).toContain('Test sentence')
+      // Offsets from the function are relative to the text, so nothing may be prepended
+      expect(body).toEqual({ text, mode: 'clarity' })
     })
   })
 
@@ -240,15 +271,23 @@ describe('ClarityChecker', () => {
       const mockSuggestions = [
         {
           type: "clarity",
+          segment: 1,
           original: "very important",
           suggestion: "important", 
-          explanation: "Remove redundant qualifier"
+          explanation: "Remove redundant qualifier",
+          severity: "low",
+          start: 5,
+          end: 19
         },
         {
           type: "clarity",
+          segment: 1,
           original: "in order to",
           suggestion: "to",
-          explanation: "Simplify phrase"
+          explanation: "Simplify phrase",
+          severity: "medium",
+          start: 26,
+          end: 37
         }
       ]
 
@@ -270,6 +309,58 @@ describe('ClarityChecker', () => {
       expect(suggestions[0].suggestion).toBe('important')
       expect(suggestions[1].original).toBe('in order to')
       expect(suggestions[1].suggestion).toBe('to')
+      expect(suggestions[1].severity).toBe('medium')
+    })
+
+    it('should offer every rewrite the model returned, best first', async () => {
+      vi.mocked(fetch).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({
+          suggestions: [{
+            type: "clarity",
+            segment: 1,
+            original: "Due to the fact that",
+            suggestion: "Because",
+            confidence: 0.9,
+            alternatives: [{ suggestion: "Since", confidence: 0.6 }],
+            explanation: "Wordy phrase",
+            severity: "low",
+            start: 0,
+            end: 20
+          }]
+        })
+      } as Response)
+
+      const result = await clarityChecker.checkText('Due to the fact that it rained, we stayed in.') as ClarityCheckResult[]
+
+      expect(result[0].confidence).toBe(0.9)
+      expect(result[0].alternatives).toEqual([
+        { text: 'Because', confidence: 0.9 },
+        { text: 'Since', confidence: 0.6 }
+      ])
+    })
+
+    it('should reject alternatives without a confidence', async () => {
+      vi.mocked(fetch).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({
+          suggestions: [{
+            type: "clarity",
+            segment: 1,
+            original: "Due to the fact that",
+            suggestion: "Because",
+            alternatives: [{ suggestion: "Since" }],
+            explanation: "Wordy phrase",
+            severity: "low",
+            start: 0,
+            end: 20
+          }]
+        })
+      } as Response)
+
+      const result = await clarityChecker.checkText('Due to the fact that it rained, we stayed in.')
+
+      expect((result as ClarityCheckError).code).toBe('INVALID_RESPONSE')
     })
 
     it('should handle empty suggestions array', async () => {
@@ -306,17 +397,45 @@ describe('ClarityChecker', () => {
       const text = 'Valid suggestion with some issues.'
       const result = await clarityChecker.checkText(text)
       
-      // Should filter out invalid suggestions
-      if (Array.isArray(result)) {
-        expect(result.length).toBeLessThanOrEqual(1)
-        result.forEach(suggestion => {
-          expect(suggestion).toHaveProperty('original')
-          expect(suggestion).toHaveProperty('suggestion')
-          expect(suggestion).toHaveProperty('explanation')
-          expect(suggestion).toHaveProperty('position')
-          expect(suggestion).toHaveProperty('confidence')
-        })
-      }
+      // The whole response is rejected: the function never sends partial suggestions
+      expect(result).toHaveProperty('code', 'INVALID_RESPONSE')
+      expect((result as ClarityCheckError).message).toContain('suggestions[0]')
+    })
+  })
+
+  describe('Server Offsets', () => {
+    const respond = (suggestions: object[]) => {
+      vi.mocked(fetch).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ suggestions })
+      } as Response)
+    }
+
+    it('should use the offsets returned by the function for repeated phrases', async () => {
+      const text = 'We met in order to talk. Then we left in order to eat.'
+      respond([{ type: 'clarity', segment: 2, original: 'in order to', suggestion: 'to', explanation: 'Shorter', severity: 'low', start: 38, end: 49 }])
+
+      const result = await clarityChecker.checkText(text) as ClarityCheckResult[]
+
+      expect(result[0].position).toEqual({ start: 38, end: 49 })
+    })
+
+    it('should drop suggestions whose offsets do not match the text', async () => {
+      const text = 'We met in order to talk about it.'
+      respond([{ type: 'clarity', segment: 1, original: 'in order to', suggestion: 'to', explanation: 'Shorter', severity: 'low', start: 0, end: 11 }])
+
+      const result = await clarityChecker.checkText(text)
+
+      expect(result).toEqual([])
+    })
+
+    it('should reject suggestions without a span', async () => {
+      const text = 'Due to the fact that it rained, we stayed in.'
+      respond([{ type: 'clarity', segment: 1, original: 'Due to the fact that', suggestion: 'Because', explanation: 'Shorter', severity: 'low' }])
+
+      const result = await clarityChecker.checkText(text)
+
+      expect(result).toHaveProperty('code', 'INVALID_RESPONSE')
     })
   })
 
@@ -333,6 +452,30 @@ describe('ClarityChecker', () => {
       
       expect('message' in result).toBe(true)
       expect((result as ClarityCheckError).message).toContain('Too Many Requests')
+      expect(result).toHaveProperty('code', 'RATE_LIMITED')
+    })
+
+    it('should report when to retry after a quota error', async () => {
+      vi.mocked(fetch).mockResolvedValue({
+        ok: false,
+        status: 429,
+        statusText: 'Too Many Requests',
+        headers: new Headers({ 'Retry-After': '120' }),
+        json: () => Promise.resolve({ error: 'Daily writing check quota used up', code: 'QUOTA_EXCEEDED', retryAfter: 120 })
+      } as Response)
+
+      const result = await clarityChecker.checkText('This is a test sentence.')
+
+      expect(result).toEqual({ message: 'Daily writing check quota used up', code: 'QUOTA_EXCEEDED', retryAfter: 120 })
+    })
+
+    it('should require a signed-in user', async () => {
+      vi.mocked(supabase.auth.getSession).mockResolvedValueOnce({ data: { session: null }, error: null })
+
+      const result = await clarityChecker.checkText('This is a test sentence.')
+
+      expect(result).toHaveProperty('code', 'UNAUTHORIZED')
+      expect(fetch).not.toHaveBeenCalled()
     })
 
     it('should complete within reasonable time', async () => {
@@ -354,4 +497,163 @@ describe('ClarityChecker', () => {
       expect(endTime - startTime).toBeLessThan(5000) // Should complete in < 5s
     })
   })
-}) 
+
+  describe('Result cache', () => {
+    beforeEach(() => {
+      vi.mocked(fetch).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({
+          suggestions: [
+            { type: 'clarity', segment: 1, original: 'very important', suggestion: 'important', explanation: 'Redundant', severity: 'low', start: 8, end: 22 }
+          ]
+        })
+      } as Response)
+    })
+
+    it('should answer a paragraph checked before without a request, rebased onto its whitespace', async () => {
+      await clarityChecker.checkText('This is very important information.')
+      const result = await clarityChecker.checkText('\n  This is very\nimportant information.') as ClarityCheckResult[]
+
+      expect(fetch).toHaveBeenCalledOnce()
+      expect(result[0]).toMatchObject({ original: 'very\nimportant', position: { start: 11, end: 25 } })
+    })
+
+    it('should request the paragraph again after the cache is cleared', async () => {
+      await clarityChecker.checkText('This is very important information.')
+      clarityChecker.clearCache()
+      await clarityChecker.checkText('This is very important information.')
+
+      expect(fetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not cache failed checks', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce({ ok: false, status: 500, statusText: 'Server Error' } as Response)
+
+      await clarityChecker.checkText('This is very important information.')
+      const result = await clarityChecker.checkText('This is very important information.')
+
+      expect(fetch).toHaveBeenCalledTimes(2)
+      expect(result).toHaveLength(1)
+    })
+  })
+
+  describe('Streaming', () => {
+    const ndjson = (...events: unknown[]) => new Response(events.map(event => JSON.stringify(event)).join('\n') + '\n')
+    const collect = async (text: string) => {
+      const items = []
+      for await (const item of clarityChecker.streamText(text)) items.push(item)
+      return items
+    }
+    const suggestion = { type: 'clarity', segment: 1, original: 'very important', suggestion: 'important', explanation: 'Redundant', severity: 'low', start: 8, end: 22 }
+
+    it('should yield results as the function streams them and cache the finished list', async () => {
+      vi.mocked(fetch).mockResolvedValue(ndjson({ type: 'suggestion', suggestion }, { type: 'done' }))
+
+      const items = await collect('This is very important information.')
+
+      expect(items).toEqual([expect.objectContaining({ original: 'very important', position: { start: 8, end: 22 } })])
+      expect(JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string)).toMatchObject({ stream: true })
+      expect(clarityChecker.getCached('This is very important information.')).toHaveLength(1)
+    })
+
+    it('should not cache a partial answer', async () => {
+      vi.mocked(fetch).mockResolvedValue(ndjson({ type: 'suggestion', suggestion }, { type: 'done', partial: true }))
+
+      const items = await collect('This is very important information.')
+
+      expect(items).toEqual([expect.objectContaining({ original: 'very important' })])
+      expect(clarityChecker.getCached('This is very important information.')).toBeNull()
+    })
+
+    it('should end with the error the function reports', async () => {
+      vi.mocked(fetch).mockResolvedValue(ndjson({ type: 'suggestion', suggestion }, { type: 'error', error: 'Model down', code: 'PROVIDER_ERROR' }))
+
+      const items = await collect('This is very important information.')
+
+      expect(items).toHaveLength(2)
+      expect(items[1]).toEqual({ message: 'Model down', code: 'PROVIDER_ERROR' })
+      expect(clarityChecker.getCached('This is very important information.')).toBeNull()
+    })
+
+    it('should report a stream that stops before "done"', async () => {
+      vi.mocked(fetch).mockResolvedValue(ndjson({ type: 'suggestion', suggestion }))
+
+      const items = await collect('This is very important information.')
+
+      expect(items[1]).toHaveProperty('code', 'INVALID_RESPONSE')
+    })
+
+    it('should skip streamed suggestions that do not match the text', async () => {
+      vi.mocked(fetch).mockResolvedValue(ndjson({ type: 'suggestion', suggestion: { ...suggestion, start: 0, end: 14 } }, { type: 'done' }))
+
+      expect(await collect('This is very important information.')).toEqual([])
+    })
+
+    it('should stop sending requests once the per-minute limit is reached', async () => {
+      vi.mocked(fetch).mockImplementation(async () => ndjson({ type: 'done' }))
+
+      for (let i = 0; i < 20; i++) await collect(`Paragraph number ${i} is checked here.`)
+      const items = await collect('One paragraph too many this minute.')
+
+      expect(fetch).toHaveBeenCalledTimes(20)
+      expect(items).toEqual([expect.objectContaining({ code: 'RATE_LIMITED', retryAfter: 60 })])
+    })
+
+    it('should map a rate limit to an error item', async () => {
+      vi.mocked(fetch).mockResolvedValue({ ok: false, status: 429, statusText: 'Too Many Requests' } as Response)
+
+      expect(await collect('This is very important information.')).toEqual([expect.objectContaining({ code: 'RATE_LIMITED' })])
+    })
+  })
+
+  describe('End to end with the mock provider', () => {
+    beforeEach(() => {
+      // Route requests through the real edge function handler instead of the network
+      const deps = {
+        provider: new MockProvider(MOCK_FIXTURES),
+        // The function sees the user's access token, never the anon key
+        authenticate: async (req: Request) =>
+          req.headers.get('Authorization') === 'Bearer user-token' ? { userId: 'user-1' } : null,
+        limiter: { consume: async () => ({ allowed: true as const }) },
+        cache: { get: async () => null, set: async () => {} },
+        allowedOrigins: []
+      }
+      vi.mocked(fetch).mockImplementation((input, init) => handleRequest(new Request(input as string, init), deps))
+    })
+
+    it('should locate the suggestions the function returns', async () => {
+      const text = 'Due to the fact that it rained, we stayed in.'
+      const result = await clarityChecker.checkText(text) as ClarityCheckResult[]
+
+      expect(result).toHaveLength(1)
+      expect(result[0]).toMatchObject({
+        original: 'Due to the fact that',
+        suggestion: 'Because',
+        position: { start: 0, end: 20 }
+      })
+    })
+
+    it('should place repeated phrases in the right sentence', async () => {
+      const text = 'Stay in order to rest. We stayed in order to rest.'
+      const result = await clarityChecker.checkText(text) as ClarityCheckResult[]
+
+      expect(result.map(r => r.position.start)).toEqual([5, 33])
+    })
+
+    it('should return no suggestions for concise text', async () => {
+      const result = await clarityChecker.checkText('We stayed in because it rained.')
+
+      expect(result).toEqual([])
+    })
+
+    it('should stream the same suggestions', async () => {
+      const items = []
+      for await (const item of clarityChecker.streamText('Stay in order to rest. We stayed in order to rest.')) items.push(item)
+
+      expect(items).toEqual([
+        expect.objectContaining({ position: { start: 5, end: 16 } }),
+        expect.objectContaining({ position: { start: 33, end: 44 } })
+      ])
+    })
+  })
+})
@@ -1,3 +1,14 @@
+import {
+  validateSuggestionsResponse,
+  type CheckErrorCode,
+  type CheckSuggestion,
+  type ClarityStreamEvent,
+  type Severity
+} from '../../supabase/functions/_shared/checkSchema'
+import { normalizeText, toNormalizedSpan, toOriginalSpan } from '../../supabase/functions/_shared/normalizedText'
+import { supabase } from '../lib/supabase'
+import type { SuggestionAlternative } from '../store/useStore'
+
 export interface ClarityCheckResult {
   type: 'clarity'
   original: string
@@ -5,24 +16,196 @@ export interface ClarityCheckResult {
   explanation: string
   position: { start: number; end: number }
   confidence: number
+  // Every rewrite, best first (the first is `suggestion`), when the model offered more than one
+  alternatives?: SuggestionAlternative[]
+  severity: Severity
 }
 
 export interface ClarityCheckError {
   message: string
-  code: string
+  code: CheckErrorCode
+  // Seconds to wait before checking again (RATE_LIMITED and QUOTA_EXCEEDED)
+  retryAfter?: number
 }
 
-interface OpenAISuggestion {
-  type: string
-  original: string
-  suggestion: string
-  explanation: string
-  start?: number
-  end?: number
+export type PostCheckResult =
+  | { data: unknown; error?: undefined }
+  | { data?: undefined; error: ClarityCheckError }
+
+/**
+ * Read a Retry-After header or body field given in seconds
+ */
+const parseRetryAfter = (value: unknown): number | undefined => {
+  const seconds = Number(value)
+  return value !== null && value !== undefined && Number.isFinite(seconds) && seconds >= 0 ? Math.ceil(seconds) : undefined
+}
+
+/**
+ * The error a failed (non-2xx) check-grammar response stands for
+ */
+async function errorFromResponse(response: Response): Promise<ClarityCheckError> {
+  let data: unknown
+  try {
+    data = await response.json()
+  } catch {
+    data = undefined
+  }
+
+  const serviceError = typeof data === 'object' && data !== null && 'error' in data
+    ? data as { error: unknown; code?: CheckErrorCode; retryAfter?: unknown }
+    : null
+
+  if (response.status === 429) {
+    const code = serviceError?.code === 'QUOTA_EXCEEDED' ? 'QUOTA_EXCEEDED' : 'RATE_LIMITED'
+    const retryAfter = parseRetryAfter(response.headers?.get('Retry-After')) ?? parseRetryAfter(serviceError?.retryAfter)
+    console.warn('Check API rate limited:', code, retryAfter)
+    return {
+      message: serviceError ? String(serviceError.error) : `API error: ${response.statusText}`,
+      code,
+      ...(retryAfter !== undefined && { retryAfter })
+    }
+  }
+
+  console.error('Check API error:', response.status, response.statusText, serviceError?.error ?? '')
+  return serviceError?.code
+    ? { message: String(serviceError.error), code: serviceError.code }
+    : { message: `API error: ${response.statusText}`, code: 'API_ERROR' }
+}
+
+type SendCheckResult =
+  | { response: Response; error?: undefined }
+  | { response?: undefined; error: ClarityCheckError }
+
+/**
+ * POST a request to the check-grammar function as the signed-in user.
+ * Resolves to the successful response, or to the error it failed with.
+ */
+async function sendCheck(url: string, anonKey: string, body: object): Promise<SendCheckResult> {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) {
+    return { error: { message: 'Sign in to use writing checks', code: 'UNAUTHORIZED' } }
+  }
+
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+        'apikey': anonKey
+      },
+      body: JSON.stringify(body)
+    })
+  } catch (error) {
+    return { error: { message: (error as Error).message, code: 'NETWORK_ERROR' } }
+  }
+
+  return response.ok ? { response } : { error: await errorFromResponse(response) }
+}
+
+/**
+ * POST a request to the check-grammar function. Resolves to the parsed body,
+ * or to an error carrying the function's code when it sent one.
+ */
+export async function postCheck(url: string, anonKey: string, body: object): Promise<PostCheckResult> {
+  const { response, error } = await sendCheck(url, anonKey, body)
+  if (error) return { error }
+
+  let data: unknown
+  try {
+    data = await response.json()
+  } catch {
+    data = undefined
+  }
+
+  const serviceError = typeof data === 'object' && data !== null && 'error' in data
+    ? data as { error: unknown; code?: CheckErrorCode }
+    : null
+
+  if (data === undefined) {
+    return { error: { message: 'The check service returned a response that is not JSON', code: 'INVALID_RESPONSE' } }
+  }
+
+  if (serviceError) {
+    return { error: { message: String(serviceError.error), code: serviceError.code ?? 'SERVICE_ERROR' } }
+  }
+
+  return { data }
+}
+
+/**
+ * Lines of a streamed response body, as they arrive
+ */
+async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    yield* (await response.text()).split('\n').filter(line => line.trim())
+    return
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  try {
+    while (true) {
+      const { value, done } = await reader.read()
+      buffer += decoder.decode(value, { stream: !done })
+      const lines = buffer.split('\n')
+      buffer = done ? '' : lines.pop() ?? ''
+      for (const line of lines) {
+        if (line.trim()) yield line
+      }
+      if (done) return
+    }
+  } finally {
+    // Also stops the download when the caller stops reading early
+    reader.cancel().catch(() => {})
+  }
+}
+
+// Paragraphs whose results are kept in memory
+const RESULT_CACHE_SIZE = 200
+
+// Requests sent per minute at most; the check function's default limit (CHECK_REQUESTS_PER_MINUTE)
+const REQUESTS_PER_MINUTE = 20
+
+/**
+ * Least-recently-used map: reading an entry refreshes it, and adding one past
+ * `maxEntries` evicts the stalest
+ */
+class LruCache<V> {
+  private entries = new Map<string, V>()
+
+  constructor(private maxEntries: number) {}
+
+  get(key: string): V | undefined {
+    const value = this.entries.get(key)
+    if (value !== undefined) {
+      this.entries.delete(key)
+      this.entries.set(key, value)
+    }
+    return value
+  }
+
+  set(key: string, value: V): void {
+    this.entries.delete(key)
+    this.entries.set(key, value)
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string)
+    }
+  }
+
+  clear(): void {
+    this.entries.clear()
+  }
 }
 
 class ClarityCheckerService {
   private isInitialized = true
+  // Results by normalized paragraph, with positions in the normalized text
+  private resultCache = new LruCache<ClarityCheckResult[]>(RESULT_CACHE_SIZE)
+  // When the requests of the last minute were sent, oldest first
+  private recentRequests: number[] = []
   private baseUrl: string
   private anonKey: string
 
@@ -38,7 +221,47 @@ class ClarityCheckerService {
   }
 
   /**
-   * Check text clarity using OpenAI's nano model
+   * Cached results for a paragraph that was checked before, possibly with
+   * different whitespace, rebased onto `text`. Null if it was not checked yet.
+   */
+  getCached(text: string): ClarityCheckResult[] | null {
+    const normalized = normalizeText(text)
+    const cached = this.resultCache.get(normalized.text)
+    if (!cached) return null
+
+    return cached.map(result => {
+      const position = toOriginalSpan(normalized, result.position)
+      return { ...result, original: text.slice(position.start, position.end), position }
+    })
+  }
+
+  /**
+   * Forget all cached results and recent requests (on logout)
+   */
+  clearCache(): void {
+    this.resultCache.clear()
+    this.recentRequests = []
+  }
+
+  /**
+   * Count a request against the per-minute limit, or say when to retry if it
+   * would go over it. Checked here so a long draft doesn't spend the limit
+   * the function enforces and get 429s back.
+   */
+  private reserveRequest(): ClarityCheckError | null {
+    const now = Date.now()
+    this.recentRequests = this.recentRequests.filter(sentAt => now - sentAt < 60_000)
+    if (this.recentRequests.length >= REQUESTS_PER_MINUTE) {
+      const retryAfter = Math.ceil((this.recentRequests[0] + 60_000 - now) / 1000)
+      return { message: 'Too many checks in a short time', code: 'RATE_LIMITED', retryAfter }
+    }
+    this.recentRequests.push(now)
+    return null
+  }
+
+  /**
+   * Check text clarity using OpenAI's nano model. Paragraphs checked before
+   * are answered from the cache without a request.
    * Target: < 500ms response time for paragraph-level analysis
    */
   async checkText(text: string): Promise<ClarityCheckResult[] | ClarityCheckError> {
@@ -55,103 +278,164 @@ class ClarityCheckerService {
       return []
     }
 
-    try {
-      console.log('🔍 Clarity checker: analyzing text:', text.substring(0, 50) + '...')
-      
-      const response = await fetch(`${this.baseUrl}/check-grammar`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.anonKey}`
-        },
-        body: JSON.stringify({ 
-          text: `Analyze this text for clarity and conciseness improvements. Focus on complete sentences and meaningful phrases that can be made clearer or more direct: ${text}`
-        })
-      })
+    const cached = this.getCached(text)
+    if (cached) {
+      console.log('⚡ Clarity checker: cache hit for', text.substring(0, 30) + '...')
+      return cached
+    }
 
-      if (!response.ok) {
-        console.error('Clarity checker API error:', response.status, response.statusText)
-        return { message: `API error: ${response.statusText}`, code: 'API_ERROR' }
-      }
+    const limited = this.reserveRequest()
+    if (limited) return limited
 
-      const data = await response.json()
-      
-      if (data.error) {
-        console.error('Clarity checker error:', data.error)
-        return { message: data.error, code: 'SERVICE_ERROR' }
-      }
+    console.log('🔍 Clarity checker: analyzing text:', text.substring(0, 50) + '...')
 
-      const suggestions = data.suggestions || []
-      console.log('🔍 Clarity checker: received', suggestions.length, 'suggestions:', suggestions)
+    // The text goes as-is: the offsets that come back are relative to it
+    const { data, error } = await postCheck(`${this.baseUrl}/check-grammar`, this.anonKey, { text, mode: 'clarity' })
+    if (error) {
+      console.error('Clarity checker error:', error.code, error.message)
+      return error
+    }
 
-      // Convert OpenAI suggestions to our format with position detection
-      const results = await this.processSuggestions(text, suggestions)
-      
-      console.log('🔍 Clarity checker: returning', results.length, 'clarity suggestions')
-      return results
-    } catch (error) {
-      console.error('Clarity checker error:', error)
-      return { message: (error as Error).message, code: 'NETWORK_ERROR' }
+    const validation = validateSuggestionsResponse(data, 'clarity')
+    if (!validation.ok) {
+      console.error('Clarity checker: invalid response:', validation.issues)
+      return { message: `Invalid clarity response: ${validation.issues[0]}`, code: 'INVALID_RESPONSE' }
     }
+
+    const suggestions = validation.value.suggestions
+    console.log('🔍 Clarity checker: received', suggestions.length, 'suggestions:', suggestions)
+
+    const results = this.processSuggestions(text, suggestions)
+    this.remember(text, results)
+
+    console.log('🔍 Clarity checker: returning', results.length, 'clarity suggestions')
+    return results
   }
 
   /**
-   * Process OpenAI suggestions and add position information
+   * Check text clarity and yield each result as soon as the function streams
+   * it, so callers can show suggestions while the analysis continues. A
+   * failure is yielded as a ClarityCheckError and ends the iteration.
+   * Paragraphs checked before are answered from the cache.
    */
-  private async processSuggestions(text: string, suggestions: OpenAISuggestion[]): Promise<ClarityCheckResult[]> {
+  async *streamText(text: string): AsyncGenerator<ClarityCheckResult | ClarityCheckError> {
+    if (!this.isInitialized) {
+      yield { message: 'Clarity checker not initialized - missing Supabase environment variables', code: 'NOT_INITIALIZED' }
+      return
+    }
+
+    // Same minimum as checkText
+    if (text.trim().length < 10) return
+
+    const cached = this.getCached(text)
+    if (cached) {
+      console.log('⚡ Clarity checker: cache hit for', text.substring(0, 30) + '...')
+      yield* cached
+      return
+    }
+
+    const limited = this.reserveRequest()
+    if (limited) {
+      yield limited
+      return
+    }
+
+    console.log('🔍 Clarity checker: streaming analysis of:', text.substring(0, 50) + '...')
+
+    const { response, error } = await sendCheck(`${this.baseUrl}/check-grammar`, this.anonKey, { text, mode: 'clarity', stream: true })
+    if (error) {
+      console.error('Clarity checker error:', error.code, error.message)
+      yield error
+      return
+    }
+
     const results: ClarityCheckResult[] = []
+    try {
+      for await (const line of readLines(response)) {
+        let event: ClarityStreamEvent
+        try {
+          event = JSON.parse(line)
+        } catch {
+          yield { message: 'The check service streamed a line that is not JSON', code: 'INVALID_RESPONSE' }
+          return
+        }
 
-    for (const suggestion of suggestions) {
-      // Skip non-clarity suggestions
-      if (suggestion.type !== 'clarity') continue
-
-      // Find the position of the original text in the full text
-      const position = this.findTextPosition(text, suggestion.original)
-      
-      if (position) {
-        results.push({
-          type: 'clarity',
-          original: suggestion.original,
-          suggestion: suggestion.suggestion,
-          explanation: suggestion.explanation,
-          position,
-          confidence: 0.8 // OpenAI suggestions are generally high confidence
-        })
+        if (event.type === 'error') {
+          console.error('Clarity checker error:', event.code, event.error)
+          yield { message: event.error, code: event.code }
+          return
+        }
+
+        if (event.type === 'done') {
+          console.log('🔍 Clarity checker: stream finished with', results.length, 'clarity suggestions', event.partial ? '(partial)' : '')
+          // A partial answer is checked again next time instead of standing for the paragraph
+          if (!event.partial) this.remember(text, results)
+          return
+        }
+
+        const validation = validateSuggestionsResponse({ suggestions: [event.suggestion] }, 'clarity')
+        if (!validation.ok) {
+          console.warn('Clarity checker: skipping invalid streamed suggestion:', validation.issues)
+          continue
+        }
+
+        for (const result of this.processSuggestions(text, validation.value.suggestions)) {
+          results.push(result)
+          yield result
+        }
       }
+    } catch (error) {
+      yield { message: (error as Error).message, code: 'NETWORK_ERROR' }
+      return
     }
 
-    return results
+    yield { message: 'The clarity stream ended before it was complete', code: 'INVALID_RESPONSE' }
   }
 
   /**
-   * Find the position of a text snippet within the full text
+   * Cache results for `text`, with positions in its normalized form
    */
-  private findTextPosition(fullText: string, snippet: string): { start: number; end: number } | null {
-    const index = fullText.indexOf(snippet)
-    if (index === -1) {
-      // Try case-insensitive search
-      const lowerFullText = fullText.toLowerCase()
-      const lowerSnippet = snippet.toLowerCase()
-      const lowerIndex = lowerFullText.indexOf(lowerSnippet)
-      
-      if (lowerIndex === -1) {
-        console.warn('Could not find snippet in text:', snippet)
-        return null
-      }
-      
-      return {
-        start: lowerIndex,
-        end: lowerIndex + snippet.length
-      }
-    }
-    
-    return {
-      start: index,
-      end: index + snippet.length
-    }
+  private remember(text: string, results: ClarityCheckResult[]): void {
+    const normalized = normalizeText(text)
+    this.resultCache.set(normalized.text, results.map(result => ({ ...result, position: toNormalizedSpan(normalized, result.position) })))
   }
 
+  /**
+   * Convert validated suggestions to results, using the offsets the function
+   * resolved as long as they still point at the quoted snippet
+   */
+  private processSuggestions(text: string, suggestions: CheckSuggestion[]): ClarityCheckResult[] {
+    const results: ClarityCheckResult[] = []
+
+    for (const suggestion of suggestions) {
+      const { start, end, original } = suggestion
+      if (text.slice(start, end) !== original) {
+        console.warn('Clarity suggestion offsets do not match its text:', suggestion)
+        continue
+      }
+
+      const confidence = suggestion.confidence ?? 0.8 // Model suggestions are generally high confidence
+      const alternatives = [
+        { text: suggestion.suggestion, confidence },
+        ...(suggestion.alternatives ?? [])
+          .filter(alternative => alternative.suggestion !== suggestion.suggestion)
+          .map(alternative => ({ text: alternative.suggestion, confidence: alternative.confidence }))
+      ]
 
+      results.push({
+        type: 'clarity',
+        original,
+        suggestion: suggestion.suggestion,
+        explanation: suggestion.explanation,
+        position: { start, end },
+        confidence,
+        ...(alternatives.length > 1 && { alternatives }),
+        severity: suggestion.severity
+      })
+    }
+
+    return results
+  }
 
   /**
    * Check if the service is ready for use
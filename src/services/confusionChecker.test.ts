@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { confusionChecker } from './confusionChecker'
+
+describe('ConfusionChecker', () => {
+  describe('Real-word errors', () => {
+    it('should flag their/there/they\'re mix-ups', () => {
+      const [result] = confusionChecker.checkText('I think their going to be late.')
+
+      expect(result).toMatchObject({
+        type: 'grammar',
+        original: 'their',
+        suggestion: "they're",
+        position: { start: 8, end: 13 }
+      })
+      expect(result.explanation).toContain('going')
+
+      expect(confusionChecker.checkText('Their is a problem.')[0].suggestion).toBe('There')
+      expect(confusionChecker.checkText("They said there coming later.")[0].suggestion).toBe("they're")
+    })
+
+    it('should flag lose/loose when a verb is needed', () => {
+      const results = confusionChecker.checkText('Please do not loose the file. You might loose track.')
+
+      expect(results.map(r => r.suggestion)).toEqual(['lose', 'lose'])
+      expect(results[0].explanation).toContain('"Lose" is the verb')
+    })
+
+    it('should flag its/it\'s and your/you\'re', () => {
+      expect(confusionChecker.checkText('I know its a long email.')[0].suggestion).toBe("it's")
+      expect(confusionChecker.checkText('The team has it\'s own plan.')[0].suggestion).toBe('its')
+      expect(confusionChecker.checkText('Your welcome to join.')[0].suggestion).toBe("You're")
+    })
+
+    it('should flag affect/effect by part of speech', () => {
+      expect(confusionChecker.checkText('It had a big affect on sales.')[0].suggestion).toBe('effect')
+      expect(confusionChecker.checkText('This will effect the launch.')[0].suggestion).toBe('affect')
+      expect(confusionChecker.checkText('We were effected by the outage.')[0].suggestion).toBe('affected')
+    })
+
+    it('should flag then/than and could of', () => {
+      expect(confusionChecker.checkText('It is better then before.')[0].suggestion).toBe('than')
+
+      const [result] = confusionChecker.checkText('We could of shipped it.')
+      expect(result.original).toBe('of')
+      expect(result.suggestion).toBe('have')
+    })
+  })
+
+  describe('Correct usage', () => {
+    it('should not flag words used correctly', () => {
+      const text = [
+        'Their report is ready and there is time to review it.',
+        "They're going home. It's a plan with its own risks.",
+        'You have your own desk, and your right to reply is respected.',
+        'The effect was huge; it will affect everyone. We need to effect change.',
+        'The knot is loose. We will lose nothing. First the draft, then the review.',
+        'This is more of a guideline.'
+      ].join(' ')
+
+      expect(confusionChecker.checkText(text)).toEqual([])
+    })
+
+    it('should not look across punctuation', () => {
+      expect(confusionChecker.checkText('It was their, going by the notes.')).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,223 @@
+import type { GrammarCheckResult } from './grammarChecker'
+
+interface Token {
+  word: string // lowercased, with curly apostrophes straightened
+  text: string // as written
+  start: number
+  end: number
+}
+
+interface RuleContext {
+  previous?: string
+  next?: string
+}
+
+/**
+ * A correctly spelled word that is wrong in a given context.
+ * `matches` inspects the neighbouring words (within the same clause) and
+ * `explain` says which word fits and why.
+ */
+interface ConfusionRule {
+  word: string
+  replacement: string
+  matches: (context: RuleContext) => boolean
+  explain: (context: RuleContext) => string
+}
+
+const followedBy = (...words: string[]) => {
+  const set = new Set(words)
+  return ({ next }: RuleContext) => next !== undefined && set.has(next)
+}
+
+const precededBy = (...words: string[]) => {
+  const set = new Set(words)
+  return ({ previous }: RuleContext) => previous !== undefined && set.has(previous)
+}
+
+const anyOf = (...matchers: ((context: RuleContext) => boolean)[]) =>
+  (context: RuleContext) => matchers.some(matcher => matcher(context))
+
+// Verbs and adverbs that follow a subject + "are", never a possessive
+const AFTER_ARE = ['going', 'coming', 'doing', 'trying', 'getting', 'being', 'gonna', 'not', 'probably', 'definitely', 'always', 'never']
+const MODALS = ['to', 'will', 'would', 'could', 'should', 'might', 'may', 'can', "can't", 'cannot', "don't", "didn't", "won't", 'not', 'never']
+const DETERMINERS = ['the', 'a', 'an', 'my', 'your', 'our', 'their', 'his', 'her', 'its', 'this', 'that', 'these', 'those', 'all', 'any']
+const COMPARATIVES = [
+  'more', 'less', 'better', 'worse', 'rather', 'other', 'greater', 'fewer', 'larger', 'smaller',
+  'higher', 'lower', 'faster', 'slower', 'bigger', 'longer', 'shorter', 'easier', 'harder', 'cheaper'
+]
+
+const RULES: ConfusionRule[] = [
+  {
+    word: 'their',
+    replacement: "they're",
+    matches: followedBy(...AFTER_ARE, 'a', 'an', 'the', 'here'),
+    explain: ({ next }) => `"They're" (they are) fits before "${next}"; "their" shows possession.`
+  },
+  {
+    word: 'their',
+    replacement: 'there',
+    matches: followedBy('is', 'are', 'was', 'were', "isn't", "aren't", "wasn't", "weren't"),
+    explain: ({ next }) => `"There ${next}" introduces something; "their" shows possession.`
+  },
+  {
+    word: 'there',
+    replacement: "they're",
+    matches: followedBy('going', 'coming', 'doing', 'trying', 'getting', 'gonna'),
+    explain: ({ next }) => `"They're" (they are) fits before "${next}"; "there" refers to a place.`
+  },
+  {
+    word: "they're",
+    replacement: 'their',
+    matches: followedBy('own'),
+    explain: () => `"Their own" is possessive; "they're" means "they are".`
+  },
+  {
+    word: 'its',
+    replacement: "it's",
+    matches: followedBy(
+      'a', 'an', 'the', 'not', 'been', 'going', 'very', 'too', 'so', 'really', 'just', 'also',
+      'time', 'important', 'possible', 'okay', 'ok', 'fine', 'hard', 'easy', 'clear', 'true', 'likely'
+    ),
+    explain: ({ next }) => `"It's" (it is / it has) fits before "${next}"; "its" shows possession.`
+  },
+  {
+    word: "it's",
+    replacement: 'its',
+    matches: followedBy('own'),
+    explain: () => `"Its own" is possessive; "it's" means "it is".`
+  },
+  {
+    word: 'your',
+    replacement: "you're",
+    // Not "right" or "very": "your right to reply", "your very own"
+    matches: followedBy(...AFTER_ARE, 'welcome', 'wrong', 'sure', 'a', 'an', 'the', 'so'),
+    explain: ({ next }) => `"You're" (you are) fits before "${next}"; "your" shows possession.`
+  },
+  {
+    word: "you're",
+    replacement: 'your',
+    matches: followedBy('own'),
+    explain: () => `"Your own" is possessive; "you're" means "you are".`
+  },
+  {
+    word: 'whose',
+    replacement: "who's",
+    matches: followedBy(...AFTER_ARE, 'been', 'there'),
+    explain: ({ next }) => `"Who's" (who is / who has) fits before "${next}"; "whose" shows possession.`
+  },
+  {
+    word: 'affect',
+    replacement: 'effect',
+    matches: precededBy('a', 'an', 'the', 'this', 'that', 'no', 'any', 'positive', 'negative', 'big', 'significant', 'side', 'desired'),
+    explain: ({ previous }) => `After "${previous}" a noun is needed: "effect" is the result; "affect" is the verb.`
+  },
+  {
+    word: 'affects',
+    replacement: 'effects',
+    matches: precededBy('the', 'these', 'those', 'side', 'its', 'their', 'any', 'positive', 'negative'),
+    explain: ({ previous }) => `After "${previous}" a noun is needed: "effects" are results; "affects" is a verb.`
+  },
+  {
+    word: 'effect',
+    replacement: 'affect',
+    // "to effect change" (bring about) is correct
+    matches: (context) => precededBy(...MODALS)(context) && !followedBy('change', 'changes')(context),
+    explain: ({ previous }) => `After "${previous}" a verb is needed: "affect" means to influence; "effect" is usually a noun.`
+  },
+  {
+    word: 'effected',
+    replacement: 'affected',
+    matches: followedBy('by'),
+    explain: () => `"Affected by" means influenced by; "effected" means brought about.`
+  },
+  {
+    word: 'loose',
+    replacement: 'lose',
+    matches: anyOf(precededBy(...MODALS), followedBy(...DETERMINERS, 'track', 'weight', 'money', 'time', 'sight', 'interest')),
+    explain: () => `"Lose" is the verb (to misplace or fail to keep); "loose" means not tight.`
+  },
+  {
+    word: 'then',
+    replacement: 'than',
+    matches: precededBy(...COMPARATIVES),
+    explain: ({ previous }) => `Comparisons like "${previous} than" use "than"; "then" refers to time.`
+  },
+  {
+    word: 'of',
+    replacement: 'have',
+    matches: precededBy('could', 'would', 'should', 'must', 'might', 'may'),
+    explain: ({ previous }) => `"${previous} have" is the correct form; "of" comes from how "${previous}'ve" sounds.`
+  }
+]
+
+const rulesByWord = new Map<string, ConfusionRule[]>()
+for (const rule of RULES) {
+  rulesByWord.set(rule.word, [...(rulesByWord.get(rule.word) ?? []), rule])
+}
+
+/**
+ * Keep the replacement's case in line with the original (sentence-initial capitals)
+ */
+const matchCase = (original: string, replacement: string): string =>
+  original[0] === original[0].toUpperCase() && original[0] !== original[0].toLowerCase()
+    ? replacement[0].toUpperCase() + replacement.slice(1)
+    : replacement
+
+class ConfusionCheckerService {
+  /**
+   * Find correctly spelled words that are wrong in context ("their going",
+   * "loose the file") and suggest the word that fits
+   */
+  checkText(text: string): GrammarCheckResult[] {
+    const tokens = this.tokenize(text)
+    const results: GrammarCheckResult[] = []
+
+    tokens.forEach((token, index) => {
+      const rules = rulesByWord.get(token.word)
+      if (!rules) return
+
+      const previousToken = tokens[index - 1]
+      const nextToken = tokens[index + 1]
+      // Only look at neighbours in the same clause (separated by whitespace alone)
+      const context: RuleContext = {
+        previous: previousToken && /^\s+$/.test(text.slice(previousToken.end, token.start)) ? previousToken.word : undefined,
+        next: nextToken && /^\s+$/.test(text.slice(token.end, nextToken.start)) ? nextToken.word : undefined
+      }
+
+      const rule = rules.find(candidate => candidate.matches(context))
+      if (!rule) return
+
+      results.push({
+        type: 'grammar',
+        original: token.text,
+        suggestion: matchCase(token.text, rule.replacement),
+        explanation: rule.explain(context),
+        position: { start: token.start, end: token.end }
+      })
+    })
+
+    return results
+  }
+
+  private tokenize(text: string): Token[] {
+    const tokens: Token[] = []
+    const wordRegex = /[A-Za-z]+(?:['’][A-Za-z]+)?/g
+    let match
+
+    while ((match = wordRegex.exec(text)) !== null) {
+      tokens.push({
+        word: match[0].toLowerCase().replace('’', "'"),
+        text: match[0],
+        start: match.index,
+        end: match.index + match[0].length
+      })
+    }
+
+    return tokens
+  }
+}
+
+// Export a singleton instance
+export const confusionChecker = new ConfusionCheckerService()
+
+export default confusionChecker
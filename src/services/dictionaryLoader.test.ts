@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { decodeDictionary, decodeFrequencies, loadDictionary } from './dictionaryLoader'
+
+// Front-coded encoding of: apple, apply, apt, banana
+const SAMPLE_DICTIONARY = 'WWDICT 1 1.test 4\n0apple\n4y\n2t\n0banana\n'
+
+describe('dictionaryLoader', () => {
+  describe('decodeDictionary', () => {
+    it('should expand front-coded entries', () => {
+      const { version, words } = decodeDictionary(SAMPLE_DICTIONARY)
+
+      expect(version).toBe('1.test')
+      expect(words).toEqual(['apple', 'apply', 'apt', 'banana'])
+    })
+
+    it('should reject unknown formats', () => {
+      expect(() => decodeDictionary('apple\napply\n')).toThrow('Unsupported dictionary format')
+    })
+
+    it('should reject truncated dictionaries', () => {
+      expect(() => decodeDictionary('WWDICT 1 1.test 5\n0apple\n4y\n')).toThrow('Corrupt dictionary')
+    })
+  })
+
+  describe('decodeFrequencies', () => {
+    it('should read word counts', () => {
+      const frequencies = decodeFrequencies('WWFREQ 1 2\nthe 1500\nworld 30\n')
+
+      expect(frequencies.get('the')).toBe(1500)
+      expect(frequencies.get('world')).toBe(30)
+      expect(frequencies.size).toBe(2)
+    })
+
+    it('should reject unknown formats', () => {
+      expect(() => decodeFrequencies('the 1500\n')).toThrow('Unsupported frequency table format')
+    })
+  })
+
+  describe('loadDictionary', () => {
+    beforeEach(() => {
+      global.fetch = vi.fn()
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('should download the asset listed in the manifest', async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({
+            formatVersion: 1,
+            dictionaries: { 'en-US': { version: '1.test', file: 'en-US.test.dict', words: 4, bytes: SAMPLE_DICTIONARY.length } }
+          })
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          text: () => Promise.resolve(SAMPLE_DICTIONARY)
+        } as Response)
+
+      const { words, info } = await loadDictionary('en-US')
+
+      expect(vi.mocked(fetch).mock.calls[1][0]).toContain('dictionaries/en-US.test.dict')
+      expect(words).toHaveLength(4)
+      expect(info).toMatchObject({ locale: 'en-US', version: '1.test', words: 4, source: 'bundled' })
+    })
+
+    it('should download the Hunspell files listed alongside the word list', async () => {
+      const files: Record<string, string> = {
+        'en-US.test.dict': SAMPLE_DICTIONARY,
+        'en-US.test.aff': 'SFX S Y 1\nSFX S 0 s .\n',
+        'en-US.test.dic': '1\napple/S\n'
+      }
+      vi.mocked(fetch)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({
+            formatVersion: 1,
+            dictionaries: {
+              'en-US': {
+                version: '1.test',
+                file: 'en-US.test.dict',
+                words: 4,
+                bytes: SAMPLE_DICTIONARY.length,
+                hunspell: { aff: 'en-US.test.aff', dic: 'en-US.test.dic' }
+              }
+            }
+          })
+        } as Response)
+        .mockImplementation((url) => Promise.resolve({
+          ok: true,
+          text: () => Promise.resolve(files[String(url).split('/').pop()!])
+        } as Response))
+
+      const { words, hunspell } = await loadDictionary('en-US')
+
+      expect(words).toHaveLength(4)
+      expect(hunspell).toEqual({ aff: files['en-US.test.aff'], dic: files['en-US.test.dic'] })
+    })
+
+    it('should fail when the manifest is unreachable and nothing is cached', async () => {
+      vi.mocked(fetch).mockRejectedValue(new Error('Network error'))
+
+      await expect(loadDictionary('en-US')).rejects.toThrow('Network error')
+    })
+
+    it('should reject an asset whose version does not match the manifest', async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({
+            formatVersion: 1,
+            dictionaries: { 'en-US': { version: '1.newer', file: 'en-US.newer.dict', words: 4, bytes: 0 } }
+          })
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          text: () => Promise.resolve(SAMPLE_DICTIONARY)
+        } as Response)
+
+      await expect(loadDictionary('en-US')).rejects.toThrow('version mismatch')
+    })
+  })
+})
@@ -0,0 +1,220 @@
+export interface DictionaryInfo {
+  locale: string
+  version: string
+  words: number
+  bytes: number
+  source: 'bundled' | 'cache' | 'fallback'
+}
+
+/**
+ * Contents of a Hunspell .aff/.dic pair
+ */
+export interface HunspellData {
+  aff: string
+  dic: string
+}
+
+export interface LoadedDictionary {
+  words: string[]
+  hunspell?: HunspellData
+  // Unigram counts used to rank spelling suggestions
+  frequencies?: Map<string, number>
+  info: DictionaryInfo
+}
+
+interface DictionaryManifestEntry {
+  version: string
+  file: string
+  words: number
+  bytes: number
+  hunspell?: { aff: string; dic: string }
+  frequencies?: string
+}
+
+interface DictionaryManifest {
+  formatVersion: number
+  dictionaries: Record<string, DictionaryManifestEntry>
+}
+
+interface CachedDictionary {
+  locale: string
+  version: string
+  data: string
+  hunspell?: HunspellData
+  frequencies?: string
+}
+
+const FORMAT_VERSION = 1
+const DB_NAME = 'wordwise-spellcheck'
+const STORE_NAME = 'dictionaries'
+
+/**
+ * Decode a front-coded dictionary produced by scripts/build-dictionary.mjs
+ */
+export function decodeDictionary(data: string): { version: string; words: string[] } {
+  const lines = data.split('\n')
+  const header = lines[0]?.split(' ') ?? []
+
+  if (header[0] !== 'WWDICT' || Number(header[1]) !== FORMAT_VERSION) {
+    throw new Error('Unsupported dictionary format')
+  }
+
+  const version = header[2]
+  const expectedCount = Number(header[3])
+  const words: string[] = []
+  let previous = ''
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i]
+    if (line.length === 0) continue
+
+    const shared = parseInt(line[0], 36)
+    const word = previous.slice(0, shared) + line.slice(1)
+    words.push(word)
+    previous = word
+  }
+
+  if (words.length !== expectedCount) {
+    throw new Error(`Corrupt dictionary: expected ${expectedCount} words, found ${words.length}`)
+  }
+
+  return { version, words }
+}
+
+/**
+ * Decode a word frequency table produced by scripts/build-dictionary.mjs
+ */
+export function decodeFrequencies(data: string): Map<string, number> {
+  const lines = data.split('\n')
+  const header = lines[0]?.split(' ') ?? []
+
+  if (header[0] !== 'WWFREQ' || Number(header[1]) !== FORMAT_VERSION) {
+    throw new Error('Unsupported frequency table format')
+  }
+
+  const frequencies = new Map<string, number>()
+  for (let i = 1; i < lines.length; i++) {
+    const [word, count] = lines[i].split(' ')
+    if (word && count) {
+      frequencies.set(word, Number(count))
+    }
+  }
+
+  return frequencies
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(null)
+  }
+
+  return new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'locale' })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => resolve(null)
+  })
+}
+
+async function readCachedDictionary(locale: string): Promise<CachedDictionary | null> {
+  const db = await openDatabase()
+  if (!db) return null
+
+  return new Promise((resolve) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(locale)
+    request.onsuccess = () => resolve((request.result as CachedDictionary | undefined) ?? null)
+    request.onerror = () => resolve(null)
+  })
+}
+
+async function writeCachedDictionary(entry: CachedDictionary): Promise<void> {
+  const db = await openDatabase()
+  if (!db) return
+
+  await new Promise<void>((resolve) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite')
+    transaction.objectStore(STORE_NAME).put(entry)
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => resolve()
+  })
+}
+
+async function fetchText(file: string): Promise<string> {
+  const response = await fetch(`${import.meta.env.BASE_URL}dictionaries/${file}`)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch dictionary: ${response.status}`)
+  }
+  return response.text()
+}
+
+async function fetchManifest(): Promise<DictionaryManifest> {
+  const response = await fetch(`${import.meta.env.BASE_URL}dictionaries/manifest.json`)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch dictionary manifest: ${response.status}`)
+  }
+  return response.json()
+}
+
+function fromCache(cached: CachedDictionary): LoadedDictionary {
+  const { version, words } = decodeDictionary(cached.data)
+  return {
+    words,
+    hunspell: cached.hunspell,
+    frequencies: cached.frequencies ? decodeFrequencies(cached.frequencies) : undefined,
+    info: { locale: cached.locale, version, words: words.length, bytes: cached.data.length, source: 'cache' }
+  }
+}
+
+/**
+ * Load the bundled dictionary for a locale.
+ * Uses the IndexedDB copy when it matches the deployed version (or when the
+ * manifest cannot be reached), otherwise downloads the static assets (the word
+ * list plus, when listed, Hunspell affix files and a frequency table) and caches them.
+ */
+export async function loadDictionary(locale: string = 'en-US'): Promise<LoadedDictionary> {
+  const cached = await readCachedDictionary(locale)
+
+  let manifest: DictionaryManifest
+  try {
+    manifest = await fetchManifest()
+  } catch (error) {
+    if (cached) {
+      console.warn('Dictionary manifest unavailable, using cached dictionary:', error)
+      return fromCache(cached)
+    }
+    throw error
+  }
+
+  const entry = manifest.dictionaries[locale]
+  if (!entry) {
+    throw new Error(`No bundled dictionary for locale ${locale}`)
+  }
+
+  if (cached && cached.version === entry.version) {
+    return fromCache(cached)
+  }
+
+  const [data, hunspell, frequencies] = await Promise.all([
+    fetchText(entry.file),
+    entry.hunspell
+      ? Promise.all([fetchText(entry.hunspell.aff), fetchText(entry.hunspell.dic)]).then(([aff, dic]) => ({ aff, dic }))
+      : Promise.resolve(undefined),
+    entry.frequencies ? fetchText(entry.frequencies) : Promise.resolve(undefined)
+  ])
+
+  const { version, words } = decodeDictionary(data)
+  if (version !== entry.version) {
+    throw new Error(`Dictionary version mismatch: expected ${entry.version}, got ${version}`)
+  }
+
+  await writeCachedDictionary({ locale, version, data, hunspell, frequencies })
+
+  return {
+    words,
+    hunspell,
+    frequencies: frequencies ? decodeFrequencies(frequencies) : undefined,
+    info: { locale, version, words: words.length, bytes: data.length, source: 'bundled' }
+  }
+}
@@ -93,6 +93,24 @@ describe('DraftsService', () => {
       await expect(DraftsService.updateDraft('test-id', 'title', 'content')).resolves.toBeDefined()
     })
 
+    it('should save the formatted body along with the plain text', async () => {
+      const { supabase } = await import('../lib/supabase')
+      const richContent = { blocks: [{ type: 'heading1' as const, runs: [{ text: 'Title' }] }] }
+
+      await DraftsService.updateDraft('test-id', 'title', 'Title', richContent)
+
+      const update = vi.mocked(supabase.from('drafts').update)
+      expect(update).toHaveBeenCalledWith(expect.objectContaining({ content: 'Title', rich_content: richContent }))
+    })
+
+    it('should be able to call updateDraftLanguage without throwing', async () => {
+      await expect(DraftsService.updateDraftLanguage('test-id', 'de-DE')).resolves.toBeDefined()
+    })
+
+    it('should be able to call updateIgnoredIssues without throwing', async () => {
+      await expect(DraftsService.updateIgnoredIssues('test-id', [{ rule: 'hedge', text: 'i think' }])).resolves.toBeDefined()
+    })
+
     it('should be able to call deleteDraft without throwing', async () => {
       await expect(DraftsService.deleteDraft('test-id')).resolves.not.toThrow()
     })
@@ -107,6 +125,9 @@ describe('DraftsService', () => {
         id: 'test-id',
         title: 'Test',
         content: 'Test content',
+        language: 'en-US',
+        ignored_issues: [],
+        rich_content: null,
         user_id: 'test-user',
         created_at: '2024-01-01',
         updated_at: '2024-01-01'
@@ -1,8 +1,15 @@
 import { supabase } from '../lib/supabase'
-import type { Draft } from '../lib/supabase'
+import type { Draft, IgnoredIssue } from '../lib/supabase'
+import type { RichDocument } from './richDocument'
 
 export class DraftsService {
-  static async createDraft(title: string = 'Untitled document', content: string = ''): Promise<Draft> {
+  static async createDraft(
+    title: string = 'Untitled document',
+    content: string = '',
+    language?: string,
+    ignoredIssues?: IgnoredIssue[],
+    richContent?: RichDocument
+  ): Promise<Draft> {
     // Get the current user
     const { data: { user } } = await supabase.auth.getUser()
     if (!user) throw new Error('User not authenticated')
@@ -12,6 +19,9 @@ export class DraftsService {
       .insert([{ 
         title, 
         content,
+        ...(language && { language }),
+        ...(ignoredIssues?.length && { ignored_issues: ignoredIssues }),
+        ...(richContent && { rich_content: richContent }),
         user_id: user.id  // Add user_id automatically
       }])
       .select()
@@ -25,12 +35,14 @@ export class DraftsService {
     return data
   }
 
-  static async updateDraft(id: string, title: string, content: string): Promise<Draft> {
+  // `richContent` must have `content` as its plain text; without it the stored formatting is left as is
+  static async updateDraft(id: string, title: string, content: string, richContent?: RichDocument): Promise<Draft> {
     const { data, error } = await supabase
       .from('drafts')
       .update({ 
         title, 
         content, 
+        ...(richContent && { rich_content: richContent }),
         updated_at: new Date().toISOString() 
       })
       .eq('id', id)
@@ -45,6 +57,38 @@ export class DraftsService {
     return data
   }
 
+  static async updateDraftLanguage(id: string, language: string): Promise<Draft> {
+    const { data, error } = await supabase
+      .from('drafts')
+      .update({ language })
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating draft language:', error)
+      throw new Error(`Failed to update draft language: ${error.message}`)
+    }
+
+    return data
+  }
+
+  static async updateIgnoredIssues(id: string, ignoredIssues: IgnoredIssue[]): Promise<Draft> {
+    const { data, error } = await supabase
+      .from('drafts')
+      .update({ ignored_issues: ignoredIssues })
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating ignored issues:', error)
+      throw new Error(`Failed to update ignored issues: ${error.message}`)
+    }
+
+    return data
+  }
+
   static async deleteDraft(id: string): Promise<void> {
     const { error } = await supabase
       .from('drafts')
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import { MAX_HISTORY_STEPS, TYPING_GROUP_MS, applyEdits, diffEdit, emptyHistory, recordEdits, recordText, redoStep, undoStep } from './editHistory'
+import type { Suggestion } from '../store/useStore'
+
+const suggestion: Suggestion = {
+  id: 's1',
+  type: 'spelling',
+  original: 'teh',
+  suggestion: 'the',
+  explanation: 'Misspelled word: "teh"',
+  source: 'local',
+  priority: 1,
+  position: { start: 4, end: 7 },
+  confidence: 0.95
+}
+
+describe('editHistory', () => {
+  it('should diff two texts into one edit', () => {
+    expect(diffEdit('Hello world', 'Hello, world')).toEqual({ start: 5, removed: '', inserted: ',' })
+    expect(diffEdit('same', 'same')).toBeNull()
+  })
+
+  it('should apply edits only where their text still is', () => {
+    expect(applyEdits('abc teh end', [{ start: 4, removed: 'teh', inserted: 'the' }])?.text).toBe('abc the end')
+    expect(applyEdits('xx abc teh end', [{ start: 4, removed: 'teh', inserted: 'the' }])).toBeNull()
+    expect(applyEdits('abc end', [{ start: 4, removed: 'teh', inserted: 'the' }])).toBeNull()
+  })
+
+  it('should group keystrokes typed in a row into one step', () => {
+    let history = emptyHistory('')
+    history = recordText(history, 'H', 0)
+    history = recordText(history, 'Hi', 100)
+    history = recordText(history, 'Hi!', 200)
+    history = recordText(history, 'Hi', 300)
+    expect(history.undo).toHaveLength(1)
+    expect(history.undo[0].edits).toEqual([{ start: 0, removed: '', inserted: 'Hi' }])
+
+    // After a pause, or on a new line, typing starts a new step
+    history = recordText(history, 'Hi there', 300 + TYPING_GROUP_MS + 1)
+    history = recordText(history, 'Hi there\n', 300 + TYPING_GROUP_MS + 2)
+    expect(history.undo).toHaveLength(3)
+  })
+
+  it('should drop typing that was deleted again', () => {
+    let history = recordText(emptyHistory('Hi'), 'Hi!', 0)
+    history = recordText(history, 'Hi', 10)
+
+    expect(history.undo).toEqual([])
+    expect(history.text).toBe('Hi')
+  })
+
+  it('should undo typing and an applied suggestion in order, and redo both', () => {
+    let history = emptyHistory('Fix teh bug')
+    history = recordEdits(history, [{ start: 4, removed: 'teh', inserted: 'the' }], 'suggestion', [suggestion], 0)
+    history = recordText(history, 'Please fix the bug', 5000)
+
+    // Undo the typing, then the suggestion
+    const typing = undoStep(history)!
+    expect(typing.history.text).toBe('Fix the bug')
+    const applied = undoStep(typing.history)!
+    expect(applied.history.text).toBe('Fix teh bug')
+    expect(applied.step?.suggestions).toEqual([suggestion])
+
+    // Redo both
+    const redone = redoStep(redoStep(applied.history)!.history)!
+    expect(redone.history.text).toBe('Please fix the bug')
+    expect(redoStep(redone.history)).toBeNull()
+  })
+
+  it('should drop a step whose text moved instead of changing another occurrence', () => {
+    let history = emptyHistory('Fix teh bug')
+    history = recordEdits(history, [{ start: 4, removed: 'teh', inserted: 'the' }], 'suggestion', [suggestion], 0)
+    // An edit the history missed moved the fix; "the" is not at 4 any more
+    history = { ...history, text: 'Now: Fix the bug' }
+
+    const move = undoStep(history)!
+
+    expect(move.step).toBeUndefined()
+    expect(move.history.text).toBe('Now: Fix the bug')
+    expect(move.applied).toEqual([])
+  })
+
+  it('should drop a step whose text is gone', () => {
+    let history = recordEdits(emptyHistory('Fix teh bug'), [{ start: 4, removed: 'teh', inserted: 'the' }], 'suggestion', [], 0)
+    history = { ...history, text: 'Something else' }
+
+    const move = undoStep(history)!
+
+    expect(move.step).toBeUndefined()
+    expect(move.history).toEqual({ text: 'Something else', undo: [], redo: [] })
+  })
+
+  it('should forget redo steps after a new edit and keep a bounded history', () => {
+    let history = emptyHistory('')
+    for (let i = 0; i <= MAX_HISTORY_STEPS; i++) history = recordText(history, `${history.text}\n${i}`, i * TYPING_GROUP_MS * 2)
+    expect(history.undo).toHaveLength(MAX_HISTORY_STEPS)
+
+    history = undoStep(history)!.history
+    expect(history.redo).toHaveLength(1)
+    history = recordText(history, `${history.text}!`)
+    expect(history.redo).toEqual([])
+  })
+})
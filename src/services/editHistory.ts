@@ -0,0 +1,170 @@
+import type { Suggestion } from "../store/useStore"
+import { computeTextChange } from "./paragraphTracker"
+import { replaceRange, type RichDocument } from "./richDocument"
+
+// Undo/redo history of a draft's text. Steps are kept as edits (what was
+// removed and inserted where) rather than snapshots, and are undone last
+// first. An edit whose text is no longer where it was (the draft changed in a
+// way the history did not see) is not guessed at elsewhere: its step is
+// dropped. The formatted document goes through the same edits, so applying a
+// suggestion or undoing keeps formatting the editor has not saved yet.
+
+export const MAX_HISTORY_STEPS = 100
+
+// Keystrokes this close together, each continuing the last, are undone as one step
+export const TYPING_GROUP_MS = 1000
+
+export type HistoryStepKind = "typing" | "suggestion" | "bulk"
+
+/**
+ * Replace `removed`, found at `start`, with `inserted`
+ */
+export interface TextEdit {
+  start: number
+  removed: string
+  inserted: string
+}
+
+export interface HistoryStep {
+  kind: HistoryStepKind
+  // Applied in order, each to the text the previous one left
+  edits: TextEdit[]
+  // Suggestions the step applied, so undoing it can offer them again
+  suggestions: Suggestion[]
+  timestamp: number
+}
+
+export interface EditHistory {
+  // The text after the last recorded step
+  text: string
+  // The editor's formatted document for `text`, when the draft has one
+  document?: RichDocument
+  // Oldest first; the last step is undone next
+  undo: HistoryStep[]
+  // Steps undone, the last one is redone next
+  redo: HistoryStep[]
+}
+
+/**
+ * The outcome of undoing or redoing a step. `applied` are the edits as they
+ * were made to the text; `step` is missing when the step no longer fit the
+ * text and was dropped instead.
+ */
+export interface HistoryMove {
+  history: EditHistory
+  step?: HistoryStep
+  applied: TextEdit[]
+}
+
+export const emptyHistory = (text: string, document?: RichDocument): EditHistory =>
+  document ? { text, document, undo: [], redo: [] } : { text, undo: [], redo: [] }
+
+export function diffEdit(before: string, after: string): TextEdit | null {
+  const change = computeTextChange(before, after)
+  if (!change) return null
+  return { start: change.start, removed: before.slice(change.start, change.oldEnd), inserted: after.slice(change.start, change.newEnd) }
+}
+
+/**
+ * Apply edits in order. Null if one of them no longer finds its `removed` text
+ * at its `start`: another occurrence elsewhere may be unrelated text.
+ */
+export function applyEdits(text: string, edits: TextEdit[]): { text: string; applied: TextEdit[] } | null {
+  let result = text
+  const applied: TextEdit[] = []
+  for (const edit of edits) {
+    const start = Math.min(edit.start, result.length)
+    if (!result.startsWith(edit.removed, start)) return null
+    result = result.slice(0, start) + edit.inserted + result.slice(start + edit.removed.length)
+    applied.push({ ...edit, start })
+  }
+  return { text: result, applied }
+}
+
+// The document with the edits applied, as they were to its plain text
+const editDocument = (document: RichDocument | undefined, edits: TextEdit[]): RichDocument | undefined =>
+  document && edits.reduce((result, { start, removed, inserted }) => replaceRange(result, start, start + removed.length, inserted), document)
+
+// The edits that take the text back, last edit first
+const invertEdits = (edits: TextEdit[]): TextEdit[] =>
+  [...edits].reverse().map(({ start, removed, inserted }) => ({ start, removed: inserted, inserted: removed }))
+
+const pushStep = (steps: HistoryStep[], step: HistoryStep) => [...steps, step].slice(-MAX_HISTORY_STEPS)
+
+// One edit doing `previous` then `next`, when `next` continues typing at the end of `previous`
+function mergeTyping(previous: TextEdit, next: TextEdit): TextEdit | null {
+  const end = previous.start + previous.inserted.length
+  if (next.inserted.includes("\n")) return null
+  // Typing on
+  if (!next.removed && next.start === end) return { ...previous, inserted: previous.inserted + next.inserted }
+  // Deleting what was just typed
+  if (!next.inserted && next.start + next.removed.length === end && next.start >= previous.start) {
+    return { ...previous, inserted: previous.inserted.slice(0, next.start - previous.start) }
+  }
+  return null
+}
+
+/**
+ * Record edits made to the history's text, as one step. Clears the redo list.
+ */
+export function recordEdits(
+  history: EditHistory,
+  edits: TextEdit[],
+  kind: HistoryStepKind,
+  suggestions: Suggestion[] = [],
+  now = Date.now()
+): EditHistory {
+  const result = applyEdits(history.text, edits)
+  if (!result || result.text === history.text) return history
+
+  const step: HistoryStep = { kind, edits: result.applied, suggestions, timestamp: now }
+  const last = history.undo[history.undo.length - 1]
+  const merged = kind === "typing" && last?.kind === "typing" && now - last.timestamp <= TYPING_GROUP_MS &&
+    last.edits.length === 1 && edits.length === 1 ? mergeTyping(last.edits[0], result.applied[0]) : null
+
+  const document = editDocument(history.document, result.applied)
+  if (!merged) return { text: result.text, document, undo: pushStep(history.undo, step), redo: [] }
+
+  // Typing that was deleted again leaves nothing to undo
+  const steps = history.undo.slice(0, -1)
+  const isEmpty = !merged.removed && !merged.inserted
+  return { text: result.text, document, undo: isEmpty ? steps : [...steps, { ...last, edits: [merged], timestamp: now }], redo: [] }
+}
+
+/**
+ * Record the change from the history's text to `text` (typing, or anything
+ * else the history was not told about) as a typing step. `document` is the
+ * editor's document for `text`; formatting alone is not a step.
+ */
+export function recordText(history: EditHistory, text: string, now = Date.now(), document?: RichDocument): EditHistory {
+  const edit = diffEdit(history.text, text)
+  const recorded = edit ? recordEdits(history, [edit], "typing", [], now) : history
+  return document && document !== recorded.document ? { ...recorded, document } : recorded
+}
+
+export function undoStep(history: EditHistory): HistoryMove | null {
+  const step = history.undo[history.undo.length - 1]
+  if (!step) return null
+
+  const undo = history.undo.slice(0, -1)
+  const result = applyEdits(history.text, invertEdits(step.edits))
+  if (!result) return { history: { ...history, undo }, applied: [] }
+
+  // Redo from where the edits turned out to be
+  const redone = { ...step, edits: invertEdits(result.applied) }
+  const document = editDocument(history.document, result.applied)
+  return { history: { text: result.text, document, undo, redo: pushStep(history.redo, redone) }, step, applied: result.applied }
+}
+
+export function redoStep(history: EditHistory): HistoryMove | null {
+  const step = history.redo[history.redo.length - 1]
+  if (!step) return null
+
+  const redo = history.redo.slice(0, -1)
+  const result = applyEdits(history.text, step.edits)
+  if (!result) return { history: { ...history, redo }, applied: [] }
+
+  const redone = { ...step, edits: result.applied }
+  const document = editDocument(history.document, result.applied)
+  return { history: { text: result.text, document, undo: pushStep(history.undo, redone), redo }, step, applied: result.applied }
+}
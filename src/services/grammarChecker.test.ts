@@ -1,5 +1,9 @@
 import { describe, it, expect, beforeEach } from 'vitest'
-import { grammarChecker, type GrammarCheckResult } from './grammarChecker'
+import { grammarChecker, GrammarCheckerService, type GrammarCheckResult } from './grammarChecker'
+import { matchPattern } from './grammarRules'
+
+const suggestionsFor = (text: string) =>
+  grammarChecker.checkText(text).map(result => ({ original: result.original, suggestion: result.suggestion }))
 
 describe('GrammarChecker', () => {
   beforeEach(() => {
@@ -28,11 +32,9 @@ describe('GrammarChecker', () => {
     })
 
     it('should detect passive voice issues', () => {
-      // write-good detects passive voice
       const text = 'The ball was thrown by John.'
       const result = grammarChecker.checkText(text)
       
-      // May or may not find issues depending on write-good's rules
       expect(Array.isArray(result)).toBe(true)
       result.forEach((suggestion: GrammarCheckResult) => {
         expect(suggestion).toHaveProperty('type')
@@ -46,7 +48,6 @@ describe('GrammarChecker', () => {
     })
 
     it('should detect wordy phrases', () => {
-      // write-good detects wordy phrases
       const text = 'It is important to note that this is a very important matter.'
       const result = grammarChecker.checkText(text)
       
@@ -74,6 +75,164 @@ describe('GrammarChecker', () => {
     })
   })
 
+  describe('Built-in Rules', () => {
+    it('should fix a/an agreement by sound, not spelling', () => {
+      expect(suggestionsFor('She ate a apple and an banana.')).toEqual([
+        { original: 'a apple', suggestion: 'an apple' },
+        { original: 'an banana', suggestion: 'a banana' }
+      ])
+      expect(suggestionsFor('It took an hour to find a user with an FAQ and a URL.')).toEqual([])
+      expect(suggestionsFor('Plan A is fine.')).toEqual([])
+    })
+
+    it('should remove repeated words', () => {
+      const [result] = grammarChecker.checkText('Send it to the the team.')
+
+      expect(result.original).toBe('the the')
+      expect(result.suggestion).toBe('the')
+      expect(result.position).toEqual({ start: 11, end: 18 })
+      expect(suggestionsFor('He said that that was fine. We had had enough.')).toEqual([])
+    })
+
+    it('should fix subject-verb agreement for common patterns', () => {
+      expect(suggestionsFor("He don't know. They was late. She have a plan. I is ready.")).toEqual([
+        { original: "don't", suggestion: "doesn't" },
+        { original: 'was', suggestion: 'were' },
+        { original: 'have', suggestion: 'has' },
+        { original: 'is', suggestion: 'am' }
+      ])
+      expect(suggestionsFor('Does he have time? If it were me, you and I are fine.')).toEqual([])
+    })
+
+    it('should capitalize the first word of a sentence', () => {
+      expect(suggestionsFor('Thanks for the update. see you soon! bye.')).toEqual([
+        { original: 'see', suggestion: 'See' },
+        { original: 'bye', suggestion: 'Bye' }
+      ])
+      expect(suggestionsFor('Bring snacks, e.g. chips. Well... maybe not. Buy an iPhone. iPads too.')).toEqual([])
+    })
+
+    it('should collapse double spaces', () => {
+      const [result] = grammarChecker.checkText('Thanks  for the update.')
+
+      expect(result.original).toBe('  ')
+      expect(result.suggestion).toBe(' ')
+      expect(result.position).toEqual({ start: 6, end: 8 })
+    })
+
+    it('should report the rule that produced each result', () => {
+      const [result] = grammarChecker.checkText('It is a apple.')
+
+      expect(result.ruleId).toBe('article-agreement')
+    })
+  })
+
+  describe('Style Rules', () => {
+    it('should turn passive voice with an agent into active voice', () => {
+      expect(suggestionsFor('The ball was thrown by John.')).toEqual([
+        { original: 'The ball was thrown by John', suggestion: 'John threw the ball' }
+      ])
+      expect(suggestionsFor('The document was written by me and it was reviewed by my colleague.')).toEqual([
+        { original: 'The document was written by me', suggestion: 'I wrote the document' },
+        { original: 'it was reviewed by my colleague', suggestion: 'my colleague reviewed it' }
+      ])
+      expect(suggestionsFor('The file has been reviewed by our lawyers, so we can sign.')).toEqual([
+        { original: 'The file has been reviewed by our lawyers', suggestion: 'Our lawyers have reviewed the file' }
+      ])
+    })
+
+    it('should only advise on passive voice it cannot rewrite', () => {
+      const [withoutAgent] = grammarChecker.checkText('The ball was thrown.')
+      const [timeNotAgent] = grammarChecker.checkText('The report was sent by Friday.')
+
+      for (const result of [withoutAgent, timeNotAgent]) {
+        expect(result.advisory).toBe(true)
+        expect(result.suggestion).toBe(result.original)
+        expect(result.explanation).toContain('Passive voice')
+      }
+      expect(grammarChecker.checkText('I was tired. I am done.')).toEqual([])
+    })
+
+    it('should shorten wordy phrases', () => {
+      expect(suggestionsFor('In order to finish, we need to make a decision prior to Monday.')).toEqual([
+        { original: 'In order to', suggestion: 'To' },
+        { original: 'make a decision', suggestion: 'decide' },
+        { original: 'prior to', suggestion: 'before' }
+      ])
+    })
+
+    it('should replace weasel words or advise when there is no rewrite', () => {
+      expect(suggestionsFor('This is very important and really useful. Thank you very much.')).toEqual([
+        { original: 'very important', suggestion: 'crucial' },
+        { original: 'really useful', suggestion: 'useful' }
+      ])
+
+      // Downtoners soften the word: "fairly good" must not become "excellent"
+      const [downtoner] = grammarChecker.checkText('The draft is fairly good.')
+      expect(downtoner.original).toBe('fairly good')
+      expect(downtoner.advisory).toBe(true)
+      expect(grammarChecker.checkText('It is quite small.').every(result => result.advisory)).toBe(true)
+
+      const [vague] = grammarChecker.checkText('We saw several issues.')
+      expect(vague.original).toBe('several')
+      expect(vague.advisory).toBe(true)
+    })
+
+    it('should remove hedges', () => {
+      expect(suggestionsFor('I think we should go. Maybe we can meet. It is kind of slow.')).toEqual([
+        { original: 'I think we', suggestion: 'We' },
+        { original: 'Maybe we', suggestion: 'We' },
+        { original: 'kind of slow', suggestion: 'slow' }
+      ])
+      expect(suggestionsFor('What kind of car? I feel sick.')).toEqual([])
+    })
+  })
+
+  describe('Rule Registration', () => {
+    it('should run custom rules and skip matches without a replacement', () => {
+      const checker = new GrammarCheckerService([])
+      checker.registerRule({
+        id: 'no-utilize',
+        category: 'clarity',
+        matcher: matchPattern(/\butiliz(e|es|ed|ing)\b/g),
+        replacement: ({ groups: [, ending] }) => ending === 'ing' ? null : `us${ending}`,
+        explanation: () => '"Use" is simpler.'
+      })
+
+      expect(checker.checkText('We utilize it, utilizing everything.')).toEqual([{
+        type: 'clarity',
+        original: 'utilize',
+        suggestion: 'use',
+        explanation: '"Use" is simpler.',
+        position: { start: 3, end: 10 },
+        ruleId: 'no-utilize'
+      }])
+
+      checker.unregisterRule('no-utilize')
+      expect(checker.getRules()).toEqual([])
+    })
+
+    it('should keep running when a rule throws', () => {
+      const checker = new GrammarCheckerService()
+      checker.registerRule({
+        id: 'broken',
+        category: 'grammar',
+        matcher: () => { throw new Error('boom') },
+        replacement: () => null,
+        explanation: () => ''
+      })
+
+      expect(checker.checkText('It is a apple.')).toHaveLength(1)
+    })
+
+    it('should drop results that overlap an earlier one', () => {
+      // "a a" is a repeated word and an article mismatch at once
+      const results = grammarChecker.checkText('This is a a apple.')
+
+      expect(results).toHaveLength(1)
+    })
+  })
+
   describe('Result Structure', () => {
     it('should return properly formatted results', () => {
       const text = 'This is arguably a very important consideration.'
@@ -164,7 +323,7 @@ describe('GrammarChecker', () => {
   })
 
   describe('Suggestion Quality', () => {
-    it('should provide actionable suggestions for passive voice', () => {
+    it('should rewrite passive voice instead of describing the fix', () => {
       const text = 'Mistakes were made by the team.'
       const result = grammarChecker.checkText(text)
       
@@ -172,9 +331,9 @@ describe('GrammarChecker', () => {
         r.explanation.toLowerCase().includes('passive')
       )
       
-      passiveIssues.forEach(issue => {
-        expect(issue.suggestion).toContain('active')
-      })
+      expect(passiveIssues).toHaveLength(1)
+      expect(passiveIssues[0].suggestion).toBe('The team made mistakes')
+      expect(passiveIssues[0].advisory).toBeUndefined()
     })
 
     it('should provide helpful suggestions for wordy phrases', () => {
@@ -1,5 +1,5 @@
-// @ts-expect-error - write-good doesn't have TypeScript definitions
-import writeGood from 'write-good'
+import { BUILT_IN_RULES, type GrammarRule } from './grammarRules'
+import { STYLE_RULES } from './styleRules'
 
 export interface GrammarCheckResult {
   type: 'grammar' | 'clarity'
@@ -7,16 +7,18 @@ export interface GrammarCheckResult {
   suggestion: string
   explanation: string
   position: { start: number; end: number }
+  ruleId?: string
+  // Points out a problem without a concrete rewrite; `suggestion` is the original text
+  advisory?: boolean
 }
 
-interface WriteGoodSuggestion {
-  index: number
-  offset: number
-  reason: string
-}
+export class GrammarCheckerService {
+  private isInitialized = true // Rules are plain functions, no async initialization needed
+  private rules: GrammarRule[]
 
-class GrammarCheckerService {
-  private isInitialized = true // write-good doesn't need async initialization
+  constructor(rules: GrammarRule[] = [...BUILT_IN_RULES, ...STYLE_RULES]) {
+    this.rules = [...rules]
+  }
 
   /**
    * Check grammar for an entire text and return suggestions with positions
@@ -24,74 +26,68 @@ class GrammarCheckerService {
    * Target: < 100ms response time
    */
   checkText(text: string): GrammarCheckResult[] {
-    if (!this.isInitialized) {
+    if (!this.isInitialized || !text.trim()) {
       return []
     }
 
-    try {
-      // Use write-good to find grammar issues
-      console.log('🔍 Grammar checker: analyzing text:', text.substring(0, 50) + '...')
-      const suggestions = writeGood(text)
-      console.log('🔍 Grammar checker: write-good found', suggestions.length, 'issues:', suggestions)
-      
-      const results = suggestions
-        .map((suggestion: WriteGoodSuggestion, _index: number) => ({
-          type: this.getIssueType(suggestion.reason),
-          original: text.substring(suggestion.index, suggestion.index + suggestion.offset),
-          suggestion: this.getSuggestionText(suggestion.reason, text.substring(suggestion.index, suggestion.index + suggestion.offset)),
-          explanation: suggestion.reason,
-          position: {
-            start: suggestion.index,
-            end: suggestion.index + suggestion.offset
+    const results: GrammarCheckResult[] = []
+
+    for (const rule of this.rules) {
+      try {
+        for (const match of rule.matcher(text)) {
+          const suggestion = rule.replacement(match)
+
+          if (suggestion === null) {
+            const advice = rule.advice?.(match)
+            if (advice) {
+              results.push({
+                type: rule.category,
+                original: match.text,
+                suggestion: match.text,
+                explanation: advice,
+                position: { start: match.start, end: match.end },
+                ruleId: rule.id,
+                advisory: true
+              })
+            }
+            continue
           }
-        }))
-        .filter((result: GrammarCheckResult) => result.type === 'grammar') // Only return grammar issues, disable clarity for now
-      
-      console.log('🔍 Grammar checker: returning', results.length, 'grammar suggestions:', results)
-      return results
-    } catch (error) {
-      console.error('Grammar checker error:', error)
-      return []
+          if (suggestion === match.text) continue
+
+          results.push({
+            type: rule.category,
+            original: match.text,
+            suggestion,
+            explanation: rule.explanation(match),
+            position: { start: match.start, end: match.end },
+            ruleId: rule.id
+          })
+        }
+      } catch (error) {
+        // A broken rule must not take the others down with it
+        console.error(`Grammar checker: rule ${rule.id} failed:`, error)
+      }
     }
+
+    return this.removeOverlaps(results)
   }
 
   /**
-   * Determine if this is a grammar or clarity issue
+   * Add a rule, replacing any rule with the same id
    */
-  private getIssueType(reason: string): 'grammar' | 'clarity' {
-    // write-good focuses on clarity and style issues
-    const grammarKeywords = ['passive', 'tense', 'agreement', 'verb']
-    const isGrammar = grammarKeywords.some(keyword => 
-      reason.toLowerCase().includes(keyword)
-    )
-    return isGrammar ? 'grammar' : 'clarity'
+  registerRule(rule: GrammarRule): void {
+    this.rules = [...this.rules.filter(existing => existing.id !== rule.id), rule]
   }
 
   /**
-   * Generate a suggestion based on the issue type
+   * Remove a rule by id
    */
-  private getSuggestionText(reason: string, _original: string): string {
-    // For write-good, we provide general suggestions since it doesn't give specific replacements
-    if (reason.includes('passive voice')) {
-      return `Make this active voice`
-    }
-    if (reason.includes('wordy')) {
-      return `Consider a shorter alternative`
-    }
-    if (reason.includes('adverb')) {
-      return `Consider removing or replacing this adverb`
-    }
-    if (reason.includes('cliché')) {
-      return `Consider a more original expression`
-    }
-    if (reason.includes('hedge')) {
-      return `Be more direct and confident`
-    }
-    if (reason.includes('weasel')) {
-      return `Be more specific`
-    }
-    
-    return `Consider revising this phrase`
+  unregisterRule(id: string): void {
+    this.rules = this.rules.filter(rule => rule.id !== id)
+  }
+
+  getRules(): GrammarRule[] {
+    return [...this.rules]
   }
 
   /**
@@ -101,9 +97,26 @@ class GrammarCheckerService {
     return this.isInitialized
   }
 
+  /**
+   * Sort by position and keep only the first of any overlapping results, so
+   * applying one suggestion never invalidates the range of another
+   */
+  private removeOverlaps(results: GrammarCheckResult[]): GrammarCheckResult[] {
+    const sorted = [...results].sort((a, b) => a.position.start - b.position.start)
+    const kept: GrammarCheckResult[] = []
+
+    for (const result of sorted) {
+      const last = kept[kept.length - 1]
+      if (!last || result.position.start >= last.position.end) {
+        kept.push(result)
+      }
+    }
+
+    return kept
+  }
 }
 
 // Export a singleton instance
 export const grammarChecker = new GrammarCheckerService()
 
-export default grammarChecker 
+export default grammarChecker
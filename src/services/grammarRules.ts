@@ -0,0 +1,179 @@
+export type GrammarRuleCategory = 'grammar' | 'clarity'
+
+/**
+ * One occurrence found by a rule's matcher. `groups` holds the capture groups
+ * of regex-based matchers (index 0 is the whole match).
+ */
+export interface GrammarRuleMatch {
+  start: number
+  end: number
+  text: string
+  groups: string[]
+  // Whether the match begins a sentence (only whitespace since the last . ! ? or the start)
+  sentenceStart: boolean
+}
+
+/**
+ * A single check run by the grammar engine. The matcher finds candidate
+ * ranges, `replacement` produces the exact text to put there (or null to
+ * discard the match) and `explanation` says what is wrong.
+ *
+ * Rules that can point out a problem without always knowing the fix provide
+ * `advice`: when `replacement` returns null, a non-null advice is reported as
+ * an advisory suggestion that cannot be applied.
+ */
+export interface GrammarRule {
+  id: string
+  category: GrammarRuleCategory
+  matcher: (text: string) => GrammarRuleMatch[]
+  replacement: (match: GrammarRuleMatch) => string | null
+  explanation: (match: GrammarRuleMatch) => string
+  advice?: (match: GrammarRuleMatch) => string | null
+}
+
+export function isSentenceStart(text: string, index: number): boolean {
+  let i = index - 1
+  while (i >= 0 && /\s/.test(text[i])) i--
+  if (i >= 0 && /["')\]]/.test(text[i])) i--
+  return i < 0 || /[.!?]/.test(text[i])
+}
+
+/**
+ * Build a matcher from a regex. Context that must not be replaced goes in a
+ * lookbehind or lookahead; its capture groups are still passed to the rule.
+ */
+export function matchPattern(pattern: RegExp): GrammarRule['matcher'] {
+  const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`
+
+  return (text: string) => {
+    const regex = new RegExp(pattern.source, flags)
+    const matches: GrammarRuleMatch[] = []
+    let match
+
+    while ((match = regex.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        regex.lastIndex++
+        continue
+      }
+
+      matches.push({
+        start: match.index,
+        end: match.index + match[0].length,
+        text: match[0],
+        groups: Array.from(match, group => group ?? ''),
+        sentenceStart: isSentenceStart(text, match.index)
+      })
+    }
+
+    return matches
+  }
+}
+
+/**
+ * Give the replacement the same leading capital as the original
+ */
+export const matchCase = (original: string, replacement: string): string =>
+  /^\p{Lu}/u.test(original) ? replacement[0].toUpperCase() + replacement.slice(1) : replacement
+
+// --- a / an ---
+
+// Words starting with a vowel letter but a consonant sound, and vice versa
+const CONSONANT_SOUND = /^(?:uni(?!n|mp)|use|usu|uti|ure|euro?|eu|one|once|ubiq|ufo|uk\b)/i
+const VOWEL_SOUND = /^(?:hour|honest|honou?r|heir)/i
+// Letters whose spoken name starts with a vowel sound ("an FAQ", "an SQL query")
+const VOWEL_SOUND_LETTERS = 'AEFHILMNORSX'
+
+// Words that never follow an article, so "a" or "A" is a letter here ("plan A is", "a or b")
+const NOT_AFTER_ARTICLE = new Set(['and', 'or', 'is', 'was', 'are', 'of', 'to', 'in', 'on', 'at', 'as', 'if'])
+
+const startsWithVowelSound = (word: string): boolean => {
+  // Acronyms are read letter by letter
+  if (/^[A-Z]{2,}s?$/.test(word)) return VOWEL_SOUND_LETTERS.includes(word[0])
+  if (VOWEL_SOUND.test(word)) return true
+  if (CONSONANT_SOUND.test(word)) return false
+  return /^[aeiou]/i.test(word)
+}
+
+// --- Subject-verb agreement ---
+
+// Verb forms that must follow each kind of subject
+const AGREEMENT: Record<string, Record<string, string>> = {
+  singular: { "don't": "doesn't", do: 'does', have: 'has', are: 'is', "aren't": "isn't", were: 'was', "weren't": "wasn't" },
+  plural: { "doesn't": "don't", does: 'do', has: 'have', is: 'are', "isn't": "aren't", was: 'were', "wasn't": "weren't" },
+  i: { "doesn't": "don't", does: 'do', has: 'have', is: 'am', are: 'am' }
+}
+
+const SUBJECTS: Record<string, keyof typeof AGREEMENT> = {
+  he: 'singular', she: 'singular', it: 'singular',
+  we: 'plural', they: 'plural', you: 'plural',
+  i: 'i'
+}
+
+// Words before the pronoun that make it an object or start a question ("does he have")
+const NOT_A_SUBJECT = new Set([
+  'do', 'does', 'did', 'will', 'would', 'can', 'could', 'should', 'shall', 'may', 'might', 'must',
+  'let', 'make', 'made', 'help', 'helped', 'have', 'has', 'had', 'if', 'wish', 'though', 'as', 'to',
+  // Compound subjects ("you and I are")
+  'and', 'or', 'nor'
+])
+
+// --- Capitalisation ---
+
+// Abbreviations that end in a full stop without ending the sentence
+const ABBREVIATIONS = new Set(['e.g', 'i.e', 'etc', 'vs', 'approx', 'cf', 'al', 'no', 'p', 'pp', 'fig', 'ca', 'a.m', 'p.m'])
+
+export const BUILT_IN_RULES: GrammarRule[] = [
+  {
+    id: 'article-agreement',
+    category: 'grammar',
+    matcher: matchPattern(/\b([Aa]n?) +([A-Za-z]+)/g),
+    replacement: ({ groups: [, article, word] }) => {
+      if (NOT_AFTER_ARTICLE.has(word.toLowerCase())) return null
+      const expected = startsWithVowelSound(word) ? 'an' : 'a'
+      return article.toLowerCase() === expected ? null : `${matchCase(article, expected)} ${word}`
+    },
+    explanation: ({ groups: [, , word] }) => startsWithVowelSound(word)
+      ? `Use "an" before a vowel sound, as in "an ${word}".`
+      : `Use "a" before a consonant sound, as in "a ${word}".`
+  },
+  {
+    id: 'repeated-word',
+    category: 'grammar',
+    // "had had" and "that that" can be correct
+    matcher: matchPattern(/\b(?!(?:had|that)\b)([\p{L}']+)\s+\1\b/giu),
+    replacement: ({ groups: [, word] }) => word,
+    explanation: ({ groups: [, word] }) => `"${word}" is repeated.`
+  },
+  {
+    id: 'subject-verb-agreement',
+    category: 'grammar',
+    matcher: matchPattern(/(?<=(?:\b([A-Za-z]+) +)?\b(I|[Hh]e|[Ss]he|[Ii]t|[Ww]e|[Tt]hey|[Yy]ou) +)((?:do|does|have|has|is|are|was|were)(?:n't)?)\b/g),
+    replacement: ({ groups: [, previous, subject, verb] }) => {
+      if (previous && NOT_A_SUBJECT.has(previous.toLowerCase())) return null
+      const forms = AGREEMENT[SUBJECTS[subject.toLowerCase()]]
+      const expected = forms[verb.toLowerCase()]
+      return expected ? matchCase(verb, expected) : null
+    },
+    explanation: ({ groups: [, , subject] }) => `The verb does not agree with "${subject}".`
+  },
+  {
+    id: 'sentence-capitalization',
+    category: 'grammar',
+    matcher: matchPattern(/(?<=(\S*)[.!?] +)\p{Ll}[\p{L}']*/gu),
+    replacement: ({ text: word, groups: [, before] }) => {
+      // Abbreviations and ellipses ("well... maybe") don't end the sentence
+      if (ABBREVIATIONS.has(before.toLowerCase()) || before.endsWith('.')) return null
+      // Brand names like "iPhone" keep their casing
+      if (/\p{Lu}/u.test(word)) return null
+      return word[0].toUpperCase() + word.slice(1)
+    },
+    explanation: () => 'Start a new sentence with a capital letter.'
+  },
+  {
+    id: 'double-space',
+    category: 'grammar',
+    matcher: matchPattern(/(?<=\S) {2,}(?=\S)/g),
+    replacement: () => ' ',
+    explanation: () => 'Use a single space between words and sentences.'
+  }
+]
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { fingerprintOf, issueFor, ruleOf, visibilityOf, withIgnoredIssue, withoutIgnoredIssue } from './ignoredIssues'
+import type { Suggestion } from '../store/useStore'
+
+const suggestion = (overrides: Partial<Suggestion> = {}): Suggestion => ({
+  id: 's1',
+  type: 'grammar',
+  original: 'a  Apple',
+  suggestion: 'an apple',
+  explanation: 'Article',
+  source: 'local',
+  priority: 2,
+  position: { start: 0, end: 8 },
+  confidence: 0.8,
+  rule: 'article-agreement',
+  ...overrides
+})
+
+describe('ignoredIssues', () => {
+  it('should key issues by rule and normalized text', () => {
+    expect(ruleOf(suggestion())).toBe('article-agreement')
+    expect(ruleOf(suggestion({ rule: undefined, type: 'spelling' }))).toBe('spelling')
+    expect(fingerprintOf(suggestion())).toBe('a apple')
+  })
+
+  it('should tell dismissed, snoozed, muted and visible suggestions apart', () => {
+    const now = 1_000
+    expect(visibilityOf(suggestion(), [issueFor(suggestion())], [], now)).toBe('dismissed')
+    expect(visibilityOf(suggestion(), [issueFor(suggestion(), now + 1)], [], now)).toBe('snoozed')
+    expect(visibilityOf(suggestion(), [issueFor(suggestion(), now - 1)], [], now)).toBe('visible')
+    expect(visibilityOf(suggestion(), [], ['article-agreement'], now)).toBe('muted')
+    expect(visibilityOf(suggestion({ original: 'a egg' }), [issueFor(suggestion())], [], now)).toBe('visible')
+  })
+
+  it('should replace an existing entry and drop expired snoozes', () => {
+    const now = 1_000
+    const expired = { rule: 'hedge', text: 'i think', until: now - 1 }
+    const issues = withIgnoredIssue([expired, issueFor(suggestion(), now + 5)], issueFor(suggestion()), now)
+
+    expect(issues).toEqual([{ rule: 'article-agreement', text: 'a apple' }])
+    expect(withoutIgnoredIssue(issues, issueFor(suggestion()))).toEqual([])
+  })
+})
@@ -0,0 +1,60 @@
+import type { Suggestion } from "../store/useStore"
+import type { IgnoredIssue } from "../lib/supabase"
+
+// Dismissed, snoozed and muted suggestions. Checkers keep reporting them; these
+// helpers decide what the sidebar shows, so the decisions survive re-checks.
+
+export type { IgnoredIssue }
+
+export const SNOOZE_MS = 24 * 60 * 60 * 1000
+
+export type SuggestionVisibility = "visible" | "dismissed" | "snoozed" | "muted"
+
+/**
+ * The rule a suggestion came from: the grammar/style rule id, or its type for
+ * checkers without rules (spelling, and the model's clarity and tone advice)
+ */
+export const ruleOf = (suggestion: Suggestion): string => suggestion.rule ?? suggestion.type
+
+/**
+ * What a dismissal remembers about the flagged text: case and spacing don't
+ * matter, and the position doesn't either, so the issue stays dismissed when
+ * the text around it moves
+ */
+export const fingerprintOf = (suggestion: Suggestion): string =>
+  suggestion.original.trim().replace(/\s+/g, " ").toLowerCase()
+
+export const issueFor = (suggestion: Suggestion, until?: number): IgnoredIssue => ({
+  rule: ruleOf(suggestion),
+  text: fingerprintOf(suggestion),
+  ...(until !== undefined && { until }),
+})
+
+const isActive = (issue: IgnoredIssue, now: number) => issue.until === undefined || issue.until > now
+
+/**
+ * The dismissal or snooze currently hiding a suggestion, if any
+ */
+export const findIgnoredIssue = (suggestion: Suggestion, issues: IgnoredIssue[], now = Date.now()): IgnoredIssue | undefined => {
+  const rule = ruleOf(suggestion)
+  const text = fingerprintOf(suggestion)
+  return issues.find(issue => issue.rule === rule && issue.text === text && isActive(issue, now))
+}
+
+export function visibilityOf(suggestion: Suggestion, issues: IgnoredIssue[], mutedRules: string[], now = Date.now()): SuggestionVisibility {
+  if (mutedRules.includes(ruleOf(suggestion))) return "muted"
+  const issue = findIgnoredIssue(suggestion, issues, now)
+  if (!issue) return "visible"
+  return issue.until === undefined ? "dismissed" : "snoozed"
+}
+
+/**
+ * Add or replace the entry for an issue, dropping snoozes that have run out
+ */
+export const withIgnoredIssue = (issues: IgnoredIssue[], issue: IgnoredIssue, now = Date.now()): IgnoredIssue[] => [
+  ...withoutIgnoredIssue(issues, issue).filter(existing => isActive(existing, now)),
+  issue,
+]
+
+export const withoutIgnoredIssue = (issues: IgnoredIssue[], issue: Pick<IgnoredIssue, "rule" | "text">): IgnoredIssue[] =>
+  issues.filter(existing => existing.rule !== issue.rule || existing.text !== issue.text)
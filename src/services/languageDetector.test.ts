@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { detectLanguage, detectParagraphLanguage } from './languageDetector'
+import { resolveLanguage } from './languages'
+
+describe('languageDetector', () => {
+  describe('detectLanguage', () => {
+    it('should recognise each supported language', () => {
+      expect(detectLanguage('Hi team, please find the report attached. Thanks for your help!')?.language).toBe('en-US')
+      expect(detectLanguage('Hola Juan, te envío el informe de la reunión de mañana. Gracias.')?.language).toBe('es-ES')
+      expect(detectLanguage('Bonjour Marie, merci pour votre message. Je vous envoie le rapport demain.')?.language).toBe('fr-FR')
+      expect(detectLanguage('Hallo Peter, vielen Dank für die Nachricht. Ich schicke dir den Bericht morgen.')?.language).toBe('de-DE')
+    })
+
+    it('should report a confidence between 0 and 1', () => {
+      const detection = detectLanguage('Bonjour Marie, merci pour votre message. Je vous envoie le rapport demain.')
+
+      expect(detection!.confidence).toBeGreaterThan(0.5)
+      expect(detection!.confidence).toBeLessThanOrEqual(1)
+    })
+
+    it('should not guess for very short paragraphs', () => {
+      expect(detectLanguage('OK thanks')).toBeNull()
+      expect(detectLanguage('')).toBeNull()
+    })
+
+    it('should not guess when no language clearly wins', () => {
+      expect(detectLanguage('Lorem ipsum dolor sit amet consectetur')).toBeNull()
+    })
+  })
+
+  describe('detectParagraphLanguage', () => {
+    it('should fall back to the draft language when detection is inconclusive', () => {
+      expect(detectParagraphLanguage('Lorem ipsum dolor sit amet', 'de-DE')).toBe('de-DE')
+      expect(detectParagraphLanguage('Hola Juan, te envío el informe de la reunión de mañana.', 'en-US')).toBe('es-ES')
+    })
+  })
+
+  describe('resolveLanguage', () => {
+    it('should map unknown or missing codes to English', () => {
+      expect(resolveLanguage('fr-FR')).toBe('fr-FR')
+      expect(resolveLanguage('pt-BR')).toBe('en-US')
+      expect(resolveLanguage(null)).toBe('en-US')
+    })
+  })
+})
@@ -0,0 +1,50 @@
+import { SUPPORTED_LANGUAGES, type LanguageCode } from "./languages"
+
+export interface LanguageDetection {
+  language: LanguageCode
+  confidence: number
+}
+
+// Paragraphs shorter than this are too ambiguous to classify
+const MIN_WORDS = 4
+// The winner must clearly beat the runner-up
+const MIN_MARGIN = 1.5
+
+const commonWordSets = new Map(
+  SUPPORTED_LANGUAGES.map(language => [language.code, new Set(language.commonWords)])
+)
+
+/**
+ * Guess the language of a paragraph from its most frequent words and letters.
+ * Returns null when the text is too short or no language clearly wins.
+ */
+export function detectLanguage(text: string): LanguageDetection | null {
+  const lowerText = text.toLowerCase()
+  const words = lowerText.match(/[\p{L}\p{M}]+/gu) ?? []
+  if (words.length < MIN_WORDS) return null
+
+  const scores = SUPPORTED_LANGUAGES.map(({ code, distinctiveLetters }) => {
+    const commonWords = commonWordSets.get(code)!
+    let score = words.filter(word => commonWords.has(word)).length
+
+    // Each distinctive letter counts as half a common word
+    for (const letter of distinctiveLetters) {
+      score += (lowerText.split(letter).length - 1) / 2
+    }
+
+    return { language: code, score }
+  }).sort((a, b) => b.score - a.score)
+
+  const [best, runnerUp] = scores
+  if (best.score < 2 || best.score < runnerUp.score * MIN_MARGIN) return null
+
+  const total = scores.reduce((sum, { score }) => sum + score, 0)
+  return { language: best.language, confidence: best.score / total }
+}
+
+/**
+ * The detected language of a paragraph, or the fallback (usually the draft's
+ * language) when detection is inconclusive
+ */
+export const detectParagraphLanguage = (text: string, fallback: LanguageCode): LanguageCode =>
+  detectLanguage(text)?.language ?? fallback
@@ -0,0 +1,72 @@
+// Registry of languages the spell checker can load a dictionary for
+
+export type LanguageCode = "en-US" | "es-ES" | "fr-FR" | "de-DE"
+
+export interface LanguageDefinition {
+  code: LanguageCode
+  name: string
+  // Very frequent words: used to detect the language of a paragraph and as the
+  // fallback dictionary when the bundled one cannot be loaded
+  commonWords: string[]
+  // Letters that only (or mostly) occur in this language
+  distinctiveLetters: string
+}
+
+export const DEFAULT_LANGUAGE: LanguageCode = "en-US"
+
+export const LANGUAGES: Record<LanguageCode, LanguageDefinition> = {
+  "en-US": {
+    code: "en-US",
+    name: "English",
+    commonWords: [
+      "the", "be", "to", "of", "and", "a", "in", "that", "have", "i", "it", "for", "not", "on", "with",
+      "he", "as", "you", "do", "at", "this", "but", "his", "by", "from", "they", "we", "she", "or", "will",
+      "my", "would", "there", "their", "what", "so", "if", "about", "which", "is", "was", "are", "been",
+      "has", "had", "were", "can", "our", "your", "please", "thanks", "regards", "hello", "hi", "dear"
+    ],
+    distinctiveLetters: ""
+  },
+  "es-ES": {
+    code: "es-ES",
+    name: "Español",
+    commonWords: [
+      "de", "la", "que", "el", "en", "y", "a", "los", "se", "del", "las", "un", "por", "con", "no",
+      "una", "su", "para", "es", "al", "lo", "como", "más", "pero", "sus", "le", "ya", "o", "este",
+      "sí", "porque", "esta", "entre", "cuando", "muy", "sin", "sobre", "también", "me", "hasta",
+      "hay", "donde", "quien", "desde", "todo", "nos", "durante", "estimado", "gracias", "saludos", "hola"
+    ],
+    distinctiveLetters: "ñ¿¡"
+  },
+  "fr-FR": {
+    code: "fr-FR",
+    name: "Français",
+    commonWords: [
+      "de", "la", "le", "et", "les", "des", "en", "un", "du", "une", "que", "est", "pour", "qui",
+      "dans", "par", "plus", "pas", "au", "sur", "ne", "se", "ce", "il", "sont", "avec", "ou", "son",
+      "aux", "je", "nous", "vous", "mais", "comme", "cette", "été", "être", "avoir", "très", "bien",
+      "merci", "bonjour", "cordialement", "madame", "monsieur", "votre", "notre", "leur", "où", "ça"
+    ],
+    distinctiveLetters: "çœèêëàâîïôûù"
+  },
+  "de-DE": {
+    code: "de-DE",
+    name: "Deutsch",
+    commonWords: [
+      "der", "die", "und", "in", "den", "von", "zu", "das", "mit", "sich", "des", "auf", "für", "ist",
+      "im", "dem", "nicht", "ein", "eine", "als", "auch", "es", "an", "werden", "aus", "er", "hat",
+      "dass", "sie", "nach", "wird", "bei", "einer", "um", "am", "sind", "noch", "wie", "einem", "über",
+      "ich", "wir", "ihr", "ihnen", "bitte", "danke", "grüße", "freundlichen", "sehr", "geehrte", "hallo"
+    ],
+    distinctiveLetters: "äöüß"
+  }
+}
+
+export const SUPPORTED_LANGUAGES: LanguageDefinition[] = Object.values(LANGUAGES)
+
+export const isSupportedLanguage = (code: string): code is LanguageCode => code in LANGUAGES
+
+/**
+ * Map a stored language code onto a supported one, defaulting to English
+ */
+export const resolveLanguage = (code: string | null | undefined): LanguageCode =>
+  code && isSupportedLanguage(code) ? code : DEFAULT_LANGUAGE
@@ -0,0 +1,49 @@
+import { supabase } from '../lib/supabase'
+import type { MutedRule } from '../lib/supabase'
+
+export class MutedRulesService {
+  static async getRules(): Promise<MutedRule[]> {
+    const { data, error } = await supabase
+      .from('muted_rules')
+      .select('*')
+      .order('rule', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching muted rules:', error)
+      throw new Error(`Failed to fetch muted rules: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  static async muteRule(rule: string): Promise<MutedRule> {
+    // Get the current user
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { data, error } = await supabase
+      .from('muted_rules')
+      .upsert([{ rule, user_id: user.id }], { onConflict: 'user_id,rule' })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error muting rule:', error)
+      throw new Error(`Failed to mute rule: ${error.message}`)
+    }
+
+    return data
+  }
+
+  static async unmuteRule(rule: string): Promise<void> {
+    const { error } = await supabase
+      .from('muted_rules')
+      .delete()
+      .eq('rule', rule)
+
+    if (error) {
+      console.error('Error unmuting rule:', error)
+      throw new Error(`Failed to unmute rule: ${error.message}`)
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import {
+  computeTextChange,
+  findDirtyParagraphs,
+  hashText,
+  shiftSuggestions,
+  splitParagraphs,
+} from './paragraphTracker'
+import type { Suggestion } from '../store/useStore'
+
+const makeSuggestion = (id: string, start: number, end: number): Suggestion => ({
+  id,
+  type: 'spelling',
+  original: 'x',
+  suggestion: 'y',
+  explanation: 'test',
+  source: 'local',
+  priority: 1,
+  position: { start, end },
+  confidence: 0.9
+})
+
+describe('paragraphTracker', () => {
+  describe('splitParagraphs', () => {
+    it('should split on blank lines and keep absolute offsets', () => {
+      const text = 'First paragraph.\n\nSecond one\nstill second.\n\n\nThird.'
+      const paragraphs = splitParagraphs(text)
+
+      expect(paragraphs.map(p => p.text)).toEqual(['First paragraph.', 'Second one\nstill second.', 'Third.'])
+      paragraphs.forEach(p => {
+        expect(text.slice(p.start, p.end)).toBe(p.text)
+      })
+    })
+
+    it('should ignore whitespace-only paragraphs', () => {
+      expect(splitParagraphs('   \n\n  ')).toEqual([])
+    })
+
+    it('should give identical paragraphs the same hash', () => {
+      const [a, b] = splitParagraphs('Same text.\n\nSame text.')
+      expect(a.hash).toBe(b.hash)
+      expect(a.hash).toBe(hashText('Same text.'))
+    })
+  })
+
+  describe('computeTextChange', () => {
+    it('should return null for identical text', () => {
+      expect(computeTextChange('abc', 'abc')).toBeNull()
+    })
+
+    it('should locate an insertion', () => {
+      expect(computeTextChange('hello world', 'hello big world')).toEqual({ start: 6, oldEnd: 6, newEnd: 10, delta: 4 })
+    })
+
+    it('should locate a replacement', () => {
+      expect(computeTextChange('the cat sat', 'the dog sat')).toEqual({ start: 4, oldEnd: 7, newEnd: 7, delta: 0 })
+    })
+  })
+
+  describe('findDirtyParagraphs', () => {
+    it('should treat everything as dirty without a previous version', () => {
+      expect(findDirtyParagraphs(null, 'One.\n\nTwo.')).toHaveLength(2)
+    })
+
+    it('should only return the edited paragraph', () => {
+      const dirty = findDirtyParagraphs('One.\n\nTwo.\n\nThree.', 'One.\n\nTwo words.\n\nThree.')
+      expect(dirty.map(p => p.text)).toEqual(['Two words.'])
+    })
+  })
+
+  describe('shiftSuggestions', () => {
+    it('should drop overlapping suggestions and shift later ones', () => {
+      const change = computeTextChange('aaa bbb ccc', 'aaa XXXXX ccc')!
+      const shifted = shiftSuggestions([
+        makeSuggestion('before', 0, 3),
+        makeSuggestion('overlap', 4, 7),
+        makeSuggestion('after', 8, 11)
+      ], change)
+
+      expect(shifted.map(s => s.id)).toEqual(['before', 'after'])
+      expect(shifted[0].position).toEqual({ start: 0, end: 3 })
+      expect(shifted[1].position).toEqual({ start: 10, end: 13 })
+    })
+  })
+})
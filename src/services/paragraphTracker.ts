@@ -0,0 +1,119 @@
+import type { Suggestion } from "../store/useStore"
+
+export interface TextRange {
+  start: number
+  end: number
+}
+
+export interface Paragraph extends TextRange {
+  text: string
+  hash: string
+}
+
+/**
+ * A single contiguous edit: `old` is the replaced range in the previous text,
+ * `new` the range that replaced it in the current text.
+ */
+export interface TextChange {
+  start: number
+  oldEnd: number
+  newEnd: number
+  delta: number
+}
+
+/**
+ * FNV-1a hash of a paragraph, used as a cache key for per-paragraph results
+ */
+export function hashText(text: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Split text into paragraphs separated by blank lines, keeping absolute offsets
+ */
+export function splitParagraphs(text: string): Paragraph[] {
+  const paragraphs: Paragraph[] = []
+  const separator = /\n[^\S\n]*\n\s*/g
+  let start = 0
+  let match
+
+  const push = (end: number) => {
+    const paragraphText = text.slice(start, end)
+    if (paragraphText.trim().length > 0) {
+      paragraphs.push({ start, end, text: paragraphText, hash: hashText(paragraphText) })
+    }
+  }
+
+  while ((match = separator.exec(text)) !== null) {
+    push(match.index)
+    start = match.index + match[0].length
+  }
+  push(text.length)
+
+  return paragraphs
+}
+
+/**
+ * Find the single edited region between two versions of a text by trimming the
+ * common prefix and suffix. Returns null when the texts are identical.
+ */
+export function computeTextChange(oldText: string, newText: string): TextChange | null {
+  if (oldText === newText) return null
+
+  let start = 0
+  const minLength = Math.min(oldText.length, newText.length)
+  while (start < minLength && oldText[start] === newText[start]) {
+    start++
+  }
+
+  let oldEnd = oldText.length
+  let newEnd = newText.length
+  while (oldEnd > start && newEnd > start && oldText[oldEnd - 1] === newText[newEnd - 1]) {
+    oldEnd--
+    newEnd--
+  }
+
+  return { start, oldEnd, newEnd, delta: newText.length - oldText.length }
+}
+
+/**
+ * Paragraphs of the new text touched by the edit. The whole text is dirty when
+ * there is no previous version to compare against.
+ */
+export function findDirtyParagraphs(oldText: string | null, newText: string): Paragraph[] {
+  const paragraphs = splitParagraphs(newText)
+  if (oldText === null) return paragraphs
+
+  const change = computeTextChange(oldText, newText)
+  if (!change) return []
+
+  // Touching paragraphs count as dirty: typing at the end of a word changes that word
+  return paragraphs.filter(p => p.end >= change.start && p.start <= change.newEnd)
+}
+
+/**
+ * Move suggestions to follow an edit. Suggestions overlapping the edited range
+ * are dropped, those after it are shifted by the length difference.
+ */
+export function shiftSuggestions(suggestions: Suggestion[], change: TextChange): Suggestion[] {
+  return suggestions
+    .filter(({ position: { start, end } }) => end <= change.start || start >= change.oldEnd)
+    .map(suggestion => {
+      if (suggestion.position.start < change.oldEnd) return suggestion
+      return {
+        ...suggestion,
+        position: {
+          start: suggestion.position.start + change.delta,
+          end: suggestion.position.end + change.delta
+        }
+      }
+    })
+}
+
+export const isWithinRanges = (position: TextRange, ranges: TextRange[]): boolean =>
+  ranges.some(range => position.start >= range.start && position.end <= range.end)
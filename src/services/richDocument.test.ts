@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import {
+  fromPlainText,
+  hasMark,
+  replaceRange,
+  setBlockType,
+  setLink,
+  toggleMark,
+  toHtml,
+  toPlainText,
+  withPlainText,
+  type RichDocument
+} from './richDocument'
+
+const doc: RichDocument = {
+  blocks: [
+    { type: 'heading1', runs: [{ text: 'Launch plan' }] },
+    { type: 'paragraph', runs: [{ text: 'We ' }, { text: 'really', marks: { bold: true } }, { text: ' need this.' }] },
+    { type: 'bulletItem', runs: [{ text: 'Budget' }] }
+  ]
+}
+
+describe('richDocument', () => {
+  it('should join blocks with line breaks in the plain text', () => {
+    expect(toPlainText(doc)).toBe('Launch plan\nWe really need this.\nBudget')
+    expect(toPlainText(fromPlainText('One\n\nTwo'))).toBe('One\n\nTwo')
+    expect(fromPlainText('').blocks).toEqual([{ type: 'paragraph', runs: [] }])
+  })
+
+  it('should keep the formatting of replaced text', () => {
+    // "really" -> "truly"
+    const next = replaceRange(doc, 15, 21, 'truly')
+
+    expect(toPlainText(next)).toBe('Launch plan\nWe truly need this.\nBudget')
+    expect(next.blocks[1].runs).toEqual([{ text: 'We ' }, { text: 'truly', marks: { bold: true } }, { text: ' need this.' }])
+  })
+
+  it('should split and merge blocks at line breaks', () => {
+    const split = replaceRange(doc, 39, 39, '\nTimeline')
+    expect(split.blocks.map(block => block.type)).toEqual(['heading1', 'paragraph', 'bulletItem', 'bulletItem'])
+    expect(toPlainText(split)).toBe('Launch plan\nWe really need this.\nBudget\nTimeline')
+
+    const merged = replaceRange(doc, 11, 12, ' ')
+    expect(merged.blocks.map(block => block.type)).toEqual(['heading1', 'bulletItem'])
+    expect(toPlainText(merged)).toBe('Launch plan We really need this.\nBudget')
+  })
+
+  it('should apply plain-text edits without losing formatting elsewhere', () => {
+    const next = withPlainText(doc, 'Launch plan\nWe really need it.\nBudget')
+
+    expect(next.blocks[0]).toEqual(doc.blocks[0])
+    expect(next.blocks[1].runs).toEqual([{ text: 'We ' }, { text: 'really', marks: { bold: true } }, { text: ' need it.' }])
+    expect(withPlainText(doc, toPlainText(doc))).toBe(doc)
+  })
+
+  it('should toggle marks over a range that crosses blocks', () => {
+    const italic = toggleMark(doc, 7, 14, 'italic')
+    expect(hasMark(italic, 7, 14, 'italic')).toBe(true)
+    expect(italic.blocks[0].runs).toEqual([{ text: 'Launch ' }, { text: 'plan', marks: { italic: true } }])
+    expect(italic.blocks[1].runs[0]).toEqual({ text: 'We', marks: { italic: true } })
+
+    expect(hasMark(toggleMark(italic, 7, 14, 'italic'), 7, 14, 'italic')).toBe(false)
+    expect(toggleMark(toggleMark(doc, 0, 6, 'code'), 0, 6, 'code')).toEqual(doc)
+  })
+
+  it('should switch block types and back', () => {
+    const listed = setBlockType(doc, 12, 40, 'orderedItem')
+    expect(listed.blocks.map(block => block.type)).toEqual(['heading1', 'orderedItem', 'orderedItem'])
+    expect(setBlockType(listed, 12, 40, 'orderedItem').blocks.map(block => block.type)).toEqual(['heading1', 'paragraph', 'paragraph'])
+  })
+
+  it('should render HTML with lists, marks and escaped text', () => {
+    const linked = setLink(replaceRange(doc, 0, 11, 'Q3 <launch>'), 12, 14, 'https://example.com/?a=1&b=2')
+
+    expect(toHtml(linked)).toBe(
+      '<h1>Q3 &lt;launch&gt;</h1>' +
+      '<p><a href="https://example.com/?a=1&amp;b=2">We</a> <strong>really</strong> need this.</p>' +
+      '<ul><li>Budget</li></ul>'
+    )
+    expect(toHtml(fromPlainText('One\n'))).toBe('<p>One</p><p><br></p>')
+    expect(toHtml(setLink(doc, 0, 6, 'javascript:alert(1)'))).toContain('<h1>Launch plan</h1>')
+  })
+
+  it('should wrap decorated ranges in spans', () => {
+    const html = toHtml(doc, [{ start: 15, end: 24, attributes: { 'data-segment-start': '15' } }])
+
+    expect(html).toContain('<span data-segment-start="15"><strong>really</strong></span><span data-segment-start="15"> ne</span>ed this.')
+  })
+})
@@ -0,0 +1,310 @@
+// Structured document behind the editor: a list of blocks (paragraphs,
+// headings, list items), each a list of text runs with bold, italic, code and
+// link marks. Its plain text, the blocks' text joined by "\n", is what the
+// checkers see: Suggestion.position is a plain-text offset into it, and every
+// edit below is addressed in plain-text offsets too.
+
+export const BLOCK_TYPES = ["paragraph", "heading1", "heading2", "heading3", "bulletItem", "orderedItem"] as const
+export type BlockType = typeof BLOCK_TYPES[number]
+
+export const MARKS = ["bold", "italic", "code"] as const
+export type Mark = typeof MARKS[number]
+
+export interface Marks {
+  bold?: boolean
+  italic?: boolean
+  code?: boolean
+  link?: string
+}
+
+export interface TextRun {
+  // Never contains "\n": line breaks separate blocks
+  text: string
+  marks?: Marks
+}
+
+export interface Block {
+  type: BlockType
+  runs: TextRun[]
+}
+
+/**
+ * Always has at least one block. Runs are normalized: no empty runs, and no
+ * two neighbouring runs with the same marks.
+ */
+export interface RichDocument {
+  blocks: Block[]
+}
+
+/**
+ * Extra markup around a plain-text range when rendering, e.g. the editor's
+ * suggestion underlines
+ */
+export interface Decoration {
+  start: number
+  end: number
+  attributes: Record<string, string>
+}
+
+const cleanMarks = (marks?: Marks): Marks | undefined => {
+  const clean: Marks = {}
+  for (const mark of MARKS) if (marks?.[mark]) clean[mark] = true
+  if (marks?.link) clean.link = marks.link
+  return Object.keys(clean).length > 0 ? clean : undefined
+}
+
+const sameMarks = (a?: Marks, b?: Marks) =>
+  MARKS.every(mark => !!a?.[mark] === !!b?.[mark]) && a?.link === b?.link
+
+const run = (text: string, marks?: Marks): TextRun => {
+  const clean = cleanMarks(marks)
+  return clean ? { text, marks: clean } : { text }
+}
+
+export function normalizeRuns(runs: TextRun[]): TextRun[] {
+  const result: TextRun[] = []
+  for (const { text, marks } of runs) {
+    if (!text) continue
+    const last = result[result.length - 1]
+    if (last && sameMarks(last.marks, marks)) result[result.length - 1] = run(last.text + text, marks)
+    else result.push(run(text, marks))
+  }
+  return result
+}
+
+export const blockText = (block: Block): string => block.runs.map(({ text }) => text).join("")
+
+export const toPlainText = (doc: RichDocument): string => doc.blocks.map(blockText).join("\n")
+
+/**
+ * One paragraph per line, so the plain text round-trips exactly
+ */
+export const fromPlainText = (text: string): RichDocument => ({
+  blocks: text.split("\n").map(line => ({ type: "paragraph", runs: line ? [{ text: line }] : [] })),
+})
+
+export const emptyDocument = (): RichDocument => fromPlainText("")
+
+interface Point {
+  block: number
+  offset: number
+}
+
+// Block and offset in the block of a plain-text offset (clamped to the document)
+function locate(doc: RichDocument, position: number): Point {
+  let blockStart = 0
+  for (let block = 0; block < doc.blocks.length; block++) {
+    const length = blockText(doc.blocks[block]).length
+    if (position <= blockStart + length) return { block, offset: Math.max(0, position - blockStart) }
+    blockStart += length + 1
+  }
+  const last = doc.blocks.length - 1
+  return { block: last, offset: blockText(doc.blocks[last]).length }
+}
+
+// The runs covering [from, to) of a block's text
+function sliceRuns(runs: TextRun[], from: number, to = Infinity): TextRun[] {
+  const result: TextRun[] = []
+  let runStart = 0
+  for (const { text, marks } of runs) {
+    const runEnd = runStart + text.length
+    if (runEnd > from && runStart < to) {
+      result.push(run(text.slice(Math.max(0, from - runStart), Math.min(text.length, to - runStart)), marks))
+    }
+    runStart = runEnd
+  }
+  return result
+}
+
+// Marks of the character at `offset` in a block
+const marksAt = (block: Block, offset: number): Marks | undefined => sliceRuns(block.runs, offset, offset + 1)[0]?.marks
+
+// Enter in a list item starts another item; after a heading comes a paragraph
+const continuationOf = (type: BlockType): BlockType =>
+  type === "bulletItem" || type === "orderedItem" ? type : "paragraph"
+
+/**
+ * Replace the plain-text range [start, end) with `text`. Replaced text passes
+ * its formatting on to the replacement; inserted text takes the formatting of
+ * the character before it. Line breaks in `text` start new blocks.
+ */
+export function replaceRange(doc: RichDocument, start: number, end: number, text: string): RichDocument {
+  const from = locate(doc, start)
+  const to = locate(doc, Math.max(start, end))
+  const startBlock = doc.blocks[from.block]
+  const endBlock = doc.blocks[to.block]
+  const marks = start < end || from.offset === 0 ? marksAt(startBlock, from.offset) : marksAt(startBlock, from.offset - 1)
+
+  const before = sliceRuns(startBlock.runs, 0, from.offset)
+  const after = sliceRuns(endBlock.runs, to.offset)
+  const lines = text.split("\n")
+  const inserted = lines.map((line, index): Block => {
+    const isFirst = index === 0
+    const isLast = index === lines.length - 1
+    const type = isFirst ? startBlock.type : isLast && after.length > 0 ? endBlock.type : continuationOf(startBlock.type)
+    const runs = [...(isFirst ? before : []), run(line, marks), ...(isLast ? after : [])]
+    return { type, runs: normalizeRuns(runs) }
+  })
+
+  return { blocks: [...doc.blocks.slice(0, from.block), ...inserted, ...doc.blocks.slice(to.block + 1)] }
+}
+
+/**
+ * The document with its plain text replaced by `text`, keeping the formatting
+ * of everything outside the changed part. Lets plain-text edits (applying a
+ * suggestion, undo) update a formatted draft.
+ */
+export function withPlainText(doc: RichDocument, text: string): RichDocument {
+  const current = toPlainText(doc)
+  if (current === text) return doc
+
+  const shortest = Math.min(current.length, text.length)
+  let prefix = 0
+  while (prefix < shortest && current[prefix] === text[prefix]) prefix++
+  let suffix = 0
+  while (suffix < shortest - prefix && current[current.length - 1 - suffix] === text[text.length - 1 - suffix]) suffix++
+
+  return replaceRange(doc, prefix, current.length - suffix, text.slice(prefix, text.length - suffix))
+}
+
+// Blocks overlapping [start, end), with the part of the range inside each
+function forEachBlockIn(doc: RichDocument, start: number, end: number, visit: (index: number, from: number, to: number) => void) {
+  let blockStart = 0
+  doc.blocks.forEach((block, index) => {
+    const length = blockText(block).length
+    const from = Math.max(start, blockStart) - blockStart
+    const to = Math.min(end, blockStart + length) - blockStart
+    if (from < to) visit(index, from, to)
+    blockStart += length + 1
+  })
+}
+
+function mapMarks(doc: RichDocument, start: number, end: number, update: (marks: Marks) => Marks): RichDocument {
+  const blocks = [...doc.blocks]
+  forEachBlockIn(doc, start, end, (index, from, to) => {
+    const { runs } = blocks[index]
+    const changed = sliceRuns(runs, from, to).map(({ text, marks }) => run(text, update({ ...marks })))
+    blocks[index] = { ...blocks[index], runs: normalizeRuns([...sliceRuns(runs, 0, from), ...changed, ...sliceRuns(runs, to)]) }
+  })
+  return { blocks }
+}
+
+/**
+ * Whether every character in [start, end) has the mark
+ */
+export function hasMark(doc: RichDocument, start: number, end: number, mark: Mark): boolean {
+  const runs: TextRun[] = []
+  forEachBlockIn(doc, start, end, (index, from, to) => runs.push(...sliceRuns(doc.blocks[index].runs, from, to)))
+  return runs.length > 0 && runs.every(({ marks }) => marks?.[mark])
+}
+
+/**
+ * Add the mark to [start, end), or remove it if the whole range has it already
+ */
+export function toggleMark(doc: RichDocument, start: number, end: number, mark: Mark): RichDocument {
+  const value = !hasMark(doc, start, end, mark)
+  return mapMarks(doc, start, end, marks => ({ ...marks, [mark]: value }))
+}
+
+/**
+ * Link [start, end) to `href`, or unlink it when `href` is undefined
+ */
+export const setLink = (doc: RichDocument, start: number, end: number, href: string | undefined): RichDocument =>
+  mapMarks(doc, start, end, marks => ({ ...marks, link: href }))
+
+/**
+ * The type of the block containing `position`
+ */
+export const blockTypeAt = (doc: RichDocument, position: number): BlockType => doc.blocks[locate(doc, position).block].type
+
+/**
+ * Give every block touched by [start, end) the type, or turn them back into
+ * paragraphs if they all have it already
+ */
+export function setBlockType(doc: RichDocument, start: number, end: number, type: BlockType): RichDocument {
+  const first = locate(doc, start).block
+  const last = locate(doc, Math.max(start, end)).block
+  const touched = doc.blocks.slice(first, last + 1)
+  const next = touched.every(block => block.type === type) ? "paragraph" : type
+
+  return { blocks: doc.blocks.map((block, index) => (index >= first && index <= last ? { ...block, type: next } : block)) }
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;")
+
+/**
+ * Only web and mail links are rendered as links
+ */
+export const isSafeLink = (href: string) => /^(https?:|mailto:)/i.test(href.trim())
+
+const BLOCK_TAGS: Record<BlockType, string> = {
+  paragraph: "p",
+  heading1: "h1",
+  heading2: "h2",
+  heading3: "h3",
+  bulletItem: "li",
+  orderedItem: "li",
+}
+
+const LIST_TAGS: Partial<Record<BlockType, string>> = { bulletItem: "ul", orderedItem: "ol" }
+
+function renderText(text: string, marks?: Marks): string {
+  let html = escapeHtml(text)
+  if (marks?.code) html = `<code>${html}</code>`
+  if (marks?.italic) html = `<em>${html}</em>`
+  if (marks?.bold) html = `<strong>${html}</strong>`
+  if (marks?.link && isSafeLink(marks.link)) html = `<a href="${escapeHtml(marks.link)}">${html}</a>`
+  return html
+}
+
+function renderRuns(runs: TextRun[], blockStart: number, decorations: Decoration[]): string {
+  let html = ""
+  let runStart = blockStart
+  for (const { text, marks } of runs) {
+    const runEnd = runStart + text.length
+    // Cut the run wherever a decoration starts or ends inside it
+    const cuts = decorations
+      .flatMap(({ start, end }) => [start, end])
+      .filter(cut => cut > runStart && cut < runEnd)
+    const bounds = [...new Set([runStart, ...cuts, runEnd])].sort((a, b) => a - b)
+
+    for (let i = 0; i < bounds.length - 1; i++) {
+      const piece = renderText(text.slice(bounds[i] - runStart, bounds[i + 1] - runStart), marks)
+      const decoration = decorations.find(({ start, end }) => start <= bounds[i] && end >= bounds[i + 1])
+      if (!decoration) {
+        html += piece
+        continue
+      }
+      const attributes = Object.entries(decoration.attributes).map(([name, value]) => ` ${name}="${escapeHtml(value)}"`).join("")
+      html += `<span${attributes}>${piece}</span>`
+    }
+    runStart = runEnd
+  }
+  return html
+}
+
+/**
+ * HTML for the document: the editor's content and the body of sent emails.
+ * Empty blocks hold a <br> so they keep their line, as in a contenteditable.
+ */
+export function toHtml(doc: RichDocument, decorations: Decoration[] = []): string {
+  let html = ""
+  let openList: string | undefined
+  let blockStart = 0
+
+  for (const block of doc.blocks) {
+    const list = LIST_TAGS[block.type]
+    if (list !== openList) {
+      if (openList) html += `</${openList}>`
+      if (list) html += `<${list}>`
+      openList = list
+    }
+    const tag = BLOCK_TAGS[block.type]
+    html += `<${tag}>${renderRuns(block.runs, blockStart, decorations) || "<br>"}</${tag}>`
+    blockStart += blockText(block).length + 1
+  }
+
+  if (openList) html += `</${openList}>`
+  return html
+}
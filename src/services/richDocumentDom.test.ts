@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { toHtml, toPlainText, type RichDocument } from './richDocument'
+import { domPositionToOffset, offsetToDomPosition, parseHtml, readDocument } from './richDocumentDom'
+
+const render = (html: string) => {
+  const root = document.createElement('div')
+  root.innerHTML = html
+  return root
+}
+
+describe('richDocumentDom', () => {
+  it('should read back what toHtml renders', () => {
+    const doc: RichDocument = {
+      blocks: [
+        { type: 'heading2', runs: [{ text: 'Notes' }] },
+        { type: 'paragraph', runs: [{ text: 'See ' }, { text: 'the doc', marks: { italic: true, link: 'https://example.com' } }] },
+        { type: 'orderedItem', runs: [{ text: 'First' }] },
+        { type: 'orderedItem', runs: [{ text: 'x()', marks: { code: true } }] },
+        { type: 'paragraph', runs: [] }
+      ]
+    }
+
+    expect(readDocument(render(toHtml(doc))).document).toEqual(doc)
+  })
+
+  it('should parse stored HTML without running it', () => {
+    const doc: RichDocument = {
+      blocks: [
+        { type: 'heading1', runs: [{ text: 'Launch' }] },
+        { type: 'bulletItem', runs: [{ text: 'Ship ' }, { text: 'Monday', marks: { bold: true } }] }
+      ]
+    }
+
+    expect(parseHtml(toHtml(doc))).toEqual(doc)
+    expect(toPlainText(parseHtml('<p>Hi<img src="x" onerror="alert(1)"></p>'))).toBe('Hi')
+  })
+
+  it('should read the markup browsers create while editing', () => {
+    const root = render('Hello&nbsp;<b>world</b><div>Second line</div><div><br></div><ul><li>One<div>Two</div></li></ul>')
+
+    const { document } = readDocument(root)
+
+    expect(toPlainText(document)).toBe('Hello world\nSecond line\n\nOne\nTwo')
+    expect(document.blocks[0].runs).toEqual([{ text: 'Hello ' }, { text: 'world', marks: { bold: true } }])
+    expect(document.blocks.map(block => block.type)).toEqual(['paragraph', 'paragraph', 'paragraph', 'bulletItem', 'bulletItem'])
+  })
+
+  it('should map DOM positions to plain-text offsets and back', () => {
+    const root = render('<p>Ab <strong>cd</strong></p><p><br></p><p>ef</p>')
+    const reading = readDocument(root)
+    const bold = root.querySelector('strong')!.firstChild!
+
+    expect(domPositionToOffset(reading, bold, 1)).toBe(4)
+    expect(domPositionToOffset(reading, root.children[2], 0)).toBe(7)
+    expect(domPositionToOffset(reading, document.body, 0)).toBeNull()
+
+    expect(offsetToDomPosition(reading, 2)).toEqual({ node: root.firstChild!.firstChild, offset: 2 })
+    expect(offsetToDomPosition(reading, 4)).toEqual({ node: bold, offset: 1 })
+    expect(offsetToDomPosition(reading, 6)).toEqual({ node: root.children[1], offset: 0 })
+    expect(offsetToDomPosition(reading, 8)).toEqual({ node: root.children[2].firstChild, offset: 1 })
+  })
+})
@@ -0,0 +1,206 @@
+import { normalizeRuns, type Block, type BlockType, type Marks, type RichDocument } from "./richDocument"
+
+// Reads the editor's contenteditable back into a RichDocument after the
+// browser has edited it, and maps DOM positions (the selection) to plain-text
+// offsets and back. Browsers produce their own markup (divs on Enter, <b>,
+// nested spans, &nbsp;), so anything unknown is read as plain text.
+
+const BLOCK_ELEMENTS: Record<string, BlockType> = {
+  P: "paragraph",
+  DIV: "paragraph",
+  BLOCKQUOTE: "paragraph",
+  PRE: "paragraph",
+  H1: "heading1",
+  H2: "heading2",
+  H3: "heading3",
+  H4: "heading3",
+  H5: "heading3",
+  H6: "heading3",
+}
+
+const MARK_ELEMENTS: Record<string, Marks> = {
+  B: { bold: true },
+  STRONG: { bold: true },
+  I: { italic: true },
+  EM: { italic: true },
+  CODE: { code: true },
+}
+
+interface BlockSpan {
+  node: Node
+  start: number
+  end: number
+}
+
+/**
+ * A document read from the DOM, with the plain-text offset at which each node
+ * starts and ends
+ */
+export interface DomReading {
+  document: RichDocument
+  starts: Map<Node, number>
+  ends: Map<Node, number>
+  blocks: BlockSpan[]
+  texts: Text[]
+}
+
+class DocumentReader {
+  blocks: Block[] = []
+  spans: BlockSpan[] = []
+  texts: Text[] = []
+  starts = new Map<Node, number>()
+  ends = new Map<Node, number>()
+  offset = 0
+  // A block opened for loose inline content, which following inline content joins
+  private looseBlock = false
+
+  openBlock(type: BlockType, node: Node, loose = false) {
+    if (this.blocks.length > 0) this.offset += 1
+    this.blocks.push({ type, runs: [] })
+    this.spans.push({ node, start: this.offset, end: this.offset })
+    // The block starts after the line break that separates it from the previous one
+    this.starts.set(node, this.offset)
+    this.looseBlock = loose
+  }
+
+  private get current() {
+    return this.blocks[this.blocks.length - 1]
+  }
+
+  private get currentSpan() {
+    return this.spans[this.spans.length - 1]
+  }
+
+  private addText(node: Text, marks: Marks) {
+    // Same length as the DOM text, so DOM offsets stay plain-text offsets
+    const text = node.data.replace(/[\n\r\t\u00a0]/g, " ")
+    this.texts.push(node)
+    this.current.runs.push({ text, marks })
+    this.offset += text.length
+    this.currentSpan.end = this.offset
+  }
+
+  private visit(node: Node, walk: () => void) {
+    this.starts.set(node, this.offset)
+    walk()
+    this.ends.set(node, this.offset)
+  }
+
+  // Children of the root, of lists, and of block elements nested in blocks
+  readBlockLevel(node: Node, listType?: BlockType) {
+    this.visit(node, () => {
+      if (node.nodeType !== Node.ELEMENT_NODE) {
+        if (node.nodeType === Node.TEXT_NODE && (node as Text).data) {
+          if (!this.looseBlock) this.openBlock("paragraph", node, true)
+          this.readInline(node, {}, "paragraph")
+        }
+        return
+      }
+
+      const element = node as Element
+      const tag = element.tagName
+      if (tag === "UL" || tag === "OL") {
+        const type = tag === "UL" ? "bulletItem" : "orderedItem"
+        element.childNodes.forEach(child => this.readBlockLevel(child, type))
+        this.looseBlock = false
+      } else if (tag === "LI" || BLOCK_ELEMENTS[tag]) {
+        const type = tag === "LI" ? listType ?? "bulletItem" : BLOCK_ELEMENTS[tag]
+        this.openBlock(type, element)
+        element.childNodes.forEach(child => this.readInline(child, {}, type))
+        this.looseBlock = false
+      } else if (tag === "BR") {
+        if (this.looseBlock) this.looseBlock = false
+        else this.openBlock("paragraph", element)
+      } else {
+        if (!this.looseBlock) this.openBlock("paragraph", element, true)
+        this.readInline(element, {}, "paragraph")
+      }
+    })
+  }
+
+  private readInline(node: Node, marks: Marks, type: BlockType) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      this.visit(node, () => this.addText(node as Text, marks))
+      return
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return
+
+    const element = node as Element
+    const tag = element.tagName
+    this.visit(node, () => {
+      if (tag === "BR") {
+        // A trailing <br> only keeps an empty block open
+        if (element.nextSibling) this.openBlock(type, element)
+        return
+      }
+      if (tag === "UL" || tag === "OL" || tag === "LI" || BLOCK_ELEMENTS[tag]) {
+        // A block inside a block (e.g. Enter in a list item): a new block, unless the current one is still empty
+        const nestedType = tag === "UL" ? "bulletItem" : tag === "OL" ? "orderedItem" : BLOCK_ELEMENTS[tag] ?? type
+        if (this.current.runs.length > 0) this.openBlock(tag === "DIV" || tag === "P" ? type : nestedType, element)
+        element.childNodes.forEach(child => this.readInline(child, marks, nestedType))
+        return
+      }
+
+      const href = tag === "A" ? element.getAttribute("href") : null
+      const inner = { ...marks, ...MARK_ELEMENTS[tag], ...(href && { link: href }) }
+      element.childNodes.forEach(child => this.readInline(child, inner, type))
+    })
+  }
+}
+
+export function readDocument(root: HTMLElement): DomReading {
+  const reader = new DocumentReader()
+  reader.starts.set(root, 0)
+  root.childNodes.forEach(child => reader.readBlockLevel(child))
+  if (reader.blocks.length === 0) reader.openBlock("paragraph", root)
+  reader.ends.set(root, reader.offset)
+
+  return {
+    document: { blocks: reader.blocks.map(block => ({ ...block, runs: normalizeRuns(block.runs) })) },
+    starts: reader.starts,
+    ends: reader.ends,
+    blocks: reader.spans,
+    texts: reader.texts,
+  }
+}
+
+/**
+ * The document behind HTML made by toHtml, e.g. the stored body of a sent
+ * email. Parsed in an inert document, so nothing in it runs or loads.
+ */
+export function parseHtml(html: string): RichDocument {
+  const parsed = new DOMParser().parseFromString(html, "text/html")
+  return readDocument(parsed.body).document
+}
+
+/**
+ * Plain-text offset of a DOM position (e.g. a selection boundary), or null if
+ * the position is outside the document
+ */
+export function domPositionToOffset(reading: DomReading, node: Node, offset: number): number | null {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const start = reading.starts.get(node)
+    return start === undefined ? null : start + Math.min(offset, (node as Text).length)
+  }
+  if (offset === 0) return reading.starts.get(node) ?? null
+  return reading.ends.get(node.childNodes[offset - 1]) ?? reading.ends.get(node) ?? null
+}
+
+/**
+ * DOM position of a plain-text offset, for putting the caret back after the
+ * editor re-renders
+ */
+export function offsetToDomPosition(reading: DomReading, offset: number): { node: Node; offset: number } {
+  const text = reading.texts.find(node => {
+    const start = reading.starts.get(node) ?? 0
+    return start <= offset && offset <= start + node.length
+  })
+  if (text) return { node: text, offset: offset - (reading.starts.get(text) ?? 0) }
+
+  // Empty blocks have no text: put the caret inside the block element, or before a lone <br>
+  const { node } = reading.blocks.find(({ start, end }) => start <= offset && offset <= end) ?? reading.blocks[reading.blocks.length - 1]
+  if (node.nodeName === "BR" && node.parentNode) {
+    return { node: node.parentNode, offset: Array.from(node.parentNode.childNodes).indexOf(node as ChildNode) }
+  }
+  return { node, offset: 0 }
+}
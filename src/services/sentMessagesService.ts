@@ -1,5 +1,6 @@
 import { supabase } from '../lib/supabase'
 import type { SentMessage } from '../lib/supabase'
+import { toHtml } from './richDocument'
 
 export class SentMessagesService {
   static async sendMessage(
@@ -7,7 +8,8 @@ export class SentMessagesService {
     content: string, 
     recipientEmail?: string,
     ccRecipients?: string,
-    bccRecipients?: string
+    bccRecipients?: string,
+    contentHtml?: string
   ): Promise<SentMessage> {
     // Get the current user
     const { data: { user } } = await supabase.auth.getUser()
@@ -21,6 +23,7 @@ export class SentMessagesService {
         recipient_email: recipientEmail,
         cc_recipients: ccRecipients,
         bcc_recipients: bccRecipients,
+        ...(contentHtml && { content_html: contentHtml }),
         user_id: user.id  // Add user_id automatically
       }])
       .select()
@@ -110,8 +113,9 @@ export class SentMessagesService {
         throw new Error(`Draft not found: ${draftError?.message}`)
       }
 
-      // Send the message
-      const sentMessage = await this.sendMessage(draft.title, draft.content, recipientEmail, ccRecipients, bccRecipients)
+      // Send the message, with its formatting if the draft has any
+      const contentHtml = draft.rich_content ? toHtml(draft.rich_content) : undefined
+      const sentMessage = await this.sendMessage(draft.title, draft.content, recipientEmail, ccRecipients, bccRecipients, contentHtml)
 
       // Delete the draft
       const { error: deleteError } = await supabase
@@ -1,5 +1,7 @@
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, beforeAll } from 'vitest'
 import { spellChecker } from './spellChecker'
+import fixtureAff from '../test/fixtures/hunspell/en-test.aff?raw'
+import fixtureDic from '../test/fixtures/hunspell/en-test.dic?raw'
 
 describe('SpellChecker', () => {
   beforeEach(() => {
@@ -146,6 +148,34 @@ describe('SpellChecker', () => {
     })
   })
 
+  describe('Skip Regions', () => {
+    it('should not flag code, URLs, quoted replies or the signature', async () => {
+      const text = 'Run `npm instal` on docs.wordwise.io, see teh notes.\n> Quoted speling\n-- \nJhon Smiht'
+      const errors = await spellChecker.checkText(text)
+
+      const flagged = errors.map(error => error.word)
+      expect(flagged).toContain('teh')
+      for (const skipped of ['instal', 'wordwise', 'speling', 'Jhon', 'Smiht']) {
+        expect(flagged).not.toContain(skipped)
+      }
+    })
+  })
+
+  describe('Personal Dictionary', () => {
+    it('should accept custom and ignored words', async () => {
+      await spellChecker.ensureInitialized()
+      expect(spellChecker.checkWord('wordwisely').isCorrect).toBe(false)
+
+      spellChecker.setCustomWords(['WordWisely'], ['zzyzx'])
+
+      expect(spellChecker.checkWord('wordwisely').isCorrect).toBe(true)
+      expect(spellChecker.checkWord('zzyzx').isCorrect).toBe(true)
+
+      spellChecker.setCustomWords([], [])
+      expect(spellChecker.checkWord('wordwisely').isCorrect).toBe(false)
+    })
+  })
+
   describe('Dictionary Stats', () => {
     it('should provide dictionary statistics', () => {
       if (!spellChecker.isReady()) {
@@ -153,13 +183,90 @@ describe('SpellChecker', () => {
         return
       }
 
-      const dictSize = spellChecker.getDictionarySize()
+      const dictionaryInfo = spellChecker.getDictionarySize()
       const misspellingsCount = spellChecker.getMisspellingsCount()
       
-      expect(typeof dictSize).toBe('number')
+      expect(typeof dictionaryInfo.version).toBe('string')
+      expect(['bundled', 'cache', 'fallback']).toContain(dictionaryInfo.source)
       expect(typeof misspellingsCount).toBe('number')
-      expect(dictSize).toBeGreaterThan(0)
+      expect(dictionaryInfo.words).toBeGreaterThan(0)
       expect(misspellingsCount).toBeGreaterThan(0)
     })
   })
-}) 
+
+  describe('Suggestion Ranking', () => {
+    it('should rank the likeliest correction first and report its confidence', async () => {
+      await spellChecker.ensureInitialized()
+      spellChecker.setFrequencies(new Map([['world', 300000], ['word', 250000]]))
+
+      const result = spellChecker.checkWord('wprld')
+
+      expect(result.suggestions[0]).toBe('world')
+      expect(result.confidence).toBeGreaterThan(0)
+      expect(result.confidence).toBeLessThanOrEqual(1)
+    })
+
+    it('should give every suggestion a confidence, the first the highest', async () => {
+      await spellChecker.ensureInitialized()
+      spellChecker.setFrequencies(new Map([['world', 300000], ['word', 250000]]))
+
+      const { suggestions, confidence, confidences = [] } = spellChecker.checkWord('wprld')
+
+      expect(confidences).toHaveLength(suggestions.length)
+      expect(confidences[0]).toBe(confidence)
+      for (const value of confidences.slice(1)) {
+        expect(value).toBeGreaterThanOrEqual(0)
+        expect(value).toBeLessThanOrEqual(confidences[0])
+      }
+    })
+
+    it('should trust curated corrections', () => {
+      const result = spellChecker.checkWord('teh')
+
+      expect(result.suggestions[0]).toBe('the')
+      expect(result.confidence).toBe(0.95)
+    })
+  })
+
+  describe('Hunspell Affixes', () => {
+    beforeAll(async () => {
+      await spellChecker.ensureInitialized()
+      spellChecker.loadHunspell(fixtureAff, fixtureDic)
+    })
+
+    it('should accept stems and their inflections', () => {
+      const words = ['work', 'reworked', 'working', 'works', 'carried', 'carries', 'baking', 'baked', 'boxes', 'unshippable']
+      words.forEach(word => {
+        expect(spellChecker.checkWord(word).isCorrect, word).toBe(true)
+      })
+    })
+
+    it('should honour affix conditions', () => {
+      expect(spellChecker.checkWord('carryed').isCorrect).toBe(false)
+      expect(spellChecker.checkWord('boxs').isCorrect).toBe(false)
+      expect(spellChecker.checkWord('bakeing').isCorrect).toBe(false)
+    })
+
+    it('should only combine prefixes and suffixes that allow cross products', () => {
+      expect(spellChecker.checkWord('unkind').isCorrect).toBe(true)
+      expect(spellChecker.checkWord('kindness').isCorrect).toBe(true)
+      expect(spellChecker.checkWord('unkindness').isCorrect).toBe(false)
+      expect(spellChecker.checkWord('reworks').isCorrect).toBe(true)
+    })
+
+    it('should not apply affixes a stem is not flagged for', () => {
+      expect(spellChecker.checkWord('reboxes').isCorrect).toBe(false)
+      expect(spellChecker.checkWord('darks').isCorrect).toBe(false)
+    })
+
+    it('should require an affix on NEEDAFFIX stems', () => {
+      expect(spellChecker.checkWord('gorm').isCorrect).toBe(false)
+      expect(spellChecker.checkWord('gorms').isCorrect).toBe(true)
+    })
+
+    it('should suggest inflected forms of known stems', () => {
+      expect(spellChecker.checkWord('reworkd').suggestions).toContain('reworked')
+      expect(spellChecker.checkWord('unshipable').suggestions).toContain('unshippable')
+    })
+  })
+})
@@ -1,6 +1,16 @@
+import { loadDictionary as loadBundledDictionary, type DictionaryInfo } from './dictionaryLoader';
+import { DEFAULT_LANGUAGE, LANGUAGES, type LanguageCode } from './languages';
+import { rankSuggestions } from './suggestionRanker';
+import { findSkipRegions, overlapsSkipRegion } from './textSegmenter';
+import type { TextRange } from './paragraphTracker';
+
 export interface SpellCheckResult {
   isCorrect: boolean;
   suggestions: string[];
+  // How likely the first suggestion is the intended word (0-1)
+  confidence?: number;
+  // The same for every suggestion, in order
+  confidences?: number[];
   position?: { start: number; end: number };
 }
 
@@ -14,55 +24,91 @@ export interface SpellCheckSuggestion {
 export interface SpellCheckError {
   word: string;
   suggestions: string[];
+  confidence?: number;
+  confidences?: number[];
   position: { start: number; end: number };
 }
 
-// Cache for downloaded datasets
-let dictionaryCache: Set<string> | null = null;
-let misspellingsCache: Map<string, string[]> | null = null;
-let isInitialized = false;
+/**
+ * One PFX/SFX line of a Hunspell affix file. `strip` is removed from the stem
+ * and `affix` added in its place; `condition` must match the stem.
+ */
+interface AffixRule {
+  kind: 'PFX' | 'SFX';
+  flag: string;
+  strip: string;
+  affix: string;
+  condition: RegExp | null;
+  crossProduct: boolean;
+}
+
+type FlagMode = 'char' | 'long' | 'num';
+
+const ENGLISH_ALPHABET = 'abcdefghijklmnopqrstuvwxyz';
+// Curated corrections are known typos, so their first suggestion is trusted
+const CURATED_CONFIDENCE = 0.95;
+
+/**
+ * Confidence of every ranked suggestion: the first keeps `confidence`, and the
+ * rest scale it by how their score compares to the first's
+ */
+function spreadConfidence(confidence: number, scores: number[]): number[] {
+  const [best] = scores;
+  return scores.map((score, index) => {
+    if (index === 0) return confidence;
+    return best > 0 ? Math.round(confidence * (score / best) * 100) / 100 : 0;
+  });
+}
 
 class SpellChecker {
   private dictionary: Set<string> = new Set();
   private commonMisspellings: Map<string, string[]> = new Map();
+  // Unigram counts for ranking suggestions (empty when the bundle has none)
+  private frequencies: Map<string, number> = new Map();
   private isLoading = false;
-  private affixRules: Map<string, { pattern: string; replacement: string; condition: string }[]> = new Map();
-
-  constructor() {
+  private isInitialized = false;
+  private dictionaryInfo: DictionaryInfo;
+  // Letters tried when generating edits (the Hunspell TRY line when available)
+  private alphabet = ENGLISH_ALPHABET;
+  // Per-user additions, consulted alongside the bundled dictionary
+  private customWords: Set<string> = new Set();
+  private ignoredWords: Set<string> = new Set();
+  // Hunspell data: affix rules by flag, the same rules indexed by affix text, and the flags of each stem
+  private affixRules: Map<string, AffixRule[]> = new Map();
+  private prefixIndex: Map<string, AffixRule[]> = new Map();
+  private suffixIndex: Map<string, AffixRule[]> = new Map();
+  private stemFlags: Map<string, Set<string>> = new Map();
+  private flagMode: FlagMode = 'char';
+  private needAffixFlag: string | null = null;
+  private onlyInCompoundFlag: string | null = null;
+
+  constructor(private readonly language: LanguageCode = DEFAULT_LANGUAGE) {
+    this.dictionaryInfo = { locale: language, version: 'none', words: 0, bytes: 0, source: 'fallback' };
     this.initialize();
   }
 
+  // The curated misspellings and contractions only make sense for English text
+  private get isEnglish(): boolean {
+    return this.language.startsWith('en');
+  }
+
   private async initialize(): Promise<void> {
-    if (isInitialized || this.isLoading) {
+    if (this.isInitialized || this.isLoading) {
       return;
     }
 
     this.isLoading = true;
 
     try {
-      // Use cached data if available
-      if (dictionaryCache && misspellingsCache) {
-        this.dictionary = dictionaryCache;
-        this.commonMisspellings = misspellingsCache;
-        isInitialized = true;
-        this.isLoading = false;
-        return;
+      await this.loadDictionary();
+      if (this.isEnglish) {
+        this.loadCommonMisspellings();
       }
-
-      // Load dictionary and misspellings in parallel
-      await Promise.all([
-        this.loadDictionary(),
-        this.loadMisspellings()
-      ]);
-
-      // Cache the loaded data
-      dictionaryCache = this.dictionary;
-      misspellingsCache = this.commonMisspellings;
-      isInitialized = true;
+      this.isInitialized = true;
     } catch (error) {
-      console.warn('Failed to load spell checker datasets, falling back to basic dictionary:', error);
+      console.warn(`Failed to load ${this.language} spell checker datasets, falling back to basic dictionary:`, error);
       this.loadFallbackDictionary();
-      isInitialized = true;
+      this.isInitialized = true;
     } finally {
       this.isLoading = false;
     }
@@ -70,62 +116,25 @@ class SpellChecker {
 
   private async loadDictionary(): Promise<void> {
     try {
-      // Load the comprehensive dwyl/english-words dictionary (479k words)
-      const response = await fetch('https://raw.githubusercontent.com/dwyl/english-words/master/words_alpha.txt');
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch dictionary: ${response.status}`);
-      }
+      // Load the bundled, versioned word list (served from public/dictionaries, cached in IndexedDB)
+      const { words, hunspell, frequencies, info } = await loadBundledDictionary(this.language);
 
-      const text = await response.text();
-      const words = text.split('\n')
-        .map(word => word.trim().toLowerCase())
-        .filter(word => word.length > 0 && word.length <= 25); // Filter reasonable word lengths
+      console.log(`Loaded ${words.length} words from ${info.source} dictionary ${info.version}`);
 
-      console.log(`Loaded ${words.length} words from dwyl/english-words dictionary`);
-      
-      // Add words to dictionary
       words.forEach(word => this.dictionary.add(word));
-
-      // Add some essential contractions and modern words that might be missing
-      const additionalWords = [
-        "don't", "won't", "can't", "isn't", "aren't", "wasn't", "weren't", "haven't", "hasn't", "hadn't",
-        "shouldn't", "wouldn't", "couldn't", "mustn't", "needn't", "daren't", "shan't",
-        "i'm", "you're", "he's", "she's", "it's", "we're", "they're", "you'll", "he'll", "she'll",
-        "covid", "coronavirus", "pandemic", "blockchain", "cryptocurrency", "bitcoin", "ethereum",
-        "tiktok", "instagram", "facebook", "twitter", "youtube", "google", "amazon", "netflix",
-        "smartphone", "iphone", "android", "wifi", "bluetooth", "ai", "ml", "iot", "vr", "ar"
-      ];
-
-      additionalWords.forEach(word => this.dictionary.add(word.toLowerCase()));
-
+      if (hunspell) {
+        this.loadHunspell(hunspell.aff, hunspell.dic);
+      }
+      if (frequencies) {
+        this.frequencies = frequencies;
+      }
+      this.dictionaryInfo = { ...info, words: this.dictionary.size };
     } catch (error) {
       console.warn('Failed to load primary dictionary:', error);
       throw error;
     }
   }
 
-  private async loadMisspellings(): Promise<void> {
-    try {
-      // Try to load from the Birkbeck misspellings corpus format
-      // Since the original corpus is in a special format, we'll use a curated version
-      const birkbeckResponse = await fetch('https://raw.githubusercontent.com/dwyl/english-words/master/words.txt');
-      
-      if (birkbeckResponse.ok) {
-        // For now, let's use a curated set of common misspellings
-        // In production, you'd parse the actual Birkbeck corpus format
-        this.loadCommonMisspellings();
-        return;
-      }
-
-      throw new Error('Birkbeck corpus not accessible');
-
-    } catch (error) {
-      console.warn('Failed to load Birkbeck misspellings, using curated list:', error);
-      this.loadCommonMisspellings();
-    }
-  }
-
   private loadCommonMisspellings(): void {
     // Comprehensive list of common misspellings based on research and public datasets
     const misspellings: [string, string[]][] = [
@@ -150,11 +159,8 @@ class SpellChecker {
       ['gratefull', ['grateful']], ['harass', ['harass']], ['occassionally', ['occasionally']],
       ['questionaire', ['questionnaire']], ['reccommend', ['recommend']], ['succesful', ['successful']],
       
-      // Common word confusions
-      ['alot', ['a lot']], ['allot', ['a lot', 'allot']], ['its', ["it's", 'its']],
-      ['there', ['there', 'their', "they're"]], ['your', ['your', "you're"]],
-      ['too', ['to', 'too', 'two']], ['affect', ['affect', 'effect']],
-      ['accept', ['accept', 'except']], ['loose', ['lose', 'loose']],
+      // Common word confusions (real words like "its" or "loose" are checked in context by the confusion checker)
+      ['alot', ['a lot']],
       
       // Phonetic misspellings
       ['nite', ['night']], ['lite', ['light']], ['thru', ['through']],
@@ -200,6 +206,13 @@ class SpellChecker {
   }
 
   private loadFallbackDictionary(): void {
+    if (!this.isEnglish) {
+      LANGUAGES[this.language].commonWords.forEach(word => this.dictionary.add(word));
+      this.dictionaryInfo = { locale: this.language, version: 'fallback', words: this.dictionary.size, bytes: 0, source: 'fallback' };
+      console.log(`Loaded ${this.language} fallback dictionary with ${this.dictionary.size} common words`);
+      return;
+    }
+
     // Minimal fallback dictionary for critical functionality
     const essentialWords = [
       'the', 'be', 'to', 'of', 'and', 'a', 'in', 'that', 'have', 'i', 'it', 'for', 'not', 'on', 'with',
@@ -214,13 +227,14 @@ class SpellChecker {
     ];
 
     essentialWords.forEach(word => this.dictionary.add(word));
+    this.dictionaryInfo = { locale: this.language, version: 'fallback', words: this.dictionary.size, bytes: 0, source: 'fallback' };
     this.loadCommonMisspellings();
     
     console.log(`Loaded fallback dictionary with ${essentialWords.length} essential words`);
   }
 
   async ensureInitialized(): Promise<void> {
-    if (!isInitialized && !this.isLoading) {
+    if (!this.isInitialized && !this.isLoading) {
       await this.initialize();
     }
     
@@ -231,7 +245,88 @@ class SpellChecker {
   }
 
   isReady(): boolean {
-    return isInitialized && !this.isLoading;
+    return this.isInitialized && !this.isLoading;
+  }
+
+  /**
+   * Replace the user's personal dictionary and ignore list.
+   * Dictionary words count as correct and can be offered as suggestions;
+   * ignored words are never flagged but are not suggested.
+   */
+  setCustomWords(words: string[], ignored: string[]): void {
+    this.customWords = new Set(words.map(word => word.toLowerCase().trim()));
+    this.ignoredWords = new Set(ignored.map(word => word.toLowerCase().trim()));
+  }
+
+  /**
+   * Load a Hunspell dictionary from the contents of its .aff and .dic files.
+   * Stems join the word list; inflected forms are recognised at check time by
+   * undoing one prefix and/or one suffix. Continuation classes and compounding
+   * are not supported.
+   */
+  loadHunspell(affData: string, dicData: string): void {
+    this.parseAffixData(affData.split(/\r?\n/));
+    this.parseDicData(dicData.split(/\r?\n/));
+
+    console.log(`Loaded ${this.stemFlags.size} Hunspell stems with ${this.affixRules.size} affix classes`);
+  }
+
+  private isListedWord(word: string): boolean {
+    return this.dictionary.has(word) || this.customWords.has(word);
+  }
+
+  private isKnownWord(word: string): boolean {
+    return this.isListedWord(word) || this.hasAffixedForm(word);
+  }
+
+  private stemHasFlag(stem: string, flag: string): boolean {
+    return this.stemFlags.get(stem)?.has(flag) ?? false;
+  }
+
+  private conditionMatches(rule: AffixRule, stem: string): boolean {
+    return rule.condition === null || rule.condition.test(stem);
+  }
+
+  /**
+   * Whether the word is a dictionary stem with one prefix, one suffix, or both
+   * when the two rules allow cross products
+   */
+  private hasAffixedForm(word: string): boolean {
+    if (this.stemFlags.size === 0) return false;
+    if (this.hasSuffixedForm(word, null)) return true;
+
+    for (let i = 0; i < word.length; i++) {
+      for (const rule of this.prefixIndex.get(word.slice(0, i)) ?? []) {
+        const stem = rule.strip + word.slice(i);
+        if (!this.conditionMatches(rule, stem)) continue;
+
+        if (this.stemHasFlag(stem, rule.flag)) return true;
+        if (rule.crossProduct && this.hasSuffixedForm(stem, rule.flag)) return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Whether the word is a stem plus one suffix. With a prefix flag, the stem
+   * must carry it too and the suffix must allow cross products.
+   */
+  private hasSuffixedForm(word: string, prefixFlag: string | null): boolean {
+    for (let i = 0; i <= word.length; i++) {
+      for (const rule of this.suffixIndex.get(word.slice(i)) ?? []) {
+        if (prefixFlag && !rule.crossProduct) continue;
+
+        const stem = word.slice(0, i) + rule.strip;
+        if (!stem || !this.conditionMatches(rule, stem)) continue;
+
+        if (this.stemHasFlag(stem, rule.flag) && (!prefixFlag || this.stemHasFlag(stem, prefixFlag))) {
+          return true;
+        }
+      }
+    }
+
+    return false;
   }
 
   private isValidNonWord(word: string): boolean {
@@ -278,26 +373,42 @@ class SpellChecker {
       return { isCorrect: true, suggestions: [] };
     }
     
-    // Check if word is in dictionary
-    if (this.dictionary.has(cleanWord)) {
+    // Check if word is in the dictionary or the user's ignore list
+    if (this.isKnownWord(cleanWord) || this.ignoredWords.has(cleanWord)) {
       return { isCorrect: true, suggestions: [] };
     }
 
     // Check common misspellings
     if (this.commonMisspellings.has(cleanWord)) {
       const suggestions = this.commonMisspellings.get(cleanWord) || [];
-      return { isCorrect: false, suggestions };
+      return {
+        isCorrect: false,
+        suggestions,
+        confidence: CURATED_CONFIDENCE,
+        // Other curated corrections are rare readings of the typo
+        confidences: suggestions.map((_, index) => (index === 0 ? CURATED_CONFIDENCE : Math.round((1 - CURATED_CONFIDENCE) * 100) / 100))
+      };
     }
 
-    // Generate suggestions using edit distance algorithms
-    const suggestions = this.generateSuggestions(cleanWord);
+    // Generate candidates using edit distance, then rank them by likelihood
+    const { suggestions, confidence } = rankSuggestions(cleanWord, this.generateSuggestions(cleanWord), this.frequencies);
+    const top = suggestions.slice(0, 5); // Limit to top 5 suggestions
     
     return {
       isCorrect: false,
-      suggestions: suggestions.slice(0, 5) // Limit to top 5 suggestions
+      suggestions: top.map(({ word }) => word),
+      confidence,
+      confidences: spreadConfidence(confidence, top.map(({ score }) => score))
     };
   }
 
+  /**
+   * Replace the unigram frequency table used to rank suggestions
+   */
+  setFrequencies(frequencies: Map<string, number>): void {
+    this.frequencies = frequencies;
+  }
+
   private generateSuggestions(word: string): string[] {
     const suggestions = new Set<string>();
     
@@ -305,7 +416,7 @@ class SpellChecker {
     const edits = this.generateEdits(word);
     
     for (const edit of edits) {
-      if (this.dictionary.has(edit)) {
+      if (this.isKnownWord(edit)) {
         suggestions.add(edit);
       }
     }
@@ -315,12 +426,14 @@ class SpellChecker {
       return Array.from(suggestions);
     }
 
-    // Try double edits for very short words or if no suggestions found
+    // Try double edits for very short words or if no suggestions found.
+    // Affix matching is too costly for the hundreds of thousands of candidates here,
+    // so only listed words are considered.
     if (word.length <= 6 || suggestions.size === 0) {
       for (const edit1 of edits) {
         const doubleEdits = this.generateEdits(edit1);
         for (const edit2 of doubleEdits) {
-          if (this.dictionary.has(edit2)) {
+          if (this.isListedWord(edit2)) {
             suggestions.add(edit2);
             if (suggestions.size >= 10) break; // Limit to prevent performance issues
           }
@@ -334,7 +447,7 @@ class SpellChecker {
 
   private generateEdits(word: string): string[] {
     const edits: string[] = [];
-    const alphabet = 'abcdefghijklmnopqrstuvwxyz';
+    const alphabet = this.alphabet;
 
     // Deletions
     for (let i = 0; i < word.length; i++) {
@@ -368,17 +481,23 @@ class SpellChecker {
     return edits;
   }
 
-  async checkText(text: string): Promise<SpellCheckError[]> {
+  /**
+   * Check every word outside the skip regions (code, URLs, email addresses,
+   * quoted replies and the signature), which default to those found in `text`
+   */
+  async checkText(text: string, skipRegions: TextRange[] = findSkipRegions(text)): Promise<SpellCheckError[]> {
     await this.ensureInitialized();
 
     const errors: SpellCheckError[] = [];
-    // Match words, numbers, emails, URLs, and other text patterns
-    const wordRegex = /\b\w+(?:['–]\w+)*\b/g;
+    // Match words (in any script, including accented letters), numbers and other text patterns
+    const wordRegex = /[\p{L}\p{M}\p{N}_]+(?:['–][\p{L}\p{M}\p{N}_]+)*/gu;
     let match;
 
     while ((match = wordRegex.exec(text)) !== null) {
       const originalWord = match[0];
-      const cleanWord = originalWord.replace(/[^\w.-]/g, ''); // Preserve dots and hyphens for numbers/emails
+      if (overlapsSkipRegion({ start: match.index, end: match.index + originalWord.length }, skipRegions)) continue;
+
+      const cleanWord = originalWord.replace(/[^\p{L}\p{M}\p{N}_.-]/gu, ''); // Preserve dots and hyphens for numbers/emails
       
       if (cleanWord.length > 0) {
         // Use original word for validation (to catch numbers, emails, etc.)
@@ -388,6 +507,8 @@ class SpellChecker {
           errors.push({
             word: cleanWord,
             suggestions: result.suggestions,
+            confidence: result.confidence,
+            confidences: result.confidences,
             position: {
               start: match.index,
               end: match.index + originalWord.length
@@ -409,8 +530,11 @@ class SpellChecker {
     }));
   }
 
-  getDictionarySize(): number {
-    return this.dictionary.size;
+  /**
+   * Report which dictionary is loaded: its version, word count and asset size
+   */
+  getDictionarySize(): DictionaryInfo {
+    return { ...this.dictionaryInfo, words: this.dictionary.size };
   }
 
   getMisspellingsCount(): number {
@@ -418,48 +542,146 @@ class SpellChecker {
   }
 
   private parseAffixData(lines: string[]): void {
-    let currentPrefix = ''
-    
+    const crossProducts = new Map<string, boolean>();
+
     for (const line of lines) {
-      if (line.startsWith('SFX') || line.startsWith('PFX')) {
-        const parts = line.split(/\s+/)
-        if (parts.length >= 4) {
-          currentPrefix = parts[1]
-          // Fix regex patterns - remove unnecessary escapes
-          const pattern = parts[2] === '0' ? '' : parts[2].replace(/\\(.)/g, '$1')
-          const replacement = parts[3] === '0' ? '' : parts[3]
-          
-          if (!this.affixRules.has(currentPrefix)) {
-            this.affixRules.set(currentPrefix, [])
+      if (line.startsWith('#')) continue;
+
+      const parts = line.trim().split(/\s+/);
+      switch (parts[0]) {
+        case 'FLAG':
+          this.flagMode = parts[1] === 'long' ? 'long' : parts[1] === 'num' ? 'num' : 'char';
+          break;
+        case 'TRY':
+          // Characters to try when suggesting, most frequent first
+          if (parts[1]) {
+            this.alphabet = Array.from(new Set(Array.from(parts[1].toLowerCase()))).join('');
+          }
+          break;
+        case 'NEEDAFFIX':
+          this.needAffixFlag = parts[1] ?? null;
+          break;
+        case 'ONLYINCOMPOUND':
+          this.onlyInCompoundFlag = parts[1] ?? null;
+          break;
+        case 'PFX':
+        case 'SFX': {
+          // Header line: PFX <flag> <cross product Y/N> <rule count>
+          if (parts.length === 4 && /^[YN]$/.test(parts[2]) && /^\d+$/.test(parts[3])) {
+            crossProducts.set(`${parts[0]}:${parts[1]}`, parts[2] === 'Y');
+            break;
+          }
+
+          const rule = this.parseHunspellRule(parts, crossProducts.get(`${parts[0]}:${parts[1]}`) ?? false);
+          if (!rule) break;
+
+          if (!this.affixRules.has(rule.flag)) {
+            this.affixRules.set(rule.flag, []);
+          }
+          this.affixRules.get(rule.flag)!.push(rule);
+
+          const index = rule.kind === 'PFX' ? this.prefixIndex : this.suffixIndex;
+          if (!index.has(rule.affix)) {
+            index.set(rule.affix, []);
           }
-          
-          this.affixRules.get(currentPrefix)!.push({
-            pattern,
-            replacement,
-            condition: parts[4] || '.'
-          })
+          index.get(rule.affix)!.push(rule);
+          break;
         }
       }
     }
   }
 
-  private parseHunspellRule(ruleString: string): { remove: string; add: string; condition: string } {
-    // Parse Hunspell affix rules with proper regex handling
-    const parts = ruleString.split('/')
-    const mainPart = parts[0]
-    
-    // Handle removal and addition patterns - fix escape characters
-    const removePattern = mainPart.includes('-') ? mainPart.split('-')[0] : ''
-    const addPattern = mainPart.includes('+') ? mainPart.split('+')[1] : mainPart
-    
+  private parseHunspellRule(parts: string[], crossProduct: boolean): AffixRule | null {
+    // Rule line: PFX <flag> <strip> <affix>[/<continuation flags>] [<condition>]
+    const [kind, flag, strip, affixField, condition = '.'] = parts;
+    if (affixField === undefined) return null;
+
+    const affix = affixField.split('/')[0];
+    let conditionPattern: RegExp | null = null;
+
+    if (condition !== '.') {
+      try {
+        conditionPattern = new RegExp(kind === 'SFX' ? `${condition}$` : `^${condition}`);
+      } catch {
+        console.warn(`Skipping Hunspell rule with invalid condition: ${parts.join(' ')}`);
+        return null;
+      }
+    }
+
     return {
-      remove: removePattern.replace(/\\(.)/g, '$1'), // Remove unnecessary escapes
-      add: addPattern.replace(/\\(.)/g, '$1'), // Remove unnecessary escapes  
-      condition: parts[1] || '.*'
+      kind: kind as AffixRule['kind'],
+      flag,
+      strip: strip === '0' ? '' : strip.toLowerCase(),
+      affix: affix === '0' ? '' : affix.toLowerCase(),
+      condition: conditionPattern,
+      crossProduct
+    };
+  }
+
+  private parseDicData(lines: string[]): void {
+    lines.forEach((line, index) => {
+      // The first line holds the approximate entry count; tab-indented lines are comments
+      if (index === 0 && /^\d+$/.test(line.trim())) return;
+      if (line.startsWith('\t') || line.startsWith('#')) return;
+
+      // Entries may be followed by whitespace-separated morphological fields
+      const entry = line.trim().split(/\s+/)[0];
+      if (!entry) return;
+
+      const slash = entry.indexOf('/');
+      const word = (slash === -1 ? entry : entry.slice(0, slash)).toLowerCase();
+      const flags = slash === -1 ? [] : this.splitFlags(entry.slice(slash + 1));
+
+      if (this.onlyInCompoundFlag && flags.includes(this.onlyInCompoundFlag)) return;
+      if (!this.needAffixFlag || !flags.includes(this.needAffixFlag)) {
+        this.dictionary.add(word);
+      }
+
+      if (flags.length > 0) {
+        const existing = this.stemFlags.get(word) ?? new Set<string>();
+        flags.forEach(flag => existing.add(flag));
+        this.stemFlags.set(word, existing);
+      }
+    });
+  }
+
+  private splitFlags(flags: string): string[] {
+    if (this.flagMode === 'long') {
+      return flags.match(/../g) ?? [];
     }
+    if (this.flagMode === 'num') {
+      return flags.split(',').filter(Boolean);
+    }
+    return Array.from(flags);
+  }
+}
+
+// One checker per language, created on first use
+const spellCheckers = new Map<LanguageCode, SpellChecker>();
+let sharedCustomWords: { words: string[]; ignored: string[] } = { words: [], ignored: [] };
+
+/**
+ * The spell checker for a language. Its dictionary starts loading on first use;
+ * the personal dictionary applies to every language.
+ */
+export function getSpellChecker(language: LanguageCode = DEFAULT_LANGUAGE): SpellChecker {
+  let checker = spellCheckers.get(language);
+  if (!checker) {
+    checker = new SpellChecker(language);
+    checker.setCustomWords(sharedCustomWords.words, sharedCustomWords.ignored);
+    spellCheckers.set(language, checker);
   }
+  return checker;
+}
+
+/**
+ * Apply the user's personal dictionary and ignore list to all languages
+ */
+export function setCustomWordsForAllLanguages(words: string[], ignored: string[]): void {
+  sharedCustomWords = { words, ignored };
+  spellCheckers.forEach(checker => checker.setCustomWords(words, ignored));
 }
 
-const spellChecker = new SpellChecker();
+const spellChecker = getSpellChecker(DEFAULT_LANGUAGE);
 export { spellChecker };
 export default spellChecker;
@@ -0,0 +1,249 @@
+import { matchCase, matchPattern, type GrammarRule } from './grammarRules'
+
+// Style rules: passive voice, wordy phrases, weasel words and hedges. Each one
+// rewrites the text when it can and falls back to advice when it cannot.
+
+const DETERMINERS = 'the|a|an|this|that|these|those|our|my|your|their|his|her|its|every|each|some|all|no'
+
+// --- Passive voice ---
+
+// Past participles that differ from the past tense, or don't end in -ed
+const IRREGULAR_PAST: Record<string, string> = {
+  arisen: 'arose', beaten: 'beat', become: 'became', begun: 'began', bitten: 'bit', blown: 'blew',
+  broken: 'broke', brought: 'brought', built: 'built', bought: 'bought', caught: 'caught', chosen: 'chose',
+  cut: 'cut', done: 'did', drawn: 'drew', driven: 'drove', eaten: 'ate', fallen: 'fell', felt: 'felt',
+  found: 'found', forgotten: 'forgot', forgiven: 'forgave', frozen: 'froze', given: 'gave', grown: 'grew',
+  heard: 'heard', held: 'held', hidden: 'hid', hit: 'hit', hurt: 'hurt', kept: 'kept', known: 'knew',
+  laid: 'laid', led: 'led', left: 'left', lent: 'lent', lost: 'lost', made: 'made', meant: 'meant',
+  met: 'met', paid: 'paid', put: 'put', read: 'read', ridden: 'rode', run: 'ran', said: 'said', seen: 'saw',
+  sold: 'sold', sent: 'sent', set: 'set', shaken: 'shook', shown: 'showed', shut: 'shut', spoken: 'spoke',
+  spent: 'spent', stolen: 'stole', struck: 'struck', sung: 'sang', sworn: 'swore', taken: 'took',
+  taught: 'taught', told: 'told', thought: 'thought', thrown: 'threw', understood: 'understood',
+  woken: 'woke', won: 'won', worn: 'wore', written: 'wrote'
+}
+
+// Participles that usually describe a state rather than an action ("I was tired")
+const ADJECTIVAL_PARTICIPLES = new Set([
+  'tired', 'interested', 'excited', 'bored', 'pleased', 'surprised', 'worried', 'married', 'supposed',
+  'used', 'concerned', 'involved', 'based', 'located', 'scheduled', 'required', 'confused', 'disappointed',
+  'satisfied', 'amazed', 'annoyed', 'delighted', 'engaged', 'finished', 'prepared', 'qualified', 'allowed',
+  'done', 'gone'
+])
+
+const isParticiple = (word: string): boolean =>
+  word.toLowerCase() in IRREGULAR_PAST || /^[a-z]{2,}ed$/i.test(word)
+
+const pastTense = (participle: string): string =>
+  IRREGULAR_PAST[participle.toLowerCase()] ?? participle
+
+// Subject pronouns become object pronouns once they follow the verb, and back
+const TO_OBJECT: Record<string, string> = { i: 'me', he: 'him', she: 'her', we: 'us', they: 'them' }
+const TO_SUBJECT: Record<string, string> = { me: 'I', him: 'he', her: 'she', us: 'we', them: 'they' }
+
+// Agents that are really times, channels or manners ("sent by Friday", "sent by email")
+const NOT_AN_AGENT = new Set([
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday', 'today', 'tomorrow', 'tonight',
+  'yesterday', 'noon', 'midnight', 'now', 'then', 'end', 'time', 'deadline', 'week', 'month', 'year', 'morning',
+  'evening', 'email', 'mail', 'phone', 'hand', 'mistake', 'accident', 'default', 'far', 'design', 'chance'
+])
+
+// Words a passive subject can't be ("which was sent by")
+const NOT_A_SUBJECT = new Set(['which', 'who', 'what', 'there', 'here', 'and', 'but', 'or', 'because', 'when', 'if'])
+
+// A determiner with up to two modifiers ("the new report"), or a single word
+const NOUN_PHRASE = `(?:(?:${DETERMINERS}) (?:(?!(?:${DETERMINERS}) )[\\p{L}-]+ ){0,2}[\\p{L}-]+|[\\p{L}-]+)`
+const AGENT = `(?:(?:${DETERMINERS}) (?:[\\p{L}-]+ )?[\\p{L}-]+|\\p{Lu}[\\p{L}-]*(?: \\p{Lu}[\\p{L}-]*)?|[\\p{L}-]+)`
+// The agent must end the clause, otherwise we can't tell where it stops
+const CLAUSE_END = '(?=\\s*(?:[.,;:!?)]|$)|\\s+(?:and|but|or|so|because|while|when|before|after|if)\\b)'
+
+const PASSIVE_WITH_AGENT = new RegExp(
+  `\\b(${NOUN_PHRASE}) (was|were|has been|have been) ([\\p{L}]+) by (${AGENT})${CLAUSE_END}`,
+  'giu'
+)
+
+const isPluralAgent = (agent: string): boolean =>
+  /^(?:I|we|you|they)$/i.test(agent) || /[^s]s$/i.test(agent.split(' ').pop() ?? '')
+
+/**
+ * Rewrite "<object> was <participle> by <agent>" as "<agent> <past tense> <object>"
+ */
+function rewritePassive(subject: string, auxiliary: string, participle: string, agent: string, sentenceStart: boolean): string | null {
+  if (!isParticiple(participle) || NOT_A_SUBJECT.has(subject.toLowerCase())) return null
+
+  const agentWords = agent.toLowerCase().split(' ')
+  if (agentWords.some(word => NOT_AN_AGENT.has(word))) return null
+
+  const newSubject = TO_SUBJECT[agent.toLowerCase()] ?? agent
+  const verb = /been/i.test(auxiliary)
+    ? `${isPluralAgent(newSubject) ? 'have' : 'has'} ${participle.toLowerCase()}`
+    : pastTense(participle.toLowerCase())
+
+  // The old subject becomes the object: pronouns change form, determiners and
+  // plain plurals ("Mistakes were made") lose their sentence-initial capital
+  const [firstWord, ...rest] = subject.split(' ')
+  const lowerFirst = firstWord.toLowerCase()
+  let object = subject
+  if (lowerFirst in TO_OBJECT && rest.length === 0) {
+    object = TO_OBJECT[lowerFirst]
+  } else if (sentenceStart && (new RegExp(`^(?:${DETERMINERS}|it|you|everything|something|nothing)$`).test(lowerFirst) || (rest.length === 0 && /^were$/i.test(auxiliary)))) {
+    object = [lowerFirst, ...rest].join(' ')
+  }
+
+  const rewritten = `${newSubject} ${verb} ${object}`
+  return sentenceStart ? rewritten[0].toUpperCase() + rewritten.slice(1) : rewritten
+}
+
+// --- Wordy phrases ---
+
+const WORDY_PHRASES: Record<string, string> = {
+  'in order to': 'to',
+  'due to the fact that': 'because',
+  'owing to the fact that': 'because',
+  'despite the fact that': 'although',
+  'in spite of the fact that': 'although',
+  'at this point in time': 'now',
+  'at the present time': 'now',
+  'in the near future': 'soon',
+  'in the event that': 'if',
+  'for the purpose of': 'for',
+  'with regard to': 'about',
+  'with respect to': 'about',
+  'in regard to': 'about',
+  'a large number of': 'many',
+  'the majority of': 'most',
+  'prior to': 'before',
+  'subsequent to': 'after',
+  'has the ability to': 'can',
+  'have the ability to': 'can',
+  'is able to': 'can',
+  'are able to': 'can',
+  'in close proximity to': 'near',
+  'each and every': 'every',
+  'first and foremost': 'first',
+  'until such time as': 'until',
+  'make a decision': 'decide',
+  'take into consideration': 'consider',
+  'come to the conclusion': 'conclude',
+  'on a daily basis': 'daily',
+  'on a regular basis': 'regularly',
+  'in a timely manner': 'promptly',
+  'as a matter of fact': 'in fact',
+  'it is important to note that': 'note that',
+  'end result': 'result',
+  'future plans': 'plans',
+  'past history': 'history',
+  'advance planning': 'planning',
+  'absolutely essential': 'essential',
+  'completely eliminate': 'eliminate',
+  'utilize': 'use'
+}
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Longest phrases first, so "in spite of the fact that" wins over shorter overlaps
+const WORDY_PATTERN = new RegExp(
+  `\\b(?:${Object.keys(WORDY_PHRASES).sort((a, b) => b.length - a.length).map(escapeRegex).join('|')})\\b`,
+  'gi'
+)
+
+// --- Weasel words ---
+
+// Intensifiers and the single stronger word that replaces the pair
+const INTENSIFIERS = 'very|really|extremely|truly|incredibly|awfully'
+// Downtoners soften the word instead: "fairly good" is not "excellent", so they only get advice
+const DOWNTONERS = 'quite|fairly'
+const STRONGER_WORDS: Record<string, string> = {
+  important: 'crucial', big: 'huge', large: 'enormous', small: 'tiny', good: 'excellent', bad: 'terrible',
+  happy: 'delighted', sad: 'miserable', tired: 'exhausted', hard: 'difficult', easy: 'simple',
+  quick: 'rapid', quickly: 'rapidly', sure: 'certain', clear: 'obvious', old: 'ancient', hungry: 'starving',
+  cold: 'freezing', hot: 'scorching', angry: 'furious', scared: 'terrified', busy: 'swamped', often: 'frequently'
+}
+// Words after an intensifier that can't stand alone ("thank you very much")
+const KEEP_INTENSIFIER = new Set([
+  'much', 'many', 'well', 'few', 'little', 'a', 'an', 'the', 'own', 'same', 'first', 'last', 'best',
+  'least', 'most', 'end', 'beginning', 'moment', 'thing', 'possibly', 'likely', 'soon', 'different'
+])
+
+// Vague quantities with no general rewrite
+const VAGUE_WORDS = 'several|various|numerous|significantly|substantially|relatively|somewhat'
+
+// --- Hedges ---
+
+const HEDGE_PATTERN = new RegExp(
+  '\\b(I (?:think|believe|feel|guess|suppose)(?: that)?|in my opinion,?|it seems that|maybe|perhaps|probably|' +
+  '(?<!\\b(?:what|which|this|that|the|a|any|some|every|one|each|same|different|right|wrong|new) )(?:sort|kind) of) ([\\p{L}\']+)',
+  'giu'
+)
+// After "I think" only a new clause makes sense ("I feel sick" is not a hedge)
+const CLAUSE_STARTS = new Set(['we', 'you', 'they', 'it', 'this', 'that', 'the', 'our', 'he', 'she', 'i', 'there', 'your', 'my', 'their'])
+
+export const STYLE_RULES: GrammarRule[] = [
+  {
+    id: 'passive-voice',
+    category: 'grammar',
+    matcher: matchPattern(PASSIVE_WITH_AGENT),
+    replacement: ({ groups: [, subject, auxiliary, participle, agent], sentenceStart }) =>
+      rewritePassive(subject, auxiliary, participle, agent, sentenceStart),
+    explanation: ({ groups: [, , , , agent] }) => `Passive voice hides who acts. Put "${TO_SUBJECT[agent.toLowerCase()] ?? agent}" first.`
+  },
+  {
+    id: 'passive-voice-advice',
+    category: 'grammar',
+    matcher: matchPattern(/\b(?:am|is|are|was|were|be|been|being) ([\p{L}]+)\b/giu),
+    replacement: () => null,
+    explanation: () => 'Passive voice hides who acts.',
+    advice: ({ groups: [, participle] }) => isParticiple(participle) && !ADJECTIVAL_PARTICIPLES.has(participle.toLowerCase())
+      ? 'Passive voice hides who acts. Rewrite the sentence so it starts with whoever does the action.'
+      : null
+  },
+  {
+    id: 'wordy-phrase',
+    category: 'clarity',
+    matcher: matchPattern(WORDY_PATTERN),
+    replacement: ({ text }) => matchCase(text, WORDY_PHRASES[text.toLowerCase()]),
+    explanation: ({ text }) => `"${text}" is wordy; "${WORDY_PHRASES[text.toLowerCase()]}" says the same.`
+  },
+  {
+    id: 'weasel-intensifier',
+    category: 'clarity',
+    matcher: matchPattern(new RegExp(`\\b(${INTENSIFIERS}) ([\\p{L}]+)\\b`, 'giu')),
+    replacement: ({ groups: [, intensifier, word] }) => {
+      const lowerWord = word.toLowerCase()
+      if (KEEP_INTENSIFIER.has(lowerWord) || new RegExp(`^(?:${INTENSIFIERS})$`).test(lowerWord)) return null
+      return matchCase(intensifier, STRONGER_WORDS[lowerWord] ?? word)
+    },
+    explanation: ({ groups: [, intensifier, word] }) => STRONGER_WORDS[word.toLowerCase()]
+      ? `Weasel word: "${intensifier} ${word}" is weaker than "${STRONGER_WORDS[word.toLowerCase()]}".`
+      : `Weasel word: "${intensifier}" adds emphasis without meaning.`
+  },
+  {
+    id: 'weasel-downtoner',
+    category: 'clarity',
+    matcher: matchPattern(new RegExp(`\\b(${DOWNTONERS}) ([\\p{L}]+)\\b`, 'giu')),
+    replacement: () => null,
+    explanation: ({ groups: [, downtoner] }) => `Weasel word: "${downtoner}" hedges how much.`,
+    advice: ({ groups: [, downtoner, word] }) => KEEP_INTENSIFIER.has(word.toLowerCase())
+      ? null
+      : `Weasel word: "${downtoner}" hedges how much. Say how ${word} it is, or drop "${downtoner}".`
+  },
+  {
+    id: 'weasel-vague',
+    category: 'clarity',
+    matcher: matchPattern(new RegExp(`\\b(?:${VAGUE_WORDS})\\b`, 'gi')),
+    replacement: () => null,
+    explanation: ({ text }) => `Weasel word: "${text}" is vague.`,
+    advice: ({ text }) => `Weasel word: "${text}" is vague. Give the number or amount instead.`
+  },
+  {
+    id: 'hedge',
+    category: 'clarity',
+    matcher: matchPattern(HEDGE_PATTERN),
+    replacement: ({ groups: [, hedge, word], sentenceStart }) => {
+      if (/^I /.test(hedge) && !/that$/i.test(hedge) && !CLAUSE_STARTS.has(word.toLowerCase())) return null
+      // "Maybe not" is an answer in itself
+      if (word.toLowerCase() === 'not') return null
+      return sentenceStart && word !== 'I' ? word[0].toUpperCase() + word.slice(1) : word
+    },
+    explanation: ({ groups: [, hedge] }) => `Hedge: "${hedge.replace(/,$/, '')}" makes you sound unsure. Say it directly.`
+  }
+]
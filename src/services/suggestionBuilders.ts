@@ -0,0 +1,64 @@
+import type { Suggestion, SuggestionAlternative } from "../store/useStore"
+import type { SpellCheckError } from "./spellChecker"
+import type { GrammarCheckResult } from "./grammarChecker"
+
+// Conversions from checker output to store suggestions.
+// Kept free of checker imports so the main thread can use them without loading dictionaries.
+
+// `offset` shifts positions when the checked text is a slice of the document.
+
+/**
+ * The replacements to choose from, best first
+ */
+export const alternativesOf = (suggestion: Suggestion): SuggestionAlternative[] =>
+  suggestion.alternatives ?? [{ text: suggestion.suggestion, confidence: suggestion.confidence }]
+
+/**
+ * The alternatives worth offering, with their index for applySuggestion: none
+ * for advice, and none that would leave the text as it is
+ */
+export const applicableAlternatives = (suggestion: Suggestion): (SuggestionAlternative & { index: number })[] =>
+  suggestion.advisory
+    ? []
+    : alternativesOf(suggestion)
+        .map((alternative, index) => ({ ...alternative, index }))
+        .filter(({ text }) => text !== suggestion.original)
+
+export const buildSpellingSuggestions = (errors: SpellCheckError[], offset = 0): Suggestion[] =>
+  errors.map((error) => {
+    const hasRealSuggestions = error.suggestions.length > 0 && !error.suggestions.includes('(no suggestions)')
+    const position = { start: error.position.start + offset, end: error.position.end + offset }
+    const confidence = hasRealSuggestions ? error.confidence ?? 0.5 : 0 // Ranking score of the first suggestion
+    const alternatives = error.suggestions.map((text, index) => ({
+      text,
+      confidence: index === 0 ? confidence : error.confidences?.[index] ?? 0
+    }))
+
+    return {
+      id: `spell_${Date.now()}_${position.start}`,
+      type: "spelling" as const,
+      original: error.word,
+      suggestion: hasRealSuggestions ? error.suggestions[0] : error.word, // Keep original word if no suggestions
+      explanation: hasRealSuggestions ? `Misspelled word: "${error.word}"` : `Potential misspelling: "${error.word}"`,
+      source: "local" as const,
+      priority: hasRealSuggestions ? 1 : 0.5, // Lower priority for words without suggestions
+      position,
+      confidence,
+      ...(hasRealSuggestions && alternatives.length > 1 && { alternatives })
+    }
+  })
+
+export const buildGrammarSuggestions = (results: GrammarCheckResult[], offset = 0): Suggestion[] =>
+  results.map((result, index) => ({
+    id: `grammar_${Date.now()}_${offset}_${index}`,
+    type: result.type,
+    original: result.original,
+    suggestion: result.suggestion,
+    explanation: result.explanation,
+    source: "local" as const, // Local grammar checking
+    priority: result.type === 'grammar' ? 2 : 3, // Grammar higher priority than clarity
+    position: { start: result.position.start + offset, end: result.position.end + offset },
+    confidence: 0.8, // Default confidence for local grammar suggestions
+    ...(result.advisory && { advisory: true }),
+    ...(result.ruleId && { rule: result.ruleId })
+  }))
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { isAdjacentKey, phoneticSimilarity, rankSuggestions, weightedEditDistance } from './suggestionRanker'
+
+describe('suggestionRanker', () => {
+  describe('isAdjacentKey', () => {
+    it('should recognise neighbouring QWERTY keys', () => {
+      expect(isAdjacentKey('h', 'n')).toBe(true)
+      expect(isAdjacentKey('a', 's')).toBe(true)
+      expect(isAdjacentKey('q', 'a')).toBe(true)
+      expect(isAdjacentKey('q', 'p')).toBe(false)
+      expect(isAdjacentKey('a', 'a')).toBe(false)
+    })
+  })
+
+  describe('weightedEditDistance', () => {
+    it('should be zero for identical words', () => {
+      expect(weightedEditDistance('word', 'word')).toBe(0)
+    })
+
+    it('should make common typos cheaper than arbitrary edits', () => {
+      expect(weightedEditDistance('teh', 'the')).toBe(0.5) // transposition
+      expect(weightedEditDistance('ten', 'teh')).toBe(0.5) // n and h are neighbours
+      expect(weightedEditDistance('tomorow', 'tomorrow')).toBe(0.5) // doubled letter
+      expect(weightedEditDistance('cat', 'cut')).toBe(1)
+      expect(weightedEditDistance('cat', 'cats')).toBe(1)
+    })
+  })
+
+  describe('phoneticSimilarity', () => {
+    it('should match words that sound alike', () => {
+      expect(phoneticSimilarity('nite', 'night')).toBe(1)
+      expect(phoneticSimilarity('fone', 'phone')).toBe(1)
+      expect(phoneticSimilarity('cat', 'dog')).toBe(0)
+    })
+  })
+
+  describe('rankSuggestions', () => {
+    it('should return nothing with zero confidence when there are no candidates', () => {
+      expect(rankSuggestions('xyzzy', [])).toEqual({ suggestions: [], confidence: 0 })
+    })
+
+    it('should prefer the cheapest edit', () => {
+      const { suggestions } = rankSuggestions('accross', ['acorns', 'across'])
+      expect(suggestions[0].word).toBe('across')
+    })
+
+    it('should break ties by word frequency', () => {
+      const frequencies = new Map([['the', 1500000], ['tee', 300]])
+      const { suggestions } = rankSuggestions('thee', ['tee', 'the'], frequencies)
+
+      expect(suggestions.map(s => s.word)).toEqual(['the', 'tee'])
+      expect(suggestions[0].score).toBeGreaterThan(suggestions[1].score)
+    })
+
+    it('should be more confident about a clear winner than a close call', () => {
+      const frequencies = new Map([['world', 300000], ['wold', 50], ['would', 400000]])
+
+      const clear = rankSuggestions('wrold', ['world'], frequencies)
+      const close = rankSuggestions('wrold', ['world', 'wold'], frequencies)
+
+      expect(clear.confidence).toBeGreaterThan(close.confidence)
+      expect(clear.confidence).toBeLessThanOrEqual(1)
+      expect(close.confidence).toBeGreaterThan(0)
+    })
+  })
+})
@@ -0,0 +1,139 @@
+import { doubleMetaphone } from 'double-metaphone';
+
+export interface RankedSuggestion {
+  word: string;
+  score: number;
+}
+
+export interface RankingResult {
+  suggestions: RankedSuggestion[];
+  // How sure we are that the top suggestion is the intended word (0-1)
+  confidence: number;
+}
+
+// Relative weight of each signal in the final score
+const EDIT_WEIGHT = 0.6;
+const PHONETIC_WEIGHT = 0.2;
+const FREQUENCY_WEIGHT = 0.2;
+
+// Typos on neighbouring keys, swapped letters and doubled letters are the most common slips
+const ADJACENT_KEY_COST = 0.5;
+const TRANSPOSITION_COST = 0.5;
+const DOUBLED_LETTER_COST = 0.5;
+
+const QWERTY_ROWS = ['qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+// Horizontal offset of each row on a standard staggered keyboard
+const ROW_OFFSETS = [0, 0.25, 0.75];
+
+const keyPositions = new Map<string, { x: number; y: number }>();
+QWERTY_ROWS.forEach((row, y) => {
+  Array.from(row).forEach((key, column) => keyPositions.set(key, { x: column + ROW_OFFSETS[y], y }));
+});
+
+// Largest count per frequency table, computed once per table
+const maxCounts = new WeakMap<Map<string, number>, number>();
+
+const getMaxCount = (frequencies: Map<string, number>): number => {
+  let maxCount = maxCounts.get(frequencies);
+  if (maxCount === undefined) {
+    maxCount = 0;
+    for (const count of frequencies.values()) {
+      maxCount = Math.max(maxCount, count);
+    }
+    maxCounts.set(frequencies, maxCount);
+  }
+  return maxCount;
+};
+
+export function isAdjacentKey(a: string, b: string): boolean {
+  const first = keyPositions.get(a);
+  const second = keyPositions.get(b);
+  if (!first || !second || a === b) return false;
+  return Math.abs(first.y - second.y) <= 1 && Math.abs(first.x - second.x) <= 1;
+}
+
+/**
+ * Damerau-Levenshtein distance (optimal string alignment) with typo-aware costs:
+ * substituting a neighbouring key, swapping two letters and doubling or
+ * un-doubling a letter are cheaper than arbitrary edits.
+ */
+export function weightedEditDistance(source: string, target: string): number {
+  const rows = source.length + 1;
+  const columns = target.length + 1;
+  const distance: number[][] = Array.from({ length: rows }, () => new Array<number>(columns).fill(0));
+
+  for (let i = 0; i < rows; i++) distance[i][0] = i;
+  for (let j = 0; j < columns; j++) distance[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < columns; j++) {
+      const a = source[i - 1];
+      const b = target[j - 1];
+
+      const substitution = a === b ? 0 : isAdjacentKey(a, b) ? ADJACENT_KEY_COST : 1;
+      const deletion = i > 1 && source[i - 2] === a ? DOUBLED_LETTER_COST : 1;
+      const insertion = j > 1 && target[j - 2] === b ? DOUBLED_LETTER_COST : 1;
+
+      distance[i][j] = Math.min(
+        distance[i - 1][j] + deletion,
+        distance[i][j - 1] + insertion,
+        distance[i - 1][j - 1] + substitution
+      );
+
+      if (i > 1 && j > 1 && a === target[j - 2] && source[i - 2] === b) {
+        distance[i][j] = Math.min(distance[i][j], distance[i - 2][j - 2] + TRANSPOSITION_COST);
+      }
+    }
+  }
+
+  return distance[rows - 1][columns - 1];
+}
+
+/**
+ * 1 when the primary Double Metaphone codes match, 0.5 when any code matches
+ */
+export function phoneticSimilarity(a: string, b: string): number {
+  const [primaryA, secondaryA] = doubleMetaphone(a);
+  const [primaryB, secondaryB] = doubleMetaphone(b);
+
+  if (primaryA === primaryB) return 1;
+  if (primaryA === secondaryB || secondaryA === primaryB || secondaryA === secondaryB) return 0.5;
+  return 0;
+}
+
+/**
+ * Score candidate corrections for a misspelled word and sort them best first.
+ * Frequencies are raw unigram counts; unknown words count as never seen.
+ */
+export function rankSuggestions(
+  word: string,
+  candidates: string[],
+  frequencies: Map<string, number> = new Map()
+): RankingResult {
+  if (candidates.length === 0) {
+    return { suggestions: [], confidence: 0 };
+  }
+
+  const maxLogCount = Math.log(getMaxCount(frequencies) + 1);
+  const phonetics = word.length > 1;
+
+  const suggestions = candidates
+    .map(candidate => {
+      const editScore = Math.exp(-weightedEditDistance(word, candidate));
+      const phoneticScore = phonetics ? phoneticSimilarity(word, candidate) : 0;
+      const frequencyScore = maxLogCount > 0 ? Math.log((frequencies.get(candidate) ?? 0) + 1) / maxLogCount : 0;
+
+      return {
+        word: candidate,
+        score: EDIT_WEIGHT * editScore + PHONETIC_WEIGHT * phoneticScore + FREQUENCY_WEIGHT * frequencyScore
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  // A close runner-up halves the confidence; a clear winner keeps its full score
+  const [best, runnerUp] = suggestions;
+  const margin = runnerUp ? (best.score - runnerUp.score) / best.score : 1;
+  const confidence = best.score * (0.5 + 0.5 * margin);
+
+  return { suggestions, confidence: Math.round(confidence * 100) / 100 };
+}
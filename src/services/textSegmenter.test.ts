@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { findSkipRegions, maskSkipRegions, overlapsSkipRegion } from './textSegmenter'
+
+const regionTexts = (text: string) =>
+  findSkipRegions(text).map(region => ({ kind: region.kind, text: text.slice(region.start, region.end) }))
+
+describe('TextSegmenter', () => {
+  describe('findSkipRegions', () => {
+    it('should find inline and fenced code', () => {
+      const text = 'Call `getUsrId()` first.\n\n```ts\nconst x = teh()\n```\nThen reply.'
+
+      expect(regionTexts(text)).toEqual([
+        { kind: 'code', text: '`getUsrId()`' },
+        { kind: 'code', text: '```ts\nconst x = teh()\n```' }
+      ])
+    })
+
+    it('should run an unclosed fence to the end of the text', () => {
+      const text = 'Intro\n```\nsome code'
+
+      expect(regionTexts(text)).toEqual([{ kind: 'code', text: '```\nsome code' }])
+    })
+
+    it('should find URLs, bare hostnames and email addresses without trailing punctuation', () => {
+      const text = 'See https://example.com/docs?id=1, docs.wordwise.io or www.acme.org. Mail jane.doe@acme.co.'
+
+      expect(regionTexts(text)).toEqual([
+        { kind: 'url', text: 'https://example.com/docs?id=1' },
+        { kind: 'url', text: 'docs.wordwise.io' },
+        { kind: 'url', text: 'www.acme.org' },
+        { kind: 'email', text: 'jane.doe@acme.co' }
+      ])
+    })
+
+    it('should not take a missing space after a full stop for a hostname', () => {
+      expect(findSkipRegions('It ended.Next we start.')).toEqual([])
+    })
+
+    it('should find quoted reply chains with their attribution line', () => {
+      const text = 'Sounds good.\n\nOn Monday, Sam wrote:\n> Can we meet?\n>> Maybe tomorow\nThanks'
+
+      expect(regionTexts(text)).toEqual([
+        { kind: 'quote', text: 'On Monday, Sam wrote:\n> Can we meet?\n>> Maybe tomorow' }
+      ])
+    })
+
+    it('should treat everything after the signature separator as signature', () => {
+      const text = 'Best,\nAlex\n-- \nAlex Kowalsky\nhttps://alex.dev'
+
+      expect(regionTexts(text)).toEqual([{ kind: 'signature', text: '-- \nAlex Kowalsky\nhttps://alex.dev' }])
+    })
+
+    it('should return nothing for plain prose', () => {
+      expect(findSkipRegions('Just a normal sentence -- with a dash.')).toEqual([])
+    })
+  })
+
+  describe('maskSkipRegions', () => {
+    it('should blank regions and keep offsets and line breaks', () => {
+      const text = 'Use `foo`\n> quoted'
+      const masked = maskSkipRegions(text)
+
+      expect(masked).toBe('Use      \n        ')
+      expect(masked.length).toBe(text.length)
+    })
+  })
+
+  describe('overlapsSkipRegion', () => {
+    it('should detect ranges touching a region', () => {
+      const regions = [{ start: 5, end: 10 }]
+
+      expect(overlapsSkipRegion({ start: 8, end: 12 }, regions)).toBe(true)
+      expect(overlapsSkipRegion({ start: 10, end: 12 }, regions)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,91 @@
+import type { TextRange } from './paragraphTracker'
+
+export type SkipRegionKind = 'code' | 'url' | 'email' | 'quote' | 'signature'
+
+/**
+ * A part of the text that is not prose and must not be checked
+ */
+export interface SkipRegion extends TextRange {
+  kind: SkipRegionKind
+}
+
+// Top-level domains we recognise in bare hostnames ("docs.example.io"), so
+// that a missing space after a full stop ("end.Next") is not taken for one
+const COMMON_TLDS = 'com|org|net|edu|gov|io|dev|app|ai|co|uk|us|ca|de|fr|es|eu|info|biz|me|tv|ly|so|sh|xyz'
+
+const PATTERNS: { kind: SkipRegionKind; regex: RegExp }[] = [
+  // Fenced code blocks, up to the closing fence or the end of the text
+  { kind: 'code', regex: /^[^\S\n]*(```|~~~)[^\n]*\n[\s\S]*?(?:^[^\S\n]*\1[^\S\n]*$|(?![\s\S]))/gm },
+  // Inline code on a single line
+  { kind: 'code', regex: /`[^`\n]+`/g },
+  { kind: 'email', regex: /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g },
+  { kind: 'url', regex: /\b(?:https?:\/\/|www\.)[^\s<>"'`]+/g },
+  { kind: 'url', regex: new RegExp(`\\b(?:[a-zA-Z0-9-]+\\.)+(?:${COMMON_TLDS})\\b(?:[/:?#][^\\s<>"'\`]*)?`, 'gi') },
+  // Quoted reply chains, with the "On ... wrote:" line that introduces them
+  { kind: 'quote', regex: /^(?:[^\n]*wrote:[^\S\n]*\n)?(?:[^\S\n]*>[^\n]*(?:\n|$))+/gm },
+  // Everything after the conventional "-- " signature separator
+  { kind: 'signature', regex: /^--[^\S\n]?\n[\s\S]*/gm }
+]
+
+// Punctuation that ends a sentence rather than the URL before it
+const TRAILING_PUNCTUATION = /[.,;:!?)\]}]+$/
+
+/**
+ * Find the regions of `text` that are not prose: fenced and inline code, URLs,
+ * email addresses, quoted replies and the signature. Regions are sorted and
+ * never overlap; nested matches are merged into the enclosing region.
+ */
+export function findSkipRegions(text: string): SkipRegion[] {
+  const regions: SkipRegion[] = []
+
+  for (const { kind, regex } of PATTERNS) {
+    regex.lastIndex = 0
+    let match
+    while ((match = regex.exec(text)) !== null) {
+      let value = match[0]
+      if (kind === 'url') value = value.replace(TRAILING_PUNCTUATION, '')
+      // Keep the line break that ends a quote outside of the region
+      if (kind === 'quote') value = value.replace(/\n$/, '')
+      if (value.length > 0) {
+        regions.push({ kind, start: match.index, end: match.index + value.length })
+      }
+      if (match[0].length === 0) regex.lastIndex++
+    }
+  }
+
+  regions.sort((a, b) => a.start - b.start || b.end - a.end)
+
+  const merged: SkipRegion[] = []
+  for (const region of regions) {
+    const last = merged[merged.length - 1]
+    if (last && region.start < last.end) {
+      last.end = Math.max(last.end, region.end)
+    } else {
+      merged.push({ ...region })
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Blank out skip regions with spaces (line breaks are kept), so checkers can run
+ * over the text without seeing them while every offset stays the same
+ */
+export function maskSkipRegions(text: string, regions: TextRange[] = findSkipRegions(text)): string {
+  if (regions.length === 0) return text
+
+  let masked = ''
+  let cursor = 0
+  for (const region of regions) {
+    masked += text.slice(cursor, region.start) + text.slice(region.start, region.end).replace(/[^\n]/g, ' ')
+    cursor = region.end
+  }
+  return masked + text.slice(cursor)
+}
+
+/**
+ * Whether a range touches any skip region
+ */
+export const overlapsSkipRegion = (range: TextRange, regions: TextRange[]): boolean =>
+  regions.some(region => range.start < region.end && region.start < range.end)
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
+import { toneChecker, type ToneAnalysis, type ToneCheckResult } from './toneChecker'
+import type { ClarityCheckError } from './clarityChecker'
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {
+    auth: {
+      getSession: vi.fn(() => Promise.resolve({ data: { session: { access_token: 'user-token' } } })),
+    },
+  },
+}))
+
+// Mock fetch for API calls
+global.fetch = vi.fn()
+
+const mockResponse = (body: unknown) => {
+  vi.mocked(fetch).mockResolvedValue({
+    ok: true,
+    json: () => Promise.resolve(body)
+  } as Response)
+}
+
+describe('ToneChecker', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('Tone Detection', () => {
+    it('should classify the draft with per-sentence evidence', async () => {
+      mockResponse({
+        tone: {
+          overall: 'passive-aggressive',
+          confidence: 0.85,
+          sentences: [
+            { sentence: 'As I said before, the file is attached.', tone: 'passive-aggressive', evidence: '"As I said before" implies the reader was not listening' }
+          ]
+        }
+      })
+
+      const text = 'Hi Sam. As I said before, the file is attached.'
+      const result = await toneChecker.analyzeTone(text) as ToneAnalysis
+
+      expect(result.overall).toBe('passive-aggressive')
+      expect(result.confidence).toBe(0.85)
+      expect(result.sentences).toEqual([
+        { sentence: 'As I said before, the file is attached.', tone: 'passive-aggressive', evidence: '"As I said before" implies the reader was not listening' }
+      ])
+
+      const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string)
+      expect(body).toEqual({ text, mode: 'tone' })
+    })
+
+    it('should reject sentences with an unknown tone', async () => {
+      mockResponse({
+        tone: {
+          overall: 'friendly',
+          confidence: 0.7,
+          sentences: [
+            { sentence: 'Hi!', tone: 'friendly', evidence: 'Warm greeting' },
+            { sentence: 'Thanks.', tone: 'sarcastic', evidence: '' }
+          ]
+        }
+      })
+
+      const result = await toneChecker.analyzeTone('Hi! Thanks.')
+
+      expect(result).toHaveProperty('code', 'INVALID_RESPONSE')
+      expect((result as ClarityCheckError).message).toContain('tone.sentences[1].tone')
+    })
+
+    it('should return an error for an unknown overall tone', async () => {
+      mockResponse({ tone: { overall: 'sarcastic', confidence: 0.5, sentences: [] } })
+
+      const result = await toneChecker.analyzeTone('Great, thanks.')
+
+      expect(result).toHaveProperty('code', 'INVALID_RESPONSE')
+    })
+  })
+
+  describe('Tone Rewrites', () => {
+    it('should return located tone suggestions', async () => {
+      mockResponse({
+        suggestions: [
+          { type: 'tone', segment: 2, original: 'Send it now.', suggestion: 'Could you send it when you have a moment?', explanation: 'Softer request', severity: 'high', start: 4, end: 16 },
+          { type: 'tone', segment: 1, original: 'Not in the text.', suggestion: 'Anything', explanation: 'Stale', severity: 'low', start: 0, end: 16 }
+        ]
+      })
+
+      const text = 'Hi. Send it now.'
+      const result = await toneChecker.rewriteTone(text, 'friendly') as ToneCheckResult[]
+
+      expect(result).toHaveLength(1)
+      expect(result[0]).toMatchObject({
+        type: 'tone',
+        original: 'Send it now.',
+        position: { start: 4, end: 16 },
+        severity: 'high'
+      })
+
+      const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string)
+      expect(body.targetTone).toBe('friendly')
+    })
+
+    it('should refuse tones that are not rewrite targets', async () => {
+      const result = await toneChecker.rewriteTone('Some text.', 'passive-aggressive')
+
+      expect(result).toHaveProperty('code', 'INVALID_TONE')
+      expect(fetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Error Handling', () => {
+    it('should return an error for empty text', async () => {
+      const result = await toneChecker.analyzeTone('   ')
+
+      expect(result).toHaveProperty('code', 'EMPTY_TEXT')
+    })
+
+    it('should surface API errors', async () => {
+      vi.mocked(fetch).mockResolvedValue({ ok: false, status: 500, statusText: 'Server Error' } as Response)
+
+      const result = await toneChecker.rewriteTone('Some text.', 'formal')
+
+      expect(result).toHaveProperty('code', 'API_ERROR')
+    })
+  })
+})
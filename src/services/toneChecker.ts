@@ -0,0 +1,147 @@
+import { postCheck, type ClarityCheckError, type PostCheckResult } from './clarityChecker'
+import {
+  TARGET_TONES,
+  validateSuggestionsResponse,
+  validateToneResponse,
+  type Severity,
+  type Tone
+} from '../../supabase/functions/_shared/checkSchema'
+
+export { TARGET_TONES, type Tone }
+
+export const TONE_LABELS: Record<Tone, string> = {
+  formal: 'Formal',
+  friendly: 'Friendly',
+  assertive: 'Assertive',
+  confident: 'Confident',
+  neutral: 'Neutral',
+  apologetic: 'Apologetic',
+  'passive-aggressive': 'Passive-aggressive',
+  urgent: 'Urgent'
+}
+
+export interface ToneEvidence {
+  sentence: string
+  tone: Tone
+  evidence: string
+}
+
+export interface ToneAnalysis {
+  overall: Tone
+  confidence: number
+  sentences: ToneEvidence[]
+}
+
+export interface ToneCheckResult {
+  type: 'tone'
+  original: string
+  suggestion: string
+  explanation: string
+  position: { start: number; end: number }
+  confidence: number
+  severity: Severity
+}
+
+class ToneCheckerService {
+  private isInitialized = true
+  private baseUrl: string
+  private anonKey: string
+
+  constructor() {
+    // Tone runs through the same check-grammar edge function as clarity
+    this.baseUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1`
+    this.anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
+
+    if (!this.baseUrl || !this.anonKey) {
+      console.error('Missing Supabase environment variables for tone checker')
+      this.isInitialized = false
+    }
+  }
+
+  /**
+   * Classify the tone of a draft, with the sentences that show it
+   */
+  async analyzeTone(text: string): Promise<ToneAnalysis | ClarityCheckError> {
+    const { data, error } = await this.request({ text, mode: 'tone' })
+    if (error) return error
+
+    const validation = validateToneResponse(data)
+    if (!validation.ok) {
+      console.error('Tone checker: invalid response:', validation.issues)
+      return { message: `Invalid tone response: ${validation.issues[0]}`, code: 'INVALID_RESPONSE' }
+    }
+
+    const { tone } = validation.value
+    return { overall: tone.overall, confidence: tone.confidence, sentences: tone.sentences }
+  }
+
+  /**
+   * Rewrite a draft (or a passage of it) in the target tone, one sentence per
+   * suggestion. Positions are relative to `text`.
+   */
+  async rewriteTone(text: string, targetTone: Tone): Promise<ToneCheckResult[] | ClarityCheckError> {
+    if (!TARGET_TONES.includes(targetTone)) {
+      return { message: `Cannot rewrite into a ${targetTone} tone`, code: 'INVALID_TONE' }
+    }
+
+    const { data, error } = await this.request({ text, mode: 'tone', targetTone })
+    if (error) return error
+
+    const validation = validateSuggestionsResponse(data, 'tone')
+    if (!validation.ok) {
+      console.error('Tone checker: invalid response:', validation.issues)
+      return { message: `Invalid tone response: ${validation.issues[0]}`, code: 'INVALID_RESPONSE' }
+    }
+
+    const results: ToneCheckResult[] = []
+    for (const suggestion of validation.value.suggestions) {
+      const { start, end, original } = suggestion
+      if (original === suggestion.suggestion) continue
+      if (text.slice(start, end) !== original) {
+        console.warn('Tone suggestion offsets do not match its text:', suggestion)
+        continue
+      }
+
+      results.push({
+        type: 'tone',
+        original,
+        suggestion: suggestion.suggestion,
+        explanation: suggestion.explanation,
+        position: { start, end },
+        confidence: 0.8,
+        severity: suggestion.severity
+      })
+    }
+
+    console.log('🎭 Tone checker: returning', results.length, 'tone suggestions')
+    return results
+  }
+
+  /**
+   * Check if the service is ready for use
+   */
+  isReady(): boolean {
+    return this.isInitialized
+  }
+
+  private async request(body: { text: string; mode: 'tone'; targetTone?: Tone }): Promise<PostCheckResult> {
+    if (!this.isInitialized) {
+      return { error: { message: 'Tone checker not initialized - missing Supabase environment variables', code: 'NOT_INITIALIZED' } }
+    }
+
+    if (!body.text.trim()) {
+      return { error: { message: 'No text to analyze', code: 'EMPTY_TEXT' } }
+    }
+
+    const result = await postCheck(`${this.baseUrl}/check-grammar`, this.anonKey, body)
+    if (result.error) {
+      console.error('Tone checker error:', result.error.code, result.error.message)
+    }
+    return result
+  }
+}
+
+// Export a singleton instance
+export const toneChecker = new ToneCheckerService()
+
+export default toneChecker
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { segmentAt, underlineSegments } from './underlines'
+import type { Suggestion } from '../store/useStore'
+
+const suggestion = (overrides: Partial<Suggestion>): Suggestion => ({
+  id: 's1',
+  type: 'spelling',
+  original: 'teh',
+  suggestion: 'the',
+  explanation: 'Possible misspelling',
+  source: 'local',
+  priority: 1,
+  position: { start: 4, end: 7 },
+  confidence: 0.9,
+  ...overrides
+})
+
+const text = 'Fix teh typo now'
+
+describe('underlines', () => {
+  it('should cut overlapping suggestions into segments, most important first', () => {
+    const spelling = suggestion({})
+    const clarity = suggestion({ id: 's2', type: 'clarity', original: 'Fix teh typo', priority: 3, position: { start: 0, end: 12 } })
+
+    const segments = underlineSegments(text, [clarity, spelling])
+
+    expect(segments.map(({ start, end, suggestions }) => [start, end, suggestions.map(s => s.id)])).toEqual([
+      [0, 4, ['s2']],
+      [4, 7, ['s1', 's2']],
+      [7, 12, ['s2']]
+    ])
+  })
+
+  it('should leave out gaps and suggestions for older text', () => {
+    const segments = underlineSegments(text, [
+      suggestion({}),
+      suggestion({ id: 's2', original: 'now', position: { start: 13, end: 16 } }),
+      suggestion({ id: 's3', original: 'teh', position: { start: 5, end: 8 } })
+    ])
+
+    expect(segments.map(({ start, end }) => [start, end])).toEqual([[4, 7], [13, 16]])
+  })
+
+  it('should find the segment under a caret, including at its edges', () => {
+    const segments = underlineSegments(text, [suggestion({})])
+
+    expect(segmentAt(segments, 5)?.start).toBe(4)
+    expect(segmentAt(segments, 7)?.start).toBe(4)
+    expect(segmentAt(segments, 2)).toBeUndefined()
+  })
+})
@@ -0,0 +1,46 @@
+import type { Suggestion } from "../store/useStore"
+
+// Underlines the editor draws under flagged text. Suggestions may overlap (a
+// misspelled word inside an unclear sentence), so the text is cut into
+// segments at every suggestion boundary and each segment lists what covers it.
+
+export interface UnderlineSegment {
+  start: number
+  end: number
+  // Covering suggestions, most important first (lowest priority number)
+  suggestions: Suggestion[]
+}
+
+/**
+ * Whether a suggestion still points at its original text. Suggestions for an
+ * older version of the text are skipped rather than drawn in the wrong place.
+ */
+const coversOriginal = ({ position: { start, end }, original }: Suggestion, text: string) =>
+  start >= 0 && end <= text.length && start < end && text.slice(start, end) === original
+
+const byPriority = (a: Suggestion, b: Suggestion) => a.priority - b.priority
+
+/**
+ * The underlined parts of `text`, in order. Parts no suggestion covers are left out.
+ */
+export function underlineSegments(text: string, suggestions: Suggestion[]): UnderlineSegment[] {
+  const current = suggestions.filter(suggestion => coversOriginal(suggestion, text))
+  const boundaries = [...new Set(current.flatMap(({ position }) => [position.start, position.end]))].sort((a, b) => a - b)
+
+  const segments: UnderlineSegment[] = []
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const start = boundaries[i]
+    const end = boundaries[i + 1]
+    const covering = current.filter(({ position }) => position.start <= start && position.end >= end)
+    if (covering.length > 0) segments.push({ start, end, suggestions: covering.sort(byPriority) })
+  }
+  return segments
+}
+
+/**
+ * The segment under a caret at `offset`. A caret right after a word still
+ * counts as being on it, so clicking the end of a word opens its suggestions.
+ */
+export const segmentAt = (segments: UnderlineSegment[], offset: number): UnderlineSegment | undefined =>
+  segments.find(({ start, end }) => offset > start && offset < end) ??
+  segments.find(({ start, end }) => offset === start || offset === end)
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { UserDictionaryService } from './userDictionaryService'
+
+const mockUpsert = vi.fn().mockReturnValue({
+  select: vi.fn().mockReturnValue({
+    single: vi.fn().mockResolvedValue({
+      data: { id: 'entry-1', user_id: 'test-user-id', word: 'wordwise', kind: 'dictionary', created_at: '2024-01-01' },
+      error: null
+    })
+  })
+})
+
+const mockDeleteKindEq = vi.fn().mockResolvedValue({ error: null })
+const mockDeleteWordEq = vi.fn().mockReturnValue({ eq: mockDeleteKindEq })
+
+// Mock the entire supabase module
+vi.mock('../lib/supabase', () => ({
+  supabase: {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: 'test-user-id' } }
+      })
+    },
+    from: vi.fn(() => ({
+      select: vi.fn().mockReturnValue({
+        order: vi.fn().mockResolvedValue({
+          data: [],
+          error: null
+        })
+      }),
+      upsert: mockUpsert,
+      delete: vi.fn().mockReturnValue({
+        eq: mockDeleteWordEq
+      })
+    }))
+  }
+}))
+
+describe('UserDictionaryService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('Basic functionality', () => {
+    it('should be able to call getEntries without throwing', async () => {
+      await expect(UserDictionaryService.getEntries()).resolves.toEqual([])
+    })
+
+    it('should store normalized words for the current user', async () => {
+      await UserDictionaryService.addEntry('  WordWise ', 'dictionary')
+
+      expect(mockUpsert).toHaveBeenCalledWith(
+        [{ word: 'wordwise', kind: 'dictionary', user_id: 'test-user-id' }],
+        { onConflict: 'user_id,word,kind' }
+      )
+    })
+
+    it('should delete by normalized word and kind', async () => {
+      await UserDictionaryService.removeEntry('WordWise', 'ignore')
+
+      expect(mockDeleteWordEq).toHaveBeenCalledWith('word', 'wordwise')
+      expect(mockDeleteKindEq).toHaveBeenCalledWith('kind', 'ignore')
+    })
+  })
+
+  describe('toWordList', () => {
+    it('should export a sorted, de-duplicated plain word list', () => {
+      expect(UserDictionaryService.toWordList(['Zeta', 'alpha', 'ZETA', ' beta '])).toBe('alpha\nbeta\nzeta\n')
+    })
+  })
+})
@@ -0,0 +1,68 @@
+import { supabase } from '../lib/supabase'
+import type { DictionaryEntryKind, UserDictionaryEntry } from '../lib/supabase'
+
+export class UserDictionaryService {
+  static normalizeWord(word: string): string {
+    return word.trim().toLowerCase()
+  }
+
+  static async getEntries(): Promise<UserDictionaryEntry[]> {
+    const { data, error } = await supabase
+      .from('user_dictionary_entries')
+      .select('*')
+      .order('word', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching dictionary entries:', error)
+      throw new Error(`Failed to fetch dictionary entries: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  static async addEntry(word: string, kind: DictionaryEntryKind): Promise<UserDictionaryEntry> {
+    // Get the current user
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { data, error } = await supabase
+      .from('user_dictionary_entries')
+      .upsert([{
+        word: this.normalizeWord(word),
+        kind,
+        user_id: user.id
+      }], { onConflict: 'user_id,word,kind' })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error adding dictionary entry:', error)
+      throw new Error(`Failed to add dictionary entry: ${error.message}`)
+    }
+
+    return data
+  }
+
+  static async removeEntry(word: string, kind: DictionaryEntryKind): Promise<void> {
+    const { error } = await supabase
+      .from('user_dictionary_entries')
+      .delete()
+      .eq('word', this.normalizeWord(word))
+      .eq('kind', kind)
+
+    if (error) {
+      console.error('Error removing dictionary entry:', error)
+      throw new Error(`Failed to remove dictionary entry: ${error.message}`)
+    }
+  }
+
+  /**
+   * Plain word list export: one word per line, sorted
+   */
+  static toWordList(words: string[]): string {
+    return [...new Set(words.map(word => this.normalizeWord(word)))]
+      .filter(word => word.length > 0)
+      .sort()
+      .join('\n') + '\n'
+  }
+}
@@ -1,7 +1,13 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { useStore } from './useStore'
+import { useStore, getSuggestionSlice, type Suggestion } from './useStore'
+import { analysisService } from '../services/analysisService'
+import { toneChecker } from '../services/toneChecker'
+import { clarityChecker } from '../services/clarityChecker'
 import { DraftsService } from '../services/draftsService'
-// import { SentMessagesService } from '../services/sentMessagesService'
+import { UserDictionaryService } from '../services/userDictionaryService'
+import { MutedRulesService } from '../services/mutedRulesService'
+import { visibilityOf } from '../services/ignoredIssues'
+import { SentMessagesService } from '../services/sentMessagesService'
 
 // Mock dependencies
 vi.mock('../lib/supabase', () => ({
@@ -36,7 +42,7 @@ describe('useStore', () => {
   it('clearUserData should reset all user-related state', () => {
     // Modify some state
     useStore.setState({
-      drafts: [{ id: '1', title: 'Test', content: 'Test', createdAt: new Date(), updatedAt: new Date() }],
+      drafts: [{ id: '1', title: 'Test', content: 'Test', language: 'en-US', createdAt: new Date(), updatedAt: new Date() }],
       activeDraftId: '1',
     })
 
@@ -47,9 +53,9 @@ describe('useStore', () => {
   })
 
   describe('Grammar Checking', () => {
-    it('should test applySuggestion behavior with real state manipulation', () => {
+    it('should test applySuggestion behavior with real state manipulation', async () => {
       // Test the actual applySuggestion logic without mocking the core functionality
-      const draft = { id: 'd1', title: 'Test', content: 'This is bad text.', createdAt: new Date(), updatedAt: new Date(), isLocal: true }
+      const draft = { id: 'd1', title: 'Test', content: 'This is bad text.', language: 'en-US' as const, createdAt: new Date(), updatedAt: new Date(), isLocal: true }
       const suggestion = { 
         id: 's1', 
         type: 'grammar' as const, 
@@ -70,7 +76,7 @@ describe('useStore', () => {
       })
 
       // Test the actual applySuggestion logic
-      useStore.getState().applySuggestion('s1')
+      await useStore.getState().applySuggestion('s1')
       
       const state = useStore.getState()
       
@@ -82,6 +88,290 @@ describe('useStore', () => {
       expect(updatedDraft?.content).toBe('This is good text.')
     })
 
+    it('should apply the alternative the user picked', async () => {
+      const draft = { id: 'd1', title: 'Test', content: 'Hello wrold!', language: 'en-US' as const, createdAt: new Date(), updatedAt: new Date(), isLocal: true }
+      const suggestion = {
+        id: 's1',
+        type: 'spelling' as const,
+        original: 'wrold',
+        suggestion: 'world',
+        explanation: 'Misspelled word: "wrold"',
+        position: { start: 6, end: 11 },
+        source: 'local' as const,
+        priority: 1,
+        confidence: 0.7,
+        alternatives: [{ text: 'world', confidence: 0.7 }, { text: 'would', confidence: 0.2 }]
+      }
+      useStore.setState({ drafts: [draft], activeDraftId: 'd1', grammarSuggestions: [suggestion] })
+
+      await useStore.getState().applySuggestion('s1', 3)
+      expect(useStore.getState().drafts[0].content).toBe('Hello wrold!')
+
+      await useStore.getState().applySuggestion('s1', 1)
+      expect(useStore.getState().drafts[0].content).toBe('Hello would!')
+      expect(useStore.getState().cursorPosition).toBe(11)
+    })
+
+    it('should not apply advisory suggestions', async () => {
+      const draft = { id: 'd1', title: 'Test', content: 'The ball was thrown.', language: 'en-US' as const, createdAt: new Date(), updatedAt: new Date(), isLocal: true }
+      const advice = {
+        id: 'a1',
+        type: 'grammar' as const,
+        original: 'was thrown',
+        suggestion: 'was thrown',
+        explanation: 'Passive voice hides who acts.',
+        position: { start: 9, end: 19 },
+        source: 'local' as const,
+        priority: 2,
+        confidence: 0.8,
+        advisory: true
+      }
+      useStore.setState({ drafts: [draft], activeDraftId: 'd1', grammarSuggestions: [advice] })
+
+      await useStore.getState().applySuggestion('a1')
+
+      const state = useStore.getState()
+      expect(state.grammarSuggestions).toEqual([advice])
+      expect(state.drafts[0].content).toBe('The ball was thrown.')
+    })
+
+    it('should undo typing and an applied suggestion in order, and redo both', async () => {
+      const draft = { id: 'd1', title: 'Test', content: 'Fix teh bug', language: 'en-US' as const, createdAt: new Date(), updatedAt: new Date(), isLocal: true }
+      const typo: Suggestion = {
+        id: 's1',
+        type: 'spelling',
+        original: 'teh',
+        suggestion: 'the',
+        explanation: 'Misspelled word: "teh"',
+        position: { start: 4, end: 7 },
+        source: 'local',
+        priority: 1,
+        confidence: 0.95
+      }
+      useStore.setState({ drafts: [draft], activeDraftId: 'd1', grammarSuggestions: [typo] })
+
+      const store = useStore.getState()
+      await store.applySuggestion('s1')
+      vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 5000)
+      // Typing comes from the editor and is not saved to the draft yet
+      store.recordEdit('Please fix the bug')
+      vi.mocked(Date.now).mockRestore()
+      expect(useStore.getState().canUndo()).toBe(true)
+
+      await store.undo()
+      expect(useStore.getState().drafts[0].content).toBe('Fix the bug')
+
+      await store.undo()
+      let state = useStore.getState()
+      expect(state.drafts[0].content).toBe('Fix teh bug')
+      // The suggestion is offered again
+      expect(state.grammarSuggestions.find(s => s.id === 's1')?.position).toEqual({ start: 4, end: 7 })
+      expect(state.canUndo()).toBe(false)
+
+      await store.redo()
+      await store.redo()
+      state = useStore.getState()
+      expect(state.drafts[0].content).toBe('Please fix the bug')
+      expect(state.grammarSuggestions.find(s => s.id === 's1')).toBeUndefined()
+      expect(state.canRedo()).toBe(false)
+    })
+
+    it('should keep the history where it was when saving an undo fails', async () => {
+      const draft = { id: 'd1', title: 'Test', content: 'Fix teh bug', language: 'en-US' as const, createdAt: new Date(), updatedAt: new Date() }
+      useStore.setState({ drafts: [draft], activeDraftId: 'd1' })
+      useStore.getState().recordEdit('Fix teh bug now')
+      vi.mocked(DraftsService.updateDraft).mockRejectedValueOnce(new Error('offline'))
+
+      await useStore.getState().undo()
+
+      const state = useStore.getState()
+      expect(state.editHistories.d1.text).toBe('Fix teh bug now')
+      expect(state.canUndo()).toBe(true)
+      expect(state.canRedo()).toBe(false)
+    })
+
+    it('should leave the draft, suggestions and history alone when saving an applied suggestion fails', async () => {
+      const draft = { id: 'd1', title: 'Test', content: 'Fix teh bug', language: 'en-US' as const, createdAt: new Date(), updatedAt: new Date() }
+      const typo: Suggestion = {
+        id: 's1', type: 'spelling', original: 'teh', suggestion: 'the', explanation: 'Misspelled',
+        position: { start: 4, end: 7 }, source: 'local', priority: 1, confidence: 0.95
+      }
+      useStore.setState({ drafts: [draft], activeDraftId: 'd1', grammarSuggestions: [typo], cursorPosition: null })
+      vi.mocked(DraftsService.updateDraft).mockRejectedValueOnce(new Error('offline'))
+
+      await expect(useStore.getState().applySuggestion('s1')).resolves.toBeUndefined()
+
+      const state = useStore.getState()
+      expect(state.drafts[0].content).toBe('Fix teh bug')
+      expect(state.grammarSuggestions).toEqual([typo])
+      expect(state.cursorPosition).toBeNull()
+      expect(state.canUndo()).toBe(false)
+    })
+
+    it('should apply suggestions to typing not saved to the draft yet', async () => {
+      const draft = { id: 'd1', title: 'Test', content: 'Fix teh bug', language: 'en-US' as const, createdAt: new Date(), updatedAt: new Date(), isLocal: true }
+      useStore.setState({ drafts: [draft], activeDraftId: 'd1' })
+      useStore.getState().recordEdit('Fix teh bug now')
+      useStore.setState({
+        grammarSuggestions: [{
+          id: 's1', type: 'spelling', original: 'teh', suggestion: 'the', explanation: 'Misspelled',
+          position: { start: 4, end: 7 }, source: 'local', priority: 1, confidence: 0.95
+        }]
+      })
+
+      await useStore.getState().applySuggestion('s1')
+
+      expect(useStore.getState().drafts[0].content).toBe('Fix the bug now')
+    })
+
+    it('should keep a history per draft', async () => {
+      const drafts = ['d1', 'd2'].map(id => ({ id, title: id, content: '', language: 'en-US' as const, createdAt: new Date(), updatedAt: new Date(), isLocal: true }))
+      useStore.setState({ drafts, activeDraftId: 'd1' })
+      useStore.getState().recordEdit('First draft')
+
+      useStore.setState({ activeDraftId: 'd2' })
+      expect(useStore.getState().canUndo()).toBe(false)
+      await useStore.getState().undo()
+      expect(useStore.getState().drafts[1].content).toBe('')
+
+      useStore.setState({ activeDraftId: 'd1' })
+      await useStore.getState().undo()
+      expect(useStore.getState().editHistories.d1.text).toBe('')
+    })
+
+    it('should keep a history when a local draft is persisted', async () => {
+      const draft = { id: 'local_1', title: 'Test', content: '', language: 'en-US' as const, createdAt: new Date(), updatedAt: new Date(), isLocal: true }
+      useStore.setState({ drafts: [draft], activeDraftId: 'local_1' })
+      useStore.getState().recordEdit('Hello')
+      vi.mocked(DraftsService.createDraft).mockResolvedValueOnce({
+        id: 'd1', title: 'Test', content: 'Hello', language: 'en-US', ignored_issues: [], rich_content: null, user_id: 'u1',
+        created_at: new Date().toISOString(), updated_at: new Date().toISOString()
+      })
+
+      await useStore.getState().persistDraft('local_1')
+
+      expect(Object.keys(useStore.getState().editHistories)).toEqual(['d1'])
+      expect(useStore.getState().canUndo()).toBe(true)
+    })
+
+    it('should carry an applied suggestion over when it persists a local draft', async () => {
+      const draft = { id: 'local_1', title: 'Test', content: 'Fix teh bug', language: 'en-US' as const, createdAt: new Date(), updatedAt: new Date(), isLocal: true }
+      useStore.setState({
+        drafts: [draft],
+        activeDraftId: 'local_1',
+        grammarSuggestions: [{
+          id: 's1', type: 'spelling', original: 'teh', suggestion: 'the', explanation: 'Misspelled',
+          position: { start: 4, end: 7 }, source: 'local', priority: 1, confidence: 0.95
+        }]
+      })
+      vi.mocked(DraftsService.createDraft).mockResolvedValueOnce({
+        id: 'd1', title: 'Test', content: 'Fix the bug', language: 'en-US', ignored_issues: [], rich_content: null, user_id: 'u1',
+        created_at: new Date().toISOString(), updated_at: new Date().toISOString()
+      })
+
+      await useStore.getState().applySuggestion('s1')
+
+      const state = useStore.getState()
+      expect(state.activeDraftId).toBe('d1')
+      expect(Object.keys(state.editHistories)).toEqual(['d1'])
+      expect(state.editHistories.d1.text).toBe('Fix the bug')
+      expect(state.canUndo()).toBe(true)
+    })
+
+    it('should fix all suggestions of a type as one undo step', async () => {
+      const draft = { id: 'd1', title: 'Test', content: 'Ths cat is bad. Ths end.', language: 'en-US' as const, createdAt: new Date(), updatedAt: new Date(), isLocal: true }
+      const typo = (id: string, start: number): Suggestion => ({
+        id, type: 'spelling', original: 'Ths', suggestion: 'This', explanation: 'Misspelled word: "Ths"',
+        position: { start, end: start + 3 }, source: 'local', priority: 1, confidence: 0.95
+      })
+      const grammar: Suggestion = {
+        id: 'g1', type: 'grammar', original: 'bad', suggestion: 'good', explanation: 'Use positive language',
+        position: { start: 11, end: 14 }, source: 'local', priority: 2, confidence: 0.8
+      }
+      useStore.setState({ drafts: [draft], activeDraftId: 'd1', grammarSuggestions: [typo('s1', 0), grammar, typo('s2', 16)] })
+
+      const plan = useStore.getState().planBulkFix({ type: 'spelling' })!
+      expect(plan.suggestions.map(s => s.id)).toEqual(['s2', 's1'])
+      await useStore.getState().applyBulkFix(plan)
+
+      let state = useStore.getState()
+      expect(state.drafts[0].content).toBe('This cat is bad. This end.')
+      expect(state.grammarSuggestions).toEqual([{ ...grammar, position: { start: 12, end: 15 } }])
+
+      await state.undo()
+      state = useStore.getState()
+      expect(state.drafts[0].content).toBe('Ths cat is bad. Ths end.')
+      expect(state.canUndo()).toBe(false)
+      expect(state.grammarSuggestions.map(s => [s.id, s.position.start]).sort()).toEqual([['g1', 11], ['s1', 0], ['s2', 16]])
+    })
+
+    it('should leave the draft alone when fixing all cannot be saved', async () => {
+      const draft = { id: 'd1', title: 'Test', content: 'This is bad text.', language: 'en-US' as const, createdAt: new Date(), updatedAt: new Date() }
+      const grammar: Suggestion = {
+        id: 'g1', type: 'grammar', original: 'bad', suggestion: 'good', explanation: 'Use positive language',
+        position: { start: 8, end: 11 }, source: 'local', priority: 2, confidence: 0.8
+      }
+      useStore.setState({ drafts: [draft], activeDraftId: 'd1', grammarSuggestions: [grammar] })
+      vi.mocked(DraftsService.updateDraft).mockRejectedValueOnce(new Error('offline'))
+
+      const plan = useStore.getState().planBulkFix({ minConfidence: 0.5 })!
+      await expect(useStore.getState().applyBulkFix(plan)).rejects.toThrow('offline')
+
+      const state = useStore.getState()
+      expect(state.drafts[0].content).toBe('This is bad text.')
+      expect(state.grammarSuggestions).toEqual([grammar])
+      expect(state.canUndo()).toBe(false)
+    })
+
+    it('should keep the formatting of a draft when applying a suggestion', async () => {
+      const document = {
+        blocks: [
+          { type: 'heading1' as const, runs: [{ text: 'Plan' }] },
+          { type: 'paragraph' as const, runs: [{ text: 'This is ' }, { text: 'bad text', marks: { bold: true } }, { text: '.' }] }
+        ]
+      }
+      const draft = { id: 'd1', title: 'Test', content: 'Plan\nThis is bad text.', document, language: 'en-US' as const, createdAt: new Date(), updatedAt: new Date(), isLocal: true }
+      const suggestion = {
+        id: 's1',
+        type: 'grammar' as const,
+        original: 'bad',
+        suggestion: 'good',
+        explanation: 'Use positive language',
+        position: { start: 13, end: 16 },
+        source: 'local' as const,
+        priority: 2,
+        confidence: 0.8
+      }
+      useStore.setState({ drafts: [draft], activeDraftId: 'd1', grammarSuggestions: [suggestion] })
+
+      await useStore.getState().applySuggestion('s1')
+
+      const [updated] = useStore.getState().drafts
+      expect(updated.content).toBe('Plan\nThis is good text.')
+      expect(updated.document?.blocks).toEqual([
+        { type: 'heading1', runs: [{ text: 'Plan' }] },
+        { type: 'paragraph', runs: [{ text: 'This is ' }, { text: 'good text', marks: { bold: true } }, { text: '.' }] }
+      ])
+    })
+
+    it('should keep formatting not saved yet when applying a suggestion and undoing it', async () => {
+      const draft = { id: 'd1', title: 'Test', content: 'This is bad text.', language: 'en-US' as const, createdAt: new Date(), updatedAt: new Date(), isLocal: true }
+      const suggestion: Suggestion = {
+        id: 's1', type: 'grammar', original: 'bad', suggestion: 'good', explanation: 'Use positive language',
+        position: { start: 8, end: 11 }, source: 'local', priority: 2, confidence: 0.8
+      }
+      useStore.setState({ drafts: [draft], activeDraftId: 'd1', grammarSuggestions: [suggestion] })
+      // The user made "This" bold in the editor; autosave has not run yet
+      const edited = { blocks: [{ type: 'paragraph' as const, runs: [{ text: 'This', marks: { bold: true } }, { text: ' is bad text.' }] }] }
+      useStore.getState().recordEdit('This is bad text.', edited)
+
+      await useStore.getState().applySuggestion('s1')
+      expect(useStore.getState().drafts[0].document?.blocks[0].runs).toEqual([{ text: 'This', marks: { bold: true } }, { text: ' is good text.' }])
+
+      await useStore.getState().undo()
+      expect(useStore.getState().drafts[0].document).toEqual(edited)
+    })
+
     it('should test clearGrammarSuggestions functionality', () => {
       // Set up state with suggestions
       const mockSuggestions = [{
@@ -104,8 +394,8 @@ describe('useStore', () => {
       expect(useStore.getState().grammarSuggestions).toHaveLength(0)
     })
 
-    it('should handle applySuggestion with non-existent suggestion ID', () => {
-      const draft = { id: 'd1', title: 'Test', content: 'Original content.', createdAt: new Date(), updatedAt: new Date() }
+    it('should handle applySuggestion with non-existent suggestion ID', async () => {
+      const draft = { id: 'd1', title: 'Test', content: 'Original content.', language: 'en-US' as const, createdAt: new Date(), updatedAt: new Date() }
       
       useStore.setState({
         drafts: [draft],
@@ -114,7 +404,7 @@ describe('useStore', () => {
       })
 
       // Try to apply a non-existent suggestion
-      useStore.getState().applySuggestion('non-existent-id')
+      await useStore.getState().applySuggestion('non-existent-id')
       
       const state = useStore.getState()
       const updatedDraft = state.drafts.find(d => d.id === 'd1')
@@ -124,9 +414,444 @@ describe('useStore', () => {
     })
   })
 
+  describe('Checker slices', () => {
+    const makeSuggestion = (id: string, type: 'grammar' | 'spelling' | 'clarity', source: 'local' | 'paragraph') => ({
+      id,
+      type,
+      original: 'word',
+      suggestion: 'replacement',
+      explanation: 'test',
+      source,
+      priority: 2,
+      position: { start: 0, end: 4 },
+      confidence: 0.8
+    })
+
+    it('checkGrammar should replace only the local grammar slice', async () => {
+      const fresh = makeSuggestion('new-grammar', 'grammar', 'local')
+      vi.spyOn(analysisService, 'analyze').mockResolvedValueOnce([fresh])
+      useStore.setState({
+        grammarSuggestions: [
+          makeSuggestion('spelling', 'spelling', 'local'),
+          makeSuggestion('old-grammar', 'grammar', 'local'),
+          makeSuggestion('local-clarity', 'clarity', 'local'),
+          makeSuggestion('remote-clarity', 'clarity', 'paragraph')
+        ]
+      })
+
+      await useStore.getState().checkGrammar('word')
+
+      expect(useStore.getState().grammarSuggestions.map(s => s.id)).toEqual(['spelling', 'remote-clarity', 'new-grammar'])
+    })
+
+    it('checkGrammar should drop results cancelled while in flight', async () => {
+      let resolve: (value: Suggestion[]) => void = () => {}
+      vi.spyOn(analysisService, 'analyze').mockReturnValueOnce(new Promise(r => { resolve = r }))
+      useStore.setState({ grammarSuggestions: [] })
+
+      const check = useStore.getState().checkGrammar('word')
+      useStore.getState().cancelGrammarCheck()
+      resolve([makeSuggestion('stale', 'grammar', 'local')])
+      await check
+
+      expect(useStore.getState().grammarSuggestions).toEqual([])
+    })
+
+    it('getSuggestionSlice should assign each suggestion to the checker that owns it', () => {
+      expect(getSuggestionSlice(makeSuggestion('a', 'spelling', 'local'))).toBe('spelling')
+      expect(getSuggestionSlice(makeSuggestion('b', 'clarity', 'local'))).toBe('grammar')
+      expect(getSuggestionSlice(makeSuggestion('c', 'clarity', 'paragraph'))).toBe('clarity')
+    })
+  })
+
+  describe('Tone rewrites', () => {
+    const text = 'Hi Sam. Send it now. Thanks.'
+
+    const makeToneSuggestion = (id: string): Suggestion => ({
+      id,
+      type: 'tone',
+      original: 'Hi Sam.',
+      suggestion: 'Hello Sam.',
+      explanation: 'test',
+      source: 'document',
+      priority: 3,
+      position: { start: 0, end: 7 },
+      confidence: 0.8
+    })
+
+    beforeEach(() => {
+      useStore.setState({ grammarSuggestions: [], selection: null, toneError: null, isCheckingTone: false })
+    })
+
+    it('rewriteTone should map selection-relative positions back to the draft', async () => {
+      const spy = vi.spyOn(toneChecker, 'rewriteTone').mockResolvedValueOnce([{
+        type: 'tone',
+        original: 'Send it now.',
+        suggestion: 'Could you send it over?',
+        explanation: 'Friendlier request',
+        position: { start: 0, end: 12 },
+        confidence: 0.8,
+        severity: 'medium'
+      }])
+      useStore.getState().setSelection({ start: 8, end: 20 })
+
+      await useStore.getState().rewriteTone(text, 'friendly')
+
+      expect(spy).toHaveBeenCalledWith('Send it now.', 'friendly')
+      const [suggestion] = useStore.getState().grammarSuggestions
+      expect(suggestion).toMatchObject({ type: 'tone', source: 'window', original: 'Send it now.', position: { start: 8, end: 20 } })
+      expect(useStore.getState().isCheckingTone).toBe(false)
+    })
+
+    it('rewriteTone should replace the previous tone suggestions only', async () => {
+      vi.spyOn(toneChecker, 'rewriteTone').mockResolvedValueOnce([{
+        type: 'tone',
+        original: 'Thanks.',
+        suggestion: 'Thank you.',
+        explanation: 'More formal',
+        position: { start: 21, end: 28 },
+        confidence: 0.8,
+        severity: 'medium'
+      }])
+      useStore.setState({
+        grammarSuggestions: [
+          makeToneSuggestion('old-tone'),
+          { ...makeToneSuggestion('spelling'), type: 'spelling', source: 'local' }
+        ]
+      })
+
+      await useStore.getState().rewriteTone(text, 'formal')
+
+      const suggestions = useStore.getState().grammarSuggestions
+      expect(suggestions.map(s => s.id)).toEqual(['spelling', expect.stringMatching(/^tone_/)])
+      expect(suggestions[1].source).toBe('document')
+    })
+
+    it('rewriteTone should drop rewrites of sentences with a URL in them', async () => {
+      const withLink = 'See https://example.com/plan now. Thanks a lot.'
+      const spy = vi.spyOn(toneChecker, 'rewriteTone').mockResolvedValueOnce([
+        {
+          type: 'tone',
+          original: 'See                          now.',
+          suggestion: 'Please take a look now.',
+          explanation: 'Friendlier request',
+          position: { start: 0, end: 33 },
+          confidence: 0.8,
+          severity: 'medium'
+        },
+        {
+          type: 'tone',
+          original: 'Thanks a lot.',
+          suggestion: 'Thank you.',
+          explanation: 'More formal',
+          position: { start: 34, end: 47 },
+          confidence: 0.8,
+          severity: 'medium'
+        }
+      ])
+
+      await useStore.getState().rewriteTone(withLink, 'formal')
+
+      expect(spy.mock.calls[0][0]).not.toContain('https://')
+      const suggestions = useStore.getState().grammarSuggestions
+      expect(suggestions).toHaveLength(1)
+      expect(suggestions[0]).toMatchObject({ original: 'Thanks a lot.', position: { start: 34, end: 47 } })
+    })
+
+    it('rewriteTone should surface errors', async () => {
+      vi.spyOn(toneChecker, 'rewriteTone').mockResolvedValueOnce({ message: 'API error: Bad Gateway', code: 'API_ERROR' })
+
+      await useStore.getState().rewriteTone(text, 'formal')
+
+      expect(useStore.getState().toneError).toBe('API error: Bad Gateway')
+      expect(useStore.getState().grammarSuggestions).toEqual([])
+    })
+
+    it('setSelection should ignore empty selections', () => {
+      useStore.getState().setSelection({ start: 4, end: 4 })
+      expect(useStore.getState().selection).toBeNull()
+    })
+
+  })
+
+  describe('Clarity errors', () => {
+    it('checkClarity should surface a rate limit and pause until Retry-After', async () => {
+      const spy = vi.spyOn(clarityChecker, 'streamText').mockImplementationOnce(async function* () {
+        yield { message: 'Too many checks in a short time', code: 'RATE_LIMITED', retryAfter: 30 }
+      })
+
+      await useStore.getState().checkClarity('The first paragraph is long enough to check.')
+      expect(useStore.getState().clarityError).toMatchObject({ code: 'RATE_LIMITED', retryAfter: 30 })
+
+      // A different paragraph is not sent while paused
+      await useStore.getState().checkClarity('Another paragraph that is long enough to check.')
+      expect(spy).toHaveBeenCalledOnce()
+      expect(useStore.getState().clarityError).toMatchObject({ code: 'RATE_LIMITED' })
+
+      // Logging out lifts the pause
+      useStore.getState().clearUserData()
+      spy.mockImplementationOnce(async function* () {})
+      await useStore.getState().checkClarity('Another paragraph that is long enough to check.')
+      expect(spy).toHaveBeenCalledTimes(2)
+      expect(useStore.getState().clarityError).toBeNull()
+    })
+  })
+
+  describe('Streaming clarity', () => {
+    beforeEach(() => {
+      // Spelling and grammar checks left running by earlier tests must not land in this one
+      analysisService.cancel('spelling')
+      analysisService.cancel('grammar')
+    })
+
+    it('checkClarity should add suggestions while the stream continues', async () => {
+      let finish = () => {}
+      const text = 'Intro line.\n\nWe met in order to plan the launch.'
+      vi.spyOn(clarityChecker, 'streamText').mockImplementationOnce(async function* () {
+        yield { type: 'clarity', original: 'in order to', suggestion: 'to', explanation: 'Shorter', position: { start: 7, end: 18 }, confidence: 0.8, severity: 'low' }
+        await new Promise<void>(resolve => { finish = resolve })
+      })
+
+      const claritySlice = () => useStore.getState().grammarSuggestions.filter(s => getSuggestionSlice(s) === 'clarity')
+      const check = useStore.getState().checkClarity(text)
+      await vi.waitFor(() => expect(claritySlice()).toHaveLength(1))
+
+      // The first result is placed in the draft while the check is still running
+      expect(claritySlice()[0].position).toEqual({ start: 20, end: 31 })
+      expect(useStore.getState().isCheckingGrammar).toBe(true)
+
+      finish()
+      await check
+      expect(useStore.getState().isCheckingGrammar).toBe(false)
+    })
+
+    it('checkClarity should drop suggestions that span a URL', async () => {
+      const text = 'Read the notes at https://example.com/notes in order to plan.'
+      const stream = vi.spyOn(clarityChecker, 'streamText').mockImplementationOnce(async function* (paragraph: string) {
+        yield { type: 'clarity', original: paragraph.slice(5, 55), suggestion: 'Read the notes to', explanation: 'Shorter', position: { start: 5, end: 55 }, confidence: 0.8, severity: 'low' }
+        yield { type: 'clarity', original: 'in order to', suggestion: 'to', explanation: 'Shorter', position: { start: 44, end: 55 }, confidence: 0.8, severity: 'low' }
+      })
+
+      await useStore.getState().checkClarity(text)
+
+      expect(stream.mock.calls[0][0]).not.toContain('https://')
+      const clarity = useStore.getState().grammarSuggestions.filter(s => getSuggestionSlice(s) === 'clarity')
+      expect(clarity.map(s => s.original)).toEqual(['in order to'])
+    })
+
+    it('checkClarity should check a few paragraphs at a time and stop once rate limited', async () => {
+      const text = Array.from({ length: 8 }, (_, i) => `Paragraph number ${i} needs a check.`).join('\n\n')
+      let running = 0
+      let mostRunning = 0
+      const stream = vi.spyOn(clarityChecker, 'streamText').mockImplementation(async function* (paragraph: string) {
+        running++
+        mostRunning = Math.max(mostRunning, running)
+        await new Promise(resolve => setTimeout(resolve, 5))
+        running--
+        if (paragraph.includes('number 0 ')) yield { message: 'Too many checks', code: 'RATE_LIMITED' as const, retryAfter: 30 }
+      })
+
+      await useStore.getState().checkClarity(text)
+
+      expect(mostRunning).toBe(3)
+      // The paragraphs already started finish; the rest wait for the limit to reset
+      expect(stream).toHaveBeenCalledTimes(3)
+      expect(useStore.getState().clarityError).toMatchObject({ code: 'RATE_LIMITED' })
+      stream.mockRestore()
+    })
+  })
+
+  describe('Incremental checking', () => {
+    const makeSuggestion = (id: string, original: string, start: number) => ({
+      id,
+      type: 'clarity' as const,
+      original,
+      suggestion: 'replacement',
+      explanation: 'test',
+      source: 'paragraph' as const,
+      priority: 3,
+      position: { start, end: start + original.length },
+      confidence: 0.8
+    })
+
+    it('invalidateSuggestionsOnEdit should shift suggestions after the edit', () => {
+      const oldText = 'Fix this. Then that.'
+      const newText = 'Please fix this. Then that.'
+      useStore.setState({ grammarSuggestions: [makeSuggestion('s1', 'that', 15)] })
+
+      useStore.getState().invalidateSuggestionsOnEdit(oldText, newText)
+
+      const [shifted] = useStore.getState().grammarSuggestions
+      expect(shifted.position).toEqual({ start: 22, end: 26 })
+      expect(newText.slice(shifted.position.start, shifted.position.end)).toBe('that')
+    })
+
+    it('invalidateSuggestionsOnEdit should drop suggestions inside the edit', () => {
+      useStore.setState({ grammarSuggestions: [makeSuggestion('s1', 'this', 4)] })
+
+      useStore.getState().invalidateSuggestionsOnEdit('Fix this now.', 'Fix these now.')
+
+      expect(useStore.getState().grammarSuggestions).toHaveLength(0)
+    })
+
+    it('checkSpelling should only re-analyse edited paragraphs', async () => {
+      const original = 'This is teh test.\n\nAnd teh world.'
+      await useStore.getState().checkSpelling(original)
+
+      const before = useStore.getState().grammarSuggestions.filter(s => s.type === 'spelling')
+      expect(before.map(s => s.original)).toEqual(['teh', 'teh'])
+
+      const edited = 'This is teh new test.\n\nAnd teh world.'
+      useStore.getState().invalidateSuggestionsOnEdit(original, edited)
+      await useStore.getState().checkSpelling(edited)
+
+      const after = useStore.getState().grammarSuggestions.filter(s => s.type === 'spelling')
+      expect(after).toHaveLength(2)
+      // The untouched second paragraph keeps its suggestion object, shifted to the new offset
+      const secondParagraph = after.find(s => s.id === before[1].id)
+      expect(secondParagraph).toBeDefined()
+      expect(edited.slice(secondParagraph!.position.start, secondParagraph!.position.end)).toBe('teh')
+    })
+  })
+
+  describe('Dismissed suggestions', () => {
+    const hedge: Suggestion = {
+      id: 'grammar_1',
+      type: 'clarity',
+      original: 'I think',
+      suggestion: 'I think',
+      explanation: 'Hedge',
+      source: 'local',
+      priority: 3,
+      position: { start: 0, end: 7 },
+      confidence: 0.8,
+      advisory: true,
+      rule: 'hedge'
+    }
+    const draft = { id: 'd1', title: 'Test', content: 'I think so.', language: 'en-US' as const, createdAt: new Date(), updatedAt: new Date() }
+
+    beforeEach(() => {
+      useStore.setState({ drafts: [draft], activeDraftId: 'd1', grammarSuggestions: [hedge], mutedRules: [] })
+    })
+
+    it('dismissSuggestion should store the issue with the draft so re-checks stay hidden', async () => {
+      vi.mocked(DraftsService.updateIgnoredIssues).mockResolvedValue({} as never)
+
+      await useStore.getState().dismissSuggestion('grammar_1')
+
+      const ignoredIssues = useStore.getState().getDraftById('d1')!.ignoredIssues!
+      expect(ignoredIssues).toEqual([{ rule: 'hedge', text: 'i think' }])
+      expect(DraftsService.updateIgnoredIssues).toHaveBeenCalledWith('d1', ignoredIssues)
+
+      // The next pass reports the same issue under a new id and position
+      const recheck = { ...hedge, id: 'grammar_2', position: { start: 12, end: 19 } }
+      expect(visibilityOf(recheck, ignoredIssues, [])).toBe('dismissed')
+    })
+
+    it('snoozeSuggestion should hide the issue for a day', async () => {
+      vi.mocked(DraftsService.updateIgnoredIssues).mockResolvedValue({} as never)
+
+      await useStore.getState().snoozeSuggestion('grammar_1')
+
+      const [issue] = useStore.getState().getDraftById('d1')!.ignoredIssues!
+      expect(visibilityOf(hedge, [issue], [])).toBe('snoozed')
+      expect(visibilityOf(hedge, [issue], [], issue.until! + 1)).toBe('visible')
+    })
+
+    it('restoreSuggestion should roll back when saving fails', async () => {
+      useStore.setState({ drafts: [{ ...draft, ignoredIssues: [{ rule: 'hedge', text: 'i think' }] }] })
+      vi.mocked(DraftsService.updateIgnoredIssues).mockRejectedValue(new Error('offline'))
+
+      await expect(useStore.getState().restoreSuggestion('grammar_1')).rejects.toThrow('offline')
+      expect(useStore.getState().getDraftById('d1')!.ignoredIssues).toHaveLength(1)
+    })
+
+    it('muteRule and unmuteRule should sync the muted rules', async () => {
+      const mute = vi.spyOn(MutedRulesService, 'muteRule').mockResolvedValue({ id: 'm1', user_id: 'u1', rule: 'hedge', created_at: '' })
+      const unmute = vi.spyOn(MutedRulesService, 'unmuteRule').mockRejectedValue(new Error('offline'))
+
+      await useStore.getState().muteRule('hedge')
+      expect(mute).toHaveBeenCalledWith('hedge')
+      expect(useStore.getState().mutedRules).toEqual(['hedge'])
+
+      await expect(useStore.getState().unmuteRule('hedge')).rejects.toThrow('offline')
+      expect(unmute).toHaveBeenCalledWith('hedge')
+      expect(useStore.getState().mutedRules).toEqual(['hedge'])
+    })
+  })
+
+  describe('Personal dictionary', () => {
+    const spellingSuggestion = {
+      id: 'spell_1',
+      type: 'spelling' as const,
+      original: 'Acme',
+      suggestion: 'acne',
+      explanation: 'Misspelled word: "Acme"',
+      source: 'local' as const,
+      priority: 1,
+      position: { start: 0, end: 4 },
+      confidence: 0.9
+    }
+
+    it('addToDictionary should save the word and drop its spelling suggestions', async () => {
+      const addEntry = vi.spyOn(UserDictionaryService, 'addEntry').mockResolvedValue({
+        id: 'e1', user_id: 'u1', word: 'acme', kind: 'dictionary', created_at: new Date().toISOString()
+      })
+      useStore.setState({ grammarSuggestions: [spellingSuggestion] })
+
+      await useStore.getState().addToDictionary('Acme')
+
+      const state = useStore.getState()
+      expect(addEntry).toHaveBeenCalledWith('acme', 'dictionary')
+      expect(state.customDictionary).toEqual(['acme'])
+      expect(state.grammarSuggestions).toHaveLength(0)
+      expect(state.exportUserDictionary()).toBe('acme\n')
+    })
+
+    it('ignoreWord should roll back when saving fails', async () => {
+      vi.spyOn(UserDictionaryService, 'addEntry').mockRejectedValue(new Error('offline'))
+
+      await expect(useStore.getState().ignoreWord('Acme')).rejects.toThrow('offline')
+      expect(useStore.getState().ignoredWords).toEqual([])
+    })
+
+    it('should only roll back the word that failed to save', async () => {
+      let failSave = (_error: Error) => {}
+      vi.spyOn(UserDictionaryService, 'addEntry')
+        .mockImplementationOnce(() => new Promise((_resolve, reject) => { failSave = reject }))
+        .mockResolvedValueOnce({ id: 'e2', user_id: 'u1', word: 'globex', kind: 'dictionary', created_at: new Date().toISOString() })
+
+      const failing = useStore.getState().addToDictionary('Acme')
+      await vi.waitFor(() => expect(UserDictionaryService.addEntry).toHaveBeenCalledOnce())
+      await useStore.getState().addToDictionary('Globex')
+      failSave(new Error('offline'))
+
+      await expect(failing).rejects.toThrow('offline')
+      expect(useStore.getState().customDictionary).toEqual(['globex'])
+    })
+  })
+
+  describe('Sent messages', () => {
+    it('loadSentMessages should read back the formatting that was sent', async () => {
+      vi.mocked(SentMessagesService.getSentMessages).mockResolvedValueOnce([{
+        id: 's1', user_id: 'u1', title: 'Launch', content: 'Plan\nShip Monday', recipient_email: 'a@example.com',
+        content_html: '<h1>Plan</h1><p>Ship <strong>Monday</strong></p>', sent_at: new Date().toISOString()
+      }])
+
+      await useStore.getState().loadSentMessages()
+
+      expect(useStore.getState().sentMessages[0].document).toEqual({
+        blocks: [
+          { type: 'heading1', runs: [{ text: 'Plan' }] },
+          { type: 'paragraph', runs: [{ text: 'Ship ' }, { text: 'Monday', marks: { bold: true } }] }
+        ]
+      })
+    })
+  })
+
   describe('Drafts CRUD', () => {
     it('loadDrafts should fetch drafts and update state', async () => {
-      const mockDrafts = [{ id: '1', user_id: 'u1', title: 'Draft 1', content: '...', created_at: new Date().toISOString(), updated_at: new Date().toISOString() }]
+      const mockDrafts = [{ id: '1', user_id: 'u1', title: 'Draft 1', content: '...', language: 'en-US', ignored_issues: [], rich_content: null, created_at: new Date().toISOString(), updated_at: new Date().toISOString() }]
       vi.mocked(DraftsService.getDrafts).mockResolvedValue(mockDrafts)
       
       await useStore.getState().loadDrafts()
@@ -148,8 +873,26 @@ describe('useStore', () => {
       expect(state.drafts[0].content).toBe('')
     })
 
+    it('setDraftLanguage should update and persist the draft language', async () => {
+      useStore.setState({ drafts: [{ id: '1', title: 'test', content: 'test', language: 'en-US', createdAt: new Date(), updatedAt: new Date() }], activeDraftId: '1' })
+      vi.mocked(DraftsService.updateDraftLanguage).mockResolvedValue({} as never)
+
+      await useStore.getState().setDraftLanguage('1', 'fr-FR')
+
+      expect(useStore.getState().drafts[0].language).toBe('fr-FR')
+      expect(DraftsService.updateDraftLanguage).toHaveBeenCalledWith('1', 'fr-FR')
+    })
+
+    it('setDraftLanguage should roll back when saving fails', async () => {
+      useStore.setState({ drafts: [{ id: '1', title: 'test', content: 'test', language: 'en-US', createdAt: new Date(), updatedAt: new Date() }], activeDraftId: '1' })
+      vi.mocked(DraftsService.updateDraftLanguage).mockRejectedValue(new Error('offline'))
+
+      await expect(useStore.getState().setDraftLanguage('1', 'de-DE')).rejects.toThrow('offline')
+      expect(useStore.getState().drafts[0].language).toBe('en-US')
+    })
+
     it('deleteDraft should remove a draft from the state', async () => {
-      useStore.setState({ drafts: [{ id: '1', title: 'test', content: 'test', createdAt: new Date(), updatedAt: new Date() }], activeDraftId: '1' })
+      useStore.setState({ drafts: [{ id: '1', title: 'test', content: 'test', language: 'en-US', createdAt: new Date(), updatedAt: new Date() }], activeDraftId: '1' })
       vi.mocked(DraftsService.deleteDraft).mockResolvedValue(undefined)
 
       await useStore.getState().deleteDraft('1')
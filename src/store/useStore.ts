@@ -1,19 +1,42 @@
-import { create } from "zustand"
+import { create, type StoreApi } from "zustand"
 import { DraftsService } from "../services/draftsService"
 import { SentMessagesService } from "../services/sentMessagesService"
-import type { Draft as SupabaseDraft, SentMessage as SupabaseSentMessage } from "../lib/supabase"
-import { spellChecker, type SpellCheckError } from "../services/spellChecker"
-import { grammarChecker } from "../services/grammarChecker"
-import { clarityChecker, type ClarityCheckResult } from "../services/clarityChecker"
+import { UserDictionaryService } from "../services/userDictionaryService"
+import { MutedRulesService } from "../services/mutedRulesService"
+import { SNOOZE_MS, issueFor, visibilityOf, withIgnoredIssue, withoutIgnoredIssue } from "../services/ignoredIssues"
+import type { Draft as SupabaseDraft, SentMessage as SupabaseSentMessage, DictionaryEntryKind, IgnoredIssue } from "../lib/supabase"
+import type { SpellCheckError } from "../services/spellChecker"
+import { analysisService } from "../services/analysisService"
+import { alternativesOf, buildSpellingSuggestions } from "../services/suggestionBuilders"
+import { clarityChecker, type ClarityCheckError, type ClarityCheckResult } from "../services/clarityChecker"
+import { findSkipRegions, maskSkipRegions, overlapsSkipRegion } from "../services/textSegmenter"
+import { toneChecker, type Tone, type ToneAnalysis } from "../services/toneChecker"
+import { DEFAULT_LANGUAGE, resolveLanguage, type LanguageCode } from "../services/languages"
+import { withPlainText, type RichDocument } from "../services/richDocument"
+import { parseHtml } from "../services/richDocumentDom"
+import {
+  computeTextChange,
+  findDirtyParagraphs,
+  isWithinRanges,
+  shiftSuggestions,
+  splitParagraphs,
+  type Paragraph,
+  type TextRange,
+} from "../services/paragraphTracker"
+import { emptyHistory, recordEdits, recordText, redoStep, undoStep, type EditHistory, type TextEdit } from "../services/editHistory"
+import { planBulkFix, type BulkFixFilter, type BulkFixPlan } from "../services/bulkFix"
 
 // Local interfaces that match our UI needs
 interface Draft {
   id: string
   title: string
   content: string
+  language: LanguageCode // Spell-check language for paragraphs whose language cannot be detected
   createdAt: Date
   updatedAt: Date
   isLocal?: boolean // New flag to track local-only drafts
+  ignoredIssues?: IgnoredIssue[] // Dismissed and snoozed suggestions, see services/ignoredIssues
+  document?: RichDocument // Formatted body; its plain text is `content`
 }
 
 interface SentMessage {
@@ -25,26 +48,33 @@ interface SentMessage {
   bccRecipients?: string
   sentAt: Date
   status: "delivered" | "pending" | "failed"
+  document?: RichDocument // Formatted body, read back from the HTML that was sent
+}
+
+export interface SuggestionAlternative {
+  text: string
+  confidence: number
 }
 
 export interface Suggestion {
   id: string
-  type: "grammar" | "spelling" | "clarity"
+  type: "grammar" | "spelling" | "clarity" | "tone"
   original: string
+  // The best replacement, applied by default
   suggestion: string
   explanation: string
   source: "local" | "window" | "sentence" | "paragraph" | "document"
   priority: number
   position: { start: number; end: number }
+  // Confidence of `suggestion`
   confidence: number
-}
-
-interface UndoState {
-  draftId: string
-  previousContent: string
-  appliedSuggestion: Suggestion
-  previousSuggestions: Suggestion[]
-  timestamp: number
+  // Every replacement to choose from, best first; the first is `suggestion`.
+  // Missing when `suggestion` is the only one (see alternativesOf).
+  alternatives?: SuggestionAlternative[]
+  // Advice without a concrete rewrite: shown, but never applied to the text
+  advisory?: boolean
+  // Id of the grammar/style rule that flagged it, used to dismiss and mute
+  rule?: string
 }
 
 // Helper functions to convert between Supabase and local types
@@ -52,10 +82,18 @@ const convertSupabaseDraft = (supabaseDraft: SupabaseDraft): Draft => ({
   id: supabaseDraft.id,
   title: supabaseDraft.title,
   content: supabaseDraft.content,
+  language: resolveLanguage(supabaseDraft.language),
+  ignoredIssues: supabaseDraft.ignored_issues ?? [],
+  document: supabaseDraft.rich_content ?? undefined,
   createdAt: new Date(supabaseDraft.created_at),
   updatedAt: new Date(supabaseDraft.updated_at),
 })
 
+// Formatted body for new plain-text content: the one the editor sent along, or
+// the draft's current one with the plain-text change applied (e.g. a suggestion)
+const documentFor = (draft: Draft | undefined, content: string, document?: RichDocument): RichDocument | undefined =>
+  document ?? (draft?.document && withPlainText(draft.document, content))
+
 const convertSupabaseSentMessage = (supabaseSent: SupabaseSentMessage): SentMessage => ({
   id: supabaseSent.id,
   title: supabaseSent.title,
@@ -65,8 +103,38 @@ const convertSupabaseSentMessage = (supabaseSent: SupabaseSentMessage): SentMess
   bccRecipients: supabaseSent.bcc_recipients,
   sentAt: new Date(supabaseSent.sent_at),
   status: "delivered", // Default status for sent messages
+  document: supabaseSent.content_html ? parseHtml(supabaseSent.content_html) : undefined,
 })
 
+// Text the current spelling suggestions were computed against (null = none yet)
+let lastSpellCheckedText: string | null = null
+
+let clarityRevision = 0
+let claritySuggestionCount = 0
+// After a 429 from check-grammar, no clarity requests are sent before this time (ms)
+let clarityPausedUntil = 0
+// Undo and redo wait for the save before them, so quick presses each move one step
+let historyMoves: Promise<void> = Promise.resolve()
+// Paragraphs checked for clarity at the same time
+const CLARITY_CONCURRENCY = 3
+let grammarRevision = 0
+let toneRevision = 0
+
+export type SuggestionSlice = "spelling" | "grammar" | "clarity" | "tone"
+
+/**
+ * The checker that owns a suggestion. Each checker replaces only its own slice:
+ * the spell checker, the local grammar rules (which also produce some clarity
+ * hints), the remote clarity check and tone rewrites.
+ */
+export const getSuggestionSlice = (suggestion: Suggestion): SuggestionSlice => {
+  if (suggestion.type === "spelling" || suggestion.type === "tone") return suggestion.type
+  return suggestion.source === "local" ? "grammar" : "clarity"
+}
+
+const withoutSlice = (suggestions: Suggestion[], slice: SuggestionSlice): Suggestion[] =>
+  suggestions.filter(s => getSuggestionSlice(s) !== slice)
+
 interface AppState {
   // Loading states
   isLoadingDrafts: boolean
@@ -76,21 +144,32 @@ interface AppState {
   grammarSuggestions: Suggestion[]
   isCheckingGrammar: boolean
   hoveredSuggestionId: string | null
-  checkGrammar: (text: string) => void
+  checkGrammar: (text: string) => Promise<void>
+  cancelGrammarCheck: () => void
   checkClarityAndTone: (text: string, mode?: 'clarity' | 'tone') => Promise<void>
   clearGrammarSuggestions: () => void
-  applySuggestion: (suggestionId: string) => void
+  // Replace the flagged text with the suggestion's alternative at `alternativeIndex` (the best one by default)
+  applySuggestion: (suggestionId: string, alternativeIndex?: number) => Promise<void>
   setHoveredSuggestion: (suggestionId: string | null) => void
+  // The fixes "Fix all" would make to the active draft, from the suggestions shown (null without a draft)
+  planBulkFix: (filter: BulkFixFilter) => BulkFixPlan | null
+  // Apply a planned "Fix all" as one save and one undo step; nothing changes if the save fails
+  applyBulkFix: (plan: BulkFixPlan) => Promise<void>
   
   // Suggestion validation
   validateSuggestion: (suggestion: Suggestion, currentText: string) => boolean
   cleanupInvalidSuggestions: () => void
   invalidateSuggestionsOnEdit: (oldText: string, newText: string) => void
 
-  // Undo functionality
-  undoStack: UndoState[]
+  // Undo/redo history of each draft's text: typing, applied suggestions and bulk fixes
+  editHistories: Record<string, EditHistory>
+  // Record the active draft's text, and the editor's document for it, after the user edited it
+  recordEdit: (text: string, document?: RichDocument) => void
   canUndo: () => boolean
-  undoLastSuggestion: () => void
+  canRedo: () => boolean
+  // Resolve once the draft is saved; a failed save leaves the history where it was
+  undo: () => Promise<void>
+  redo: () => Promise<void>
 
   // Cursor positioning after applying suggestions
   cursorPosition: number | null
@@ -100,17 +179,48 @@ interface AppState {
   checkSpelling: (text: string) => Promise<void>
   addSpellingSuggestions: (errors: SpellCheckError[]) => void
 
+  // Personal dictionary and ignore list (synced per user)
+  customDictionary: string[]
+  ignoredWords: string[]
+  loadUserDictionary: () => Promise<void>
+  addToDictionary: (word: string) => Promise<void>
+  ignoreWord: (word: string) => Promise<void>
+  removeDictionaryEntry: (word: string, kind: DictionaryEntryKind) => Promise<void>
+  exportUserDictionary: () => string
+
+  // Dismissed and snoozed suggestions (stored with the active draft) and muted rules (per user)
+  mutedRules: string[]
+  showDismissed: boolean
+  setShowDismissed: (show: boolean) => void
+  loadMutedRules: () => Promise<void>
+  muteRule: (rule: string) => Promise<void>
+  unmuteRule: (rule: string) => Promise<void>
+  dismissSuggestion: (id: string) => Promise<void>
+  snoozeSuggestion: (id: string) => Promise<void>
+  restoreSuggestion: (id: string) => Promise<void>
+
   // Clarity check functionality
   checkClarity: (text: string) => Promise<void>
+  // Why the last clarity check failed (sign-in, rate limit, quota, ...)
+  clarityError: ClarityCheckError | null
   addClaritySuggestions: (results: ClarityCheckResult[]) => void
 
+  // Tone detection and rewrites (whole draft, or the selected passage)
+  toneAnalysis: ToneAnalysis | null
+  isCheckingTone: boolean
+  toneError: string | null
+  selection: TextRange | null
+  setSelection: (selection: TextRange | null) => void
+  rewriteTone: (text: string, targetTone: Tone) => Promise<void>
+
   // Drafts functionality
   drafts: Draft[]
   activeDraftId: string | null
   setActiveDraft: (id: string) => void
   getDraftById: (id: string) => Draft | undefined
-  saveDraft: (title: string, content: string, id?: string) => Promise<string>
-  updateDraft: (id: string, title: string, content: string) => Promise<void>
+  saveDraft: (title: string, content: string, id?: string, document?: RichDocument) => Promise<string>
+  updateDraft: (id: string, title: string, content: string, document?: RichDocument) => Promise<void>
+  setDraftLanguage: (id: string, language: LanguageCode) => Promise<void>
   createNewDraft: () => string // Changed to sync since it's now local-only
   createLocalDraft: () => string // New method for creating local drafts
   persistDraft: (id: string) => Promise<string> // New method to persist local drafts
@@ -130,6 +240,141 @@ interface AppState {
   // Clear all user data (for logout)
   clearUserData: () => void
 }
+// Shared by addToDictionary and ignoreWord: update optimistically, drop the word's
+// spelling suggestions, then persist (rolling back if Supabase rejects it)
+const addDictionaryEntry = async (set: StoreApi<AppState>["setState"], get: StoreApi<AppState>["getState"], word: string, kind: DictionaryEntryKind) => {
+  const normalized = UserDictionaryService.normalizeWord(word)
+  if (!normalized) return
+
+  const listKey = kind === "dictionary" ? "customDictionary" : "ignoredWords"
+  if (get()[listKey].includes(normalized)) return
+
+  set((state) => ({
+    [listKey]: [...state[listKey], normalized].sort(),
+    grammarSuggestions: state.grammarSuggestions.filter(s =>
+      s.type !== "spelling" || s.original.toLowerCase() !== normalized
+    )
+  }))
+  await analysisService.setCustomWords(get().customDictionary, get().ignoredWords)
+
+  try {
+    await UserDictionaryService.addEntry(normalized, kind)
+  } catch (error) {
+    console.error("Failed to save dictionary entry:", error)
+    // Only take this word back out: others may have been added or removed meanwhile
+    set((state) => ({ [listKey]: state[listKey].filter(w => w !== normalized) }))
+    await analysisService.setCustomWords(get().customDictionary, get().ignoredWords)
+    throw error
+  }
+}
+
+// Shared by dismissSuggestion, snoozeSuggestion and restoreSuggestion: update the active
+// draft's ignored issues optimistically, then persist them with the draft (rolling back on failure)
+const updateIgnoredIssues = async (set: StoreApi<AppState>["setState"], get: StoreApi<AppState>["getState"], update: (issues: IgnoredIssue[]) => IgnoredIssue[]) => {
+  const { activeDraftId, getDraftById } = get()
+  const draft = activeDraftId ? getDraftById(activeDraftId) : undefined
+  if (!draft) return
+
+  const previous = draft.ignoredIssues ?? []
+  const setIssues = (ignoredIssues: IgnoredIssue[]) => set((state) => ({
+    drafts: state.drafts.map((d) => (d.id === draft.id ? { ...d, ignoredIssues } : d)),
+  }))
+
+  const ignoredIssues = update(previous)
+  setIssues(ignoredIssues)
+  if (draft.isLocal) return
+
+  try {
+    await DraftsService.updateIgnoredIssues(draft.id, ignoredIssues)
+  } catch (error) {
+    console.error("Failed to update ignored issues:", error)
+    setIssues(previous)
+    throw error
+  }
+}
+
+const withoutHistory = (histories: Record<string, EditHistory>, draftId: string): Record<string, EditHistory> => {
+  const { [draftId]: _removed, ...rest } = histories
+  return rest
+}
+
+// A draft's history; its text and document are the draft's latest, including typing and formatting not saved yet
+const historyOf = (state: AppState, draft: Draft): EditHistory =>
+  state.editHistories[draft.id] ?? emptyHistory(draft.content, draft.document)
+
+// Suggestions moved along with edits made to the text, in order
+const shiftThroughEdits = (suggestions: Suggestion[], edits: TextEdit[]): Suggestion[] =>
+  edits.reduce((current, { start, removed, inserted }) => shiftSuggestions(current, {
+    start,
+    oldEnd: start + removed.length,
+    newEnd: start + inserted.length,
+    delta: inserted.length - removed.length
+  }), suggestions)
+
+// Shared by applySuggestion, applyBulkFix and undo/redo: save the draft's new text, and only then
+// move its history along with `update` (its suggestions and cursor). A local draft is saved in memory
+// at once and may get a new id while it is persisted, so for it they move right away.
+const saveWithHistory = async (
+  set: StoreApi<AppState>["setState"],
+  get: StoreApi<AppState>["getState"],
+  draft: Draft,
+  history: EditHistory,
+  update: (state: AppState) => Partial<AppState>
+) => {
+  const commitHistory = () => set((state) => ({ ...update(state), editHistories: { ...state.editHistories, [draft.id]: history } }))
+  const saving = get().updateDraft(draft.id, draft.title, history.text, history.document)
+  if (draft.isLocal) commitHistory()
+  await saving
+  if (!draft.isLocal) commitHistory()
+}
+
+// Shared by undo and redo: move through the active draft's history, then bring the
+// draft and its suggestions along. Undoing a step offers the suggestions it applied again.
+// The history only moves once the draft is saved, so the two never disagree.
+const moveInHistory = async (set: StoreApi<AppState>["setState"], get: StoreApi<AppState>["getState"], direction: "undo" | "redo") => {
+  const state = get()
+  const draft = state.activeDraftId ? state.getDraftById(state.activeDraftId) : undefined
+  if (!draft) {
+    console.warn(`Cannot ${direction}: no active draft`)
+    return
+  }
+
+  const move = direction === "undo" ? undoStep(historyOf(state, draft)) : redoStep(historyOf(state, draft))
+  if (!move) return
+
+  if (!move.step) {
+    set((state) => ({ editHistories: { ...state.editHistories, [draft.id]: move.history } }))
+    console.warn(`Cannot ${direction}: the text it changed is gone, dropped it from the history`)
+    return
+  }
+
+  const { text } = move.history
+  const stepSuggestions = new Set(move.step.suggestions.map(s => s.id))
+  const remaining = shiftThroughEdits(state.grammarSuggestions.filter(s => !stepSuggestions.has(s.id)), move.applied)
+  // Undo puts the edits back in text order, so the k-th edit back is where the k-th suggestion's text returned
+  const restored = direction === "redo" ? [] : move.step.suggestions.flatMap((suggestion, index) => {
+    const edit = move.applied[move.applied.length - 1 - index]
+    const start = edit?.start ?? -1
+    if (text.slice(start, start + suggestion.original.length) !== suggestion.original) return []
+    return [{ ...suggestion, position: { start, end: start + suggestion.original.length } }]
+  })
+
+  const last = move.applied[move.applied.length - 1]
+  try {
+    await saveWithHistory(set, get, draft, move.history, () => ({
+      grammarSuggestions: [...remaining, ...restored],
+      cursorPosition: last ? last.start + last.inserted.length : null
+    }))
+  } catch (error) {
+    console.error(`Failed to save the draft after ${direction}:`, error)
+    return
+  }
+
+  state.checkSpelling(text).catch(error => {
+    console.error(`Failed to re-check spelling after ${direction}:`, error)
+  })
+  console.log(`✅ ${direction === "undo" ? "Undid" : "Redid"} ${move.step.kind}`)
+}
 
 export const useStore = create<AppState>((set, get) => ({
   // Loading states
@@ -142,109 +387,119 @@ export const useStore = create<AppState>((set, get) => ({
   hoveredSuggestionId: null,
 
   // Undo state
-  undoStack: [],
+  editHistories: {},
 
   // Cursor positioning
   cursorPosition: null,
 
-  checkGrammar: (text: string) => {
-    console.log("📝 Store: checkGrammar called (local). Text length:", text.length)
-    
-    // Local grammar check - instant and no API calls
-    if (!grammarChecker.isReady()) {
-      console.warn('⚠️ Grammar checker not ready yet')
-      return
+  checkGrammar: async (text: string) => {
+    console.log("📝 Store: checkGrammar called. Text length:", text.length)
+    const revision = ++grammarRevision
+
+    // Grammar runs in the analysis worker; a newer call supersedes this one (resolves null)
+    const { activeDraftId, getDraftById } = get()
+    const language = (activeDraftId && getDraftById(activeDraftId)?.language) || DEFAULT_LANGUAGE
+
+    try {
+      const grammarSuggestions = await analysisService.analyze("grammar", text, undefined, language)
+
+      // Superseded or cancelled while in flight: the text has moved on
+      if (!grammarSuggestions || revision !== grammarRevision) return
+
+      console.log("📝 Store: analysis worker returned", grammarSuggestions.length, "grammar suggestions")
+
+      // Replace only the local grammar slice; spelling and remote clarity are owned by their checkers
+      set((state) => ({
+        grammarSuggestions: [...withoutSlice(state.grammarSuggestions, "grammar"), ...grammarSuggestions]
+      }))
+    } catch (error) {
+      console.error("Grammar check failed:", error)
     }
+  },
 
-    console.log("📝 Store: calling grammarChecker.checkText...")
-    const grammarResults = grammarChecker.checkText(text)
-    console.log("📝 Store: grammarChecker returned", grammarResults.length, "results:", grammarResults)
-    
-    const grammarSuggestions: Suggestion[] = grammarResults.map((result, index) => ({
-      id: `grammar_${Date.now()}_${index}`,
-      type: result.type,
-      original: result.original,
-      suggestion: result.suggestion,
-      explanation: result.explanation,
-      source: "local" as const, // Local grammar checking
-      priority: result.type === 'grammar' ? 2 : 3, // Grammar higher priority than clarity
-      position: result.position,
-      confidence: 0.8 // Default confidence for local grammar suggestions
-    }))
-    
-    console.log("📝 Store: created", grammarSuggestions.length, "grammar suggestions:", grammarSuggestions)
-    
-    // Replace grammar/clarity suggestions but keep spelling suggestions
-    set((state) => {
-      const newSuggestions = [
-        ...state.grammarSuggestions.filter(s => s.source === "local" && s.type === "spelling"), // Keep spelling suggestions
-        ...grammarSuggestions // Replace grammar/clarity suggestions with new ones
-      ]
-      console.log("📝 Store: setting grammarSuggestions to", newSuggestions.length, "total suggestions")
-      return {
-        grammarSuggestions: newSuggestions
-      }
-    })
+  cancelGrammarCheck: () => {
+    grammarRevision++
+    analysisService.cancel("grammar")
   },
 
-  clearGrammarSuggestions: () => set({ grammarSuggestions: [] }),
+  clearGrammarSuggestions: () => {
+    lastSpellCheckedText = null
+    set({ grammarSuggestions: [] })
+  },
 
   setHoveredSuggestion: (suggestionId: string | null) => set({ hoveredSuggestionId: suggestionId }),
 
   // Future method for clarity/tone checking that WILL show loading bar
   checkClarityAndTone: async (text: string, mode: 'clarity' | 'tone' = 'clarity') => {
     console.log(`Store: checkClarityAndTone called with mode: ${mode}. Text length:`, text.length)
-    set({ isCheckingGrammar: true }) // Show loading bar for longer operations
-    
+
+    if (mode === 'clarity') {
+      await get().checkClarity(text)
+      return
+    }
+
+    const revision = ++toneRevision
+    set({ isCheckingTone: true, toneError: null })
+
     try {
-      // This will be implemented later for paragraph/document-level analysis
-      // For now, just a placeholder that shows how loading state should work
-      console.log(`Store: Would invoke clarity/tone check for ${mode}...`)
-      
-      // Simulate longer processing time for clarity/tone analysis
-      await new Promise(resolve => setTimeout(resolve, 100))
-      
-    } catch (error) {
-      console.error(`Store: Failed to check ${mode}:`, error)
+      const result = await toneChecker.analyzeTone(maskSkipRegions(text))
+      if (revision !== toneRevision) return
+
+      if ('code' in result) {
+        console.error('Tone analysis failed:', result.message)
+        set({ toneError: result.message })
+      } else {
+        console.log('🎭 Store: Detected', result.overall, 'tone')
+        set({ toneAnalysis: result })
+      }
     } finally {
-      console.log(`Store: Finished ${mode} check.`)
-      set({ isCheckingGrammar: false })
+      if (revision === toneRevision) {
+        set({ isCheckingTone: false })
+      }
     }
   },
 
-  // Local spell check implementation
+  // Local spell check implementation (runs in the analysis worker)
+  // Only paragraphs changed since the last pass are re-analysed
   checkSpelling: async (text: string) => {
-    if (!spellChecker.isReady()) {
-      console.warn('⚠️ Spell checker not ready yet')
-      return
+    const survivors = get().grammarSuggestions.filter(s => s.type === "spelling")
+    let dirtyParagraphs = findDirtyParagraphs(lastSpellCheckedText, text)
+
+    // Surviving suggestions must still match the text, otherwise fall back to a full pass
+    if (lastSpellCheckedText !== null && survivors.some(s => !get().validateSuggestion(s, text))) {
+      dirtyParagraphs = findDirtyParagraphs(null, text)
     }
 
-    const errors = await spellChecker.checkText(text)
-    get().addSpellingSuggestions(errors)
+    const dirtyRanges = dirtyParagraphs.map(({ start, end }) => ({ start, end }))
+    const isFullPass = dirtyParagraphs.length === splitParagraphs(text).length
+
+    // Nothing changed since the last completed pass
+    if (dirtyRanges.length === 0 && !isFullPass) return
+
+    const { activeDraftId, getDraftById } = get()
+    const language = (activeDraftId && getDraftById(activeDraftId)?.language) || DEFAULT_LANGUAGE
+    const spellingSuggestions = await analysisService.analyze("spelling", text, dirtyRanges, language)
+
+    // Superseded by a newer check while this one was in flight
+    if (!spellingSuggestions) return
+
+    lastSpellCheckedText = text
+    set((state) => ({
+      grammarSuggestions: [
+        ...state.grammarSuggestions.filter(s =>
+          s.type !== "spelling" || (!isFullPass && !isWithinRanges(s.position, dirtyRanges))
+        ),
+        ...spellingSuggestions
+      ]
+    }))
   },
 
   addSpellingSuggestions: (errors: SpellCheckError[]) => {
-    const spellingSuggestions: Suggestion[] = errors.map((error, index) => {
-      const hasRealSuggestions = error.suggestions.length > 0 && !error.suggestions.includes('(no suggestions)')
-      
-      return {
-        id: `spell_${Date.now()}_${index}`,
-        type: "spelling" as const,
-        original: error.word,
-        suggestion: hasRealSuggestions ? error.suggestions[0] : error.word, // Keep original word if no suggestions
-        explanation: hasRealSuggestions 
-          ? `Misspelled word: "${error.word}"${error.suggestions.length > 1 ? ` (${error.suggestions.length} suggestions)` : ''}`
-          : `Potential misspelling: "${error.word}"`,
-        source: "local" as const,
-        priority: hasRealSuggestions ? 1 : 0.5, // Lower priority for words without suggestions
-        position: error.position,
-        confidence: hasRealSuggestions ? 0.9 : 0.3 // Lower confidence if no suggestions
-      }
-    })
+    const spellingSuggestions = buildSpellingSuggestions(errors)
 
     // Remove old spelling suggestions and add new ones
     set((state) => {
-      const nonSpellingSuggestions = state.grammarSuggestions.filter(s => s.type !== "spelling")
+      const nonSpellingSuggestions = withoutSlice(state.grammarSuggestions, "spelling")
       const newSuggestions = [
         ...nonSpellingSuggestions,
         ...spellingSuggestions
@@ -255,59 +510,149 @@ export const useStore = create<AppState>((set, get) => ({
     })
   },
 
+  // Personal dictionary state
+  customDictionary: [],
+  ignoredWords: [],
+
+  loadUserDictionary: async () => {
+    try {
+      const entries = await UserDictionaryService.getEntries()
+      const customDictionary = entries.filter(e => e.kind === "dictionary").map(e => e.word)
+      const ignoredWords = entries.filter(e => e.kind === "ignore").map(e => e.word)
+
+      set({ customDictionary, ignoredWords })
+      await analysisService.setCustomWords(customDictionary, ignoredWords)
+      console.log("✅ Store: Loaded", entries.length, "personal dictionary entries")
+    } catch (error) {
+      console.error("❌ Store: Failed to load personal dictionary:", error)
+    }
+  },
+
+  addToDictionary: async (word: string) => {
+    await addDictionaryEntry(set, get, word, "dictionary")
+  },
+
+  ignoreWord: async (word: string) => {
+    await addDictionaryEntry(set, get, word, "ignore")
+  },
+
+  removeDictionaryEntry: async (word: string, kind: DictionaryEntryKind) => {
+    const normalized = UserDictionaryService.normalizeWord(word)
+    const listKey = kind === "dictionary" ? "customDictionary" : "ignoredWords"
+    const previous = get()[listKey]
+
+    set({ [listKey]: previous.filter(w => w !== normalized) })
+    await analysisService.setCustomWords(get().customDictionary, get().ignoredWords)
+
+    // The word may be flagged again anywhere, so the next spelling pass must cover the whole draft
+    lastSpellCheckedText = null
+    const { activeDraftId, getDraftById, checkSpelling } = get()
+    const activeDraft = activeDraftId ? getDraftById(activeDraftId) : undefined
+    if (activeDraft?.content.trim()) {
+      checkSpelling(activeDraft.content).catch(error => {
+        console.error("Failed to re-check spelling after removing dictionary entry:", error)
+      })
+    }
+
+    try {
+      await UserDictionaryService.removeEntry(normalized, kind)
+    } catch (error) {
+      console.error("Failed to remove dictionary entry:", error)
+      set({ [listKey]: previous })
+      await analysisService.setCustomWords(get().customDictionary, get().ignoredWords)
+      throw error
+    }
+  },
+
+  exportUserDictionary: () => UserDictionaryService.toWordList(get().customDictionary),
+
+  mutedRules: [],
+  showDismissed: false,
+
+  setShowDismissed: (show: boolean) => set({ showDismissed: show }),
+
+  loadMutedRules: async () => {
+    try {
+      const rules = await MutedRulesService.getRules()
+      set({ mutedRules: rules.map(r => r.rule) })
+      console.log("✅ Store: Loaded", rules.length, "muted rules")
+    } catch (error) {
+      console.error("❌ Store: Failed to load muted rules:", error)
+    }
+  },
+
+  muteRule: async (rule: string) => {
+    const previous = get().mutedRules
+    if (previous.includes(rule)) return
+
+    set({ mutedRules: [...previous, rule].sort() })
+    try {
+      await MutedRulesService.muteRule(rule)
+    } catch (error) {
+      console.error("Failed to mute rule:", error)
+      set({ mutedRules: previous })
+      throw error
+    }
+  },
+
+  unmuteRule: async (rule: string) => {
+    const previous = get().mutedRules
+    if (!previous.includes(rule)) return
+
+    set({ mutedRules: previous.filter(r => r !== rule) })
+    try {
+      await MutedRulesService.unmuteRule(rule)
+    } catch (error) {
+      console.error("Failed to unmute rule:", error)
+      set({ mutedRules: previous })
+      throw error
+    }
+  },
+
+  dismissSuggestion: async (id: string) => {
+    const suggestion = get().grammarSuggestions.find(s => s.id === id)
+    if (!suggestion) return
+
+    if (get().hoveredSuggestionId === id) set({ hoveredSuggestionId: null })
+    await updateIgnoredIssues(set, get, issues => withIgnoredIssue(issues, issueFor(suggestion)))
+  },
+
+  snoozeSuggestion: async (id: string) => {
+    const suggestion = get().grammarSuggestions.find(s => s.id === id)
+    if (!suggestion) return
+
+    if (get().hoveredSuggestionId === id) set({ hoveredSuggestionId: null })
+    await updateIgnoredIssues(set, get, issues => withIgnoredIssue(issues, issueFor(suggestion, Date.now() + SNOOZE_MS)))
+  },
+
+  restoreSuggestion: async (id: string) => {
+    const suggestion = get().grammarSuggestions.find(s => s.id === id)
+    if (!suggestion) return
+
+    await updateIgnoredIssues(set, get, issues => withoutIgnoredIssue(issues, issueFor(suggestion)))
+  },
+
   // Track text changes and invalidate suggestions affected by edits
-  // This is more aggressive than validateSuggestion - it removes suggestions when ANY character in their range is modified
+  // This is more aggressive than validateSuggestion - it removes suggestions when ANY character in their range is modified,
+  // and shifts the surviving ones after the edit so they keep pointing at the same text
   invalidateSuggestionsOnEdit: (oldText: string, newText: string) => {
     const { grammarSuggestions } = get()
     
     if (grammarSuggestions.length === 0) return
     
-    // Find the first difference between old and new text
-    let changeStart = 0
-    let changeEnd = Math.max(oldText.length, newText.length)
-    
-    // Find where the texts start to differ
-    while (changeStart < Math.min(oldText.length, newText.length) && 
-           oldText[changeStart] === newText[changeStart]) {
-      changeStart++
-    }
-    
-    // Find where the texts end their differences (working backwards)
-    let oldEnd = oldText.length - 1
-    let newEnd = newText.length - 1
-    
-    while (oldEnd >= changeStart && newEnd >= changeStart && 
-           oldText[oldEnd] === newText[newEnd]) {
-      oldEnd--
-      newEnd--
-    }
-    
-    changeEnd = oldEnd + 1 // Convert to exclusive end index
+    const change = computeTextChange(oldText, newText)
+    if (!change) return
     
-    console.log(`📝 Text change detected: indices ${changeStart}-${changeEnd} (old length: ${oldText.length}, new length: ${newText.length})`)
+    console.log(`📝 Text change detected: indices ${change.start}-${change.oldEnd} (old length: ${oldText.length}, new length: ${newText.length})`)
     
-    // Remove any suggestions whose range overlaps with the changed area
-    const validSuggestions = grammarSuggestions.filter(suggestion => {
-      const { start, end } = suggestion.position
-      
-      // If suggestion range overlaps with changed area, invalidate it
-      const overlaps = !(end <= changeStart || start >= changeEnd)
-      
-      if (overlaps) {
-        console.log(`❌ Invalidating ${suggestion.type} suggestion "${suggestion.original}" (range ${start}-${end}) due to text change at ${changeStart}-${changeEnd}`)
-        return false
-      }
-      
-      return true
-    })
+    const shiftedSuggestions = shiftSuggestions(grammarSuggestions, change)
     
-    // Update suggestions if any were removed
-    if (validSuggestions.length !== grammarSuggestions.length) {
-      const removedCount = grammarSuggestions.length - validSuggestions.length
+    if (shiftedSuggestions.length !== grammarSuggestions.length) {
+      const removedCount = grammarSuggestions.length - shiftedSuggestions.length
       console.log(`🧹 Removed ${removedCount} suggestions due to text edits`)
-      
-      set({ grammarSuggestions: validSuggestions })
     }
+    
+    set({ grammarSuggestions: shiftedSuggestions })
   },
 
   // Validate that a suggestion still applies to the current text (used for applying suggestions)
@@ -346,8 +691,8 @@ export const useStore = create<AppState>((set, get) => ({
     }
   },
 
-  applySuggestion: (suggestionId: string) => {
-    const { grammarSuggestions, activeDraftId, getDraftById, updateDraft, checkSpelling, validateSuggestion } = get()
+  applySuggestion: async (suggestionId: string, alternativeIndex = 0) => {
+    const { grammarSuggestions, activeDraftId, getDraftById, checkSpelling, validateSuggestion } = get()
     const suggestionToApply = grammarSuggestions.find((s) => s.id === suggestionId)
 
     if (!suggestionToApply || !activeDraftId) {
@@ -355,14 +700,29 @@ export const useStore = create<AppState>((set, get) => ({
       return
     }
 
+    if (suggestionToApply.advisory) {
+      console.warn("Could not apply suggestion: advisory suggestions have no rewrite.")
+      return
+    }
+
+    const replacement = alternativesOf(suggestionToApply)[alternativeIndex]?.text
+    if (replacement === undefined) {
+      console.error(`Could not apply suggestion: it has no alternative ${alternativeIndex}.`)
+      return
+    }
+
     const activeDraft = getDraftById(activeDraftId)
     if (!activeDraft) {
       console.error("Could not apply suggestion: active draft data not found.")
       return
     }
 
+    // The latest text, with any typing not saved to the draft yet
+    const history = historyOf(get(), activeDraft)
+    const originalText = history.text
+
     // Validate that the suggestion still applies to the current text
-    if (!validateSuggestion(suggestionToApply, activeDraft.content)) {
+    if (!validateSuggestion(suggestionToApply, originalText)) {
       console.warn("Cannot apply suggestion: original text has been modified or deleted")
       // Remove the invalid suggestion
       set((state) => ({
@@ -373,62 +733,23 @@ export const useStore = create<AppState>((set, get) => ({
 
     // Use position-based replacement instead of string replacement to handle duplicates correctly
     const { start, end } = suggestionToApply.position
-    const originalText = activeDraft.content
-    const newContent = originalText.slice(0, start) + suggestionToApply.suggestion + originalText.slice(end)
-
-    // Calculate the length difference to update remaining suggestion positions
-    const lengthDiff = suggestionToApply.suggestion.length - (end - start)
-
-    // Update positions of remaining suggestions that come after this one
-    const updatedSuggestions = grammarSuggestions
-      .filter((s) => s.id !== suggestionId) // Remove the applied suggestion
-      .map((suggestion) => {
-        // If suggestion starts after the applied change, shift its position
-        if (suggestion.position.start >= end) {
-          return {
-            ...suggestion,
-            position: {
-              start: suggestion.position.start + lengthDiff,
-              end: suggestion.position.end + lengthDiff
-            }
-          }
-        }
-        // If suggestion overlaps with applied change, remove it (conflicting suggestion)
-        else if (suggestion.position.end > start && suggestion.position.start < end) {
-          return null // Mark for removal
-        }
-        // Otherwise, keep suggestion unchanged
-        return suggestion
-      })
-      .filter((s): s is Suggestion => s !== null) // Remove null entries
-
-    // Update the draft content
-    updateDraft(activeDraftId, activeDraft.title, newContent)
+    const newContent = originalText.slice(0, start) + replacement + originalText.slice(end)
 
-    // Update suggestions list and trigger re-check for spelling
-    set((_state) => ({
-      grammarSuggestions: updatedSuggestions
-    }))
-
-    // Store undo state before applying the change
-    const undoState: UndoState = {
-      draftId: activeDraftId,
-      previousContent: originalText,
-      appliedSuggestion: suggestionToApply,
-      previousSuggestions: grammarSuggestions,
-      timestamp: Date.now()
+    // Record the change as one undo step and save the draft content and its formatting. Once saved, the
+    // applied suggestion and any it conflicts with go, the ones after it move, and the cursor goes to
+    // the end of the replaced text
+    const edit = { start, removed: originalText.slice(start, end), inserted: replacement }
+    const newCursorPosition = start + replacement.length
+    try {
+      await saveWithHistory(set, get, activeDraft, recordEdits(history, [edit], "suggestion", [suggestionToApply]), (state) => ({
+        grammarSuggestions: shiftThroughEdits(state.grammarSuggestions.filter((s) => s.id !== suggestionId), [edit]),
+        cursorPosition: newCursorPosition
+      }))
+    } catch (error) {
+      console.error("Failed to save the draft after applying a suggestion:", error)
+      return
     }
-
-    // Add to undo stack (keep only last 10 operations)
-    set((_state) => ({
-      undoStack: [undoState, ..._state.undoStack].slice(0, 10)
-    }))
-
-    // Set cursor position to the end of the replaced text
-    const newCursorPosition = start + suggestionToApply.suggestion.length
-    console.log(`📍 Setting cursor position: start=${start}, suggestionLength=${suggestionToApply.suggestion.length}, newPosition=${newCursorPosition}`)
-    console.log(`📍 Original text: "${suggestionToApply.original}" -> New text: "${suggestionToApply.suggestion}"`)
-    set({ cursorPosition: newCursorPosition })
+    console.log(`📍 Original text: "${suggestionToApply.original}" -> New text: "${replacement}", cursor at ${newCursorPosition}`)
 
     // Re-trigger spell check on the updated content (since it's <5ms, no performance concern)
     checkSpelling(newContent).catch(error => {
@@ -436,99 +757,179 @@ export const useStore = create<AppState>((set, get) => ({
     })
   },
 
-  canUndo: () => {
-    const { undoStack, activeDraftId } = get()
-    return undoStack.length > 0 && undoStack[0].draftId === activeDraftId
-  },
+  planBulkFix: (filter: BulkFixFilter) => {
+    const state = get()
+    const draft = state.activeDraftId ? state.getDraftById(state.activeDraftId) : undefined
+    if (!draft) return null
 
-  undoLastSuggestion: () => {
-    const { undoStack, activeDraftId, updateDraft, checkSpelling, getDraftById } = get()
-    
-    if (!activeDraftId || undoStack.length === 0) {
-      console.warn("Cannot undo: no active draft or empty undo stack")
-      return
-    }
+    // Dismissed, snoozed and muted suggestions are not fixed either
+    const now = Date.now()
+    const shown = state.grammarSuggestions.filter(s => visibilityOf(s, draft.ignoredIssues ?? [], state.mutedRules, now) === "visible")
+    return planBulkFix(historyOf(state, draft).text, shown, filter)
+  },
 
-    const lastUndo = undoStack[0]
-    
-    if (lastUndo.draftId !== activeDraftId) {
-      console.warn("Cannot undo: undo state is for a different draft")
-      return
-    }
+  applyBulkFix: async (plan: BulkFixPlan) => {
+    const state = get()
+    const draft = state.activeDraftId ? state.getDraftById(state.activeDraftId) : undefined
+    if (!draft) throw new Error("Cannot fix all: no active draft")
+    if (plan.edits.length === 0) return
 
-    // Restore the previous content (keep current title)
-    const currentDraft = getDraftById(activeDraftId)
-    const currentTitle = currentDraft?.title || "Untitled document"
-    updateDraft(activeDraftId, currentTitle, lastUndo.previousContent)
+    const history = historyOf(state, draft)
+    if (history.text !== plan.before) throw new Error("Cannot fix all: the draft changed since the preview")
 
-    // Restore the previous suggestions
-    set((state) => ({
-      grammarSuggestions: lastUndo.previousSuggestions,
-      undoStack: state.undoStack.slice(1) // Remove the used undo state
+    // Every fix goes out in one save: if it fails, none of them is applied
+    const applied = new Set(plan.suggestions.map(s => s.id))
+    await saveWithHistory(set, get, draft, recordEdits(history, plan.edits, "bulk", plan.suggestions), (state) => ({
+      grammarSuggestions: shiftThroughEdits(state.grammarSuggestions.filter(s => !applied.has(s.id)), plan.edits)
     }))
 
-    // Re-trigger spell check on the restored content
-    checkSpelling(lastUndo.previousContent).catch(error => {
-      console.error("Failed to re-check spelling after undo:", error)
+    get().checkSpelling(plan.after).catch(error => {
+      console.error("Failed to re-check spelling after fixing all:", error)
     })
+    console.log(`✅ Fixed ${plan.edits.length} suggestions`)
+  },
+
+  recordEdit: (text: string, document?: RichDocument) => {
+    const state = get()
+    const draft = state.activeDraftId ? state.getDraftById(state.activeDraftId) : undefined
+    if (!draft) return
 
-    console.log("✅ Undid suggestion application")
+    const history = recordText(historyOf(state, draft), text, Date.now(), document)
+    if (history !== state.editHistories[draft.id]) {
+      set((state) => ({ editHistories: { ...state.editHistories, [draft.id]: history } }))
+    }
+  },
+
+  canUndo: () => {
+    const { editHistories, activeDraftId } = get()
+    return !!activeDraftId && (editHistories[activeDraftId]?.undo.length ?? 0) > 0
   },
 
+  canRedo: () => {
+    const { editHistories, activeDraftId } = get()
+    return !!activeDraftId && (editHistories[activeDraftId]?.redo.length ?? 0) > 0
+  },
+
+  undo: () => (historyMoves = historyMoves.then(() => moveInHistory(set, get, "undo"))),
+
+  redo: () => (historyMoves = historyMoves.then(() => moveInHistory(set, get, "redo"))),
+
   // Clarity check implementation
+  // Each paragraph is analysed once per distinct content; unchanged paragraphs come from the cache
   checkClarity: async (text: string) => {
     if (!clarityChecker.isReady()) {
       console.warn('⚠️ Clarity checker not ready yet')
       return
     }
 
+    const revision = ++clarityRevision
+
     // Only check meaningful text (more than 20 characters for clarity analysis)
     if (text.trim().length < 20) {
       // Clear clarity suggestions if text is too short
       set((state) => ({
-        grammarSuggestions: state.grammarSuggestions.filter(s => s.type !== "clarity")
+        grammarSuggestions: withoutSlice(state.grammarSuggestions, "clarity")
       }))
       return
     }
 
+    // Leave code, URLs, quoted replies and the signature out of the request
+    const skipRegions = findSkipRegions(text)
+    const paragraphs = splitParagraphs(maskSkipRegions(text, skipRegions)).filter(p => p.text.trim().length >= 20)
+    // Checker results are relative to their paragraph
+    const inDraft = (paragraph: Paragraph, result: ClarityCheckResult): ClarityCheckResult => ({
+      ...result,
+      position: {
+        start: result.position.start + paragraph.start,
+        end: result.position.end + paragraph.start
+      }
+    })
+
+    // A result touching masked text quotes blanks for it, so it matches neither the draft nor anything to apply
+    const isShown = (result: ClarityCheckResult) => !overlapsSkipRegion(result.position, skipRegions)
+
+    // Paragraphs checked before come straight from the checker's cache
+    const cachedResults: ClarityCheckResult[] = []
+    const uncached: Paragraph[] = []
+    for (const paragraph of paragraphs) {
+      const cached = clarityChecker.getCached(paragraph.text)
+      if (cached) cachedResults.push(...cached.map(result => inDraft(paragraph, result)).filter(isShown))
+      else uncached.push(paragraph)
+    }
+    // While rate limited, only cached paragraphs are shown
+    const paused = Date.now() < clarityPausedUntil
+    let error: ClarityCheckError | null = paused ? get().clarityError : null
+
+    // Replace the clarity slice with the cached results now; fresh ones stream in below
+    set((state) => ({
+      grammarSuggestions: withoutSlice(state.grammarSuggestions, "clarity")
+    }))
+    get().addClaritySuggestions(cachedResults)
+
     try {
-      console.log('🔍 Store: Starting clarity check for text length:', text.length)
-      set({ isCheckingGrammar: true }) // Show loading state
-      
-      // Clear previous clarity suggestions before starting new check
-      set((state) => ({
-        grammarSuggestions: state.grammarSuggestions.filter(s => s.type !== "clarity")
-      }))
-      
-      const result = await clarityChecker.checkText(text)
-      
-      if (Array.isArray(result)) {
-        get().addClaritySuggestions(result)
-      } else {
-        // Handle error case
-        console.error('Clarity check failed:', result.message)
+      if (uncached.length > 0 && !paused) {
+        console.log('🔍 Store: Starting clarity check for', uncached.length, 'of', paragraphs.length, 'paragraphs')
+        set({ isCheckingGrammar: true }) // Show loading state
+
+        const checkParagraph = async (paragraph: Paragraph) => {
+          for await (const result of clarityChecker.streamText(paragraph.text)) {
+            // A newer check started; it will publish its own results (leaving the loop cancels the stream)
+            if (revision !== clarityRevision) return
+
+            if ('code' in result) {
+              console.error('Clarity check failed:', result.code, result.message)
+              error ??= result
+              if (result.retryAfter !== undefined) {
+                clarityPausedUntil = Math.max(clarityPausedUntil, Date.now() + result.retryAfter * 1000)
+              }
+            } else {
+              const suggestion = inDraft(paragraph, result)
+              if (isShown(suggestion)) get().addClaritySuggestions([suggestion])
+            }
+          }
+        }
+
+        // A few paragraphs at a time, in order; once rate limited, the rest wait for the next check
+        const queue = [...uncached]
+        const checkQueue = async () => {
+          while (revision === clarityRevision && Date.now() >= clarityPausedUntil) {
+            const paragraph = queue.shift()
+            if (!paragraph) return
+            await checkParagraph(paragraph)
+          }
+        }
+        await Promise.all(Array.from({ length: Math.min(CLARITY_CONCURRENCY, queue.length) }, checkQueue))
       }
+
+      if (revision !== clarityRevision) return
+      set({ clarityError: error })
     } catch (error) {
       console.error('Clarity check error:', error)
     } finally {
-      set({ isCheckingGrammar: false }) // Hide loading state
+      if (revision === clarityRevision) {
+        set({ isCheckingGrammar: false }) // Hide loading state
+      }
     }
   },
 
+  clarityError: null,
+
   addClaritySuggestions: (results: ClarityCheckResult[]) => {
-    const claritySuggestions: Suggestion[] = results.map((result, index) => ({
-      id: `clarity_${Date.now()}_${index}`,
+    const claritySuggestions: Suggestion[] = results.map((result) => ({
+      // Results arrive one at a time while streaming, so the index alone isn't unique
+      id: `clarity_${Date.now()}_${++claritySuggestionCount}`,
       type: "clarity" as const,
       original: result.original,
       suggestion: result.suggestion,
       explanation: result.explanation,
-      source: "local" as const, // OpenAI via local API
+      source: "paragraph" as const, // OpenAI via edge function, analysed per paragraph
       priority: 3, // Lower priority than spelling and grammar
       position: result.position,
-      confidence: result.confidence
+      confidence: result.confidence,
+      ...(result.alternatives && { alternatives: result.alternatives })
     }))
 
-    // Add new clarity suggestions (previous ones already cleared in checkClarity)
+    // Add new clarity suggestions (previous ones already cleared in checkClarity, fresh ones arrive as they stream)
     set((state) => ({
       grammarSuggestions: [...state.grammarSuggestions, ...claritySuggestions]
     }))
@@ -536,6 +937,64 @@ export const useStore = create<AppState>((set, get) => ({
     console.log('✅ Store: Added', claritySuggestions.length, 'clarity suggestions')
   },
 
+  // Tone state
+  toneAnalysis: null,
+  isCheckingTone: false,
+  toneError: null,
+  selection: null,
+
+  setSelection: (selection: TextRange | null) => set({
+    selection: selection && selection.end > selection.start ? selection : null
+  }),
+
+  rewriteTone: async (text: string, targetTone: Tone) => {
+    // Rewrite the selected passage if there is one, otherwise the whole draft
+    const { selection } = get()
+    const range = selection && selection.end <= text.length ? selection : { start: 0, end: text.length }
+    const revision = ++toneRevision
+
+    set({ isCheckingTone: true, toneError: null })
+
+    try {
+      const skipRegions = findSkipRegions(text)
+      const result = await toneChecker.rewriteTone(maskSkipRegions(text, skipRegions).slice(range.start, range.end), targetTone)
+      if (revision !== toneRevision) return
+
+      if ('code' in result) {
+        console.error('Tone rewrite failed:', result.message)
+        set({ toneError: result.message })
+        return
+      }
+
+      const toneSuggestions: Suggestion[] = result.flatMap((item, index) => {
+        const position = { start: item.position.start + range.start, end: item.position.end + range.start }
+        // The model never saw what is blanked out, so its rewrite would delete it
+        if (overlapsSkipRegion(position, skipRegions)) return []
+        return [{
+          id: `tone_${Date.now()}_${index}`,
+          type: "tone" as const,
+          original: text.slice(position.start, position.end),
+          suggestion: item.suggestion,
+          explanation: item.explanation,
+          source: range.start === 0 && range.end === text.length ? "document" as const : "window" as const,
+          priority: 3,
+          position,
+          confidence: item.confidence
+        }]
+      })
+
+      // A new rewrite replaces the previous one
+      set((state) => ({
+        grammarSuggestions: [...withoutSlice(state.grammarSuggestions, "tone"), ...toneSuggestions]
+      }))
+      console.log('✅ Store: Added', toneSuggestions.length, 'tone suggestions')
+    } finally {
+      if (revision === toneRevision) {
+        set({ isCheckingTone: false })
+      }
+    }
+  },
+
   setCursorPosition: (position: number | null) => set({ cursorPosition: position }),
 
   // Drafts state
@@ -545,8 +1004,11 @@ export const useStore = create<AppState>((set, get) => ({
   setActiveDraft: (id: string) => set((state) => ({ 
     activeDraftId: id,
     activeSentId: null, // Clear sent message when switching to draft
-    // Clear clarity suggestions when switching drafts (spelling suggestions can remain)
-    grammarSuggestions: state.grammarSuggestions.filter(s => s.type !== "clarity"),
+    // Clear clarity and tone results when switching drafts (spelling suggestions can remain)
+    grammarSuggestions: withoutSlice(withoutSlice(state.grammarSuggestions, "clarity"), "tone"),
+    toneAnalysis: null,
+    toneError: null,
+    selection: null,
     hoveredSuggestionId: null // Clear hover state
   })),
 
@@ -583,6 +1045,7 @@ export const useStore = create<AppState>((set, get) => ({
       id: newId,
       title: "Untitled document",
       content: "",
+      language: DEFAULT_LANGUAGE,
       createdAt: new Date(),
       updatedAt: new Date(),
       isLocal: true
@@ -611,7 +1074,13 @@ export const useStore = create<AppState>((set, get) => ({
 
     try {
       // Create the draft in the database
-      const supabaseDraft = await DraftsService.createDraft(localDraft.title, localDraft.content)
+      const supabaseDraft = await DraftsService.createDraft(
+        localDraft.title,
+        localDraft.content,
+        localDraft.language,
+        localDraft.ignoredIssues,
+        localDraft.document
+      )
       const persistedDraft = convertSupabaseDraft(supabaseDraft)
 
       // Replace the local draft with the persisted one
@@ -619,7 +1088,11 @@ export const useStore = create<AppState>((set, get) => ({
         drafts: state.drafts.map(draft => 
           draft.id === id ? persistedDraft : draft
         ),
-        activeDraftId: state.activeDraftId === id ? persistedDraft.id : state.activeDraftId
+        activeDraftId: state.activeDraftId === id ? persistedDraft.id : state.activeDraftId,
+        // The history follows the draft to its new id
+        editHistories: state.editHistories[id]
+          ? withoutHistory({ ...state.editHistories, [persistedDraft.id]: state.editHistories[id] }, id)
+          : state.editHistories
       }))
 
       return persistedDraft.id
@@ -629,11 +1102,12 @@ export const useStore = create<AppState>((set, get) => ({
     }
   },
 
-  saveDraft: async (title: string, content: string, id?: string) => {
+  saveDraft: async (title: string, content: string, id?: string, document?: RichDocument) => {
     try {
       if (id) {
         const state = get()
         const draft = state.drafts.find(d => d.id === id)
+        const nextDocument = documentFor(draft, content, document)
         
         if (draft?.isLocal) {
           // For local drafts, just update locally first
@@ -641,6 +1115,7 @@ export const useStore = create<AppState>((set, get) => ({
             ...draft,
             title,
             content,
+            document: nextDocument,
             updatedAt: new Date()
           }
           
@@ -656,7 +1131,7 @@ export const useStore = create<AppState>((set, get) => ({
           return id
         } else {
           // Update existing persisted draft
-          const supabaseDraft = await DraftsService.updateDraft(id, title, content)
+          const supabaseDraft = await DraftsService.updateDraft(id, title, content, nextDocument)
           const updatedDraft = convertSupabaseDraft(supabaseDraft)
 
           set((state) => ({
@@ -667,7 +1142,7 @@ export const useStore = create<AppState>((set, get) => ({
         }
       } else {
         // Create new draft - should rarely happen now since we use createNewDraft first
-        const supabaseDraft = await DraftsService.createDraft(title, content)
+        const supabaseDraft = await DraftsService.createDraft(title, content, undefined, undefined, document)
         const newDraft = convertSupabaseDraft(supabaseDraft)
 
         set((state) => ({
@@ -683,9 +1158,10 @@ export const useStore = create<AppState>((set, get) => ({
     }
   },
 
-  updateDraft: async (id: string, title: string, content: string) => {
+  updateDraft: async (id: string, title: string, content: string, document?: RichDocument) => {
     const state = get()
     const draft = state.drafts.find(d => d.id === id)
+    const nextDocument = documentFor(draft, content, document)
     
     if (draft?.isLocal) {
       // For local drafts, just update locally
@@ -693,6 +1169,7 @@ export const useStore = create<AppState>((set, get) => ({
         ...draft,
         title,
         content,
+        document: nextDocument,
         updatedAt: new Date()
       }
       
@@ -712,7 +1189,7 @@ export const useStore = create<AppState>((set, get) => ({
     } else {
       // Update persisted draft
       try {
-        const supabaseDraft = await DraftsService.updateDraft(id, title, content)
+        const supabaseDraft = await DraftsService.updateDraft(id, title, content, nextDocument)
         const updatedDraft = convertSupabaseDraft(supabaseDraft)
 
         set((state) => ({
@@ -725,6 +1202,34 @@ export const useStore = create<AppState>((set, get) => ({
     }
   },
 
+  setDraftLanguage: async (id: string, language: LanguageCode) => {
+    const draft = get().getDraftById(id)
+    if (!draft || draft.language === language) return
+
+    const previousLanguage = draft.language
+    set((state) => ({
+      drafts: state.drafts.map((d) => (d.id === id ? { ...d, language } : d)),
+    }))
+
+    // Paragraphs without a detectable language switch checker, so the next spelling pass
+    // (triggered by the editor when the language changes) must cover the whole draft
+    if (get().activeDraftId === id) {
+      lastSpellCheckedText = null
+    }
+
+    if (draft.isLocal) return
+
+    try {
+      await DraftsService.updateDraftLanguage(id, language)
+    } catch (error) {
+      console.error("Failed to update draft language:", error)
+      set((state) => ({
+        drafts: state.drafts.map((d) => (d.id === id ? { ...d, language: previousLanguage } : d)),
+      }))
+      throw error
+    }
+  },
+
   deleteDraft: async (id: string) => {
     const state = get()
     const draft = state.drafts.find(d => d.id === id)
@@ -734,6 +1239,7 @@ export const useStore = create<AppState>((set, get) => ({
       set((state) => ({
         drafts: state.drafts.filter((draft) => draft.id !== id),
         activeDraftId: state.activeDraftId === id ? null : state.activeDraftId,
+        editHistories: withoutHistory(state.editHistories, id),
       }))
     } else {
       // Delete persisted draft
@@ -743,6 +1249,7 @@ export const useStore = create<AppState>((set, get) => ({
         set((state) => ({
           drafts: state.drafts.filter((draft) => draft.id !== id),
           activeDraftId: state.activeDraftId === id ? null : state.activeDraftId,
+          editHistories: withoutHistory(state.editHistories, id),
         }))
       } catch (error) {
         console.error("Failed to delete draft:", error)
@@ -760,6 +1267,7 @@ export const useStore = create<AppState>((set, get) => ({
         sentMessages: [newSentMessage, ...state.sentMessages],
         drafts: draftDeleted ? state.drafts.filter((d) => d.id !== id) : state.drafts,
         activeDraftId: state.activeDraftId === id ? null : state.activeDraftId,
+        editHistories: draftDeleted ? withoutHistory(state.editHistories, id) : state.editHistories,
       }))
     } catch (error) {
       console.error("Failed to send draft:", error)
@@ -771,11 +1279,14 @@ export const useStore = create<AppState>((set, get) => ({
   sentMessages: [],
   activeSentId: null,
 
-  setActiveSent: (id: string) => set({ 
-    activeSentId: id,
-    grammarSuggestions: [], // Clear suggestions when viewing sent messages (read-only)
-    hoveredSuggestionId: null // Clear hover state too
-  }),
+  setActiveSent: (id: string) => {
+    lastSpellCheckedText = null
+    set({
+      activeSentId: id,
+      grammarSuggestions: [], // Clear suggestions when viewing sent messages (read-only)
+      hoveredSuggestionId: null // Clear hover state too
+    })
+  },
 
   getSentById: (id: string) => {
     const state = get()
@@ -808,8 +1319,19 @@ export const useStore = create<AppState>((set, get) => ({
   },
 
   clearUserData: () => {
+    lastSpellCheckedText = null
+    clarityChecker.clearCache()
+    clarityPausedUntil = 0
+    analysisService.setCustomWords([], []).catch(error => {
+      console.error("Failed to reset personal dictionary:", error)
+    })
     set({
+      customDictionary: [],
+      ignoredWords: [],
+      mutedRules: [],
+      showDismissed: false,
       drafts: [],
+      editHistories: {},
       sentMessages: [],
       activeDraftId: null,
       activeSentId: null,
@@ -817,6 +1339,11 @@ export const useStore = create<AppState>((set, get) => ({
       isLoadingSentMessages: false,
       grammarSuggestions: [],
       isCheckingGrammar: false,
+      clarityError: null,
+      toneAnalysis: null,
+      isCheckingTone: false,
+      toneError: null,
+      selection: null,
     })
   },
 }))
@@ -0,0 +1,45 @@
+import { applyCustomWords, runAnalysis, type AnalysisKind, type AnalysisRequest, type AnalysisResponse } from "../services/analysisEngine"
+
+// Highest revision seen per checker; anything older is stale and gets dropped
+const latestRevision: Record<AnalysisKind, number> = { spelling: 0, grammar: 0 }
+
+const isStale = (kind: AnalysisKind, revision: number) => revision < latestRevision[kind]
+
+const respond = (response: AnalysisResponse) => self.postMessage(response)
+
+self.onmessage = async (event: MessageEvent<AnalysisRequest>) => {
+  const request = event.data
+
+  if (request.type === "customWords") {
+    applyCustomWords(request.words, request.ignored)
+    return
+  }
+
+  const { kind, revision } = request
+
+  latestRevision[kind] = Math.max(latestRevision[kind], revision)
+
+  if (request.type === "cancel") {
+    return
+  }
+
+  // Yield once so that newer requests already queued behind this one can supersede it
+  await new Promise((resolve) => setTimeout(resolve, 0))
+  if (isStale(kind, revision)) {
+    respond({ kind, revision, status: "cancelled", suggestions: [] })
+    return
+  }
+
+  try {
+    const suggestions = await runAnalysis(kind, request.text, request.ranges, request.language)
+
+    if (isStale(kind, revision)) {
+      respond({ kind, revision, status: "cancelled", suggestions: [] })
+      return
+    }
+
+    respond({ kind, revision, status: "done", suggestions })
+  } catch (error) {
+    respond({ kind, revision, status: "error", suggestions: [], error: (error as Error).message })
+  }
+}
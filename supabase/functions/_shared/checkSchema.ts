@@ -0,0 +1,219 @@
+// Response schema of the check-grammar function, shared by the Deno function
+// and the browser services (clarityChecker, toneChecker). No imports, no
+// runtime-specific globals: both sides load this file as-is.
+
+export const SUGGESTION_TYPES = ["clarity", "tone"] as const
+export type CheckSuggestionType = typeof SUGGESTION_TYPES[number]
+
+export const SEVERITIES = ["low", "medium", "high"] as const
+export type Severity = typeof SEVERITIES[number]
+
+// Tones the classifier may report; rewrites may only target TARGET_TONES
+export const TONES = ["formal", "friendly", "assertive", "confident", "neutral", "apologetic", "passive-aggressive", "urgent"] as const
+export type Tone = typeof TONES[number]
+export const TARGET_TONES: Tone[] = ["formal", "friendly", "assertive", "confident", "neutral"]
+
+/**
+ * Another way to rewrite a suggestion's text
+ */
+export interface ModelAlternative {
+  suggestion: string
+  // How sure the model is that this rewrite helps (0-1)
+  confidence: number
+}
+
+/**
+ * A suggestion as the model writes it: it points at a numbered segment of the
+ * text and quotes the words to replace
+ */
+export interface ModelSuggestion {
+  type: CheckSuggestionType
+  segment: number
+  original: string
+  // The replacement text
+  suggestion: string
+  // How sure the model is that `suggestion` helps (0-1)
+  confidence?: number
+  // Further rewrites of `original`, best first
+  alternatives?: ModelAlternative[]
+  explanation: string
+  severity: Severity
+}
+
+/**
+ * A suggestion as the function returns it, with the span of `original` in the
+ * request text
+ */
+export interface CheckSuggestion extends ModelSuggestion {
+  start: number
+  end: number
+}
+
+export interface SuggestionsResponse {
+  suggestions: CheckSuggestion[]
+}
+
+/**
+ * One line of a streamed clarity check (`stream: true`), sent as NDJSON:
+ * suggestions as the model writes them, then "done" or "error". A "done" that
+ * is `partial` ends a reply that broke off after some suggestions: keep them,
+ * but don't cache them as the paragraph's answer.
+ */
+export type ClarityStreamEvent =
+  | { type: "suggestion"; suggestion: CheckSuggestion }
+  | { type: "done"; partial?: true }
+  | { type: "error"; error: string; code: CheckErrorCode }
+
+export const CLARITY_STREAM_CONTENT_TYPE = "application/x-ndjson"
+
+export interface ToneSentence {
+  sentence: string
+  tone: Tone
+  evidence: string
+}
+
+export interface ToneResponse {
+  tone: {
+    overall: Tone
+    confidence: number
+    sentences: ToneSentence[]
+  }
+}
+
+/**
+ * Why a check failed. The function sends its codes in `{ error, code }`
+ * bodies; the client adds its own for failures it detects itself.
+ */
+export type CheckErrorCode =
+  // Function
+  | "UNAUTHORIZED"
+  | "RATE_LIMITED"
+  | "QUOTA_EXCEEDED"
+  | "INVALID_REQUEST"
+  | "PROVIDER_ERROR"
+  | "EMPTY_MODEL_OUTPUT"
+  | "MODEL_OUTPUT_NOT_JSON"
+  | "MODEL_OUTPUT_INVALID"
+  | "INTERNAL_ERROR"
+  // Client
+  | "NOT_INITIALIZED"
+  | "EMPTY_TEXT"
+  | "INVALID_TONE"
+  | "NETWORK_ERROR"
+  | "API_ERROR"
+  | "INVALID_RESPONSE"
+  | "SERVICE_ERROR"
+
+export interface ErrorResponse {
+  error: string
+  code?: CheckErrorCode
+  // Seconds until a RATE_LIMITED or QUOTA_EXCEEDED call may be retried (also sent as Retry-After)
+  retryAfter?: number
+}
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; issues: string[] }
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const isConfidence = (value: unknown) => typeof value === "number" && value >= 0 && value <= 1
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === "string" && (values as readonly string[]).includes(value)
+
+export const isTone = (value: unknown): value is Tone => isOneOf(TONES, value)
+
+/**
+ * Check one suggestion. `expectedType` pins the type to the task, `withSpan`
+ * requires the offsets the function adds.
+ */
+function suggestionIssues(value: unknown, path: string, expectedType: CheckSuggestionType, withSpan: boolean): string[] {
+  if (!isObject(value)) return [`${path} must be an object`]
+
+  const issues: string[] = []
+  if (value.type !== expectedType) issues.push(`${path}.type must be "${expectedType}"`)
+  if (!Number.isInteger(value.segment) || (value.segment as number) < 1) issues.push(`${path}.segment must be a segment number`)
+  for (const field of ["original", "suggestion", "explanation"]) {
+    if (typeof value[field] !== "string" || !(value[field] as string).trim()) issues.push(`${path}.${field} must be a non-empty string`)
+  }
+  if (!isOneOf(SEVERITIES, value.severity)) issues.push(`${path}.severity must be one of ${SEVERITIES.join(", ")}`)
+  if (value.confidence !== undefined && !isConfidence(value.confidence)) issues.push(`${path}.confidence must be a number from 0 to 1`)
+  if (value.alternatives !== undefined) {
+    if (!Array.isArray(value.alternatives)) {
+      issues.push(`${path}.alternatives must be an array`)
+    } else {
+      value.alternatives.forEach((alternative, index) => {
+        const alternativePath = `${path}.alternatives[${index}]`
+        if (!isObject(alternative)) {
+          issues.push(`${alternativePath} must be an object`)
+          return
+        }
+        if (typeof alternative.suggestion !== "string" || !alternative.suggestion.trim()) issues.push(`${alternativePath}.suggestion must be a non-empty string`)
+        if (!isConfidence(alternative.confidence)) issues.push(`${alternativePath}.confidence must be a number from 0 to 1`)
+      })
+    }
+  }
+
+  if (withSpan) {
+    const { start, end } = value
+    if (!Number.isInteger(start) || !Number.isInteger(end) || (start as number) < 0 || (end as number) <= (start as number)) {
+      issues.push(`${path} must have a span with 0 <= start < end`)
+    } else if (typeof value.original === "string" && (end as number) - (start as number) !== value.original.length) {
+      issues.push(`${path} span must cover "original" exactly`)
+    }
+  }
+
+  return issues
+}
+
+function validateSuggestionList<T>(value: unknown, expectedType: CheckSuggestionType, withSpan: boolean): ValidationResult<{ suggestions: T[] }> {
+  if (!isObject(value) || !Array.isArray(value.suggestions)) {
+    return { ok: false, issues: ['the response must be an object with a "suggestions" array'] }
+  }
+
+  const issues = value.suggestions.flatMap((item, index) => suggestionIssues(item, `suggestions[${index}]`, expectedType, withSpan))
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: { suggestions: value.suggestions as T[] } }
+}
+
+/**
+ * Validate what the model returned for a clarity check or a tone rewrite
+ */
+export const validateModelSuggestions = (value: unknown, expectedType: CheckSuggestionType) =>
+  validateSuggestionList<ModelSuggestion>(value, expectedType, false)
+
+/**
+ * Validate the function's response to a clarity check or a tone rewrite
+ */
+export const validateSuggestionsResponse = (value: unknown, expectedType: CheckSuggestionType): ValidationResult<SuggestionsResponse> =>
+  validateSuggestionList<CheckSuggestion>(value, expectedType, true)
+
+/**
+ * Validate a tone classification (the model's output and the function's
+ * response have the same shape)
+ */
+export function validateToneResponse(value: unknown): ValidationResult<ToneResponse> {
+  if (!isObject(value) || !isObject(value.tone)) {
+    return { ok: false, issues: ['the response must be an object with a "tone" object'] }
+  }
+
+  const { overall, confidence, sentences } = value.tone
+  const issues: string[] = []
+  if (!isTone(overall)) issues.push(`tone.overall must be one of ${TONES.join(", ")}`)
+  if (!isConfidence(confidence)) issues.push("tone.confidence must be a number from 0 to 1")
+  if (!Array.isArray(sentences)) {
+    issues.push("tone.sentences must be an array")
+  } else {
+    sentences.forEach((entry, index) => {
+      const path = `tone.sentences[${index}]`
+      if (!isObject(entry)) {
+        issues.push(`${path} must be an object`)
+        return
+      }
+      if (typeof entry.sentence !== "string" || !entry.sentence.trim()) issues.push(`${path}.sentence must be a non-empty string`)
+      if (!isTone(entry.tone)) issues.push(`${path}.tone must be one of ${TONES.join(", ")}`)
+      if (typeof entry.evidence !== "string") issues.push(`${path}.evidence must be a string`)
+    })
+  }
+
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: value as unknown as ToneResponse }
+}
@@ -0,0 +1,26 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import { normalizeText, toNormalizedSpan, toOriginalSpan } from './normalizedText.ts'
+
+describe('normalizeText', () => {
+  it('should trim and collapse whitespace, keeping original offsets', () => {
+    const normalized = normalizeText('  Hi\n\tthere  you. ')
+
+    expect(normalized.text).toBe('Hi there you.')
+    expect(normalized.offsets).toHaveLength(normalized.text.length)
+    expect(normalized.offsets.slice(0, 4)).toEqual([2, 3, 5, 6])
+  })
+
+  it('should map spans both ways', () => {
+    const text = 'One  two\nthree four.'
+    const normalized = normalizeText(text)
+
+    const span = toNormalizedSpan(normalized, { start: 5, end: 14 })
+    expect(normalized.text.slice(span.start, span.end)).toBe('two three')
+    expect(toOriginalSpan(normalized, span)).toEqual({ start: 5, end: 14 })
+  })
+
+  it('should give texts that differ only in whitespace the same normalized text', () => {
+    expect(normalizeText('a  b\nc').text).toBe(normalizeText(' a b c ').text)
+  })
+})
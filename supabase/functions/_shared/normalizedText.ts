@@ -0,0 +1,62 @@
+// Whitespace-normalized text for the clarity result caches (the function's
+// Postgres cache and the browser LRU in clarityChecker). Like checkSchema.ts it
+// has no imports and no runtime-specific globals.
+
+export interface Span {
+  start: number
+  end: number
+}
+
+/**
+ * A text with surrounding whitespace trimmed and every inner run of whitespace
+ * (newlines included) collapsed to one space, so re-indented or re-wrapped
+ * paragraphs share a cache entry
+ */
+export interface NormalizedText {
+  text: string
+  // Index in the original text of each normalized character
+  offsets: number[]
+}
+
+export function normalizeText(text: string): NormalizedText {
+  let normalized = ""
+  const offsets: number[] = []
+  const word = /\S+/g
+  let match
+
+  while ((match = word.exec(text)) !== null) {
+    if (normalized) {
+      normalized += " "
+      offsets.push(match.index - 1)
+    }
+    normalized += match[0]
+    for (let i = 0; i < match[0].length; i++) offsets.push(match.index + i)
+  }
+
+  return { text: normalized, offsets }
+}
+
+// Number of normalized characters that start before `position` in the original
+const countBefore = (offsets: number[], position: number): number => {
+  let low = 0
+  let high = offsets.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (offsets[mid] < position) low = mid + 1
+    else high = mid
+  }
+  return low
+}
+
+/**
+ * Map a span of the original text onto the normalized text
+ */
+export const toNormalizedSpan = ({ offsets }: NormalizedText, { start, end }: Span): Span =>
+  ({ start: countBefore(offsets, start), end: countBefore(offsets, end) })
+
+/**
+ * Map a span of the normalized text back onto the original text. The result
+ * covers the same words, with the original's own whitespace between them.
+ */
+export const toOriginalSpan = ({ offsets }: NormalizedText, { start, end }: Span): Span =>
+  ({ start: offsets[start], end: offsets[end - 1] + 1 })
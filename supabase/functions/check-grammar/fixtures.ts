@@ -0,0 +1,93 @@
+import type { MockFixture } from "./llm.ts"
+
+// Wordy phrases the mock "model" rewrites, mirroring the examples in the clarity
+// prompt: the phrase, its best rewrite and any other rewrites
+const WORDY_PHRASES: [string, string, ...string[]][] = [
+  ["due to the fact that", "because", "since"],
+  ["in order to", "to"],
+  ["at this point in time", "now"],
+  ["it is important to note that", "note that"],
+  ["very important", "important"],
+]
+
+// Words that give a sentence away, checked in order
+const TONE_MARKERS: [string, RegExp][] = [
+  ["apologetic", /\b(?:sorry|apologi[sz]e)\b/i],
+  ["passive-aggressive", /\b(?:as I (?:said|mentioned)|per my last email)\b/i],
+  ["urgent", /\b(?:asap|urgent(?:ly)?|immediately)\b/i],
+  ["friendly", /\b(?:thanks|thank you|cheers)\b/i],
+]
+
+// Suggestion tasks receive "[id] sentence" lines (see formatSegments)
+const SEGMENT_LINE = /^\[(\d+)\] (.*)$/gm
+
+const splitSentences = (text: string): string[] =>
+  text.match(/[^.!?\n]+[.!?]*/g)?.map(sentence => sentence.trim()).filter(Boolean) ?? []
+
+const matchCase = (original: string, replacement: string): string =>
+  /^[A-Z]/.test(original) ? replacement[0].toUpperCase() + replacement.slice(1) : replacement
+
+function clarityResponse(input: string) {
+  const suggestions = []
+  for (const [, id, text] of input.matchAll(SEGMENT_LINE)) {
+    for (const [phrase, replacement, ...alternatives] of WORDY_PHRASES) {
+      const index = text.toLowerCase().indexOf(phrase)
+      if (index === -1) continue
+      const original = text.slice(index, index + phrase.length)
+      suggestions.push({
+        type: "clarity",
+        segment: Number(id),
+        original,
+        suggestion: matchCase(original, replacement),
+        confidence: 0.9,
+        ...(alternatives.length > 0 && {
+          alternatives: alternatives.map(alternative => ({ suggestion: matchCase(original, alternative), confidence: 0.6 })),
+        }),
+        explanation: `"${phrase}" can be shortened to "${replacement}"`,
+        severity: "low",
+      })
+    }
+  }
+  return { suggestions }
+}
+
+function toneDetectionResponse(text: string) {
+  const sentences = []
+  for (const sentence of splitSentences(text)) {
+    const marker = TONE_MARKERS.find(([, pattern]) => pattern.test(sentence))
+    if (marker) {
+      sentences.push({ sentence, tone: marker[0], evidence: `"${sentence.match(marker[1])?.[0]}" signals a ${marker[0]} tone` })
+    }
+  }
+  return {
+    tone: {
+      overall: sentences[0]?.tone ?? "neutral",
+      confidence: sentences.length > 0 ? 0.8 : 0.5,
+      sentences,
+    },
+  }
+}
+
+function toneRewriteResponse(input: string) {
+  const suggestions = Array.from(input.matchAll(SEGMENT_LINE))
+    .filter(([, , sentence]) => /\b(?:asap|immediately)\b/i.test(sentence))
+    .map(([, id, sentence]) => ({
+      type: "tone",
+      segment: Number(id),
+      original: sentence,
+      suggestion: sentence.replace(/\b(?:asap|immediately)\b/gi, "when you have a moment"),
+      explanation: "Pressing for speed can read as demanding.",
+      severity: "medium",
+    }))
+  return { suggestions }
+}
+
+/**
+ * Fixtures served by LLM_PROVIDER=mock. They answer any input with simple
+ * rules; put exact-input fixtures in front of them to pin a response.
+ */
+export const MOCK_FIXTURES: MockFixture[] = [
+  { task: "clarity", response: clarityResponse },
+  { task: "tone-detection", response: toneDetectionResponse },
+  { task: "tone-rewrite", response: toneRewriteResponse },
+]
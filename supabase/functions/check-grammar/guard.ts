@@ -0,0 +1,48 @@
+// Who may call check-grammar, and how much. The Supabase-backed implementations
+// live in supabaseGuard.ts; everything here is runtime-agnostic.
+
+export interface Caller {
+  userId: string
+}
+
+/**
+ * Resolve the signed-in user behind a request, or null if there is none
+ */
+export type Authenticator = (req: Request) => Promise<Caller | null>
+
+export type UsageDecision =
+  | { allowed: true }
+  // `retryAfter` is in seconds
+  | { allowed: false; reason: "rate" | "quota"; retryAfter: number }
+
+/**
+ * Per-user request rate and daily token budget. `consume` records the usage
+ * when it is allowed.
+ */
+export interface UsageLimiter {
+  consume(userId: string, tokens: number): Promise<UsageDecision>
+}
+
+/**
+ * Rough token count for quota purposes (about four characters per token for
+ * English prose)
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4)
+
+/**
+ * CORS headers for a request: the caller's origin is echoed back only if it is
+ * one of `allowedOrigins`, so other sites cannot call the function from a browser
+ */
+export function corsHeadersFor(req: Request, allowedOrigins: string[]): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Expose-Headers": "retry-after",
+    "Vary": "Origin",
+  }
+
+  const origin = req.headers.get("Origin")
+  if (origin && allowedOrigins.includes(origin)) {
+    headers["Access-Control-Allow-Origin"] = origin
+  }
+  return headers
+}
@@ -0,0 +1,419 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { handleRequest, type HandlerDeps } from './handler.ts'
+import { MockProvider, OpenAICompatibleProvider, type LLMProvider } from './llm.ts'
+import { MOCK_FIXTURES } from './fixtures.ts'
+import { createProvider, loadProvider } from './providers.ts'
+import type { ResultCache } from './resultCache.ts'
+
+const post = (body: unknown) =>
+  new Request('http://localhost/functions/v1/check-grammar', { method: 'POST', body: JSON.stringify(body) })
+
+const mock = new MockProvider(MOCK_FIXTURES)
+
+// In-memory stand-in for the check_cache table
+const memoryCache = (): ResultCache & { entries: Map<string, unknown> } => {
+  const entries = new Map()
+  return {
+    entries,
+    get: async ({ textHash, version }) => entries.get(`${textHash}/${version}`) ?? null,
+    set: async ({ textHash, version }, suggestions) => { entries.set(`${textHash}/${version}`, suggestions) },
+  }
+}
+
+// A signed-in caller with no limits and an empty cache
+const deps = (provider: LLMProvider | null, overrides: Partial<HandlerDeps> = {}): HandlerDeps => ({
+  provider,
+  authenticate: async () => ({ userId: 'user-1' }),
+  limiter: { consume: async () => ({ allowed: true }) },
+  cache: memoryCache(),
+  allowedOrigins: ['http://localhost:5173'],
+  ...overrides,
+})
+
+describe('check-grammar handler', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should answer clarity requests from the provider', async () => {
+    const response = await handleRequest(post({ text: 'We met in order to plan.' }), deps(mock))
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({
+      suggestions: [{ type: 'clarity', segment: 1, original: 'in order to', suggestion: 'to', confidence: 0.9, explanation: expect.any(String), severity: 'low', start: 7, end: 18 }]
+    })
+  })
+
+  it('should pass on alternative rewrites', async () => {
+    const response = await handleRequest(post({ text: 'Due to the fact that it rained, we stayed in.' }), deps(mock))
+
+    const { suggestions } = await response.json()
+    expect(suggestions[0]).toMatchObject({ suggestion: 'Because', alternatives: [{ suggestion: 'Since', confidence: 0.6 }] })
+  })
+
+  it('should send clarity text as numbered segments and drop hallucinated snippets', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const provider: LLMProvider = {
+      name: 'spy',
+      complete: vi.fn().mockResolvedValue(JSON.stringify({
+        suggestions: [
+          { type: 'clarity', segment: 2, original: 'at this point in time', suggestion: 'now', explanation: 'Shorter', severity: 'low' },
+          { type: 'clarity', segment: 1, original: 'a sentence nobody wrote', suggestion: 'x', explanation: 'Made up', severity: 'low' }
+        ]
+      }))
+    }
+
+    const response = await handleRequest(post({ text: 'Hi. We are busy at this point in time.' }), deps(provider))
+
+    expect(vi.mocked(provider.complete).mock.calls[0][0].messages[1].content).toBe('[1] Hi.\n[2] We are busy at this point in time.')
+    const { suggestions } = await response.json()
+    expect(suggestions).toHaveLength(1)
+    expect(suggestions[0]).toMatchObject({ start: 16, end: 37 })
+  })
+
+  it('should pass the task and prompts to the provider', async () => {
+    const provider: LLMProvider = { name: 'spy', complete: vi.fn().mockResolvedValue('{"suggestions":[]}') }
+
+    await handleRequest(post({ text: 'Send it ASAP.', mode: 'tone', targetTone: 'friendly' }), deps(provider))
+
+    const request = vi.mocked(provider.complete).mock.calls[0][0]
+    expect(request.task).toBe('tone-rewrite')
+    expect(request.messages[0].content).toContain('reads as friendly')
+    expect(request.messages[1]).toEqual({ role: 'user', content: '[1] Send it ASAP.' })
+  })
+
+  it('should detect tone with the mock provider', async () => {
+    const response = await handleRequest(post({ text: 'Hi. Sorry for the delay.', mode: 'tone' }), deps(mock))
+    const { tone } = await response.json()
+
+    expect(tone.overall).toBe('apologetic')
+    expect(tone.sentences[0].sentence).toBe('Sorry for the delay.')
+  })
+
+  it('should prefer exact-input fixtures', async () => {
+    const provider = new MockProvider([
+      { task: 'clarity', input: '[1] Pinned.', response: { suggestions: [{ type: 'clarity', segment: 1, original: 'Pinned.', suggestion: 'Fixed.', explanation: 'test', severity: 'low' }] } },
+      ...MOCK_FIXTURES
+    ])
+
+    const pinned = await (await handleRequest(post({ text: 'Pinned.' }), deps(provider))).json()
+    const other = await (await handleRequest(post({ text: 'Other.' }), deps(provider))).json()
+
+    expect(pinned.suggestions[0].suggestion).toBe('Fixed.')
+    expect(pinned.suggestions[0].start).toBe(0)
+    expect(other.suggestions).toEqual([])
+  })
+
+  it('should reject unsupported modes and tones', async () => {
+    expect((await handleRequest(post({ text: 'Hi.', mode: 'poetry' }), deps(mock))).status).toBe(400)
+    expect((await handleRequest(post({ text: 'Hi.', mode: 'tone', targetTone: 'passive-aggressive' }), deps(mock))).status).toBe(400)
+    expect((await handleRequest(post({}), deps(mock))).status).toBe(400)
+  })
+
+  it('should ask once more when the model output is malformed', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const valid = { suggestions: [{ type: 'clarity', segment: 1, original: 'in order to', suggestion: 'to', explanation: 'Shorter', severity: 'low' }] }
+    const provider: LLMProvider = {
+      name: 'spy',
+      complete: vi.fn()
+        .mockResolvedValueOnce(JSON.stringify({ suggestions: [{ type: 'clarity', original: 'in order to' }] }))
+        .mockResolvedValueOnce(JSON.stringify(valid))
+    }
+
+    const response = await handleRequest(post({ text: 'We met in order to plan.' }), deps(provider))
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).suggestions[0]).toMatchObject({ start: 7, end: 18 })
+    const repair = vi.mocked(provider.complete).mock.calls[1][0].messages
+    expect(repair.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'user'])
+    expect(repair[3].content).toContain('suggestions[0].segment')
+  })
+
+  it.each([
+    ['EMPTY_MODEL_OUTPUT', null],
+    ['MODEL_OUTPUT_NOT_JSON', 'Sure! Here are some suggestions.'],
+    ['MODEL_OUTPUT_INVALID', '{"suggestions":[{"type":"grammar"}]}']
+  ])('should fail with %s when the repair does not help', async (code, content) => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const provider: LLMProvider = { name: 'mock', complete: vi.fn().mockResolvedValue(content) }
+
+    const response = await handleRequest(post({ text: 'Hi.' }), deps(provider))
+
+    expect(response.status).toBe(502)
+    expect((await response.json()).code).toBe(code)
+    expect(provider.complete).toHaveBeenCalledTimes(2)
+  })
+
+  it('should not retry provider failures', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const provider: LLMProvider = { name: 'spy', complete: vi.fn().mockRejectedValue(new Error('quota exceeded')) }
+
+    const response = await handleRequest(post({ text: 'Hi.' }), deps(provider))
+
+    expect(response.status).toBe(502)
+    expect(await response.json()).toMatchObject({ code: 'PROVIDER_ERROR' })
+    expect(provider.complete).toHaveBeenCalledOnce()
+  })
+
+  it('should answer with a structured error while the provider is unusable', async () => {
+    const request = new Request('http://localhost/functions/v1/check-grammar', {
+      method: 'POST',
+      headers: { Origin: 'http://localhost:5173' },
+      body: JSON.stringify({ text: 'Hi there.' })
+    })
+
+    const response = await handleRequest(request, deps(null))
+
+    expect(response.status).toBe(500)
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('http://localhost:5173')
+    expect(await response.json()).toMatchObject({ code: 'PROVIDER_ERROR' })
+  })
+
+  it('should reject a body that is not JSON', async () => {
+    const request = new Request('http://localhost/functions/v1/check-grammar', { method: 'POST', body: 'text=hi' })
+
+    const response = await handleRequest(request, deps(mock))
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).code).toBe('INVALID_REQUEST')
+  })
+})
+
+describe('check-grammar streaming', () => {
+  const readEvents = async (response: Response) =>
+    (await response.text()).trim().split('\n').map(line => JSON.parse(line))
+
+  it('should stream located clarity suggestions as NDJSON', async () => {
+    const response = await handleRequest(post({ text: 'We met in order to plan. Due to the fact that it rained, we left.', stream: true }), deps(new MockProvider(MOCK_FIXTURES, 5)))
+
+    expect(response.headers.get('Content-Type')).toBe('application/x-ndjson')
+    const events = await readEvents(response)
+    expect(events.map(event => event.type)).toEqual(['suggestion', 'suggestion', 'done'])
+    expect(events[0].suggestion).toMatchObject({ original: 'in order to', start: 7, end: 18 })
+    expect(events[1].suggestion).toMatchObject({ original: 'Due to the fact that', start: 25, end: 45 })
+  })
+
+  it('should emit each suggestion before the model has finished', async () => {
+    let release = () => {}
+    const provider: LLMProvider = {
+      name: 'slow',
+      complete: vi.fn(),
+      async *stream() {
+        yield '{"suggestions":[{"type":"clarity","segment":1,"original":"in order to","suggestion":"to","explanation":"Shorter","severity":"low"},'
+        await new Promise<void>(resolve => { release = resolve })
+        yield ']}'
+      }
+    }
+
+    const response = await handleRequest(post({ text: 'We met in order to plan.', stream: true }), deps(provider))
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader()
+
+    const first = await reader.read()
+    expect(JSON.parse(first.value!)).toMatchObject({ type: 'suggestion', suggestion: { start: 7 } })
+    release()
+    await reader.cancel()
+  })
+
+  it('should stream cached results too', async () => {
+    const shared = deps(mock, { cache: memoryCache() })
+    await handleRequest(post({ text: 'We met in order to plan.' }), shared)
+
+    const events = await readEvents(await handleRequest(post({ text: 'We met in order to plan.', stream: true }), shared))
+
+    expect(events).toEqual([{ type: 'suggestion', suggestion: expect.objectContaining({ start: 7 }) }, { type: 'done' }])
+  })
+
+  it('should report a provider failure as an error event', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const provider: LLMProvider = {
+      name: 'broken',
+      complete: vi.fn(),
+      stream: () => ({ [Symbol.asyncIterator]: () => ({ next: () => Promise.reject(new Error('connection reset')) }) })
+    }
+
+    const events = await readEvents(await handleRequest(post({ text: 'Hi there.', stream: true }), deps(provider)))
+
+    expect(events).toEqual([{ type: 'error', error: expect.stringContaining('connection reset'), code: 'PROVIDER_ERROR' }])
+  })
+
+  it('should fall back to a complete answer when the stream is malformed', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const cache = memoryCache()
+    const provider: LLMProvider = {
+      name: 'flaky',
+      complete: vi.fn().mockResolvedValue('{"suggestions":[{"type":"clarity","segment":1,"original":"in order to","suggestion":"to","explanation":"Shorter","severity":"low"}]}'),
+      async *stream() { yield 'Sure! Here are' }
+    }
+
+    const events = await readEvents(await handleRequest(post({ text: 'We met in order to plan.', stream: true }), deps(provider, { cache })))
+
+    expect(events.map(event => event.type)).toEqual(['suggestion', 'done'])
+    expect(cache.entries.size).toBe(1)
+  })
+
+  it('should mark a stream that breaks off after some suggestions as partial and not cache it', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const cache = memoryCache()
+    const provider: LLMProvider = {
+      name: 'flaky',
+      complete: vi.fn(),
+      async *stream() {
+        yield '{"suggestions":[{"type":"clarity","segment":1,"original":"in order to","suggestion":"to","explanation":"Shorter","severity":"low"},'
+        yield 'oops'
+      }
+    }
+
+    const events = await readEvents(await handleRequest(post({ text: 'We met in order to plan.', stream: true }), deps(provider, { cache })))
+
+    expect(events).toEqual([{ type: 'suggestion', suggestion: expect.objectContaining({ start: 7 }) }, { type: 'done', partial: true }])
+    expect(provider.complete).not.toHaveBeenCalled()
+    expect(cache.entries.size).toBe(0)
+  })
+})
+
+describe('check-grammar result cache', () => {
+  const spyProvider = (model = 'm1'): LLMProvider => ({
+    name: 'spy',
+    model,
+    complete: vi.fn().mockResolvedValue(JSON.stringify({
+      suggestions: [{ type: 'clarity', segment: 2, original: 'at this point in time', suggestion: 'now', explanation: 'Shorter', severity: 'low' }]
+    }))
+  })
+
+  it('should answer a repeated paragraph from the cache with rebased offsets', async () => {
+    const provider = spyProvider()
+    const consume = vi.fn().mockResolvedValue({ allowed: true })
+    const shared = deps(provider, { cache: memoryCache(), limiter: { consume } })
+
+    await handleRequest(post({ text: 'Hi. We are busy at this point in time.' }), shared)
+    const response = await handleRequest(post({ text: '  Hi.\nWe are busy at this  point in time.' }), shared)
+
+    expect(provider.complete).toHaveBeenCalledOnce()
+    expect(consume).toHaveBeenCalledOnce()
+    const { suggestions } = await response.json()
+    expect(suggestions).toEqual([expect.objectContaining({ original: 'at this  point in time', start: 18, end: 40 })])
+  })
+
+  it('should not share entries between models', async () => {
+    const cache = memoryCache()
+
+    await handleRequest(post({ text: 'Hi. We are busy at this point in time.' }), deps(spyProvider('m1'), { cache }))
+    const other = spyProvider('m2')
+    await handleRequest(post({ text: 'Hi. We are busy at this point in time.' }), deps(other, { cache }))
+
+    expect(other.complete).toHaveBeenCalledOnce()
+    expect(cache.entries.size).toBe(2)
+  })
+
+  it('should only cache clarity results', async () => {
+    const cache = memoryCache()
+
+    await handleRequest(post({ text: 'Hi. Sorry for the delay.', mode: 'tone' }), deps(mock, { cache }))
+
+    expect(cache.entries.size).toBe(0)
+  })
+
+  it('should still check the text when the cache is down', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const cache: ResultCache = {
+      get: vi.fn().mockRejectedValue(new Error('offline')),
+      set: vi.fn().mockRejectedValue(new Error('offline')),
+    }
+
+    const response = await handleRequest(post({ text: 'We met in order to plan.' }), deps(mock, { cache }))
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).suggestions).toHaveLength(1)
+  })
+})
+
+describe('check-grammar access control', () => {
+  it('should reject callers without a signed-in user before reaching the model', async () => {
+    const provider: LLMProvider = { name: 'spy', complete: vi.fn() }
+
+    const response = await handleRequest(post({ text: 'Hi.' }), deps(provider, { authenticate: async () => null }))
+
+    expect(response.status).toBe(401)
+    expect((await response.json()).code).toBe('UNAUTHORIZED')
+    expect(provider.complete).not.toHaveBeenCalled()
+  })
+
+  it('should charge the caller an estimate of the tokens the call uses', async () => {
+    const consume = vi.fn().mockResolvedValue({ allowed: true })
+
+    await handleRequest(post({ text: 'We met in order to plan.' }), deps(mock, { limiter: { consume } }))
+
+    expect(consume).toHaveBeenCalledWith('user-1', expect.any(Number))
+    expect(consume.mock.calls[0][1]).toBeGreaterThan(Math.ceil('We met in order to plan.'.length / 4))
+  })
+
+  it('should answer 429 with Retry-After when the rate limit is hit', async () => {
+    const provider: LLMProvider = { name: 'spy', complete: vi.fn() }
+    const limiter = { consume: async () => ({ allowed: false, reason: 'rate', retryAfter: 42 }) as const }
+
+    const response = await handleRequest(post({ text: 'Hi.' }), deps(provider, { limiter }))
+
+    expect(response.status).toBe(429)
+    expect(response.headers.get('Retry-After')).toBe('42')
+    expect(await response.json()).toMatchObject({ code: 'RATE_LIMITED', retryAfter: 42 })
+    expect(provider.complete).not.toHaveBeenCalled()
+  })
+
+  it('should report a used-up daily quota', async () => {
+    const limiter = { consume: async () => ({ allowed: false, reason: 'quota', retryAfter: 3600 }) as const }
+
+    const response = await handleRequest(post({ text: 'Hi.' }), deps(mock, { limiter }))
+
+    expect(response.status).toBe(429)
+    expect((await response.json()).code).toBe('QUOTA_EXCEEDED')
+  })
+
+  it('should only allow configured origins', async () => {
+    const preflight = (origin: string) =>
+      new Request('http://localhost/functions/v1/check-grammar', { method: 'OPTIONS', headers: { Origin: origin } })
+
+    const allowed = await handleRequest(preflight('http://localhost:5173'), deps(mock))
+    const other = await handleRequest(preflight('https://evil.example'), deps(mock))
+
+    expect(allowed.headers.get('Access-Control-Allow-Origin')).toBe('http://localhost:5173')
+    expect(other.headers.get('Access-Control-Allow-Origin')).toBeNull()
+  })
+})
+
+describe('createProvider', () => {
+  const env = (values: Record<string, string>) => (name: string) => values[name]
+
+  it('should build the mock provider', async () => {
+    expect((await createProvider(env({ LLM_PROVIDER: 'mock' }))).name).toBe('mock')
+  })
+
+  it('should build an OpenAI-compatible provider that posts to the configured server', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response(JSON.stringify({ choices: [{ message: { content: '{"suggestions":[]}' } }] }))
+    )
+    const provider = await createProvider(env({
+      LLM_PROVIDER: 'openai-compatible',
+      LLM_BASE_URL: 'http://localhost:11434/v1/',
+      LLM_MODEL: 'llama3'
+    }))
+
+    expect(provider).toBeInstanceOf(OpenAICompatibleProvider)
+    const content = await provider.complete({ task: 'clarity', messages: [{ role: 'user', content: 'Hi.' }], temperature: 0.2 })
+
+    expect(content).toBe('{"suggestions":[]}')
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/v1/chat/completions')
+    expect(JSON.parse(fetchMock.mock.calls[0][1]?.body as string).model).toBe('llama3')
+  })
+
+  it('should reject incomplete or unknown configuration', async () => {
+    await expect(createProvider(env({ LLM_PROVIDER: 'openai-compatible' }))).rejects.toThrow('LLM_BASE_URL')
+    await expect(createProvider(env({ LLM_PROVIDER: 'telepathy' }))).rejects.toThrow('Unknown LLM_PROVIDER')
+  })
+
+  it('should load no provider instead of failing at startup when misconfigured', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    await expect(loadProvider(env({ LLM_PROVIDER: 'telepathy' }))).resolves.toBeNull()
+  })
+})
@@ -0,0 +1,457 @@
+import { streamCompletion, type ChatMessage, type LLMProvider, type LLMTask } from "./llm.ts"
+import { formatSegments, resolveSegmentOffsets, splitSegments } from "./segments.ts"
+import { corsHeadersFor, estimateTokens, type Authenticator, type UsageLimiter } from "./guard.ts"
+import { cacheKeyFor, fromCacheEntry, toCacheEntry, type CacheKey, type ResultCache } from "./resultCache.ts"
+import { SuggestionStreamParser } from "./suggestionStream.ts"
+import type { TextSegment } from "./segments.ts"
+import {
+  CLARITY_STREAM_CONTENT_TYPE,
+  SEVERITIES,
+  TARGET_TONES,
+  TONES,
+  validateModelSuggestions,
+  validateToneResponse,
+  type CheckErrorCode,
+  type CheckSuggestion,
+  type ClarityStreamEvent,
+  type ErrorResponse,
+  type ModelSuggestion,
+  type Tone,
+  type ValidationResult,
+} from "../_shared/checkSchema.ts"
+
+// How suggestion prompts refer to the text, see formatSegments
+const SEGMENT_INSTRUCTIONS = `
+            The text is given as numbered segments, one per line: "[1] First sentence."
+            Every suggestion must name the segment it belongs to, and "original" must be copied
+            character for character from that segment. Suggestions that do not match are discarded.
+`
+
+const CLARITY_PROMPT = `
+            You are an expert writing assistant focused on clarity and conciseness.
+            You will be given a text and need to provide suggestions to improve clarity, eliminate wordiness, and enhance readability.
+            
+            IMPORTANT GUIDELINES:
+            1. Focus on COMPLETE SENTENCES or meaningful phrases - don't suggest partial word changes
+            2. Target wordy expressions, redundant phrases, and unclear constructions
+            3. Preserve the original meaning while making the text more direct and clear
+            4. Only suggest changes that significantly improve clarity or conciseness
+            5. Avoid trivial suggestions - focus on meaningful improvements
+            
+            EXAMPLES OF GOOD CLARITY SUGGESTIONS:
+            - "Due to the fact that" → "Because"
+            - "In order to achieve success" → "To succeed"
+            - "It is important to note that" → "Note that" or remove entirely
+            - "At this point in time" → "Now"
+            - "The reason why this happened is because" → "This happened because"
+
+${SEGMENT_INSTRUCTIONS}
+            Respond with a JSON object containing an array of suggestions.
+            Each suggestion should have:
+            - "type": Always "clarity" for this assistant
+            - "segment": The number of the segment that contains "original"
+            - "original": The complete phrase or sentence to replace (minimum 3 words)
+            - "suggestion": The clearer, more concise version
+            - "confidence": How sure you are that the rewrite helps, from 0 to 1
+            - "alternatives": Up to 2 other good rewrites of "original", best first, each with "suggestion" and "confidence" (empty if there are none)
+            - "explanation": Why this change improves clarity (be specific)
+            - "severity": How much the change helps the reader: ${SEVERITIES.join(", ")}
+
+            Example response:
+            {
+              "suggestions": [
+                {
+                  "type": "clarity",
+                  "segment": 1,
+                  "original": "Due to the fact that it is raining",
+                  "suggestion": "Because it is raining",
+                  "confidence": 0.9,
+                  "alternatives": [{ "suggestion": "Since it is raining", "confidence": 0.7 }],
+                  "explanation": "Eliminates wordy phrase 'due to the fact that' with simple 'because'",
+                  "severity": "medium"
+                },
+                {
+                  "type": "clarity",
+                  "segment": 1,
+                  "original": "in order to stay dry",
+                  "suggestion": "to stay dry",
+                  "confidence": 0.8,
+                  "alternatives": [],
+                  "explanation": "Removes unnecessary 'in order' - 'to' is sufficient",
+                  "severity": "low"
+                }
+              ]
+            }
+          `
+
+const TONE_DETECTION_PROMPT = `
+            You are an expert editor who reads the tone of emails.
+            Classify the overall tone of the text as one of: ${TONES.join(", ")}.
+            Then list the sentences that most clearly carry a tone, quoting each sentence EXACTLY as written.
+
+            Respond with a JSON object:
+            {
+              "tone": {
+                "overall": "<one of the tones>",
+                "confidence": <0 to 1>,
+                "sentences": [
+                  { "sentence": "<exact sentence>", "tone": "<one of the tones>", "evidence": "<the words that signal the tone and why>" }
+                ]
+              }
+            }
+          `
+
+const toneRewritePrompt = (targetTone: string) => `
+            You are an expert editor who adjusts the tone of emails without changing their meaning.
+            Rewrite the text so it reads as ${targetTone}. Work sentence by sentence and only include sentences that need to change.
+            Keep names, dates, numbers and commitments exactly as they are.
+${SEGMENT_INSTRUCTIONS}
+            Respond with a JSON object containing an array of suggestions.
+            Each suggestion should have:
+            - "type": Always "tone"
+            - "segment": The number of the segment that contains "original"
+            - "original": The sentence to replace, quoted EXACTLY as written
+            - "suggestion": The rewritten sentence
+            - "explanation": What made the original sound different from ${targetTone}, in one short sentence
+            - "severity": How far the original is from ${targetTone}: ${SEVERITIES.join(", ")}
+
+            Example response:
+            {
+              "suggestions": [
+                {
+                  "type": "tone",
+                  "segment": 2,
+                  "original": "Send me the report now.",
+                  "suggestion": "Could you send me the report when you have a moment?",
+                  "explanation": "The command sounds abrupt; a question reads as friendly.",
+                  "severity": "high"
+                }
+              ]
+            }
+          `
+
+// Malformed replies are retried this many times before the request fails
+const MAX_REPAIRS = 1
+
+const repairPrompt = (problem: string) => `
+            Your previous reply could not be used: ${problem}
+            Reply again with only the corrected JSON object, in the format described above.
+          `
+
+const jsonResponse = (body: unknown, status: number, headers: Record<string, string>) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...headers, "Content-Type": "application/json" },
+  })
+
+interface TaskSpec {
+  task: LLMTask
+  prompt: string
+  validate: (value: unknown) => ValidationResult<unknown>
+}
+
+/**
+ * Pick the task, prompt and output schema for a request: clarity suggestions
+ * (default), tone detection, or a rewrite towards `targetTone`
+ */
+function buildTask(mode: string, targetTone?: string): TaskSpec | null {
+  if (mode === "clarity") {
+    return { task: "clarity", prompt: CLARITY_PROMPT, validate: value => validateModelSuggestions(value, "clarity") }
+  }
+  if (mode !== "tone") return null
+  if (!targetTone) {
+    return { task: "tone-detection", prompt: TONE_DETECTION_PROMPT, validate: validateToneResponse }
+  }
+  if (!TARGET_TONES.includes(targetTone as Tone)) return null
+  return { task: "tone-rewrite", prompt: toneRewritePrompt(targetTone), validate: value => validateModelSuggestions(value, "tone") }
+}
+
+type ModelOutput = { ok: true; value: unknown } | { ok: false; code: CheckErrorCode; message: string }
+
+/**
+ * Parse and validate one reply from the model
+ */
+function parseModelOutput(content: string | null, validate: TaskSpec["validate"]): ModelOutput {
+  if (!content?.trim()) {
+    return { ok: false, code: "EMPTY_MODEL_OUTPUT", message: "the reply was empty" }
+  }
+
+  let value: unknown
+  try {
+    value = JSON.parse(content)
+  } catch {
+    return { ok: false, code: "MODEL_OUTPUT_NOT_JSON", message: "the reply was not valid JSON" }
+  }
+
+  const result = validate(value)
+  if (!result.ok) {
+    return { ok: false, code: "MODEL_OUTPUT_INVALID", message: result.issues.slice(0, 5).join("; ") }
+  }
+  return { ok: true, value: result.value }
+}
+
+/**
+ * Ask the model, and if the reply is malformed ask once more with the problem
+ * spelled out. Provider failures (network, quota) are not retried.
+ */
+async function completeWithRepair(provider: LLMProvider, spec: TaskSpec, messages: ChatMessage[]): Promise<ModelOutput> {
+  let attempt = messages
+
+  for (let tries = 1; ; tries++) {
+    let content: string | null
+    try {
+      content = await provider.complete({ task: spec.task, messages: attempt, temperature: 0.2 })
+    } catch (error) {
+      console.error(`${provider.name} provider failed:`, error)
+      return { ok: false, code: "PROVIDER_ERROR", message: (error as Error).message }
+    }
+
+    const output = parseModelOutput(content, spec.validate)
+    if (output.ok || tries > MAX_REPAIRS) return output
+
+    console.warn(`Malformed ${spec.task} output from ${provider.name}: ${output.message}`)
+    attempt = [
+      ...messages,
+      { role: "assistant", content: content ?? "" },
+      { role: "user", content: repairPrompt(output.message) },
+    ]
+  }
+}
+
+/**
+ * Stream events as newline-delimited JSON, pulling the next one only when the
+ * client has read the previous ones
+ */
+function ndjsonResponse(events: AsyncIterable<ClarityStreamEvent>, headers: Record<string, string>): Response {
+  const encoder = new TextEncoder()
+  const iterator = events[Symbol.asyncIterator]()
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await iterator.next()
+      if (done) controller.close()
+      else controller.enqueue(encoder.encode(JSON.stringify(value) + "\n"))
+    },
+    async cancel() {
+      await iterator.return?.()
+    },
+  })
+
+  return new Response(body, { headers: { ...headers, "Content-Type": CLARITY_STREAM_CONTENT_TYPE } })
+}
+
+/**
+ * Stream located suggestions while the model writes its reply. If the reply
+ * turns out malformed before any suggestion got through, fall back to a
+ * complete answer (with its repair round); after that, end with a partial
+ * "done". `onComplete` receives the full list once the reply was valid.
+ */
+async function* streamSuggestions(
+  provider: LLMProvider,
+  spec: TaskSpec,
+  messages: ChatMessage[],
+  text: string,
+  segments: TextSegment[],
+  onComplete: (suggestions: CheckSuggestion[]) => Promise<void>,
+): AsyncGenerator<ClarityStreamEvent> {
+  const parser = new SuggestionStreamParser()
+  const emitted: CheckSuggestion[] = []
+  let content = ""
+
+  try {
+    for await (const chunk of streamCompletion(provider, { task: spec.task, messages, temperature: 0.2 })) {
+      content += chunk
+      for (const item of parser.push(chunk)) {
+        const validation = spec.validate({ suggestions: [item] })
+        if (!validation.ok) {
+          console.warn(`Skipping malformed ${spec.task} suggestion from ${provider.name}:`, validation.issues)
+          continue
+        }
+        const { suggestions } = validation.value as { suggestions: ModelSuggestion[] }
+        for (const suggestion of resolveSegmentOffsets(text, segments, suggestions)) {
+          emitted.push(suggestion)
+          yield { type: "suggestion", suggestion }
+        }
+      }
+    }
+  } catch (error) {
+    console.error(`${provider.name} provider failed:`, error)
+    yield { type: "error", error: `The ${provider.name} model did not return a usable answer: ${(error as Error).message}`, code: "PROVIDER_ERROR" }
+    return
+  }
+
+  const output = parseModelOutput(content, spec.validate)
+  if (output.ok) {
+    await onComplete(emitted)
+  } else if (emitted.length > 0) {
+    // Keep what was shown, but don't cache a partial answer, and say so to the client
+    console.warn(`Malformed ${spec.task} stream from ${provider.name} after ${emitted.length} suggestions: ${output.message}`)
+    yield { type: "done", partial: true }
+    return
+  } else {
+    console.warn(`Malformed ${spec.task} stream from ${provider.name}: ${output.message}`)
+    const retried = await completeWithRepair(provider, spec, messages)
+    if (!retried.ok) {
+      yield { type: "error", error: `The ${provider.name} model did not return a usable answer: ${retried.message}`, code: retried.code }
+      return
+    }
+    const { suggestions } = retried.value as { suggestions: ModelSuggestion[] }
+    const resolved = resolveSegmentOffsets(text, segments, suggestions)
+    for (const suggestion of resolved) yield { type: "suggestion", suggestion }
+    await onComplete(resolved)
+  }
+
+  yield { type: "done" }
+}
+
+// Cached suggestions, streamed all at once
+async function* replaySuggestions(suggestions: CheckSuggestion[]): AsyncGenerator<ClarityStreamEvent> {
+  for (const suggestion of suggestions) yield { type: "suggestion", suggestion }
+  yield { type: "done" }
+}
+
+// A cache outage must not fail the check, so errors only get logged
+async function readCache(cache: ResultCache, key: CacheKey): Promise<CheckSuggestion[] | null> {
+  try {
+    return await cache.get(key)
+  } catch (error) {
+    console.warn("Result cache read failed:", error)
+    return null
+  }
+}
+
+async function writeCache(cache: ResultCache, key: CacheKey, suggestions: CheckSuggestion[]): Promise<void> {
+  try {
+    await cache.set(key, suggestions)
+  } catch (error) {
+    console.warn("Result cache write failed:", error)
+  }
+}
+
+export interface HandlerDeps {
+  // Null when the configured provider could not be set up (see loadProvider)
+  provider: LLMProvider | null
+  authenticate: Authenticator
+  limiter: UsageLimiter
+  // Clarity results by normalized paragraph and prompt/model version
+  cache: ResultCache
+  // Browser origins allowed to call the function (the app's own URLs)
+  allowedOrigins: string[]
+}
+
+/**
+ * Handle one check-grammar request: only signed-in users within their rate
+ * limit and daily token quota reach the model. Clarity results already in the
+ * cache are returned without a model call and without charging the quota.
+ */
+export async function handleRequest(req: Request, { provider, authenticate, limiter, cache, allowedOrigins }: HandlerDeps): Promise<Response> {
+  const corsHeaders = corsHeadersFor(req, allowedOrigins)
+  const respond = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+    jsonResponse(body, status, { ...corsHeaders, ...headers })
+  const errorResponse = (error: string, code: CheckErrorCode, status: number) =>
+    respond({ error, code } satisfies ErrorResponse, status)
+
+  // This is a preflight OPTIONS request.
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+  if (!provider) {
+    return errorResponse("The check service has no usable model provider", "PROVIDER_ERROR", 500)
+  }
+  // This is how you would invoke the function
+  // fetch('http://localhost:54321/functions/v1/check-grammar', {
+  //   method: 'POST',
+  //   headers: {
+  //     'Content-Type': 'application/json',
+  //     'Authorization': 'Bearer USER_ACCESS_TOKEN'
+  //   },
+  //   body: JSON.stringify({ text: "your text to check" })
+  // })
+  //
+  // Tone: { text, mode: "tone" } classifies the text,
+  //       { text, mode: "tone", targetTone: "friendly" } rewrites it.
+  // Clarity with { stream: true } answers with NDJSON ClarityStreamEvents.
+
+  let userId: string
+  try {
+    const caller = await authenticate(req)
+    if (!caller) {
+      return errorResponse("Sign in to use writing checks", "UNAUTHORIZED", 401)
+    }
+    userId = caller.userId
+  } catch (error) {
+    console.error("Authentication failed:", error)
+    return errorResponse("Could not verify the caller", "INTERNAL_ERROR", 500)
+  }
+
+  let body
+  try {
+    body = await req.json()
+  } catch {
+    return errorResponse("The request body must be JSON", "INVALID_REQUEST", 400)
+  }
+
+  try {
+    const { text, mode = "clarity", targetTone, stream } = body ?? {}
+
+    if (typeof text !== "string" || !text) {
+      return errorResponse("No text provided", "INVALID_REQUEST", 400)
+    }
+
+    const spec = buildTask(mode, targetTone)
+    if (!spec) {
+      return errorResponse(`Unsupported mode or tone: ${mode}${targetTone ? ` / ${targetTone}` : ""}`, "INVALID_REQUEST", 400)
+    }
+
+    const streaming = stream === true && spec.task === "clarity"
+    const cacheKey = spec.task === "clarity" ? await cacheKeyFor(text, spec.prompt, provider) : null
+    const cached = cacheKey && await readCache(cache, cacheKey)
+    if (cached) {
+      const suggestions = fromCacheEntry(text, cached)
+      return streaming ? ndjsonResponse(replaySuggestions(suggestions), corsHeaders) : respond({ suggestions })
+    }
+
+    // Suggestions come back with offsets resolved here, from the segments
+    const segments = spec.task === "tone-detection" ? null : splitSegments(text)
+
+    const messages: ChatMessage[] = [
+      { role: "system", content: spec.prompt },
+      { role: "user", content: segments ? formatSegments(segments) : text },
+    ]
+
+    // Charge the prompt plus an answer about as long as the text
+    const tokens = estimateTokens(messages.map(m => m.content).join("")) + estimateTokens(text)
+    const usage = await limiter.consume(userId, tokens)
+    if (!usage.allowed) {
+      const [code, message] = usage.reason === "rate"
+        ? ["RATE_LIMITED", "Too many checks in a short time"] as const
+        : ["QUOTA_EXCEEDED", "Daily writing check quota used up"] as const
+      return respond(
+        { error: message, code, retryAfter: usage.retryAfter } satisfies ErrorResponse,
+        429,
+        { "Retry-After": String(usage.retryAfter) },
+      )
+    }
+
+    if (streaming && segments) {
+      const events = streamSuggestions(provider, spec, messages, text, segments, async suggestions => {
+        if (cacheKey) await writeCache(cache, cacheKey, toCacheEntry(text, suggestions))
+      })
+      return ndjsonResponse(events, corsHeaders)
+    }
+
+    const output = await completeWithRepair(provider, spec, messages)
+    if (!output.ok) {
+      return errorResponse(`The ${provider.name} model did not return a usable answer: ${output.message}`, output.code, 502)
+    }
+
+    if (!segments) return respond(output.value)
+    const { suggestions } = output.value as { suggestions: ModelSuggestion[] }
+    const resolved = resolveSegmentOffsets(text, segments, suggestions)
+    if (cacheKey) await writeCache(cache, cacheKey, toCacheEntry(text, resolved))
+    return respond({ suggestions: resolved })
+  } catch (error) {
+    console.error(error);
+    return errorResponse((error as Error).message, "INTERNAL_ERROR", 500)
+  }
+}
@@ -0,0 +1,155 @@
+// Provider-agnostic access to the language model behind check-grammar.
+// Nothing in here touches Deno globals, so it can also run under Node (tests).
+
+export type LLMTask = "clarity" | "tone-detection" | "tone-rewrite"
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant"
+  content: string
+}
+
+export interface CompletionRequest {
+  // What the prompt asks for; providers that call a real model ignore it
+  task: LLMTask
+  messages: ChatMessage[]
+  temperature: number
+}
+
+/**
+ * A chat model that answers with a JSON object. `complete` resolves to the raw
+ * response content, or null when the model returned nothing. `stream`, where
+ * supported, yields the same content piece by piece as the model writes it.
+ */
+export interface LLMProvider {
+  name: string
+  // Model identifier, part of the result cache version
+  model?: string
+  complete(request: CompletionRequest): Promise<string | null>
+  stream?(request: CompletionRequest): AsyncIterable<string>
+}
+
+/**
+ * Stream a completion, or deliver it in one piece from providers that cannot
+ * stream
+ */
+export async function* streamCompletion(provider: LLMProvider, request: CompletionRequest): AsyncGenerator<string> {
+  if (provider.stream) {
+    yield* provider.stream(request)
+    return
+  }
+  const content = await provider.complete(request)
+  if (content) yield content
+}
+
+/**
+ * Content deltas from an OpenAI-style server-sent event stream
+ */
+async function* readChatStream(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ""
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) return
+      buffer += value
+
+      const lines = buffer.split("\n")
+      buffer = lines.pop() ?? ""
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, "")
+        if (!line.startsWith("data:") || data === "[DONE]") continue
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content
+        if (delta) yield delta
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Any server that speaks the OpenAI chat completions API: a self-hosted model
+ * (Ollama, vLLM, llama.cpp) or another vendor's compatible endpoint.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  name = "openai-compatible"
+
+  constructor(
+    private baseUrl: string,
+    readonly model: string,
+    private apiKey?: string,
+  ) {}
+
+  async complete(request: CompletionRequest): Promise<string | null> {
+    const response = await this.post(request, false)
+    const data = await response.json()
+    return data.choices?.[0]?.message?.content ?? null
+  }
+
+  async *stream(request: CompletionRequest): AsyncGenerator<string> {
+    const response = await this.post(request, true)
+    if (!response.body) throw new Error("LLM server sent no stream")
+    yield* readChatStream(response.body)
+  }
+
+  private async post({ messages, temperature }: CompletionRequest, stream: boolean): Promise<Response> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" }
+    if (this.apiKey) headers["Authorization"] = `Bearer ${this.apiKey}`
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+        temperature,
+        stream,
+        response_format: { type: "json_object" },
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`LLM server error: ${response.status} ${response.statusText}`)
+    }
+    return response
+  }
+}
+
+/**
+ * A canned answer for the mock provider. A fixture applies when its task
+ * matches and, if `input` is set, the user text is exactly `input`.
+ */
+export interface MockFixture {
+  task: LLMTask
+  input?: string
+  response: unknown | ((text: string) => unknown)
+}
+
+/**
+ * Deterministic, offline provider that answers from fixtures, for CI and local
+ * development without a model
+ */
+export class MockProvider implements LLMProvider {
+  name = "mock"
+  model = "fixtures"
+
+  // `chunkSize` is how many characters each streamed piece carries
+  constructor(private fixtures: MockFixture[], private chunkSize = 24) {}
+
+  async *stream(request: CompletionRequest): AsyncGenerator<string> {
+    const content = await this.complete(request) ?? ""
+    for (let i = 0; i < content.length; i += this.chunkSize) {
+      yield content.slice(i, i + this.chunkSize)
+    }
+  }
+
+  complete({ task, messages }: CompletionRequest): Promise<string | null> {
+    const text = messages.find(message => message.role === "user")?.content ?? ""
+    const fixture = this.fixtures.find(f => f.task === task && (f.input === undefined || f.input === text))
+    if (!fixture) return Promise.resolve(null)
+
+    const response = typeof fixture.response === "function" ? fixture.response(text) : fixture.response
+    return Promise.resolve(JSON.stringify(response))
+  }
+}
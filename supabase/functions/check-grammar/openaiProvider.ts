@@ -0,0 +1,37 @@
+import { OpenAI } from "https://esm.sh/openai@4.10.0"
+import type { CompletionRequest, LLMProvider } from "./llm.ts"
+
+export class OpenAIProvider implements LLMProvider {
+  name = "openai"
+  private client: OpenAI
+
+  constructor(apiKey: string | undefined, readonly model: string) {
+    this.client = new OpenAI({ apiKey })
+  }
+
+  async complete({ messages, temperature }: CompletionRequest): Promise<string | null> {
+    const completion = await this.client.chat.completions.create({
+      messages,
+      model: this.model,
+      temperature,
+      response_format: { type: "json_object" },
+    })
+
+    return completion.choices[0].message.content
+  }
+
+  async *stream({ messages, temperature }: CompletionRequest): AsyncGenerator<string> {
+    const stream = await this.client.chat.completions.create({
+      messages,
+      model: this.model,
+      temperature,
+      stream: true,
+      response_format: { type: "json_object" },
+    })
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content
+      if (delta) yield delta
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { MockProvider, OpenAICompatibleProvider, type LLMProvider } from "./llm.ts"
+import { MOCK_FIXTURES } from "./fixtures.ts"
+
+export type EnvReader = (name: string) => string | undefined
+
+const DEFAULT_OPENAI_MODEL = "gpt-4o-mini"
+
+/**
+ * Pick the provider from the environment:
+ *
+ *   LLM_PROVIDER=openai (default)   OPENAI_API_KEY, optional LLM_MODEL
+ *   LLM_PROVIDER=openai-compatible  LLM_BASE_URL, LLM_MODEL, optional LLM_API_KEY
+ *   LLM_PROVIDER=mock               built-in fixtures, no network
+ */
+export async function createProvider(env: EnvReader): Promise<LLMProvider> {
+  const kind = env("LLM_PROVIDER") ?? "openai"
+
+  switch (kind) {
+    case "openai": {
+      // Loaded on demand so the other providers don't pull in the SDK
+      const { OpenAIProvider } = await import("./openaiProvider.ts")
+      return new OpenAIProvider(env("OPENAI_API_KEY"), env("LLM_MODEL") ?? DEFAULT_OPENAI_MODEL)
+    }
+    case "openai-compatible": {
+      const baseUrl = env("LLM_BASE_URL")
+      const model = env("LLM_MODEL")
+      if (!baseUrl || !model) {
+        throw new Error("LLM_PROVIDER=openai-compatible needs LLM_BASE_URL and LLM_MODEL")
+      }
+      return new OpenAICompatibleProvider(baseUrl, model, env("LLM_API_KEY"))
+    }
+    case "mock":
+      return new MockProvider(MOCK_FIXTURES)
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${kind}`)
+  }
+}
+
+/**
+ * createProvider for the function's startup: a configuration error is logged
+ * and gives null, so requests get a PROVIDER_ERROR instead of the isolate dying
+ */
+export const loadProvider = (env: EnvReader): Promise<LLMProvider | null> =>
+  createProvider(env).catch(error => {
+    console.error("❌ No usable LLM provider, checks will fail:", error)
+    return null
+  })
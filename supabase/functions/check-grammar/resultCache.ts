@@ -0,0 +1,62 @@
+// Content-addressed cache of clarity results. The Supabase-backed store lives
+// in supabaseCache.ts; everything here is runtime-agnostic.
+
+import type { LLMProvider } from "./llm.ts"
+import { normalizeText, toNormalizedSpan, toOriginalSpan } from "../_shared/normalizedText.ts"
+import type { CheckSuggestion } from "../_shared/checkSchema.ts"
+
+/**
+ * Identifies one cached result: the normalized paragraph, and the prompt and
+ * model that produced the suggestions
+ */
+export interface CacheKey {
+  textHash: string
+  version: string
+}
+
+/**
+ * Suggestions are stored with spans in the normalized text, see toCacheEntry
+ */
+export interface ResultCache {
+  get(key: CacheKey): Promise<CheckSuggestion[] | null>
+  set(key: CacheKey, suggestions: CheckSuggestion[]): Promise<void>
+}
+
+const sha256Hex = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("")
+}
+
+/**
+ * Cache key for a text. Changing the prompt or switching provider or model
+ * changes the version, so stale suggestions are never served.
+ */
+export async function cacheKeyFor(text: string, prompt: string, provider: LLMProvider): Promise<CacheKey> {
+  const [textHash, version] = await Promise.all([
+    sha256Hex(normalizeText(text).text),
+    sha256Hex(`${provider.name}\n${provider.model ?? ""}\n${prompt}`),
+  ])
+  return { textHash, version: version.slice(0, 16) }
+}
+
+/**
+ * Move suggestions for `text` into normalized coordinates for storage
+ */
+export function toCacheEntry(text: string, suggestions: CheckSuggestion[]): CheckSuggestion[] {
+  const normalized = normalizeText(text)
+  return suggestions.map(suggestion => ({ ...suggestion, ...toNormalizedSpan(normalized, suggestion) }))
+}
+
+/**
+ * Rebase cached suggestions onto `text`, which may differ from the text they
+ * were made for in whitespace only
+ */
+export function fromCacheEntry(text: string, suggestions: CheckSuggestion[]): CheckSuggestion[] {
+  const normalized = normalizeText(text)
+  return suggestions
+    .filter(suggestion => suggestion.end <= normalized.text.length)
+    .map(suggestion => {
+      const span = toOriginalSpan(normalized, suggestion)
+      return { ...suggestion, ...span, original: text.slice(span.start, span.end) }
+    })
+}
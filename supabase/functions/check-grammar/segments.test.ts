@@ -0,0 +1,55 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest'
+import { formatSegments, resolveSegmentOffsets, splitSegments } from './segments.ts'
+
+describe('splitSegments', () => {
+  it('should split sentences and lines with their offsets', () => {
+    const text = 'Hi Sam,\n\nThe report is late. Can you help?  Thanks!'
+    const segments = splitSegments(text)
+
+    expect(segments.map(s => s.text)).toEqual(['Hi Sam,', 'The report is late.', 'Can you help?', 'Thanks!'])
+    segments.forEach(segment => {
+      expect(text.slice(segment.start, segment.end)).toBe(segment.text)
+    })
+    expect(segments.map(s => s.id)).toEqual([1, 2, 3, 4])
+  })
+
+  it('should keep closing quotes with their sentence', () => {
+    expect(splitSegments('She said "no." Then left.').map(s => s.text)).toEqual(['She said "no."', 'Then left.'])
+  })
+
+  it('should format one numbered segment per line', () => {
+    expect(formatSegments(splitSegments('One. Two.'))).toBe('[1] One.\n[2] Two.')
+  })
+})
+
+describe('resolveSegmentOffsets', () => {
+  const text = 'We met in order to talk. Then we left in order to eat.'
+  const segments = splitSegments(text)
+  const suggestion = { type: 'clarity' as const, segment: 1, original: 'in order to', suggestion: 'to', explanation: 'Shorter', severity: 'low' as const }
+
+  it('should place the snippet inside the referenced segment', () => {
+    const [first] = resolveSegmentOffsets(text, segments, [{ ...suggestion, segment: 2 }])
+
+    expect(first).toMatchObject({ segment: 2, start: 38, end: 49 })
+  })
+
+  it('should reject snippets that are not in their segment', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    expect(resolveSegmentOffsets(text, segments, [
+      { ...suggestion, segment: 3 },
+      { ...suggestion, segment: 1, original: 'In order to' },
+      { ...suggestion, segment: 1, original: 'we left' }
+    ])).toEqual([])
+  })
+
+  it('should allow snippets that run into the next segment', () => {
+    const abbreviated = 'Bring snacks, e.g. fruit or nuts.'
+    const [first] = resolveSegmentOffsets(abbreviated, splitSegments(abbreviated), [
+      { ...suggestion, segment: 1, original: 'e.g. fruit' }
+    ])
+
+    expect(first).toMatchObject({ start: 14, end: 24 })
+  })
+})
@@ -0,0 +1,59 @@
+// Sentence segments the model refers to by ID, so that the function (not the
+// client) decides where each suggestion sits in the text.
+
+import type { CheckSuggestion, ModelSuggestion } from "../_shared/checkSchema.ts"
+
+export interface TextSegment {
+  id: number
+  start: number
+  end: number
+  text: string
+}
+
+/**
+ * Split text into sentences (and lines), numbered from 1, with their offsets
+ */
+export function splitSegments(text: string): TextSegment[] {
+  const segments: TextSegment[] = []
+  const regex = /[^.!?\n]+(?:[.!?]+["')\]]*)?|[.!?]+/g
+  let match
+
+  while ((match = regex.exec(text)) !== null) {
+    const leading = match[0].length - match[0].trimStart().length
+    const trimmed = match[0].trim()
+    if (!trimmed) continue
+
+    const start = match.index + leading
+    segments.push({ id: segments.length + 1, start, end: start + trimmed.length, text: trimmed })
+  }
+
+  return segments
+}
+
+/**
+ * The user message sent to the model: one "[id] sentence" per line
+ */
+export const formatSegments = (segments: TextSegment[]): string =>
+  segments.map(segment => `[${segment.id}] ${segment.text}`).join("\n")
+
+/**
+ * Attach exact `start`/`end` offsets to the model's suggestions. A suggestion
+ * is dropped when its segment does not exist or its `original` is not copied
+ * verbatim from text starting inside that segment (it may run on into the
+ * next one when the segmenter split a sentence at an abbreviation).
+ */
+export function resolveSegmentOffsets(text: string, segments: TextSegment[], suggestions: ModelSuggestion[]): CheckSuggestion[] {
+  const resolved: CheckSuggestion[] = []
+  for (const suggestion of suggestions) {
+    const segment = segments.find(s => s.id === suggestion.segment)
+    const start = segment ? text.indexOf(suggestion.original, segment.start) : -1
+    if (!segment || start === -1 || start >= segment.end) {
+      console.warn("Rejected suggestion that does not match its segment:", suggestion)
+      continue
+    }
+
+    resolved.push({ ...suggestion, start, end: start + suggestion.original.length })
+  }
+
+  return resolved
+}
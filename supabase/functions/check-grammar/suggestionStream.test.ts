@@ -0,0 +1,28 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import { SuggestionStreamParser } from './suggestionStream.ts'
+
+describe('SuggestionStreamParser', () => {
+  const reply = JSON.stringify({
+    suggestions: [
+      { type: 'clarity', segment: 1, original: 'a "quoted" {brace}', suggestion: 'b', explanation: 'x', severity: 'low' },
+      { type: 'clarity', segment: 2, original: 'c', suggestion: 'd', explanation: 'y\\z', severity: 'high' }
+    ]
+  })
+
+  it('should emit each suggestion as soon as it is complete', () => {
+    const parser = new SuggestionStreamParser()
+    const firstEnd = reply.indexOf('"low"}') + '"low"}'.length
+
+    expect(parser.push(reply.slice(0, firstEnd - 1))).toEqual([])
+    expect(parser.push(reply.slice(firstEnd - 1, firstEnd))).toEqual([expect.objectContaining({ original: 'a "quoted" {brace}' })])
+    expect(parser.push(reply.slice(firstEnd))).toEqual([expect.objectContaining({ explanation: 'y\\z' })])
+  })
+
+  it('should give the same result for any chunking', () => {
+    const parser = new SuggestionStreamParser()
+    const items = [...reply].flatMap(char => parser.push(char))
+
+    expect(items).toEqual(JSON.parse(reply).suggestions)
+  })
+})
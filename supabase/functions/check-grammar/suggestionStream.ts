@@ -0,0 +1,48 @@
+/**
+ * Picks complete suggestion objects out of a `{"suggestions": [...]}` reply
+ * while the model is still writing it. Feed it content pieces in order; each
+ * call returns the suggestions whose closing brace arrived with that piece.
+ * The objects are parsed but not validated.
+ */
+export class SuggestionStreamParser {
+  // Nesting of objects and arrays: the reply is 1, its array 2, suggestions 3
+  private depth = 0
+  private inString = false
+  private escaped = false
+  // Text of the suggestion being written, from its opening brace
+  private current: string | null = null
+
+  push(chunk: string): unknown[] {
+    const items: unknown[] = []
+
+    for (const char of chunk) {
+      if (this.current !== null) this.current += char
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false
+        else if (char === "\\") this.escaped = true
+        else if (char === '"') this.inString = false
+        continue
+      }
+
+      if (char === '"') {
+        this.inString = true
+      } else if (char === "{" || char === "[") {
+        this.depth++
+        if (char === "{" && this.depth === 3) this.current = char
+      } else if (char === "}" || char === "]") {
+        if (char === "}" && this.depth === 3 && this.current !== null) {
+          try {
+            items.push(JSON.parse(this.current))
+          } catch {
+            // Not valid JSON after all; the full reply will fail validation too
+          }
+          this.current = null
+        }
+        this.depth--
+      }
+    }
+
+    return items
+  }
+}
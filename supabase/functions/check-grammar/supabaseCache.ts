@@ -0,0 +1,33 @@
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2"
+import type { ResultCache } from "./resultCache.ts"
+import type { CheckSuggestion } from "../_shared/checkSchema.ts"
+
+// Entries older than this are ignored and overwritten on the next check
+const MAX_AGE_DAYS = 30
+
+/**
+ * Result cache in the check_cache table (see the create_check_cache migration)
+ */
+export function createSupabaseCache(admin: SupabaseClient): ResultCache {
+  return {
+    get: async ({ textHash, version }) => {
+      const { data, error } = await admin
+        .from("check_cache")
+        .select("suggestions")
+        .eq("text_hash", textHash)
+        .eq("version", version)
+        .gte("created_at", new Date(Date.now() - MAX_AGE_DAYS * 86_400_000).toISOString())
+        .maybeSingle()
+      if (error) throw new Error(`Cache read failed: ${error.message}`)
+
+      return (data?.suggestions as CheckSuggestion[] | undefined) ?? null
+    },
+
+    set: async ({ textHash, version }, suggestions) => {
+      const { error } = await admin
+        .from("check_cache")
+        .upsert({ text_hash: textHash, version, suggestions, created_at: new Date().toISOString() })
+      if (error) throw new Error(`Cache write failed: ${error.message}`)
+    },
+  }
+}
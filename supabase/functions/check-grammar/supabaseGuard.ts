@@ -0,0 +1,63 @@
+import { createClient, type SupabaseClient } from "jsr:@supabase/supabase-js@2"
+import type { Authenticator, UsageLimiter } from "./guard.ts"
+import type { EnvReader } from "./providers.ts"
+
+const DEFAULT_REQUESTS_PER_MINUTE = 20
+const DEFAULT_DAILY_TOKENS = 100_000
+
+const readLimit = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback
+}
+
+/**
+ * Service-role client for the function's own tables (usage, quotas, cache)
+ */
+export function createAdminClient(env: EnvReader): SupabaseClient {
+  const url = env("SUPABASE_URL")
+  const serviceRoleKey = env("SUPABASE_SERVICE_ROLE_KEY")
+  if (!url || !serviceRoleKey) {
+    throw new Error("check-grammar needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY")
+  }
+
+  return createClient(url, serviceRoleKey, { auth: { persistSession: false } })
+}
+
+/**
+ * Authentication against Supabase Auth and limits stored in Postgres (see the
+ * consume_check_quota migration). Defaults come from CHECK_REQUESTS_PER_MINUTE
+ * and CHECK_DAILY_TOKENS; rows in check_quotas override them per user.
+ */
+export function createSupabaseGuard(admin: SupabaseClient, env: EnvReader): { authenticate: Authenticator; limiter: UsageLimiter } {
+  const requestsPerMinute = readLimit(env("CHECK_REQUESTS_PER_MINUTE"), DEFAULT_REQUESTS_PER_MINUTE)
+  const dailyTokens = readLimit(env("CHECK_DAILY_TOKENS"), DEFAULT_DAILY_TOKENS)
+
+  return {
+    // The anon key is a valid JWT too, but it has no user behind it
+    authenticate: async (req) => {
+      const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "")
+      if (!token) return null
+
+      const { data, error } = await admin.auth.getUser(token)
+      if (error || !data.user) return null
+      return { userId: data.user.id }
+    },
+
+    limiter: {
+      consume: async (userId, tokens) => {
+        const { data, error } = await admin.rpc("consume_check_quota", {
+          p_user_id: userId,
+          p_tokens: tokens,
+          p_requests_per_minute: requestsPerMinute,
+          p_daily_tokens: dailyTokens,
+        })
+        if (error) throw new Error(`Usage check failed: ${error.message}`)
+
+        const [decision] = data as { allowed: boolean; reason: "rate" | "quota" | null; retry_after: number }[]
+        return decision.allowed
+          ? { allowed: true }
+          : { allowed: false, reason: decision.reason ?? "rate", retryAfter: decision.retry_after }
+      },
+    },
+  }
+}
@@ -0,0 +1,26 @@
+-- Personal spell-check dictionary and ignore list, one row per word per user
+create table if not exists public.user_dictionary_entries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  word text not null check (char_length(word) between 1 and 64),
+  kind text not null check (kind in ('dictionary', 'ignore')),
+  created_at timestamptz not null default now(),
+  unique (user_id, word, kind)
+);
+
+create index if not exists user_dictionary_entries_user_id_idx
+  on public.user_dictionary_entries (user_id);
+
+alter table public.user_dictionary_entries enable row level security;
+
+create policy "Users can read their own dictionary entries"
+  on public.user_dictionary_entries for select
+  using (auth.uid() = user_id);
+
+create policy "Users can add their own dictionary entries"
+  on public.user_dictionary_entries for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own dictionary entries"
+  on public.user_dictionary_entries for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,4 @@
+-- Spell-check language of each draft (BCP 47 tag such as en-US or de-DE)
+alter table public.drafts
+  add column if not exists language text not null default 'en-US'
+  check (language ~ '^[a-z]{2}-[A-Z]{2}$');
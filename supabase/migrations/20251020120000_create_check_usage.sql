@@ -0,0 +1,102 @@
+-- Calls to the check-grammar function, for per-user rate limits and daily token quotas
+create table if not exists public.check_usage (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  tokens integer not null check (tokens >= 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists check_usage_user_id_created_at_idx
+  on public.check_usage (user_id, created_at desc);
+
+alter table public.check_usage enable row level security;
+
+-- Rows are only written by the function (service role), through consume_check_quota
+create policy "Users can read their own check usage"
+  on public.check_usage for select
+  using (auth.uid() = user_id);
+
+-- Per-user overrides of the function's default limits (null keeps the default)
+create table if not exists public.check_quotas (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  requests_per_minute integer check (requests_per_minute > 0),
+  daily_tokens integer check (daily_tokens > 0)
+);
+
+alter table public.check_quotas enable row level security;
+
+create policy "Users can read their own check quotas"
+  on public.check_quotas for select
+  using (auth.uid() = user_id);
+
+-- Record a call if the user is within both limits. Otherwise nothing is recorded
+-- and `retry_after` says how many seconds until the call would be allowed:
+-- until the oldest call in the last minute expires, or until midnight UTC.
+create or replace function public.consume_check_quota(
+  p_user_id uuid,
+  p_tokens integer,
+  p_requests_per_minute integer,
+  p_daily_tokens integer
+)
+returns table (allowed boolean, reason text, retry_after integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_requests_per_minute integer;
+  v_daily_tokens integer;
+  v_recent integer;
+  v_expires timestamptz;
+  v_used bigint;
+  v_day_start timestamptz := date_trunc('day', now() at time zone 'utc') at time zone 'utc';
+begin
+  -- One call at a time per user, so concurrent calls cannot both take the last slot
+  perform pg_advisory_xact_lock(hashtext('check_usage:' || p_user_id::text));
+
+  select q.requests_per_minute, q.daily_tokens
+    into v_requests_per_minute, v_daily_tokens
+    from public.check_quotas q
+    where q.user_id = p_user_id;
+
+  -- Without an override row (or with null columns) the function's defaults apply
+  v_requests_per_minute := coalesce(v_requests_per_minute, p_requests_per_minute);
+  v_daily_tokens := coalesce(v_daily_tokens, p_daily_tokens);
+
+  -- Usage older than the current day is never read again
+  delete from public.check_usage
+    where user_id = p_user_id and created_at < v_day_start - interval '1 minute';
+
+  select count(*) into v_recent
+    from public.check_usage
+    where user_id = p_user_id and created_at > now() - interval '1 minute';
+
+  if v_recent >= v_requests_per_minute then
+    select created_at + interval '1 minute' into v_expires
+      from public.check_usage
+      where user_id = p_user_id and created_at > now() - interval '1 minute'
+      order by created_at
+      offset v_recent - v_requests_per_minute
+      limit 1;
+
+    return query select false, 'rate'::text, greatest(1, ceil(extract(epoch from v_expires - now()))::integer);
+    return;
+  end if;
+
+  select coalesce(sum(tokens), 0) into v_used
+    from public.check_usage
+    where user_id = p_user_id and created_at >= v_day_start;
+
+  if v_used + p_tokens > v_daily_tokens then
+    return query select false, 'quota'::text,
+      greatest(1, ceil(extract(epoch from v_day_start + interval '1 day' - now()))::integer);
+    return;
+  end if;
+
+  insert into public.check_usage (user_id, tokens) values (p_user_id, p_tokens);
+  return query select true, null::text, 0;
+end;
+$$;
+
+-- Only the function may spend quota
+revoke execute on function public.consume_check_quota(uuid, integer, integer, integer) from public, anon, authenticated;
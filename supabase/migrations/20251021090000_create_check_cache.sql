@@ -0,0 +1,18 @@
+-- Clarity results of the check-grammar function, content-addressed: the SHA-256
+-- of the whitespace-normalized paragraph, plus a hash of the prompt, provider
+-- and model that produced them. Spans in `suggestions` refer to the normalized
+-- paragraph, so any paragraph that normalizes to it can reuse the entry.
+create table if not exists public.check_cache (
+  text_hash text not null,
+  version text not null,
+  suggestions jsonb not null,
+  created_at timestamptz not null default now(),
+  primary key (text_hash, version)
+);
+
+create index if not exists check_cache_created_at_idx
+  on public.check_cache (created_at);
+
+-- Only the function (service role) reads and writes the cache: entries quote
+-- other users' text, so no policies are granted to clients
+alter table public.check_cache enable row level security;
@@ -0,0 +1,27 @@
+-- Suggestions dismissed or snoozed in a draft: [{ "rule": ..., "text": ..., "until"?: ms }]
+alter table public.drafts
+  add column if not exists ignored_issues jsonb not null default '[]'::jsonb
+  check (jsonb_typeof(ignored_issues) = 'array');
+
+-- Rules a user never wants to see suggestions from, in any draft
+create table if not exists public.muted_rules (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  rule text not null check (char_length(rule) between 1 and 64),
+  created_at timestamptz not null default now(),
+  unique (user_id, rule)
+);
+
+alter table public.muted_rules enable row level security;
+
+create policy "Users can read their own muted rules"
+  on public.muted_rules for select
+  using (auth.uid() = user_id);
+
+create policy "Users can add their own muted rules"
+  on public.muted_rules for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own muted rules"
+  on public.muted_rules for delete
+  using (auth.uid() = user_id);
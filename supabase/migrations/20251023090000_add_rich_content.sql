@@ -0,0 +1,9 @@
+-- Formatted body of a draft (see src/services/richDocument.ts). `content` keeps
+-- the plain text, which the checkers and suggestion offsets are based on.
+alter table public.drafts
+  add column if not exists rich_content jsonb
+  check (rich_content is null or jsonb_typeof(rich_content -> 'blocks') = 'array');
+
+-- HTML body of a sent message, rendered from the draft's rich content
+alter table public.sent_messages
+  add column if not exists content_html text;
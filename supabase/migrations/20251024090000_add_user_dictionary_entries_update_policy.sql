@@ -0,0 +1,6 @@
+-- Saving a word that is already there is an upsert (ON CONFLICT DO UPDATE),
+-- which row level security checks against an update policy
+create policy "Users can update their own dictionary entries"
+  on public.user_dictionary_entries for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
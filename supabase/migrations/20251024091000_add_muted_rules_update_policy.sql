@@ -0,0 +1,6 @@
+-- Muting a rule that is already muted is an upsert (ON CONFLICT DO UPDATE),
+-- which row level security checks against an update policy
+create policy "Users can update their own muted rules"
+  on public.muted_rules for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);